@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useRef, useMemo } from 'react';
+import React, { useState, useCallback, useRef, useMemo, useEffect } from 'react';
 import {
   ReactFlow,
   Controls,
@@ -7,26 +7,73 @@ import {
   useNodesState,
   useEdgesState,
   addEdge,
+  applyNodeChanges,
   Panel,
   useReactFlow,
   ReactFlowProvider,
   type Connection,
   type Node,
   type Edge,
+  type NodeChange,
+  type EdgeChange,
+  type OnDelete,
+  type OnNodeDrag,
+  type XYPosition,
 } from '@xyflow/react';
 import '@xyflow/react/dist/style.css';
 
 import GSNodeComponent from './components/GSNodeComponent';
+import AdfInspector from './components/AdfInspector';
+import ProblemsPanel from './components/ProblemsPanel';
+import HistoryPanel from './components/HistoryPanel';
+import NodePalette from './components/NodePalette';
+import DiffPanel, { DIFF_COLORS } from './components/DiffPanel';
+import GhostNode from './components/GhostNode';
+import MergePanel, { CONFLICT_COLOR } from './components/MergePanel';
+import DictionaryPanel from './components/DictionaryPanel';
+import CrackPanel from './components/CrackPanel';
+import { NodeEditContext, type NodeEditApi } from './components/NodeEditContext';
 import { parseGsrc } from './parser/gsrc-parser';
-import { gsrcToFlow, type NodeData } from './utils/gsrc-to-flow';
-import type { GSrcFile } from './types/graphscript';
+import { writeGsrc } from './parser/gsrc-writer';
+import { stringifyGsrcJson, parseGsrcJson } from './parser/gsrc-json';
+import { decompileGsrc } from './script/decompiler';
+import { compileScript } from './script/compiler';
+import { gsrcToFlow, toFlowNode, relabelHash, type NodeData } from './utils/gsrc-to-flow';
+import { flowToGsrc, isVariableEdge } from './utils/flow-to-gsrc';
+import { downloadBlob } from './utils/download';
+import { convertGsrcEndianness } from './utils/endian';
+import { learnNodeSchemas, mergeNodeSchemas, createNode, defaultRootName, type NodeSchemas } from './utils/node-schema';
+import { parseSchemaCatalog } from './utils/schema-catalog';
+import { validateGraph } from './lint/validator';
+import { diffGraphs } from './diff/graph-diff';
+import { mergeGraphs, type MergeConflict, type MergeSide } from './diff/graph-merge';
+import { formatDiagnostic } from './parser/diagnostics';
+import { KNOWN_HASHES, setHashDictionary, removeHashDictionary, pinHashName, type HashContext, type HashDictionary, type HashNamespace } from './utils/hash';
+import { parseStringList, stringifyStringList, collectFileHashes, fetchBundledDictionaries, userHashDictionary, type UserDictionary } from './utils/hash-dictionary';
+import { listDictionaries, saveDictionary, deleteDictionary, listHashPins, saveHashPin, deleteHashPin } from './utils/dictionary-store';
+import { collectUnresolvedHashes, type CrackHit, type HashKind } from './utils/hash-crack';
+import { GlobalDataAllocator } from './utils/data-allocator';
+import { EditHistory, moveNodes, insertEdge, connectLabel, removeElements, setParameter, writeGlobalData, placeNode, type EditCommand, type FlowState } from './utils/edit-history';
+import type { GSrcFile, GSConnection, Diagnostic } from './types/graphscript';
 
-const nodeTypes = { gsNode: GSNodeComponent as any };
+const nodeTypes = { gsNode: GSNodeComponent as any, gsGhost: GhostNode as any };
 
 const defaultEdgeOptionsBase = {
   style: { strokeWidth: 2 },
 };
 
+const toolbarButtonStyle: React.CSSProperties = {
+  background: '#1A1A1A',
+  color: '#E0E0E0',
+  border: '1px solid #333',
+  borderRadius: 4,
+  padding: '5px 10px',
+  fontSize: 10,
+  cursor: 'pointer',
+  fontFamily: 'inherit',
+  transition: 'border-color 0.2s',
+};
+
 interface SelectedEdgeInfo {
   edgeId: string;
   sourceId: string;
@@ -36,10 +83,22 @@ interface SelectedEdgeInfo {
   isVariable: boolean;
 }
 
+interface MergeState {
+  ours: GSrcFile;
+  base?: { name: string; file: GSrcFile };
+  theirs?: { name: string; file: GSrcFile };
+  resolutions: Record<string, MergeSide>;
+  conflicts: MergeConflict[] | null;   // Null until base and theirs are picked
+}
+
 function FlowEditor() {
   const [nodes, setNodes, onNodesChange] = useNodesState<Node>([]);
   const [edges, setEdges, onEdgesChange] = useEdgesState<Edge>([]);
   const [gsrcFile, setGsrcFile] = useState<GSrcFile | null>(null);
+  // The file with every edit applied; what Save and the exports write
+  const [model, setModel] = useState<GSrcFile | null>(null);
+  // Global data blob with edits applied (variable values are edited in place)
+  const [globalData, setGlobalData] = useState<Uint8Array>(new Uint8Array(0));
   const [fileName, setFileName] = useState<string>('');
   const [searchTerm, setSearchTerm] = useState('');
   const [searchOpen, setSearchOpen] = useState(false);
@@ -47,15 +106,325 @@ function FlowEditor() {
   const [stats, setStats] = useState({ nodes: 0, edges: 0 });
   const [edgeType, setEdgeType] = useState<'smoothstep' | 'bezier'>('smoothstep');
   const [selectedEdge, setSelectedEdge] = useState<SelectedEdgeInfo | null>(null);
+  const [inspected, setInspected] = useState<{ name: string; buffer: ArrayBuffer } | null>(null);
+  const [problemsOpen, setProblemsOpen] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const [catalog, setCatalog] = useState<{ name: string; schemas: NodeSchemas; files: number } | null>(null);
+  // File the open graph is compared against, and its removed nodes shown as ghosts
+  const [compare, setCompare] = useState<{ name: string; file: GSrcFile } | null>(null);
+  const [ghostNodes, setGhostNodes] = useState<Node[]>([]);
+  // Three-way merge into the graph that was open when it started (ours)
+  const [merge, setMerge] = useState<MergeState | null>(null);
+  const [bundledDictionaries, setBundledDictionaries] = useState<HashDictionary[]>([]);
+  const [dictionaries, setDictionaries] = useState<UserDictionary[]>([]);   // Highest priority first
+  const [dictionaryOpen, setDictionaryOpen] = useState(false);
+  const [crackOpen, setCrackOpen] = useState(false);
+  const [, setHistoryVersion] = useState(0);
+  const historyRef = useRef(new EditHistory());
+  // Latest flow state for commands; ahead of `nodes`/`edges` until React re-renders
+  const flowRef = useRef<FlowState>({ nodes, edges, globalData });
+  flowRef.current = { nodes, edges, globalData };
+  const dragStartRef = useRef(new Map<string, XYPosition>());
+  // Index for the next placed node; never reused, so undone deletions keep their ids
+  const nextNodeIndexRef = useRef(0);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const adfInputRef = useRef<HTMLInputElement>(null);
+  const catalogInputRef = useRef<HTMLInputElement>(null);
+  const compareInputRef = useRef<HTMLInputElement>(null);
   const searchInputRef = useRef<HTMLInputElement>(null);
   const searchListRef = useRef<HTMLDivElement>(null);
-  const { setCenter, getNode } = useReactFlow();
+  const { setCenter, getNode, screenToFlowPosition } = useReactFlow();
 
-  const onConnect = useCallback(
-    (params: Connection) => setEdges((eds) => addEdge({ ...params, type: 'smoothstep', style: { stroke: '#E85D3A', strokeWidth: 2 } }, eds)),
-    [setEdges]
-  );
+  /** Show a new flow state and rebuild the model from it */
+  const applyFlow = useCallback((next: FlowState) => {
+    flowRef.current = next;
+    setNodes(next.nodes);
+    setEdges(next.edges);
+    setGlobalData(next.globalData);
+    setHistoryVersion(v => v + 1);
+    if (gsrcFile) setModel(flowToGsrc(gsrcFile, next.nodes, next.edges, next.globalData));
+  }, [gsrcFile, setNodes, setEdges]);
+
+  const execute = useCallback((command: EditCommand) => {
+    applyFlow(historyRef.current.execute(command, flowRef.current));
+  }, [applyFlow]);
+
+  const undo = useCallback(() => {
+    const next = historyRef.current.undo(flowRef.current);
+    if (next) applyFlow(next);
+  }, [applyFlow]);
+
+  const redo = useCallback(() => {
+    const next = historyRef.current.redo(flowRef.current);
+    if (next) applyFlow(next);
+  }, [applyFlow]);
+
+  // Shipped dictionaries, then the lists imported in earlier sessions on top,
+  // and the names chosen for ambiguous hashes
+  useEffect(() => {
+    fetchBundledDictionaries()
+      .then(loaded => {
+        for (const d of loaded) setHashDictionary(d);
+        setBundledDictionaries(loaded);
+      })
+      .catch(err => console.warn('Shipped dictionaries unavailable:', err));
+    listDictionaries()
+      .then(stored => {
+        // Lists stored before they had a priority rank by import order
+        const ranked = stored.map((d, i) => ({ ...d, priority: d.priority ?? i })).sort((a, b) => b.priority - a.priority);
+        for (const d of ranked) setHashDictionary(userHashDictionary(d));
+        setDictionaries(ranked);
+      })
+      .catch(err => console.warn('Stored dictionaries unavailable:', err));
+    listHashPins()
+      .then(pins => pins.forEach(p => pinHashName(p.context, p.hash, p.name)))
+      .catch(err => console.warn('Pinned names unavailable:', err));
+  }, []);
+
+  const handleDictionaryImport = useCallback(async (files: File[]) => {
+    const imported: UserDictionary[] = [];
+    let priority = Math.max(-1, ...dictionaries.map(d => d.priority ?? 0));
+    for (const file of files) {
+      let strings: string[];
+      try {
+        strings = parseStringList(file.name, new Uint8Array(await file.arrayBuffer()));
+      } catch (err) {
+        alert(`${file.name}: ${(err as Error).message}`);
+        continue;
+      }
+      if (strings.length === 0) { alert(`${file.name}: no strings found`); continue; }
+      const dict: UserDictionary = { id: `${Date.now().toString(36)}-${imported.length}`, name: file.name, strings, importedAt: Date.now(), priority: ++priority };
+      setHashDictionary(userHashDictionary(dict));
+      // Still usable this session when the browser won't store it
+      await saveDictionary(dict).catch(err => console.warn(`Could not store ${file.name}:`, err));
+      imported.unshift(dict);
+    }
+    setDictionaries(prev => [...imported, ...prev]);
+  }, [dictionaries]);
+
+  /** Accepted workbench hits, kept in one stored list per namespace they were found in */
+  const handleCrackAccept = useCallback((hits: CrackHit[]) => {
+    let priority = Math.max(-1, ...dictionaries.map(d => d.priority ?? 0));
+    const changed = new Map<string, UserDictionary>();
+    for (const { string, kinds } of hits) {
+      // Values have no namespace of their own
+      const namespaces = kinds.filter((k): k is Exclude<HashKind, 'value'> => k !== 'value');
+      for (const namespace of namespaces.length > 0 ? namespaces : [undefined]) {
+        const id = namespace ? `cracked:${namespace}` : 'cracked';
+        const dict = changed.get(id) ?? dictionaries.find(d => d.id === id)
+          ?? { id, name: namespace ? `Cracked ${namespace} names` : 'Cracked names', strings: [], importedAt: Date.now(), priority: ++priority, namespace };
+        if (!dict.strings.includes(string)) changed.set(id, { ...dict, strings: [...dict.strings, string] });
+      }
+    }
+    for (const dict of changed.values()) {
+      setHashDictionary(userHashDictionary(dict));
+      saveDictionary(dict).catch(err => console.warn(`Could not store ${dict.name}:`, err));
+    }
+    setDictionaries(prev => [
+      ...[...changed.values()].filter(d => !prev.some(p => p.id === d.id)),
+      ...prev.map(d => changed.get(d.id) ?? d),
+    ]);
+  }, [dictionaries]);
+
+  const handleDictionaryRemove = useCallback((id: string) => {
+    const removed = dictionaries.find(d => d.id === id);
+    if (!removed) return;
+    removeHashDictionary(id);
+    setDictionaries(dictionaries.filter(d => d.id !== id));
+    deleteDictionary(id).catch(err => console.warn(`Could not remove ${removed.name}:`, err));
+  }, [dictionaries]);
+
+  /** Swap a list's priority with the one above (-1) or below (1) it */
+  const handleDictionaryMove = useCallback((id: string, direction: -1 | 1) => {
+    const at = dictionaries.findIndex(d => d.id === id);
+    const other = dictionaries[at + direction];
+    if (at < 0 || !other) return;
+    const moved = { ...dictionaries[at], priority: other.priority };
+    const swapped = { ...other, priority: dictionaries[at].priority };
+    const next = [...dictionaries];
+    next[at] = swapped;
+    next[at + direction] = moved;
+    for (const d of [moved, swapped]) {
+      setHashDictionary(userHashDictionary(d));
+      saveDictionary(d).catch(err => console.warn(`Could not store ${d.name}:`, err));
+    }
+    setDictionaries(next);
+  }, [dictionaries]);
+
+  const handleDictionaryNamespace = useCallback((id: string, namespace: HashNamespace | undefined) => {
+    const dict = dictionaries.find(d => d.id === id);
+    if (!dict) return;
+    const next = { ...dict, namespace };
+    setHashDictionary(userHashDictionary(next));
+    saveDictionary(next).catch(err => console.warn(`Could not store ${next.name}:`, err));
+    setDictionaries(dictionaries.map(d => d.id === id ? next : d));
+  }, [dictionaries]);
+
+  const handleDictionaryExport = useCallback(() => {
+    downloadBlob(stringifyStringList(Object.values(KNOWN_HASHES)), 'dictionary.txt', 'text/plain');
+  }, []);
+
+  const fileHashes = useMemo(() => model ? collectFileHashes(model) : null, [model]);
+  const unresolvedHashes = useMemo(() => model && crackOpen ? collectUnresolvedHashes(model) : [], [model, crackOpen]);
+
+  /** Undo or redo until `position` commands are applied */
+  const jumpToHistory = useCallback((position: number) => {
+    const history = historyRef.current;
+    let state = flowRef.current;
+    while (history.position > position) state = history.undo(state)!;
+    while (history.position < position) state = history.redo(state)!;
+    applyFlow(state);
+  }, [applyFlow]);
+
+  // Pins and parameters per class: the loaded catalog plus what the open file's nodes use
+  const nodeSchemas = useMemo((): NodeSchemas => {
+    const schemas = catalog ? mergeNodeSchemas(new Map(), catalog.schemas) : new Map();
+    return gsrcFile ? learnNodeSchemas(gsrcFile, schemas) : schemas;
+  }, [catalog, gsrcFile]);
+
+  /** Add a node of a class at the center of the view */
+  const handlePlaceNode = useCallback((classHash: number) => {
+    if (!gsrcFile) return;
+    const before = flowRef.current.globalData;
+    const graph = { ...gsrcFile.graph, data: { ...gsrcFile.graph.data, value: before, count: before.length } };
+    const blob = new GlobalDataAllocator(graph, gsrcFile.littleEndian);
+    const gsNode = createNode(classHash, nodeSchemas.get(classHash), defaultRootName(gsrcFile.graph), blob, gsrcFile.littleEndian);
+    blob.commit();
+    const position = screenToFlowPosition({ x: window.innerWidth / 2, y: window.innerHeight / 2 });
+    execute(placeNode(toFlowNode(gsNode, nextNodeIndexRef.current++, position), before, graph.data.value));
+  }, [gsrcFile, nodeSchemas, screenToFlowPosition, execute]);
+
+  const onConnect = useCallback((params: Connection) => {
+    const state = flowRef.current;
+    const next = addEdge({
+      ...params,
+      type: 'smoothstep',
+      style: isVariableEdge(params) ? { stroke: '#4EC9B0', strokeWidth: 1.5 } : { stroke: '#E85D3A', strokeWidth: 2 },
+    }, state.edges);
+    if (next.length === state.edges.length) return; // Already connected
+    const edge = next[next.length - 1];
+    execute(insertEdge(edge, connectLabel(state, edge)));
+  }, [execute]);
+
+  // Deletions go through onDelete so they land in the history as one step
+  const handleNodesChange = useCallback((changes: NodeChange[]) => {
+    onNodesChange(changes.filter(c => c.type !== 'remove'));
+    // Ghosts aren't part of the graph; they only need their measured size
+    const ghostChanges = changes.filter(c => c.type === 'dimensions' && c.id.startsWith('diff-'));
+    if (ghostChanges.length > 0) setGhostNodes(g => applyNodeChanges(ghostChanges, g));
+  }, [onNodesChange]);
+
+  const handleEdgesChange = useCallback((changes: EdgeChange[]) => {
+    onEdgesChange(changes.filter(c => c.type !== 'remove'));
+  }, [onEdgesChange]);
+
+  const onDelete: OnDelete = useCallback(({ nodes: removedNodes, edges: removedEdges }) => {
+    execute(removeElements(flowRef.current, removedNodes, removedEdges));
+    setSelectedEdge(null);
+  }, [execute]);
+
+  // A drag moves the view live; the whole gesture is recorded as one step when it ends
+  const onNodeDragStart: OnNodeDrag = useCallback((_event, _node, dragged) => {
+    dragStartRef.current = new Map(dragged.map(n => [n.id, { ...n.position }]));
+  }, []);
+
+  const onNodeDragStop: OnNodeDrag = useCallback((_event, _node, dragged) => {
+    const moves = dragged.flatMap(n => {
+      const from = dragStartRef.current.get(n.id);
+      return from && (from.x !== n.position.x || from.y !== n.position.y) ? [{ id: n.id, from, to: { ...n.position } }] : [];
+    });
+    dragStartRef.current.clear();
+    if (moves.length === 0) return;
+    historyRef.current.record(moveNodes(moves));
+    setHistoryVersion(v => v + 1);
+  }, []);
+
+  // Flow outputs may only feed input pins; variable outputs only feed variable pins
+  const isValidConnection = useCallback((c: Connection | Edge) => {
+    if (c.sourceHandle?.startsWith('var-out-')) return !!c.targetHandle?.startsWith('var-');
+    return !!c.sourceHandle?.startsWith('out-') && !!c.targetHandle?.startsWith('in-');
+  }, []);
+
+  const handleSave = useCallback((saveAs: boolean) => {
+    if (!model) return;
+    let name = fileName || 'graph.gsrc';
+    if (saveAs) {
+      const input = window.prompt('Save as:', name);
+      if (!input) return;
+      name = /\.gsrc$/i.test(input) ? input : `${input}.gsrc`;
+    }
+    try {
+      downloadBlob(writeGsrc(model), name);
+      if (saveAs) setFileName(name);
+    } catch (err) {
+      console.error('Failed to write .gsrc file:', err);
+      alert(`Failed to save file: ${(err as Error).message}`);
+    }
+  }, [model, fileName]);
+
+  /** Export the edited graph in the other platform's byte order (PC little-endian ⇄ console big-endian) */
+  const handleExportConverted = useCallback(() => {
+    if (!model) return;
+    const toLittleEndian = !model.littleEndian;
+    const base = (fileName || 'graph.gsrc').replace(/\.gsrc$/i, '');
+    const input = window.prompt(`Export ${toLittleEndian ? 'PC (little-endian)' : 'console (big-endian)'} copy as:`, `${base}.${toLittleEndian ? 'pc' : 'console'}.gsrc`);
+    if (!input) return;
+    try {
+      downloadBlob(writeGsrc(convertGsrcEndianness(model, toLittleEndian)), /\.gsrc$/i.test(input) ? input : `${input}.gsrc`);
+    } catch (err) {
+      console.error('Failed to convert .gsrc file:', err);
+      alert(`Failed to export file: ${(err as Error).message}`);
+    }
+  }, [model, fileName]);
+
+  /** Export the edited graph as lossless GSRC-JSON */
+  const handleExportJson = useCallback(() => {
+    if (!model) return;
+    try {
+      // Round-trip through the binary so the layout hints match what Save would write
+      const saved = parseGsrc(writeGsrc(model));
+      const base = (fileName || 'graph.gsrc').replace(/\.gsrc$/i, '');
+      downloadBlob(stringifyGsrcJson(saved), `${base}.gsrc.json`, 'application/json');
+    } catch (err) {
+      console.error('Failed to export JSON:', err);
+      alert(`Failed to export JSON: ${(err as Error).message}`);
+    }
+  }, [model, fileName]);
+
+  /** Export the edited graph as GraphScript text */
+  const handleExportScript = useCallback(() => {
+    if (!model) return;
+    try {
+      const saved = parseGsrc(writeGsrc(model));
+      const base = (fileName || 'graph.gsrc').replace(/\.gsrc$/i, '');
+      downloadBlob(decompileGsrc(saved), `${base}.gst`, 'text/plain');
+    } catch (err) {
+      console.error('Failed to export GraphScript:', err);
+      alert(`Failed to export GraphScript: ${(err as Error).message}`);
+    }
+  }, [model, fileName]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 's') {
+        e.preventDefault();
+        handleSave(e.shiftKey);
+        return;
+      }
+      // Text fields keep their own undo
+      if ((e.target as HTMLElement | null)?.closest?.('input, textarea, [contenteditable="true"]')) return;
+      if (key === 'z' || key === 'y') {
+        e.preventDefault();
+        if (key === 'y' || e.shiftKey) redo();
+        else undo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [handleSave, undo, redo]);
 
   const navigateToNode = useCallback((nodeId: string) => {
     const node = getNode(nodeId);
@@ -65,6 +434,30 @@ function FlowEditor() {
     setCenter(x, y, { zoom: 1.2, duration: 400 });
   }, [getNode, setCenter]);
 
+  // Parse problems of the opened file, then lint findings on the edited model
+  const problems = useMemo((): Diagnostic[] => {
+    if (!gsrcFile || !model) return [];
+    const lint = validateGraph({ graph: model.graph, connections: model.connections, littleEndian: model.littleEndian, schemas: catalog?.schemas });
+    // The node-index rule rechecks what the parser already warned about; list those once
+    const key = (d: Diagnostic) => `${d.nodeIndex}|${formatDiagnostic(d)}`;
+    const linted = new Set(lint.map(key));
+    return [...gsrcFile.diagnostics.filter(d => !linted.has(key(d))), ...lint];
+  }, [gsrcFile, model, catalog]);
+
+  const problemCounts = useMemo(() => {
+    const errors = problems.filter(d => d.severity === 'error').length;
+    return { errors, warnings: problems.length - errors };
+  }, [problems]);
+
+  /** Lint findings index the model's nodes, which are renumbered around deleted ones */
+  const navigateToProblem = useCallback((d: Diagnostic) => {
+    if (d.nodeIndex === undefined) return;
+    if (!d.rule) { navigateToNode(`node-${d.nodeIndex}`); return; }
+    const ordered = [...flowRef.current.nodes].sort((a, b) => (a.data as NodeData).nodeIndex - (b.data as NodeData).nodeIndex);
+    const node = ordered[d.nodeIndex];
+    if (node) navigateToNode(node.id);
+  }, [navigateToNode]);
+
   const searchResults = useMemo(() => {
     if (!searchTerm || searchTerm.length < 1) return [];
     const term = searchTerm.toLowerCase();
@@ -141,25 +534,95 @@ function FlowEditor() {
     setSelectedEdge(null);
   }, []);
 
+  /** Show a parsed graph on the canvas with a fresh edit history */
+  const loadGraph = useCallback((parsed: GSrcFile) => {
+    setGsrcFile(parsed);
+    setModel(parsed);
+    setProblemsOpen(parsed.diagnostics.length > 0);
+
+    const { nodes: flowNodes, edges: flowEdges } = gsrcToFlow(parsed);
+    historyRef.current.clear();
+    setHistoryVersion(v => v + 1);
+    flowRef.current = { nodes: flowNodes, edges: flowEdges, globalData: parsed.graph.data.value };
+    nextNodeIndexRef.current = flowNodes.length;
+    setNodes(flowNodes);
+    setEdges(flowEdges);
+    setGlobalData(parsed.graph.data.value);
+    setStats({ nodes: flowNodes.length, edges: flowEdges.length });
+  }, [setNodes, setEdges]);
+
+  /** Names are resolved when a graph is read, so reading it again picks up new ones */
+  const handleApplyNames = useCallback(() => {
+    if (!model) return;
+    if (historyRef.current.canUndo && !confirm('Reloading the graph clears the undo history. Continue?')) return;
+    loadGraph(parseGsrc(writeGsrc(model)));
+  }, [model, loadGraph]);
+
+  const handlePinHashName = useCallback((context: HashContext, hash: number, name: string | null) => {
+    pinHashName(context, hash, name);
+    const stored = name === null ? deleteHashPin(context, hash) : saveHashPin({ context, hash, name });
+    stored.catch(err => console.warn('Could not store the pinned name:', err));
+    // Only labels change, so this is no edit: no reload, no history entry
+    const state = flowRef.current;
+    applyFlow({ ...state, nodes: relabelHash(state.nodes, context, hash, gsrcFile?.littleEndian ?? true, state.globalData) });
+  }, [gsrcFile, applyFlow]);
+
+  const nodeEditApi = useMemo((): NodeEditApi => ({
+    littleEndian: gsrcFile?.littleEndian ?? true,
+    globalData,
+    setParameter: (nodeId, index, next) => {
+      const node = flowRef.current.nodes.find(n => n.id === nodeId);
+      const before = (node?.data as NodeData | undefined)?.parameters[index];
+      if (before) execute(setParameter(nodeId, index, before, next));
+    },
+    setGlobalValue: (offset, bytes, label) => {
+      const before = flowRef.current.globalData.slice(offset, offset + bytes.length);
+      if (before.length === bytes.length) execute(writeGlobalData(offset, before, bytes, label));
+    },
+    pinHashName: handlePinHashName,
+  }), [gsrcFile, globalData, execute, handlePinHashName]);
+
+
   const handleFileLoad = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
     try {
-      const buffer = await file.arrayBuffer();
-      const parsed = parseGsrc(buffer);
-      setGsrcFile(parsed);
-      setFileName(file.name);
-
-      const { nodes: flowNodes, edges: flowEdges } = gsrcToFlow(parsed);
-      setNodes(flowNodes);
-      setEdges(flowEdges);
-      setStats({ nodes: flowNodes.length, edges: flowEdges.length });
+      const isJson = /\.json$/i.test(file.name);
+      const isScript = /\.gst$/i.test(file.name);
+      // A script only describes the graph; the open file supplies the ADF container
+      if (isScript && !gsrcFile) throw new Error('Open the .gsrc the script was made from first');
+      const parsed = isScript ? compileScript(await file.text(), gsrcFile!)
+        : isJson ? parseGsrcJson(await file.text())
+        : parseGsrc(await file.arrayBuffer());
+      loadGraph(parsed);
+      setCompare(null);
+      setMerge(null);
+      // Saving a graph opened from JSON or text writes the binary next to it
+      setFileName(isJson || isScript ? file.name.replace(/(\.gsrc)?\.(json|gst)$/i, '.gsrc') : file.name);
     } catch (err) {
       console.error('Failed to parse .gsrc file:', err);
       alert(`Failed to parse file: ${(err as Error).message}`);
     }
-  }, [setNodes, setEdges]);
+  }, [gsrcFile, loadGraph]);
+
+  const handleAdfLoad = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setInspected({ name: file.name, buffer: await file.arrayBuffer() });
+  }, []);
+
+  const handleCatalogLoad = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setCatalog({ name: file.name, ...parseSchemaCatalog(await file.text()) });
+    } catch (err) {
+      alert(`Failed to load schema catalog: ${(err as Error).message}`);
+    }
+  }, []);
 
   const styledEdges = useMemo(() => {
     return edges.map(e => {
@@ -185,9 +648,142 @@ function FlowEditor() {
     });
   }, [edges, edgeType, selectedEdge]);
 
+  const handleCompareLoad = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const parsed = /\.json$/i.test(file.name) ? parseGsrcJson(await file.text()) : parseGsrc(await file.arrayBuffer());
+      setCompare({ name: file.name, file: parsed });
+    } catch (err) {
+      alert(`Failed to parse file: ${(err as Error).message}`);
+    }
+  }, []);
+
+  /** Merge once base and theirs are both picked, and show the result */
+  const runMerge = useCallback((next: MergeState) => {
+    if (!next.base || !next.theirs) { setMerge(next); return; }
+    try {
+      const { file, conflicts } = mergeGraphs(next.base.file, next.ours, next.theirs.file, next.resolutions);
+      loadGraph(file);
+      setMerge({ ...next, conflicts });
+    } catch (err) {
+      console.error('Merge failed:', err);
+      alert(`Merge failed: ${(err as Error).message}`);
+    }
+  }, [loadGraph]);
+
+  const handleMergePick = useCallback(async (role: 'base' | 'theirs', file: File) => {
+    if (!merge) return;
+    try {
+      const parsed = /\.json$/i.test(file.name) ? parseGsrcJson(await file.text()) : parseGsrc(await file.arrayBuffer());
+      runMerge({ ...merge, [role]: { name: file.name, file: parsed }, resolutions: {} });
+    } catch (err) {
+      alert(`Failed to parse file: ${(err as Error).message}`);
+    }
+  }, [merge, runMerge]);
+
+  const handleMergeResolve = useCallback((id: string, side: MergeSide) => {
+    if (merge) runMerge({ ...merge, resolutions: { ...merge.resolutions, [id]: side } });
+  }, [merge, runMerge]);
+
+  const diff = useMemo(() => compare && model ? diffGraphs(compare.file, model) : null, [compare, model]);
+
+  // Flow node ids in model order (the model renumbers nodes around deleted ones)
+  const modelNodeIds = useMemo(
+    () => [...nodes].sort((a, b) => (a.data as NodeData).nodeIndex - (b.data as NodeData).nodeIndex).map(n => n.id),
+    [nodes],
+  );
+
+  /** Flow node id for a node of the compared file: its match in the open graph, or its ghost */
+  const compareNodeId = useCallback((index: number): string => {
+    const j = diff?.matches.get(index);
+    return j !== undefined ? modelNodeIds[j] : `diff-${index}`;
+  }, [diff, modelNodeIds]);
+
+  // Place each removed node next to a neighbour that is still there
+  useEffect(() => {
+    if (!diff || !compare) { setGhostNodes([]); return; }
+    const current = new Map(flowRef.current.nodes.map(n => [n.id, n]));
+    const minX = Math.min(0, ...flowRef.current.nodes.map(n => n.position.x));
+    const stacked = new Map<string, number>();
+    const ghosts = diff.nodes.filter(n => n.kind === 'removed').map(n => {
+      const i = n.a!;
+      let anchor: string | undefined;
+      let dx = 0;
+      for (const c of compare.file.connections) {
+        const other = c.sourceNodeIndex === i ? c.targetNodeIndex : c.targetNodeIndex === i ? c.sourceNodeIndex : undefined;
+        const j = other === undefined ? undefined : diff.matches.get(other);
+        if (j === undefined) continue;
+        anchor = modelNodeIds[j];
+        dx = c.sourceNodeIndex === i ? -360 : 360;
+        break;
+      }
+      const base = anchor ? current.get(anchor)?.position : undefined;
+      const key = anchor ? `${anchor}:${dx}` : '';
+      const k = stacked.get(key) ?? 0;
+      stacked.set(key, k + 1);
+      const position = base ? { x: base.x + dx, y: base.y + 140 * (k + 1) } : { x: minX - 400, y: 140 * k };
+      const node = toFlowNode(compare.file.graph.nodes[i], i, position);
+      return {
+        ...node, id: `diff-${i}`, type: 'gsGhost', draggable: false, selectable: false, connectable: false, deletable: false,
+        style: { opacity: 0.55, outline: `3px dashed ${DIFF_COLORS.removed}`, outlineOffset: 3, borderRadius: 8 },
+      };
+    });
+    setGhostNodes(ghosts);
+    // Ghosts are placed once per diff, not every time a node is dragged
+  }, [diff, compare]);
+
+  const displayNodes = useMemo(() => {
+    const outlines = new Map<string, string>();
+    for (const n of diff?.nodes ?? []) {
+      if ((n.kind === 'added' || n.kind === 'modified') && n.b !== undefined) outlines.set(modelNodeIds[n.b], DIFF_COLORS[n.kind]);
+    }
+    for (const c of merge?.conflicts ?? []) {
+      if (c.index !== undefined) outlines.set(modelNodeIds[c.index], CONFLICT_COLOR);
+    }
+    if (outlines.size === 0 && ghostNodes.length === 0) return nodes;
+    const marked = nodes.map(n => {
+      const color = outlines.get(n.id);
+      return color ? { ...n, style: { ...n.style, outline: `3px solid ${color}`, outlineOffset: 3, borderRadius: 8 } } : n;
+    });
+    return [...marked, ...ghostNodes];
+  }, [nodes, diff, merge, modelNodeIds, ghostNodes]);
+
+  const displayEdges = useMemo(() => {
+    if (!diff || !compare) return styledEdges;
+    const handles = (c: GSConnection, sourceIndex: number) => c.connectionType === 'variable'
+      ? { sourceHandle: `var-out-${sourceIndex}`, targetHandle: `var-${c.targetInputPinHash}` }
+      : { sourceHandle: `out-${c.sourceOutputPinHash}`, targetHandle: `in-${c.targetInputPinHash}` };
+    const nodeIndexOf = (id: string) => (flowRef.current.nodes.find(n => n.id === id)?.data as NodeData | undefined)?.nodeIndex;
+
+    const added = new Set<string>();
+    const removed: Edge[] = [];
+    diff.connections.forEach((d, k) => {
+      const c = d.connection;
+      if (d.kind === 'added') {
+        const source = modelNodeIds[c.sourceNodeIndex];
+        const h = handles(c, nodeIndexOf(source) ?? -1);
+        added.add(`${source}|${h.sourceHandle}|${modelNodeIds[c.targetNodeIndex]}|${h.targetHandle}`);
+        return;
+      }
+      const source = compareNodeId(c.sourceNodeIndex);
+      const sourceIndex = source.startsWith('diff-') ? c.sourceNodeIndex : nodeIndexOf(source) ?? -1;
+      removed.push({
+        id: `diff-edge-${k}`, source, target: compareNodeId(c.targetNodeIndex), ...handles(c, sourceIndex),
+        type: edgeType, selectable: false, deletable: false, focusable: false,
+        style: { stroke: DIFF_COLORS.removed, strokeWidth: 2, strokeDasharray: '6 4', opacity: 0.8 },
+      });
+    });
+    const marked = styledEdges.map(e => added.has(`${e.source}|${e.sourceHandle}|${e.target}|${e.targetHandle}`)
+      ? { ...e, style: { ...e.style, stroke: DIFF_COLORS.added, strokeWidth: 3 } }
+      : e);
+    return [...marked, ...removed];
+  }, [styledEdges, diff, compare, modelNodeIds, compareNodeId, edgeType]);
+
   // no-op removed: filteredNodes / handleFitView
 
-  return (
+  const editor = (
     <div style={{
       width: '100vw',
       height: '100vh',
@@ -195,11 +791,15 @@ function FlowEditor() {
       fontFamily: "'JetBrains Mono', 'Fira Code', monospace",
     }}>
       <ReactFlow
-        nodes={nodes}
-        edges={styledEdges}
-        onNodesChange={onNodesChange}
-        onEdgesChange={onEdgesChange}
+        nodes={displayNodes}
+        edges={displayEdges}
+        onNodesChange={handleNodesChange}
+        onEdgesChange={handleEdgesChange}
         onConnect={onConnect}
+        onDelete={onDelete}
+        onNodeDragStart={onNodeDragStart}
+        onNodeDragStop={onNodeDragStop}
+        isValidConnection={isValidConnection}
         onEdgeClick={onEdgeClick}
         onPaneClick={onPaneClick}
         nodeTypes={nodeTypes}
@@ -270,7 +870,7 @@ function FlowEditor() {
             <input
               ref={fileInputRef}
               type="file"
-              accept=".gsrc,.bin"
+              accept=".gsrc,.bin,.json,.gst"
               onChange={handleFileLoad}
               style={{ display: 'none' }}
             />
@@ -293,11 +893,199 @@ function FlowEditor() {
             >
               📂 Open .gsrc
             </button>
+            <input
+              ref={adfInputRef}
+              type="file"
+              onChange={handleAdfLoad}
+              style={{ display: 'none' }}
+            />
+            <button
+              onClick={() => adfInputRef.current?.click()}
+              style={toolbarButtonStyle}
+              onMouseEnter={e => (e.currentTarget.style.borderColor = '#E85D3A')}
+              onMouseLeave={e => (e.currentTarget.style.borderColor = '#333')}
+              title="Inspect any ADF file as a structured tree"
+            >
+              🔎 Inspect ADF
+            </button>
+            <input
+              ref={catalogInputRef}
+              type="file"
+              accept=".json"
+              onChange={handleCatalogLoad}
+              style={{ display: 'none' }}
+            />
+            <button
+              onClick={() => catalogInputRef.current?.click()}
+              style={{ ...toolbarButtonStyle, color: catalog ? '#4EC9B0' : '#E0E0E0' }}
+              onMouseEnter={e => (e.currentTarget.style.borderColor = '#E85D3A')}
+              onMouseLeave={e => (e.currentTarget.style.borderColor = '#333')}
+              title={catalog
+                ? `${catalog.name}: ${catalog.schemas.size} classes from ${catalog.files} files (click to load another)`
+                : 'Load a node schema catalog (built with gsrc catalog)'}
+            >
+              ⌗ Catalog
+            </button>
+            <button
+              onClick={() => { setDictionaryOpen(o => !o); setHistoryOpen(false); setCrackOpen(false); }}
+              style={{ ...toolbarButtonStyle, borderColor: dictionaryOpen ? '#E85D3A' : '#333' }}
+              onMouseEnter={e => (e.currentTarget.style.borderColor = '#E85D3A')}
+              onMouseLeave={e => (e.currentTarget.style.borderColor = dictionaryOpen ? '#E85D3A' : '#333')}
+              title="Manage the string lists used to resolve hashes"
+            >
+              Aa Names
+            </button>
 
             {fileName && (
               <>
+                <button
+                  onClick={() => handleSave(false)}
+                  style={toolbarButtonStyle}
+                  onMouseEnter={e => (e.currentTarget.style.borderColor = '#E85D3A')}
+                  onMouseLeave={e => (e.currentTarget.style.borderColor = '#333')}
+                  title="Save (Ctrl+S)"
+                >
+                  💾 Save
+                </button>
+                <button
+                  onClick={() => handleSave(true)}
+                  style={toolbarButtonStyle}
+                  onMouseEnter={e => (e.currentTarget.style.borderColor = '#E85D3A')}
+                  onMouseLeave={e => (e.currentTarget.style.borderColor = '#333')}
+                  title="Save As (Ctrl+Shift+S)"
+                >
+                  Save As…
+                </button>
+                <button
+                  onClick={undo}
+                  disabled={!historyRef.current.canUndo}
+                  style={{ ...toolbarButtonStyle, opacity: historyRef.current.canUndo ? 1 : 0.4 }}
+                  onMouseEnter={e => (e.currentTarget.style.borderColor = '#E85D3A')}
+                  onMouseLeave={e => (e.currentTarget.style.borderColor = '#333')}
+                  title="Undo (Ctrl+Z)"
+                >
+                  ↶
+                </button>
+                <button
+                  onClick={redo}
+                  disabled={!historyRef.current.canRedo}
+                  style={{ ...toolbarButtonStyle, opacity: historyRef.current.canRedo ? 1 : 0.4 }}
+                  onMouseEnter={e => (e.currentTarget.style.borderColor = '#E85D3A')}
+                  onMouseLeave={e => (e.currentTarget.style.borderColor = '#333')}
+                  title="Redo (Ctrl+Shift+Z)"
+                >
+                  ↷
+                </button>
+                <button
+                  onClick={() => setPaletteOpen(o => !o)}
+                  style={{ ...toolbarButtonStyle, borderColor: paletteOpen ? '#E85D3A' : '#333' }}
+                  onMouseEnter={e => (e.currentTarget.style.borderColor = '#E85D3A')}
+                  onMouseLeave={e => (e.currentTarget.style.borderColor = paletteOpen ? '#E85D3A' : '#333')}
+                  title="Add a node from the known classes"
+                >
+                  ＋ Node
+                </button>
+                <button
+                  onClick={() => { setHistoryOpen(o => !o); setDictionaryOpen(false); setCrackOpen(false); }}
+                  style={{ ...toolbarButtonStyle, borderColor: historyOpen ? '#E85D3A' : '#333' }}
+                  onMouseEnter={e => (e.currentTarget.style.borderColor = '#E85D3A')}
+                  onMouseLeave={e => (e.currentTarget.style.borderColor = historyOpen ? '#E85D3A' : '#333')}
+                  title="Show the edit history"
+                >
+                  ☰ History
+                </button>
+                <button
+                  onClick={() => { setCrackOpen(o => !o); setHistoryOpen(false); setDictionaryOpen(false); }}
+                  style={{ ...toolbarButtonStyle, borderColor: crackOpen ? '#E85D3A' : '#333' }}
+                  onMouseEnter={e => (e.currentTarget.style.borderColor = '#E85D3A')}
+                  onMouseLeave={e => (e.currentTarget.style.borderColor = crackOpen ? '#E85D3A' : '#333')}
+                  title="Search names for the graph's unresolved hashes"
+                >
+                  # Crack
+                </button>
+                <input
+                  ref={compareInputRef}
+                  type="file"
+                  accept=".gsrc,.json"
+                  onChange={handleCompareLoad}
+                  style={{ display: 'none' }}
+                />
+                <button
+                  onClick={() => compare ? setCompare(null) : compareInputRef.current?.click()}
+                  style={{ ...toolbarButtonStyle, borderColor: compare ? '#E85D3A' : '#333' }}
+                  onMouseEnter={e => (e.currentTarget.style.borderColor = '#E85D3A')}
+                  onMouseLeave={e => (e.currentTarget.style.borderColor = compare ? '#E85D3A' : '#333')}
+                  title={compare ? `Comparing with ${compare.name} (click to stop)` : 'Compare the open graph against another version of it'}
+                >
+                  ⇆ Compare
+                </button>
+                <button
+                  onClick={() => merge ? setMerge(null) : model && setMerge({ ours: model, resolutions: {}, conflicts: null })}
+                  style={{ ...toolbarButtonStyle, borderColor: merge ? '#E85D3A' : '#333' }}
+                  onMouseEnter={e => (e.currentTarget.style.borderColor = '#E85D3A')}
+                  onMouseLeave={e => (e.currentTarget.style.borderColor = merge ? '#E85D3A' : '#333')}
+                  title="Three-way merge another version into the open graph"
+                >
+                  ⑂ Merge
+                </button>
+                <button
+                  onClick={handleExportConverted}
+                  style={toolbarButtonStyle}
+                  onMouseEnter={e => (e.currentTarget.style.borderColor = '#E85D3A')}
+                  onMouseLeave={e => (e.currentTarget.style.borderColor = '#333')}
+                  title="Export a copy with the byte order swapped between PC and console"
+                >
+                  ⇄ {gsrcFile?.littleEndian ? 'Console' : 'PC'} export
+                </button>
+                <button
+                  onClick={handleExportJson}
+                  style={toolbarButtonStyle}
+                  onMouseEnter={e => (e.currentTarget.style.borderColor = '#E85D3A')}
+                  onMouseLeave={e => (e.currentTarget.style.borderColor = '#333')}
+                  title="Export as lossless GSRC-JSON (can be opened again)"
+                >
+                  {'{ }'} JSON
+                </button>
+                <button
+                  onClick={handleExportScript}
+                  style={toolbarButtonStyle}
+                  onMouseEnter={e => (e.currentTarget.style.borderColor = '#E85D3A')}
+                  onMouseLeave={e => (e.currentTarget.style.borderColor = '#333')}
+                  title="Export as GraphScript text (.gst); open it again with this file loaded to compile it"
+                >
+                  ✎ Text
+                </button>
+                <button
+                  onClick={() => gsrcFile && setInspected({ name: fileName, buffer: gsrcFile.rawBuffer as ArrayBuffer })}
+                  style={toolbarButtonStyle}
+                  onMouseEnter={e => (e.currentTarget.style.borderColor = '#E85D3A')}
+                  onMouseLeave={e => (e.currentTarget.style.borderColor = '#333')}
+                  title="Show the open file in the ADF inspector"
+                >
+                  ⌸ Raw ADF
+                </button>
+                <button
+                  onClick={() => setProblemsOpen(o => !o)}
+                  style={{ ...toolbarButtonStyle, color: problemCounts.errors > 0 ? '#F44747' : problemCounts.warnings > 0 ? '#DCDCAA' : '#888' }}
+                  onMouseEnter={e => (e.currentTarget.style.borderColor = '#E85D3A')}
+                  onMouseLeave={e => (e.currentTarget.style.borderColor = '#333')}
+                  title="Show problems found while parsing and by the graph checks"
+                >
+                  ✖ {problemCounts.errors} ⚠ {problemCounts.warnings}
+                </button>
+
+                <div style={{ width: 1, height: 28, background: '#333' }} />
+
                 <div style={{ color: '#888', fontSize: 11 }}>
                   <span style={{ color: '#DCDCAA' }}>{fileName}</span>
+                  {gsrcFile && (
+                    <span
+                      style={{ color: gsrcFile.littleEndian ? '#569CD6' : '#C586C0', marginLeft: 8 }}
+                      title={gsrcFile.littleEndian ? 'Little-endian (PC) layout' : 'Big-endian (console) layout'}
+                    >
+                      {gsrcFile.littleEndian ? 'PC' : 'Console'}
+                    </span>
+                  )}
                   <span style={{ color: '#555', marginLeft: 8 }}>
                     {stats.nodes} nodes · {stats.edges} edges
                   </span>
@@ -533,6 +1321,83 @@ function FlowEditor() {
           </Panel>
         )}
 
+        {paletteOpen && gsrcFile && (
+          <Panel position="center-left">
+            <NodePalette schemas={nodeSchemas} onPlace={handlePlaceNode} onClose={() => setPaletteOpen(false)} />
+          </Panel>
+        )}
+
+        {historyOpen && fileName && (
+          <Panel position="top-right">
+            <HistoryPanel
+              entries={historyRef.current.entries}
+              position={historyRef.current.position}
+              onJump={jumpToHistory}
+              onClose={() => setHistoryOpen(false)}
+            />
+          </Panel>
+        )}
+
+        {dictionaryOpen && (
+          <Panel position="top-right">
+            <DictionaryPanel
+              bundled={bundledDictionaries}
+              dictionaries={dictionaries}
+              fileHashes={fileHashes}
+              onImport={handleDictionaryImport}
+              onRemove={handleDictionaryRemove}
+              onMove={handleDictionaryMove}
+              onNamespace={handleDictionaryNamespace}
+              onExport={handleDictionaryExport}
+              onApply={model ? handleApplyNames : undefined}
+              onClose={() => setDictionaryOpen(false)}
+            />
+          </Panel>
+        )}
+
+        {crackOpen && model && (
+          <Panel position="top-right">
+            <CrackPanel
+              unresolved={unresolvedHashes}
+              onAccept={handleCrackAccept}
+              onNavigate={index => navigateToNode(modelNodeIds[index])}
+              onApply={handleApplyNames}
+              onClose={() => setCrackOpen(false)}
+            />
+          </Panel>
+        )}
+
+        {merge && (
+          <Panel position="center-right">
+            <MergePanel
+              base={merge.base?.name}
+              theirs={merge.theirs?.name}
+              conflicts={merge.conflicts}
+              onPick={handleMergePick}
+              onResolve={handleMergeResolve}
+              onNavigate={index => navigateToNode(modelNodeIds[index])}
+              onClose={() => setMerge(null)}
+            />
+          </Panel>
+        )}
+
+        {diff && compare && !merge && (
+          <Panel position="center-right">
+            <DiffPanel
+              diff={diff}
+              name={compare.name}
+              onNavigate={(side, index) => navigateToNode(side === 'a' ? compareNodeId(index) : modelNodeIds[index])}
+              onClose={() => setCompare(null)}
+            />
+          </Panel>
+        )}
+
+        {problemsOpen && gsrcFile && (
+          <Panel position="bottom-right">
+            <ProblemsPanel diagnostics={problems} onNavigate={navigateToProblem} onClose={() => setProblemsOpen(false)} />
+          </Panel>
+        )}
+
         {/* Welcome panel when no file loaded */}
         {!fileName && (
           <Panel position="top-center">
@@ -567,12 +1432,28 @@ function FlowEditor() {
               >
                 📂 Open .gsrc File
               </button>
+              <div style={{ marginTop: 12 }}>
+                <button
+                  onClick={() => adfInputRef.current?.click()}
+                  style={{ ...toolbarButtonStyle, background: 'transparent', color: '#888' }}
+                  onMouseEnter={e => (e.currentTarget.style.borderColor = '#E85D3A')}
+                  onMouseLeave={e => (e.currentTarget.style.borderColor = '#333')}
+                >
+                  or inspect any other ADF file
+                </button>
+              </div>
             </div>
           </Panel>
         )}
       </ReactFlow>
+
+      {inspected && (
+        <AdfInspector buffer={inspected.buffer} fileName={inspected.name} onClose={() => setInspected(null)} />
+      )}
     </div>
   );
+
+  return <NodeEditContext.Provider value={nodeEditApi}>{editor}</NodeEditContext.Provider>;
 }
 
 export default function App() {
@@ -0,0 +1,376 @@
+/**
+ * gsrc - headless command line tool for .gsrc files.
+ *
+ *   npm run gsrc -- info [--json] <file|dir>...
+ *   npm run gsrc -- dump [--json] <file>
+ *   npm run gsrc -- connections <file>
+ *   npm run gsrc -- resolve <hash>...
+ *   npm run gsrc -- hash <string>...
+ *   npm run gsrc -- to-json <file.gsrc> [out.json]
+ *   npm run gsrc -- from-json <file.json> <out.gsrc>
+ *   npm run gsrc -- decompile <file.gsrc> [out.gst]
+ *   npm run gsrc -- compile <file.gst> <base.gsrc> <out.gsrc>
+ *   npm run gsrc -- catalog <out.json> <file|dir>...
+ *   npm run gsrc -- diff <old.gsrc> <new.gsrc>
+ *   npm run gsrc -- merge <base.gsrc> <ours.gsrc> <theirs.gsrc> [out.gsrc]
+ *
+ * Names come from the dictionaries in public/dictionaries/; `--hashc <file>` (any
+ * number of times, before or after the command) adds more, ranked above
+ * them with the first one highest. `--hashc event=<file>` makes the file a
+ * dictionary of one namespace (class, pin, data, event, object, type).
+ *
+ * Directories are searched recursively for .gsrc files. Exits with 1 when any
+ * file has parse errors, so batch runs can gate CI; `diff` exits with 1 when
+ * the graphs differ, like diff(1), and `merge` when there were conflicts,
+ * like a git merge driver.
+ */
+
+import { readFileSync, readdirSync, statSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { GSrcFile, GSDataSet } from '../types/graphscript';
+import { parseGsrc } from '../parser/gsrc-parser';
+import { formatDiagnostic, hex } from '../parser/diagnostics';
+import { stringifyGsrcJson, jsonToBinary, type GsrcJsonDocument } from '../parser/gsrc-json';
+import { decompileGsrc } from '../script/decompiler';
+import { compileScript } from '../script/compiler';
+import { hashString, resolveHash, setHashDictionary, HASH_NAMESPACES, KNOWN_HASHES, type HashNamespace } from '../utils/hash';
+import { bundledDictionary, parseDictionaryManifest, parseStringList, USER_PRIORITY_BASE } from '../utils/hash-dictionary';
+import { learnNodeSchemas, type NodeSchemas } from '../utils/node-schema';
+import { stringifySchemaCatalog } from '../utils/schema-catalog';
+import { diffGraphs } from '../diff/graph-diff';
+import { mergeGraphs } from '../diff/graph-merge';
+
+const USAGE = `Usage: gsrc <command> [options] [--hashc <file>]...
+
+Commands:
+  info [--json] <file|dir>...   Summary per file (version, byte order, nodes, connections, problems)
+  dump [--json] <file>          Full node tree, or the parsed model as JSON
+  connections <file>            Flow and variable connections, one per line
+  resolve <hash>...             Look up names for hashes (hex 0x... or decimal)
+  hash <string>...              Jenkins lookup3 hash of each string
+  to-json <file> [out]          Lossless GSRC-JSON (to stdout without out)
+  from-json <file> <out>        Rebuild the .gsrc binary from GSRC-JSON
+  decompile <file> [out]        GraphScript text (to stdout without out)
+  compile <file> <base> <out>   Build a .gsrc from GraphScript text, using base for the ADF container
+  catalog <out> <file|dir>...   Learn node schemas (pins, parameters, value ranges) into a JSON catalog
+  diff <old> <new>              Added, removed and changed nodes and links, matched by content
+  merge <base> <ours> <theirs> [out]
+                                Three-way merge into out (into ours without out); conflicts keep
+                                one side and are listed
+
+Options:
+  --hashc [namespace=]<file>    Extra hash dictionary (.txt or ADF .hashc), ranked above the shipped
+                                ones; with a namespace (class, pin, data, event, object, type) it
+                                names that kind
+`;
+
+class UsageError extends Error {}
+
+/** Read a file into a standalone ArrayBuffer */
+function readBuffer(path: string): ArrayBuffer {
+  const bytes = readFileSync(path);
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
+
+/** Expand directories into the .gsrc files below them */
+function collectFiles(paths: string[]): string[] {
+  const files: string[] = [];
+  const walk = (path: string) => {
+    if (!statSync(path).isDirectory()) { files.push(path); return; }
+    for (const entry of readdirSync(path).sort()) {
+      const child = join(path, entry);
+      if (statSync(child).isDirectory()) walk(child);
+      else if (/\.gsrc$/i.test(entry)) files.push(child);
+    }
+  };
+  paths.forEach(walk);
+  return files;
+}
+
+const DICTIONARY_DIR = fileURLToPath(new URL('../../public/dictionaries/', import.meta.url));
+
+/** Register the shipped dictionaries, then the --hashc ones above them */
+function loadDictionaries(extra: string[]): void {
+  const manifest = parseDictionaryManifest(readFileSync(join(DICTIONARY_DIR, 'index.json'), 'utf-8'));
+  for (const entry of manifest.dictionaries) setHashDictionary(bundledDictionary(entry, readBuffer(join(DICTIONARY_DIR, entry.file))));
+  extra.forEach((arg, i) => {
+    const [, ns, path] = /^(?:([a-z]+)=)?(.*)$/s.exec(arg)!;
+    if (ns !== undefined && !HASH_NAMESPACES.includes(ns as HashNamespace)) {
+      throw new UsageError(`--hashc ${arg}: unknown namespace "${ns}" (expected ${HASH_NAMESPACES.join(', ')})`);
+    }
+    setHashDictionary({
+      id: `cli:${arg}`, name: path, priority: USER_PRIORITY_BASE + extra.length - i, builtin: false,
+      namespace: ns as HashNamespace | undefined, strings: parseStringList(path, new Uint8Array(readBuffer(path))),
+    });
+  });
+}
+
+function parseHashArg(arg: string): number {
+  const v = /^0x/i.test(arg) ? parseInt(arg.slice(2), 16) : Number(arg);
+  if (!Number.isInteger(v) || v < 0 || v > 0xFFFFFFFF) throw new UsageError(`Not a 32-bit hash: ${arg}`);
+  return v;
+}
+
+function hashHex(h: number): string {
+  return `0x${h.toString(16).padStart(8, '0').toUpperCase()}`;
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** The parsed model without the source buffers; byte arrays become hex strings */
+function toJson(file: GSrcFile): string {
+  const { rawBuffer, internalData, ...model } = file;
+  return JSON.stringify(model, (key, value) => {
+    if (key === '_pinData') return undefined;
+    return value instanceof Uint8Array ? bytesToHex(value) : value;
+  }, 2);
+}
+
+function summarize(path: string, file: GSrcFile) {
+  const errors = file.diagnostics.filter(d => d.severity === 'error').length;
+  return {
+    file: path,
+    adfVersion: file.adfVersion,
+    byteOrder: file.littleEndian ? 'little (PC)' : 'big (console)',
+    nodes: file.graph.nodes.length,
+    flowConnections: file.connections.filter(c => c.connectionType === 'flow').length,
+    variableConnections: file.connections.filter(c => c.connectionType === 'variable').length,
+    globalDataBytes: file.graph.data.value.length,
+    errors,
+    warnings: file.diagnostics.length - errors,
+  };
+}
+
+function printDiagnostics(path: string, file: GSrcFile): void {
+  for (const d of file.diagnostics) {
+    const at = d.offset !== undefined ? ` [${hex(d.offset)}]` : '';
+    console.error(`${path}: ${d.severity}: ${formatDiagnostic(d)}${at}`);
+  }
+}
+
+function dumpDataSet(ds: GSDataSet, indent: string, lines: string[]): void {
+  for (const d of ds.data) {
+    lines.push(`${indent}${d._resolvedName ?? resolveHash(d.name)}: ${d._resolvedType ?? resolveHash(d.type)}${d.reference ? ' (ref)' : ''} = ${d._displayValue ?? ''}`);
+  }
+  for (const child of ds.dataSets) {
+    lines.push(`${indent}[${child._resolvedName ?? resolveHash(child.name)}]`);
+    dumpDataSet(child, `${indent}  `, lines);
+  }
+}
+
+function cmdInfo(args: string[], json: boolean): number {
+  if (args.length === 0) throw new UsageError('info needs at least one file or directory');
+  let failed = false;
+  const rows = collectFiles(args).map(path => {
+    const file = parseGsrc(readBuffer(path));
+    const row = summarize(path, file);
+    if (row.errors > 0) failed = true;
+    if (!json) {
+      console.log(`${path}: ADF v${row.adfVersion}, ${row.byteOrder}, ${row.nodes} nodes, ${row.flowConnections} flow + ${row.variableConnections} variable connections, ${row.globalDataBytes} bytes global data, ${row.errors} errors, ${row.warnings} warnings`);
+      printDiagnostics(path, file);
+    }
+    return row;
+  });
+  if (json) console.log(JSON.stringify(rows, null, 2));
+  return failed ? 1 : 0;
+}
+
+function cmdDump(args: string[], json: boolean): number {
+  if (args.length !== 1) throw new UsageError('dump takes exactly one file');
+  const file = parseGsrc(readBuffer(args[0]));
+  if (json) {
+    console.log(toJson(file));
+  } else {
+    const lines: string[] = [];
+    file.graph.nodes.forEach((n, i) => {
+      lines.push(`#${i} ${n._resolvedClass ?? resolveHash(n.classHash)}${n.functionHash ? ` (function ${resolveHash(n.functionHash)})` : ''}`);
+      dumpDataSet(n.dataSet, '  ', lines);
+    });
+    console.log(lines.join('\n'));
+    printDiagnostics(args[0], file);
+  }
+  return file.diagnostics.some(d => d.severity === 'error') ? 1 : 0;
+}
+
+function cmdConnections(args: string[]): number {
+  if (args.length !== 1) throw new UsageError('connections takes exactly one file');
+  const file = parseGsrc(readBuffer(args[0]));
+  const label = (i: number) => `#${i} ${file.graph.nodes[i]?._resolvedClass ?? '?'}`;
+  for (const c of file.connections) {
+    const from = `${label(c.sourceNodeIndex)}.${c._sourceOutputPin ?? resolveHash(c.sourceOutputPinHash)}`;
+    const to = `${label(c.targetNodeIndex)}.${c._targetInputPin ?? resolveHash(c.targetInputPinHash)}`;
+    console.log(`${from} -> ${to} (${c.connectionType})`);
+  }
+  printDiagnostics(args[0], file);
+  return file.diagnostics.some(d => d.severity === 'error') ? 1 : 0;
+}
+
+function cmdResolve(args: string[]): number {
+  if (args.length === 0) throw new UsageError('resolve needs at least one hash');
+  let missing = false;
+  for (const arg of args) {
+    const h = parseHashArg(arg);
+    const name = KNOWN_HASHES[h];
+    if (name === undefined) missing = true;
+    console.log(`${hashHex(h)}\t${name ?? '(unknown)'}`);
+  }
+  return missing ? 1 : 0;
+}
+
+function cmdHash(args: string[]): number {
+  if (args.length === 0) throw new UsageError('hash needs at least one string');
+  for (const s of args) {
+    const h = hashString(s);
+    console.log(`${hashHex(h)}\t${h}\t${s}`);
+  }
+  return 0;
+}
+
+function cmdToJson(args: string[]): number {
+  if (args.length < 1 || args.length > 2) throw new UsageError('to-json takes a file and an optional output path');
+  const file = parseGsrc(readBuffer(args[0]));
+  printDiagnostics(args[0], file);
+  const text = stringifyGsrcJson(file);
+  if (args[1]) writeFileSync(args[1], text);
+  else process.stdout.write(text);
+  return 0;
+}
+
+function cmdFromJson(args: string[]): number {
+  if (args.length !== 2) throw new UsageError('from-json takes an input and an output path');
+  const doc = JSON.parse(readFileSync(args[0], 'utf8')) as GsrcJsonDocument;
+  writeFileSync(args[1], new Uint8Array(jsonToBinary(doc)));
+  return 0;
+}
+
+function cmdDecompile(args: string[]): number {
+  if (args.length < 1 || args.length > 2) throw new UsageError('decompile takes a file and an optional output path');
+  const file = parseGsrc(readBuffer(args[0]));
+  printDiagnostics(args[0], file);
+  const text = decompileGsrc(file);
+  if (args[1]) writeFileSync(args[1], text);
+  else process.stdout.write(text);
+  return 0;
+}
+
+function cmdCompile(args: string[]): number {
+  if (args.length !== 3) throw new UsageError('compile takes a script, a base .gsrc and an output path');
+  const base = parseGsrc(readBuffer(args[1]));
+  const file = compileScript(readFileSync(args[0], 'utf8'), base);
+  writeFileSync(args[2], new Uint8Array(file.rawBuffer as ArrayBuffer));
+  return 0;
+}
+
+function cmdCatalog(args: string[]): number {
+  if (args.length < 2) throw new UsageError('catalog takes an output path and at least one file or directory');
+  const [out, ...inputs] = args;
+  const files = collectFiles(inputs);
+  const schemas: NodeSchemas = new Map();
+  let failed = false;
+  for (const path of files) {
+    const file = parseGsrc(readBuffer(path));
+    printDiagnostics(path, file);
+    if (file.diagnostics.some(d => d.severity === 'error')) failed = true;
+    learnNodeSchemas(file, schemas);
+  }
+  writeFileSync(out, stringifySchemaCatalog(schemas, files.length));
+  console.log(`${out}: ${schemas.size} classes from ${files.length} files`);
+  return failed ? 1 : 0;
+}
+
+function cmdDiff(args: string[]): number {
+  if (args.length !== 2) throw new UsageError('diff takes an old and a new file');
+  const [a, b] = args.map(path => {
+    const file = parseGsrc(readBuffer(path));
+    printDiagnostics(path, file);
+    return file;
+  });
+  const diff = diffGraphs(a, b);
+  let changed = false;
+  for (const n of diff.nodes) {
+    if (n.kind === 'unchanged') continue;
+    changed = true;
+    if (n.kind === 'added') console.log(`+ node #${n.b} ${n.className}`);
+    else if (n.kind === 'removed') console.log(`- node #${n.a} ${n.className}`);
+    else {
+      console.log(`~ node #${n.a}${n.a === n.b ? '' : ` → #${n.b}`} ${n.className}`);
+      for (const c of n.changes) console.log(`    ${c.field}: ${c.before ?? '(none)'} → ${c.after ?? '(none)'}`);
+    }
+  }
+  for (const c of diff.connections) {
+    changed = true;
+    console.log(`${c.kind === 'added' ? '+' : '-'} link ${c.label}`);
+  }
+  return changed ? 1 : 0;
+}
+
+function cmdMerge(args: string[]): number {
+  if (args.length < 3 || args.length > 4) throw new UsageError('merge takes base, ours and theirs files and an optional output path');
+  const [base, ours, theirs] = args.slice(0, 3).map(path => {
+    const file = parseGsrc(readBuffer(path));
+    printDiagnostics(path, file);
+    // Leave ours untouched so git reports the file as conflicted
+    if (file.diagnostics.some(d => d.severity === 'error')) throw new Error(`${path}: cannot merge a file with parse errors`);
+    return file;
+  });
+  const { file, conflicts } = mergeGraphs(base, ours, theirs);
+  const out = args[3] ?? args[1];
+  writeFileSync(out, new Uint8Array(file.rawBuffer as ArrayBuffer));
+  for (const c of conflicts) {
+    const what = c.kind !== 'delete' ? `${c.field}: ours ${c.ours ?? '(none)'}, theirs ${c.theirs ?? '(none)'}` : `${c.ours ? 'changed by ours, deleted by theirs' : 'deleted by ours, changed by theirs'}`;
+    console.error(`conflict: node #${c.base} ${c.className} ${what} (kept ${c.resolution})`);
+  }
+  if (conflicts.length > 0) console.error(`${out}: ${conflicts.length} conflict${conflicts.length === 1 ? '' : 's'}; open it with base and theirs in the editor to resolve`);
+  return conflicts.length > 0 ? 1 : 0;
+}
+
+function main(argv: string[]): number {
+  const hashc: string[] = [];
+  argv = argv.filter((a, i) => {
+    if (argv[i - 1] === '--hashc') return false;
+    if (a !== '--hashc') return true;
+    if (i + 1 >= argv.length) throw new UsageError('--hashc needs a file');
+    hashc.push(argv[i + 1]);
+    return false;
+  });
+  loadDictionaries(hashc);
+  const [command, ...rest] = argv;
+  const json = rest.includes('--json');
+  const args = rest.filter(a => a !== '--json');
+  switch (command) {
+    case 'info': return cmdInfo(args, json);
+    case 'dump': return cmdDump(args, json);
+    case 'connections': return cmdConnections(args);
+    case 'resolve': return cmdResolve(args);
+    case 'hash': return cmdHash(args);
+    case 'to-json': return cmdToJson(args);
+    case 'from-json': return cmdFromJson(args);
+    case 'decompile': return cmdDecompile(args);
+    case 'compile': return cmdCompile(args);
+    case 'catalog': return cmdCatalog(args);
+    case 'diff': return cmdDiff(args);
+    case 'merge': return cmdMerge(args);
+    case undefined:
+    case 'help':
+    case '--help':
+      console.log(USAGE);
+      return 0;
+    default:
+      throw new UsageError(`Unknown command: ${command}`);
+  }
+}
+
+try {
+  process.exitCode = main(process.argv.slice(2));
+} catch (err) {
+  if (err instanceof UsageError) {
+    console.error(`${err.message}\n\n${USAGE}`);
+    process.exitCode = 2;
+  } else {
+    console.error((err as Error).message);
+    process.exitCode = 1;
+  }
+}
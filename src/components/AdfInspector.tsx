@@ -0,0 +1,178 @@
+import React, { memo, useMemo, useState } from 'react';
+import { AdfReader } from '../parser/adf-reader';
+import { AdfDecoder, adfTypeName, type AdfTreeNode } from '../parser/adf-decoder';
+import { formatDiagnostic } from '../parser/diagnostics';
+import { AdfTypeKind } from '../types/graphscript';
+import { resolveHash, hashString } from '../utils/hash';
+
+const KIND_NAMES: Record<number, string> = {
+  [AdfTypeKind.Scalar]: 'scalar',
+  [AdfTypeKind.Struct]: 'struct',
+  [AdfTypeKind.Pointer]: 'pointer',
+  [AdfTypeKind.Array]: 'array',
+  [AdfTypeKind.InlineArray]: 'inline array',
+  [AdfTypeKind.String]: 'string',
+  [AdfTypeKind.Enum]: 'enum',
+  [AdfTypeKind.StringHash]: 'string hash',
+};
+
+const ROOT_STYLE: React.CSSProperties = {
+  position: 'fixed', inset: 0, zIndex: 10, background: '#0A0A0A', color: '#E0E0E0',
+  fontFamily: "'JetBrains Mono', 'Fira Code', monospace", fontSize: 11,
+  display: 'flex', flexDirection: 'column',
+};
+const BAR_STYLE: React.CSSProperties = {
+  display: 'flex', alignItems: 'center', gap: 12, padding: '8px 16px',
+  background: 'linear-gradient(180deg, #151515 0%, #0D0D0D 100%)', borderBottom: '1px solid #2A2A2A',
+};
+const BACK_BUTTON_STYLE: React.CSSProperties = {
+  background: '#1A1A1A', color: '#E0E0E0', border: '1px solid #333', borderRadius: 4,
+  padding: '5px 10px', fontSize: 10, cursor: 'pointer', fontFamily: 'inherit',
+};
+const TREE_STYLE: React.CSSProperties = { flex: 1, overflow: 'auto', padding: '8px 0' };
+const ROW_STYLE: React.CSSProperties = { display: 'flex', alignItems: 'baseline', gap: 8, padding: '1px 16px', whiteSpace: 'nowrap', cursor: 'default' };
+const TOGGLE_STYLE: React.CSSProperties = { width: 12, color: '#666', fontSize: 9, flexShrink: 0 };
+const LABEL_STYLE: React.CSSProperties = { color: '#9CDCFE' };
+const TYPE_STYLE: React.CSSProperties = { color: '#4EC9B0', fontSize: 10 };
+const VALUE_STYLE: React.CSSProperties = { color: '#CE9178', overflow: 'hidden', textOverflow: 'ellipsis' };
+const ERROR_STYLE: React.CSSProperties = { color: '#F44747' };
+const OFFSET_STYLE: React.CSSProperties = { color: '#555', fontSize: 10, marginLeft: 'auto', paddingLeft: 16 };
+
+function hex(n: number): string {
+  return `0x${n.toString(16).toUpperCase()}`;
+}
+
+/** Build the top-level tree: header, instances (decoded payloads) and type definitions */
+function buildTree(reader: AdfReader): AdfTreeNode[] {
+  const h = reader.header;
+  const headerRows: [string, string][] = [
+    ['version', String(h.version)],
+    ['endianness', reader.isLittleEndian ? 'little (PC)' : 'big (console)'],
+    ['instanceCount', String(h.instanceCount)],
+    ['firstInstanceOffset', hex(h.firstInstanceOffset)],
+    ['typeCount', String(h.typeCount)],
+    ['firstTypeOffset', hex(h.firstTypeOffset)],
+    ['stringHashCount', String(h.stringHashCount)],
+    ['firstStringHashOffset', hex(h.firstStringHashOffset)],
+    ['stringCount', String(h.stringCount)],
+    ['firstStringDataOffset', hex(h.firstStringDataOffset)],
+    ['fileSize', String(h.fileSize)],
+    ['description', JSON.stringify(h.description)],
+  ];
+
+  const instances = reader.instances.map((inst): AdfTreeNode => {
+    const decoder = new AdfDecoder(reader, inst);
+    return {
+      label: inst.name || resolveHash(inst.nameHash),
+      typeName: adfTypeName(reader, inst.typeHash),
+      offset: inst.payloadOffset,
+      size: inst.payloadSize,
+      value: `${inst.payloadSize} bytes`,
+      children: () => decoder.describeInstance().children?.() ?? [],
+    };
+  });
+
+  const types = [...reader.types.values()].map((t): AdfTreeNode => {
+    return {
+      label: t.name || resolveHash(t.nameHash),
+      typeName: KIND_NAMES[t.adfType] ?? `kind ${t.adfType}`,
+      size: t.size,
+      value: `size ${hex(t.size)}, align ${t.alignment}${t.subTypeHash !== undefined ? `, of ${adfTypeName(reader, t.subTypeHash)}` : ''}`,
+      children: t.members.length === 0 ? undefined : () => t.members.map(m => ({
+        label: m.name || resolveHash(m.nameHash),
+        typeName: adfTypeName(reader, m.typeHash),
+        size: m.size,
+        value: `+${hex(m.offset)}, ${m.size} bytes${m.defaultValue ? `, default ${m.defaultValue}` : ''}`,
+      })),
+    };
+  });
+
+  const stringHashes = reader.stringHashes.map((sh): AdfTreeNode => ({
+    label: JSON.stringify(sh.value),
+    typeName: '',
+    size: 0,
+    value: `0x${sh.hash.toString(16).padStart(8, '0').toUpperCase()}${hashString(sh.value) !== sh.hash ? ' ⚠ hash mismatch' : ''}`,
+  }));
+
+  const problems = reader.diagnostics.items.map((d): AdfTreeNode => ({
+    label: d.severity, typeName: '', offset: d.offset, size: 0, error: formatDiagnostic(d),
+  }));
+
+  return [
+    ...(problems.length > 0 ? [{ label: `Problems (${problems.length})`, typeName: '', size: 0, children: () => problems }] : []),
+    { label: 'Header', typeName: '', offset: 0, size: 0, children: () => headerRows.map(([label, value]) => ({ label, typeName: '', size: 0, value })) },
+    { label: `Instances (${instances.length})`, typeName: '', size: 0, children: () => instances },
+    { label: `Types (${types.length})`, typeName: '', size: 0, children: () => types },
+    { label: `String hashes (${stringHashes.length})`, typeName: '', offset: h.firstStringHashOffset || undefined, size: 0, children: () => stringHashes },
+  ];
+}
+
+const TreeRow = memo(({ node, depth, defaultOpen }: { node: AdfTreeNode; depth: number; defaultOpen?: boolean }) => {
+  const [open, setOpen] = useState(!!defaultOpen);
+  const children = useMemo(() => (open && node.children ? node.children() : []), [open, node]);
+  const expandable = !!node.children;
+
+  return (
+    <>
+      <div
+        style={{ ...ROW_STYLE, paddingLeft: 16 + depth * 14, cursor: expandable ? 'pointer' : 'default' }}
+        onClick={() => expandable && setOpen(o => !o)}
+        onMouseEnter={e => (e.currentTarget.style.background = '#151515')}
+        onMouseLeave={e => (e.currentTarget.style.background = 'transparent')}
+      >
+        <span style={TOGGLE_STYLE}>{expandable ? (open ? '▼' : '▶') : ''}</span>
+        <span style={LABEL_STYLE}>{node.label}</span>
+        {node.typeName && <span style={TYPE_STYLE}>{node.typeName}</span>}
+        {node.value !== undefined && <span style={VALUE_STYLE}>{node.value}</span>}
+        {node.error && <span style={ERROR_STYLE}>⚠ {node.error}</span>}
+        {node.offset !== undefined && <span style={OFFSET_STYLE}>{hex(node.offset)}</span>}
+      </div>
+      {children.map((child, i) => (
+        <TreeRow key={i} node={child} depth={depth + 1} />
+      ))}
+    </>
+  );
+});
+TreeRow.displayName = 'TreeRow';
+
+interface AdfInspectorProps {
+  buffer: ArrayBuffer;
+  fileName: string;
+  onClose: () => void;
+}
+
+/** Structured tree view of any ADF file: header, instances with decoded payloads, and types */
+export default function AdfInspector({ buffer, fileName, onClose }: AdfInspectorProps) {
+  const { tree, error } = useMemo(() => {
+    try {
+      const reader = new AdfReader(buffer);
+      reader.parse();
+      return { tree: buildTree(reader), error: null };
+    } catch (err) {
+      return { tree: [], error: (err as Error).message };
+    }
+  }, [buffer]);
+
+  return (
+    <div style={ROOT_STYLE}>
+      <div style={BAR_STYLE}>
+        <button
+          onClick={onClose}
+          style={BACK_BUTTON_STYLE}
+          onMouseEnter={e => (e.currentTarget.style.borderColor = '#E85D3A')}
+          onMouseLeave={e => (e.currentTarget.style.borderColor = '#333')}
+        >
+          ◀ Back to graph
+        </button>
+        <span style={{ color: '#E85D3A', fontWeight: 700 }}>ADF Inspector</span>
+        <span style={{ color: '#DCDCAA' }}>{fileName}</span>
+        <span style={{ color: '#555' }}>{buffer.byteLength} bytes</span>
+      </div>
+      <div style={TREE_STYLE}>
+        {error
+          ? <div style={{ ...ERROR_STYLE, padding: '8px 16px' }}>Failed to parse ADF: {error}</div>
+          : tree.map((node, i) => <TreeRow key={i} node={node} depth={0} defaultOpen={node.label.startsWith('Instances') || node.label.startsWith('Problems')} />)}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { KNOWN_HASHES, getHashDictionaries } from '../utils/hash';
+import { stringifyStringList } from '../utils/hash-dictionary';
+import { crackWords, DEFAULT_CRACK_OPTIONS, type CrackHit, type CrackMessage, type CrackRequest, type UnresolvedHash } from '../utils/hash-crack';
+import { downloadBlob } from '../utils/download';
+
+const PANEL_STYLE: React.CSSProperties = {
+  width: 340,
+  maxHeight: '70vh',
+  display: 'flex',
+  flexDirection: 'column',
+  background: 'linear-gradient(180deg, #1A1A1A 0%, #111 100%)',
+  border: '1px solid #333',
+  borderRadius: 8,
+  boxShadow: '0 4px 20px rgba(0,0,0,0.6)',
+  fontFamily: "'JetBrains Mono', monospace",
+  fontSize: 10,
+  color: '#E0E0E0',
+};
+const HEADER_STYLE: React.CSSProperties = {
+  display: 'flex', alignItems: 'center', gap: 8, padding: '6px 12px', borderBottom: '1px solid #222', fontSize: 11,
+};
+const SECTION_STYLE: React.CSSProperties = { padding: '6px 12px 2px', color: '#555', fontSize: 9, textTransform: 'uppercase', letterSpacing: 1 };
+const LIST_STYLE: React.CSSProperties = { overflowY: 'auto', padding: '2px 0 4px', minHeight: 0 };
+const ROW_STYLE: React.CSSProperties = { display: 'flex', alignItems: 'baseline', gap: 8, padding: '2px 12px' };
+const OPTIONS_STYLE: React.CSSProperties = { display: 'flex', flexDirection: 'column', gap: 4, padding: '6px 12px', borderBottom: '1px solid #222' };
+const INPUT_STYLE: React.CSSProperties = {
+  background: '#0D0D0D', color: '#E0E0E0', border: '1px solid #333', borderRadius: 4, padding: '3px 6px', fontSize: 10, fontFamily: 'inherit',
+};
+const ACTIONS_STYLE: React.CSSProperties = { display: 'flex', gap: 6, padding: '6px 12px', borderTop: '1px solid #222' };
+const BUTTON_STYLE: React.CSSProperties = {
+  background: '#222', color: '#E0E0E0', border: '1px solid #333', borderRadius: 4, padding: '3px 8px', fontSize: 10, fontFamily: 'inherit', cursor: 'pointer',
+};
+const KIND_COLORS: Record<string, string> = { class: '#DCDCAA', pin: '#9CDCFE', data: '#4EC9B0', value: '#CE9178' };
+
+interface CrackPanelProps {
+  unresolved: UnresolvedHash[];               // Unresolved name hashes of the open graph
+  onAccept: (hits: CrackHit[]) => void;       // Register and keep confirmed hits
+  onNavigate: (nodeIndex: number) => void;
+  onApply?: () => void;                       // Re-resolve the names shown in the open graph
+  onClose: () => void;
+}
+
+interface Progress {
+  done: number;
+  total: number;
+  tried: number;
+}
+
+const hex = (h: number) => `0x${h.toString(16).padStart(8, '0').toUpperCase()}`;
+const list = (text: string) => text.split(/[\s,]+/).filter(Boolean);
+
+/**
+ * Dictionary attack on the open graph's unresolved hashes. The search runs
+ * in a worker; hits are only candidates until accepted, since a chance
+ * collision is indistinguishable from the real name.
+ */
+export default function CrackPanel({ unresolved, onAccept, onNavigate, onApply, onClose }: CrackPanelProps) {
+  const workerRef = useRef<Worker | null>(null);
+  const [extraWords, setExtraWords] = useState('');
+  const [prefixes, setPrefixes] = useState(DEFAULT_CRACK_OPTIONS.prefixes.filter(Boolean).join(' '));
+  const [suffixes, setSuffixes] = useState(DEFAULT_CRACK_OPTIONS.suffixes.filter(Boolean).join(' '));
+  const [maxNumber, setMaxNumber] = useState(DEFAULT_CRACK_OPTIONS.maxNumber);
+  const [pairs, setPairs] = useState(DEFAULT_CRACK_OPTIONS.pairs);
+  const [progress, setProgress] = useState<Progress | null>(null);
+  const [running, setRunning] = useState(false);
+  const [hits, setHits] = useState<Map<number, string>>(new Map());
+  const [accepted, setAccepted] = useState<string[]>([]);
+
+  const stop = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setRunning(false);
+  };
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  // Accepted hits drop out; the graph's labels follow on apply
+  const open = useMemo(() => unresolved.filter(u => KNOWN_HASHES[u.hash] === undefined), [unresolved, accepted]);
+  const pending = [...hits].filter(([h]) => KNOWN_HASHES[h] === undefined);
+
+  const start = () => {
+    stop();
+    const names = [...getHashDictionaries().flatMap(d => d.strings), ...Object.values(KNOWN_HASHES), ...list(extraWords)];
+    const request: CrackRequest = {
+      targets: open.map(u => u.hash),
+      words: crackWords(names),
+      options: { prefixes: ['', ...list(prefixes)], suffixes: ['', ...list(suffixes)], maxNumber, pairs },
+    };
+    const worker = new Worker(new URL('../utils/hash-crack.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<CrackMessage>) => {
+      const msg = e.data;
+      if (msg.type === 'hit') setHits(prev => new Map(prev).set(msg.hash, msg.string));
+      else if (msg.type === 'progress') setProgress({ done: msg.done, total: msg.total, tried: msg.tried });
+      else {
+        setProgress(prev => prev && { ...prev, done: prev.total, tried: msg.tried });
+        stop();
+      }
+    };
+    worker.onerror = e => {
+      console.warn('Hash search failed:', e.message);
+      stop();
+    };
+    workerRef.current = worker;
+    setProgress({ done: 0, total: request.words.length, tried: 0 });
+    setRunning(true);
+    worker.postMessage(request);
+  };
+
+  const labelFor = (hash: number) => unresolved.find(u => u.hash === hash);
+
+  const accept = (hits: [number, string][]) => {
+    onAccept(hits.map(([hash, s]) => ({ string: s, kinds: labelFor(hash)?.kinds ?? [] })));
+    setAccepted(prev => [...prev, ...hits.map(([, s]) => s)]);
+  };
+
+  return (
+    <div style={PANEL_STYLE}>
+      <div style={HEADER_STYLE}>
+        <span style={{ fontWeight: 700 }}>Hash workbench</span>
+        <span style={{ color: open.length > 0 ? '#E2C08D' : '#81B88B' }}>{open.length} unresolved</span>
+        <button
+          onClick={onClose}
+          style={{ marginLeft: 'auto', background: 'transparent', color: '#555', border: 'none', cursor: 'pointer', fontSize: 14, lineHeight: 1 }}
+          onMouseEnter={e => (e.currentTarget.style.color = '#E0E0E0')}
+          onMouseLeave={e => (e.currentTarget.style.color = '#555')}
+          title={running ? 'Close (stops the search)' : 'Close'}
+        >
+          ✕
+        </button>
+      </div>
+      <div style={OPTIONS_STYLE}>
+        <textarea
+          value={extraWords}
+          onChange={e => setExtraWords(e.target.value)}
+          placeholder="Extra words to try, besides every known name"
+          rows={2}
+          style={{ ...INPUT_STYLE, resize: 'vertical' }}
+        />
+        <label style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
+          <span style={{ width: 56, color: '#888' }}>Prefixes</span>
+          <input value={prefixes} onChange={e => setPrefixes(e.target.value)} style={{ ...INPUT_STYLE, flex: 1 }} />
+        </label>
+        <label style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
+          <span style={{ width: 56, color: '#888' }}>Suffixes</span>
+          <input value={suffixes} onChange={e => setSuffixes(e.target.value)} style={{ ...INPUT_STYLE, flex: 1 }} />
+        </label>
+        <div style={{ display: 'flex', gap: 10, alignItems: 'center' }}>
+          <label style={{ display: 'flex', gap: 6, alignItems: 'center', color: '#888' }} title="Try word0..wordN and word_0..word_N">
+            Numbers to
+            <input
+              type="number"
+              min={-1}
+              max={999}
+              value={maxNumber}
+              onChange={e => setMaxNumber(Math.max(-1, Math.min(999, Number(e.target.value) || 0)))}
+              style={{ ...INPUT_STYLE, width: 48 }}
+            />
+          </label>
+          <label style={{ display: 'flex', gap: 4, alignItems: 'center', color: '#888' }} title="Also join every two word parts (much slower)">
+            <input type="checkbox" checked={pairs} onChange={e => setPairs(e.target.checked)} />
+            word pairs
+          </label>
+        </div>
+        {progress && (
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8, color: '#888' }}>
+            <div style={{ flex: 1, height: 4, background: '#222', borderRadius: 2, overflow: 'hidden' }}>
+              <div style={{ width: `${(progress.done / Math.max(1, progress.total)) * 100}%`, height: '100%', background: '#E85D3A' }} />
+            </div>
+            <span>{(progress.tried / 1e6).toFixed(1)}M tried</span>
+          </div>
+        )}
+      </div>
+      <div style={SECTION_STYLE}>Hits</div>
+      <div style={{ ...LIST_STYLE, maxHeight: 160 }}>
+        {pending.length === 0 && <div style={{ ...ROW_STYLE, color: '#555' }}>{running ? 'Searching…' : 'None yet'}</div>}
+        {pending.map(([hash, s]) => (
+          <div key={hash} style={ROW_STYLE}>
+            <span style={{ color: '#666', flexShrink: 0 }}>{hex(hash)}</span>
+            <span style={{ color: '#81B88B', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{s}</span>
+            <span style={{ color: KIND_COLORS[labelFor(hash)?.kinds[0] ?? ''] ?? '#555', flexShrink: 0 }}>{labelFor(hash)?.kinds.join('/')}</span>
+            <button style={{ ...BUTTON_STYLE, marginLeft: 'auto', padding: '1px 6px' }} onClick={() => accept([[hash, s]])} title="Register this name">✓</button>
+          </div>
+        ))}
+      </div>
+      <div style={SECTION_STYLE}>Unresolved</div>
+      <div style={LIST_STYLE}>
+        {open.map(u => (
+          <div
+            key={u.hash}
+            style={{ ...ROW_STYLE, cursor: 'pointer' }}
+            onClick={() => onNavigate(u.nodeIndex)}
+            onMouseEnter={e => (e.currentTarget.style.background = '#222')}
+            onMouseLeave={e => (e.currentTarget.style.background = 'transparent')}
+            title={`Used ${u.count}× - first by node #${u.nodeIndex}`}
+          >
+            <span style={{ color: hits.has(u.hash) ? '#81B88B' : '#888', flexShrink: 0 }}>{hex(u.hash)}</span>
+            {u.kinds.map(k => <span key={k} style={{ color: KIND_COLORS[k] }}>{k}</span>)}
+            <span style={{ color: '#555', marginLeft: 'auto' }}>{u.count}×</span>
+          </div>
+        ))}
+      </div>
+      <div style={ACTIONS_STYLE}>
+        {running
+          ? <button style={BUTTON_STYLE} onClick={stop}>Stop</button>
+          : <button style={{ ...BUTTON_STYLE, opacity: open.length > 0 ? 1 : 0.4 }} disabled={open.length === 0} onClick={start}>Search</button>}
+        <button
+          style={{ ...BUTTON_STYLE, opacity: pending.length > 0 ? 1 : 0.4 }}
+          disabled={pending.length === 0}
+          onClick={() => accept(pending)}
+          title="Register every hit"
+        >
+          Accept all
+        </button>
+        <button
+          style={{ ...BUTTON_STYLE, opacity: accepted.length > 0 ? 1 : 0.4 }}
+          disabled={accepted.length === 0}
+          onClick={() => downloadBlob(stringifyStringList(accepted), 'cracked.txt', 'text/plain')}
+          title="Download the accepted names as a .txt list for the Dictionaries panel"
+        >
+          Export
+        </button>
+        {onApply && (
+          <button style={{ ...BUTTON_STYLE, marginLeft: 'auto' }} onClick={onApply} title="Reload the open graph so its labels use the accepted names (clears undo history)">
+            Apply
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import React, { useMemo, useRef } from 'react';
+import { KNOWN_HASHES, HASH_NAMESPACES, isBuiltinHash, getHashCollisions, type HashDictionary, type HashNamespace } from '../utils/hash';
+import { dictionaryHashes, type UserDictionary } from '../utils/hash-dictionary';
+
+const PANEL_STYLE: React.CSSProperties = {
+  width: 360,
+  maxHeight: '60vh',
+  display: 'flex',
+  flexDirection: 'column',
+  background: 'linear-gradient(180deg, #1A1A1A 0%, #111 100%)',
+  border: '1px solid #333',
+  borderRadius: 8,
+  boxShadow: '0 4px 20px rgba(0,0,0,0.6)',
+  fontFamily: "'JetBrains Mono', monospace",
+  fontSize: 10,
+  color: '#E0E0E0',
+};
+const HEADER_STYLE: React.CSSProperties = {
+  display: 'flex', alignItems: 'center', gap: 8, padding: '6px 12px', borderBottom: '1px solid #222', fontSize: 11,
+};
+const SUMMARY_STYLE: React.CSSProperties = { padding: '6px 12px', color: '#888', borderBottom: '1px solid #222', lineHeight: 1.6 };
+const LIST_STYLE: React.CSSProperties = { overflowY: 'auto', padding: '4px 0' };
+const ROW_STYLE: React.CSSProperties = { display: 'flex', alignItems: 'baseline', gap: 8, padding: '3px 12px' };
+const SECTION_STYLE: React.CSSProperties = { padding: '6px 12px 2px', color: '#555', fontSize: 9, textTransform: 'uppercase', letterSpacing: 1 };
+const NAMESPACE_STYLE: React.CSSProperties = {
+  background: '#0D0D0D', color: '#888', border: '1px solid #333', borderRadius: 3, fontSize: 9, fontFamily: 'inherit', padding: '0 2px', flexShrink: 0,
+};
+const ICON_BUTTON_STYLE: React.CSSProperties = { background: 'transparent', color: '#555', border: 'none', cursor: 'pointer', fontSize: 12, lineHeight: 1, padding: 0 };
+const ACTIONS_STYLE: React.CSSProperties = { display: 'flex', gap: 6, padding: '6px 12px', borderTop: '1px solid #222' };
+const BUTTON_STYLE: React.CSSProperties = {
+  background: '#222', color: '#E0E0E0', border: '1px solid #333', borderRadius: 4, padding: '3px 8px', fontSize: 10, fontFamily: 'inherit', cursor: 'pointer',
+};
+
+interface DictionaryPanelProps {
+  bundled: HashDictionary[];         // Shipped with the editor
+  dictionaries: UserDictionary[];    // Imported by the user, highest priority first
+  fileHashes: Set<number> | null;    // Name hashes of the open graph
+  onImport: (files: File[]) => void;
+  onRemove: (id: string) => void;
+  onMove: (id: string, direction: -1 | 1) => void;
+  onNamespace: (id: string, namespace: HashNamespace | undefined) => void;
+  onExport: () => void;
+  onApply?: () => void;              // Re-resolve the names shown in the open graph
+  onClose: () => void;
+}
+
+/**
+ * User string lists on top of the shipped dictionaries, kept in the browser.
+ * Lists higher up win when two name the same hash. Each list shows how many
+ * names of the open graph only it resolves.
+ */
+export default function DictionaryPanel({ bundled, dictionaries, fileHashes, onImport, onRemove, onMove, onNamespace, onExport, onApply, onClose }: DictionaryPanelProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Hashes of the open graph the built-in names leave unresolved
+  const missing = useMemo(() => fileHashes ? [...fileHashes].filter(h => !isBuiltinHash(h)) : [], [fileHashes]);
+
+  const fixes = useMemo(() => new Map(dictionaries.map(d => {
+    const named = dictionaryHashes(d);
+    return [d.id, missing.filter(h => named.has(h)).length];
+  })), [dictionaries, missing]);
+
+  const unresolved = missing.filter(h => KNOWN_HASHES[h] === undefined).length;
+  const collisions = getHashCollisions();
+
+  return (
+    <div style={PANEL_STYLE}>
+      <div style={HEADER_STYLE}>
+        <span style={{ fontWeight: 700 }}>Dictionaries</span>
+        <span style={{ color: '#555' }}>{Object.keys(KNOWN_HASHES).length} names</span>
+        {collisions.length > 0 && (
+          <span
+            style={{ color: '#E2C08D' }}
+            title={`Strings sharing a hash (the first is shown unless pinned):\n${collisions.map(c => `0x${c.hash.toString(16).padStart(8, '0').toUpperCase()}: ${c.strings.join(' | ')}`).join('\n')}`}
+          >
+            {collisions.length} collision{collisions.length === 1 ? '' : 's'}
+          </span>
+        )}
+        <button
+          onClick={onClose}
+          style={{ marginLeft: 'auto', background: 'transparent', color: '#555', border: 'none', cursor: 'pointer', fontSize: 14, lineHeight: 1 }}
+          onMouseEnter={e => (e.currentTarget.style.color = '#E0E0E0')}
+          onMouseLeave={e => (e.currentTarget.style.color = '#555')}
+        >
+          ✕
+        </button>
+      </div>
+      {fileHashes && (
+        <div style={SUMMARY_STYLE}>
+          Open graph: {fileHashes.size} name hashes, {missing.length} not built in,{' '}
+          <span style={{ color: unresolved > 0 ? '#E2C08D' : '#81B88B' }}>{unresolved} unresolved</span>
+        </div>
+      )}
+      <div style={LIST_STYLE}>
+        <div style={SECTION_STYLE}>Imported</div>
+        {dictionaries.length === 0 && <div style={{ ...ROW_STYLE, color: '#555' }}>No imported lists</div>}
+        {dictionaries.map((d, i) => (
+          <div key={d.id} style={ROW_STYLE} title={`Imported ${new Date(d.importedAt).toLocaleString()}`}>
+            <span style={{ display: 'flex', gap: 2, flexShrink: 0 }}>
+              <button style={{ ...ICON_BUTTON_STYLE, opacity: i > 0 ? 1 : 0.3 }} disabled={i === 0} onClick={() => onMove(d.id, -1)} title="Higher priority">▲</button>
+              <button style={{ ...ICON_BUTTON_STYLE, opacity: i < dictionaries.length - 1 ? 1 : 0.3 }} disabled={i === dictionaries.length - 1} onClick={() => onMove(d.id, 1)} title="Lower priority">▼</button>
+            </span>
+            <span style={{ color: '#DCDCAA', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{d.name}</span>
+            <span style={{ color: '#666', flexShrink: 0 }}>{d.strings.length}</span>
+            <select
+              value={d.namespace ?? ''}
+              onChange={e => onNamespace(d.id, (e.target.value || undefined) as HashNamespace | undefined)}
+              style={NAMESPACE_STYLE}
+              title="What the names in this list are; global lists only name hashes as a guess"
+            >
+              <option value="">global</option>
+              {HASH_NAMESPACES.map(ns => <option key={ns} value={ns}>{ns}</option>)}
+            </select>
+            {fileHashes && (
+              <span style={{ color: fixes.get(d.id) ? '#81B88B' : '#555', flexShrink: 0 }} title="Names of the open graph this list resolves that the built-in names don't">
+                fixes {fixes.get(d.id)}
+              </span>
+            )}
+            <button
+              onClick={() => onRemove(d.id)}
+              style={{ marginLeft: 'auto', background: 'transparent', color: '#555', border: 'none', cursor: 'pointer', fontSize: 12, lineHeight: 1 }}
+              onMouseEnter={e => (e.currentTarget.style.color = '#C74E39')}
+              onMouseLeave={e => (e.currentTarget.style.color = '#555')}
+              title="Remove this list"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+        <div style={SECTION_STYLE}>Shipped</div>
+        {bundled.length === 0 && <div style={{ ...ROW_STYLE, color: '#555' }}>Not loaded</div>}
+        {[...bundled].sort((a, b) => b.priority - a.priority).map(d => (
+          <div key={d.id} style={ROW_STYLE} title={`public/dictionaries, priority ${d.priority}`}>
+            <span style={{ color: '#888', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{d.name}</span>
+            <span style={{ color: '#666', flexShrink: 0, marginLeft: 'auto' }}>{d.strings.length}</span>
+            <span style={{ color: '#555', flexShrink: 0 }}>{d.namespace ?? 'global'}</span>
+          </div>
+        ))}
+      </div>
+      <div style={ACTIONS_STYLE}>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".txt,.hashc"
+          multiple
+          onChange={e => {
+            const files = [...e.target.files ?? []];
+            e.target.value = '';
+            if (files.length > 0) onImport(files);
+          }}
+          style={{ display: 'none' }}
+        />
+        <button style={BUTTON_STYLE} onClick={() => inputRef.current?.click()} title="Import .txt (one string per line) or ADF .hashc string lists">Import…</button>
+        <button style={BUTTON_STYLE} onClick={onExport} title="Download every known name, built-in and imported, as one .txt list">Export all</button>
+        {onApply && (
+          <button style={{ ...BUTTON_STYLE, marginLeft: 'auto' }} onClick={onApply} title="Reload the open graph so its labels use the current names (clears undo history)">
+            Apply to graph
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import React from 'react';
+import type { GraphDiff, NodeDiff } from '../diff/graph-diff';
+
+const PANEL_STYLE: React.CSSProperties = {
+  width: 340,
+  maxHeight: '60vh',
+  display: 'flex',
+  flexDirection: 'column',
+  background: 'linear-gradient(180deg, #1A1A1A 0%, #111 100%)',
+  border: '1px solid #333',
+  borderRadius: 8,
+  boxShadow: '0 4px 20px rgba(0,0,0,0.6)',
+  fontFamily: "'JetBrains Mono', monospace",
+  fontSize: 10,
+  color: '#E0E0E0',
+};
+const HEADER_STYLE: React.CSSProperties = {
+  display: 'flex', alignItems: 'center', gap: 8, padding: '6px 12px', borderBottom: '1px solid #222', fontSize: 11,
+};
+const LIST_STYLE: React.CSSProperties = { overflowY: 'auto', padding: '4px 0' };
+const ROW_STYLE: React.CSSProperties = { display: 'flex', alignItems: 'baseline', gap: 8, padding: '3px 12px', cursor: 'pointer' };
+const CHANGE_STYLE: React.CSSProperties = { padding: '0 12px 2px 30px', color: '#888', wordBreak: 'break-all' };
+const SECTION_STYLE: React.CSSProperties = { padding: '6px 12px 2px', color: '#555', fontSize: 9, textTransform: 'uppercase', letterSpacing: 1 };
+
+/** Overlay colors, shared with the canvas */
+export const DIFF_COLORS = {
+  added: '#81B88B',
+  removed: '#C74E39',
+  modified: '#E2C08D',
+};
+
+const MARKS = { added: '+', removed: '−', modified: '~' };
+
+interface DiffPanelProps {
+  diff: GraphDiff;
+  name: string;   // File the open graph is compared against
+  onNavigate: (side: 'a' | 'b', index: number) => void;
+  onClose: () => void;
+}
+
+/**
+ * Changes from the compared file (old) to the open graph (new). Rows jump
+ * to the node on the canvas; removed nodes are shown there as ghosts.
+ */
+export default function DiffPanel({ diff, name, onNavigate, onClose }: DiffPanelProps) {
+  const changed = diff.nodes.filter((n): n is NodeDiff & { kind: 'added' | 'removed' | 'modified' } => n.kind !== 'unchanged');
+  const count = (kind: keyof typeof MARKS) => changed.filter(n => n.kind === kind).length;
+  const linksAdded = diff.connections.filter(c => c.kind === 'added').length;
+
+  const hover = {
+    onMouseEnter: (e: React.MouseEvent<HTMLDivElement>) => (e.currentTarget.style.background = '#222'),
+    onMouseLeave: (e: React.MouseEvent<HTMLDivElement>) => (e.currentTarget.style.background = 'transparent'),
+  };
+
+  return (
+    <div style={PANEL_STYLE}>
+      <div style={HEADER_STYLE}>
+        <span style={{ fontWeight: 700 }}>Compare</span>
+        <span style={{ color: '#DCDCAA', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={`Changes from ${name} to the open graph`}>{name}</span>
+        <button
+          onClick={onClose}
+          style={{ marginLeft: 'auto', background: 'transparent', color: '#555', border: 'none', cursor: 'pointer', fontSize: 14, lineHeight: 1 }}
+          onMouseEnter={e => (e.currentTarget.style.color = '#E0E0E0')}
+          onMouseLeave={e => (e.currentTarget.style.color = '#555')}
+        >
+          ✕
+        </button>
+      </div>
+      <div style={{ ...HEADER_STYLE, gap: 12, color: '#888' }}>
+        <span style={{ color: DIFF_COLORS.added }}>+{count('added')}</span>
+        <span style={{ color: DIFF_COLORS.removed }}>−{count('removed')}</span>
+        <span style={{ color: DIFF_COLORS.modified }}>~{count('modified')}</span>
+        <span>links +{linksAdded} −{diff.connections.length - linksAdded}</span>
+      </div>
+      <div style={LIST_STYLE}>
+        {changed.length === 0 && diff.connections.length === 0 && <div style={{ ...ROW_STYLE, color: '#555', cursor: 'default' }}>No differences</div>}
+        {changed.length > 0 && <div style={SECTION_STYLE}>Nodes</div>}
+        {changed.map(n => (
+          <div key={`${n.kind}-${n.a}-${n.b}`}>
+            <div style={ROW_STYLE} onClick={() => n.b !== undefined ? onNavigate('b', n.b) : onNavigate('a', n.a!)} {...hover}>
+              <span style={{ color: DIFF_COLORS[n.kind], width: 8, flexShrink: 0 }}>{MARKS[n.kind]}</span>
+              <span style={{ color: '#666' }}>#{n.b ?? n.a}</span>
+              <span>{n.className}</span>
+              {n.kind === 'modified' && n.a !== n.b && <span style={{ color: '#555', marginLeft: 'auto' }}>was #{n.a}</span>}
+            </div>
+            {n.changes.map(c => (
+              <div key={c.field} style={CHANGE_STYLE}>
+                <span style={{ color: '#9CDCFE' }}>{c.field}</span>: {c.before ?? '(none)'} → <span style={{ color: '#CE9178' }}>{c.after ?? '(none)'}</span>
+              </div>
+            ))}
+          </div>
+        ))}
+        {diff.connections.length > 0 && <div style={SECTION_STYLE}>Links</div>}
+        {diff.connections.map((c, i) => (
+          <div
+            key={i}
+            style={ROW_STYLE}
+            onClick={() => onNavigate(c.kind === 'added' ? 'b' : 'a', c.connection.sourceNodeIndex)}
+            {...hover}
+          >
+            <span style={{ color: DIFF_COLORS[c.kind], width: 8, flexShrink: 0 }}>{MARKS[c.kind]}</span>
+            <span>{c.label}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,13 @@
-import React, { memo, useState, useMemo } from 'react';
+import React, { memo, useState, useMemo, useContext, useCallback } from 'react';
 import { Handle, Position, type NodeProps } from '@xyflow/react';
 import type { NodeData, PinInfo } from '../utils/gsrc-to-flow';
 import type { GSData } from '../types/graphscript';
+import ParameterEditor from './ParameterEditor';
+import HashMark from './HashMark';
+import { NodeEditContext } from './NodeEditContext';
+import { getVariableValueType } from '../parser/gsrc-parser';
+import { BLOB_TYPE_LAYOUT } from '../utils/data-allocator';
+import { valueNamespace } from '../utils/hash';
 
 // Pre-computed pin handle styles (avoid creating new objects every render)
 const PIN_STYLE_BLUE: React.CSSProperties = {
@@ -48,11 +54,13 @@ const PARAM_VAL_STYLE: React.CSSProperties = { color: '#CE9178', fontSize: 10, t
 const PARAM_ROW_STYLE: React.CSSProperties = { display: 'flex', justifyContent: 'space-between', alignItems: 'center', padding: '1px 0', gap: 8 };
 const PARAM_HEADER_STYLE: React.CSSProperties = { color: '#888', fontSize: 9, marginBottom: 4, textTransform: 'uppercase', letterSpacing: 1 };
 
-const GSNodeComponent = memo(({ data, selected }: NodeProps & { data: NodeData }) => {
+const GSNodeComponent = memo(({ id, data, selected }: NodeProps & { data: NodeData }) => {
   const [expanded, setExpanded] = useState(false);
   const cat = data.category;
   const isVariableNode = /^(Variable|ExternalVariable|GlobalVariable)/.test(data.className);
 
+  const variableName = isVariableNode ? data.parameters.find(p => p._resolvedName === 'Name')?._displayValue : undefined;
+
   const maxPins = Math.max(data.inputPins.length, data.outputPins.length, 1);
 
   // Memoize container style
@@ -104,6 +112,7 @@ const GSNodeComponent = memo(({ data, selected }: NodeProps & { data: NodeData }
         <span style={{ fontWeight: 700, color: cat.color, flex: 1 }}>
           {data.className}
         </span>
+        <HashMark context="class" hash={data.classHash} />
         <span style={{ color: '#666', fontSize: 9 }}>#{data.nodeIndex}</span>
         <span style={toggleStyle}>▼</span>
       </div>
@@ -120,12 +129,14 @@ const GSNodeComponent = memo(({ data, selected }: NodeProps & { data: NodeData }
                   <>
                     <Handle type="target" position={Position.Left} id={`in-${inPin.hash}`} style={PIN_STYLE_BLUE} />
                     <span style={IN_LABEL_STYLE}>{inPin.name}</span>
+                    <HashMark context="pin" hash={inPin.hash} />
                   </>
                 )}
               </div>
               <div style={PIN_RIGHT_STYLE}>
                 {outPin && (
                   <>
+                    <HashMark context="pin" hash={outPin.hash} />
                     <span style={OUT_LABEL_STYLE}>{outPin.name}</span>
                     <Handle type="source" position={Position.Right} id={`out-${outPin.hash}`} style={PIN_STYLE_ORANGE} />
                   </>
@@ -142,6 +153,7 @@ const GSNodeComponent = memo(({ data, selected }: NodeProps & { data: NodeData }
               <div key={vi} style={VAR_ROW_STYLE}>
                 <Handle type="target" position={Position.Left} id={`var-${vp.hash}`} style={PIN_STYLE_TEAL_LEFT} />
                 <span style={VAR_LABEL_STYLE}>⬢ {vp.name}</span>
+                <HashMark context="pin" hash={vp.hash} />
               </div>
             ))}
           </div>
@@ -159,10 +171,7 @@ const GSNodeComponent = memo(({ data, selected }: NodeProps & { data: NodeData }
       {isVariableNode && data.parameters.length > 0 && (
         <div style={{ borderTop: `1px solid ${cat.borderColor}33`, padding: '2px 0' }}>
           {data.parameters.map((param, pi) => (
-            <div key={pi} style={VAR_VALUE_STYLE}>
-              <span style={VAR_VALUE_NAME_STYLE}>{param._resolvedName ?? '??'}</span>
-              <span style={VAR_VALUE_VAL_STYLE}>{param._displayValue ?? '??'}</span>
-            </div>
+            <VariableValueRow key={pi} className={data.className} param={param} label={`Set ${variableName ?? data.className}`} />
           ))}
         </div>
       )}
@@ -172,7 +181,7 @@ const GSNodeComponent = memo(({ data, selected }: NodeProps & { data: NodeData }
         <div style={paramContainerStyle}>
           <div style={PARAM_HEADER_STYLE}>Parameters</div>
           {data.parameters.map((param, pi) => (
-            <ParameterRow key={pi} param={param} />
+            <ParameterRow key={pi} nodeId={id} index={pi} param={param} />
           ))}
         </div>
       )}
@@ -182,12 +191,69 @@ const GSNodeComponent = memo(({ data, selected }: NodeProps & { data: NodeData }
 
 GSNodeComponent.displayName = 'GSNodeComponent';
 
-const ParameterRow = memo(({ param }: { param: GSData }) => (
-  <div style={PARAM_ROW_STYLE}>
-    <span style={PARAM_NAME_STYLE}>{param._resolvedName ?? '??'}</span>
-    <span style={PARAM_VAL_STYLE}>{param._displayValue ?? '??'}</span>
-  </div>
-));
+const ParameterRow = memo(({ nodeId, index, param }: { nodeId: string; index: number; param: GSData }) => {
+  const edit = useContext(NodeEditContext);
+  const onChange = useCallback((next: GSData) => edit?.setParameter(nodeId, index, next), [edit, nodeId, index]);
+  const valueHash = hashValue(param, edit?.littleEndian ?? true);
+  return (
+    <div style={PARAM_ROW_STYLE}>
+      <span style={{ ...PARAM_NAME_STYLE, display: 'flex', gap: 3, alignItems: 'center' }}>
+        {param._resolvedName ?? '??'}
+        <HashMark context="data" hash={param.name} />
+      </span>
+      {edit
+        ? <ParameterEditor param={param} littleEndian={edit.littleEndian} onChange={onChange} />
+        : <span style={PARAM_VAL_STYLE}>{param._displayValue ?? '??'}</span>}
+      {valueHash !== undefined && <HashMark context="value" hash={valueHash} namespace={valueNamespace(param._resolvedName)} />}
+    </div>
+  );
+});
 ParameterRow.displayName = 'ParameterRow';
 
+/** The hash a uint32 or string_hash parameter holds */
+function hashValue(param: GSData, le: boolean): number | undefined {
+  if (param.reference || param.value.length !== 4 || (param._resolvedType !== 'uint32' && param._resolvedType !== 'string_hash')) return undefined;
+  return new DataView(param.value.buffer, param.value.byteOffset, 4).getUint32(0, le);
+}
+
+/**
+ * Field of a Variable node. A referencing Value field is edited where it
+ * points: the value slot in the global data blob, typed by the variable class.
+ */
+const VariableValueRow = memo(({ className, param, label }: { className: string; param: GSData; label: string }) => {
+  const edit = useContext(NodeEditContext);
+  const slot = useMemo(() => {
+    const valueType = getVariableValueType(className);
+    const size = BLOB_TYPE_LAYOUT[valueType]?.size;
+    if (!edit || param._resolvedName !== 'Value' || !param.reference || size === undefined || param.value.length < 4) return undefined;
+    const offset = new DataView(param.value.buffer, param.value.byteOffset, 4).getUint32(0, edit.littleEndian);
+    if (offset + size > edit.globalData.length) return undefined;
+    const value = edit.globalData.slice(offset, offset + size);
+    const data: GSData = { ...param, value, count: size, reference: false, _resolvedType: valueType };
+    return { offset, data };
+  }, [edit, className, param]);
+  // A Name field points at the variable's name hash
+  const nameHash = useMemo(() => {
+    if (!edit || param._resolvedName !== 'Name' || param.value.length < 4) return undefined;
+    const offset = new DataView(param.value.buffer, param.value.byteOffset, 4).getUint32(0, edit.littleEndian);
+    if (offset + 4 > edit.globalData.length) return undefined;
+    return new DataView(edit.globalData.buffer, edit.globalData.byteOffset + offset, 4).getUint32(0, edit.littleEndian);
+  }, [edit, param]);
+  const onChange = useCallback((next: GSData) => {
+    if (slot) edit?.setGlobalValue(slot.offset, next.value, label);
+  }, [edit, slot, label]);
+
+  return (
+    <div style={VAR_VALUE_STYLE}>
+      <span style={VAR_VALUE_NAME_STYLE}>{param._resolvedName ?? '??'}</span>
+      <HashMark context="data" hash={param.name} />
+      {slot && edit
+        ? <span style={{ marginLeft: 'auto' }}><ParameterEditor param={slot.data} littleEndian={edit.littleEndian} onChange={onChange} /></span>
+        : <span style={VAR_VALUE_VAL_STYLE}>{param._displayValue ?? '??'}</span>}
+      {nameHash !== undefined && <HashMark context="value" hash={nameHash} namespace="data" />}
+    </div>
+  );
+});
+VariableValueRow.displayName = 'VariableValueRow';
+
 export default GSNodeComponent;
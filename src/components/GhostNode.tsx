@@ -0,0 +1,15 @@
+import React, { memo } from 'react';
+import type { NodeProps } from '@xyflow/react';
+import type { NodeData } from '../utils/gsrc-to-flow';
+import GSNodeComponent from './GSNodeComponent';
+import { NodeEditContext } from './NodeEditContext';
+
+/** Read-only node shown for a node that only exists in the compared file */
+const GhostNode = memo((props: NodeProps & { data: NodeData }) => (
+  <NodeEditContext.Provider value={null}>
+    <GSNodeComponent {...props} />
+  </NodeEditContext.Provider>
+));
+GhostNode.displayName = 'GhostNode';
+
+export default GhostNode;
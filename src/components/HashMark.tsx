@@ -0,0 +1,58 @@
+import React, { memo, useContext } from 'react';
+import { NodeEditContext } from './NodeEditContext';
+import { hashCandidates, lookupHash, type HashContext, type HashNamespace } from '../utils/hash';
+
+const MARK_STYLE: React.CSSProperties = {
+  position: 'relative', display: 'inline-block', color: '#E2C08D', fontSize: 9, fontWeight: 700, lineHeight: 1, cursor: 'pointer', flexShrink: 0,
+};
+const GUESS_STYLE: React.CSSProperties = { color: '#666', fontSize: 9, lineHeight: 1, cursor: 'help', flexShrink: 0 };
+// Invisible, over the mark, so clicking the mark opens the list
+const SELECT_STYLE: React.CSSProperties = { position: 'absolute', inset: 0, opacity: 0, cursor: 'pointer', width: '100%', fontSize: 10 };
+
+interface HashMarkProps {
+  context: HashContext;
+  hash: number;
+  namespace?: HashNamespace | null;   // For values: what the field holds (null: unknown)
+}
+
+const hex = (h: number) => `0x${h.toString(16).padStart(8, '0').toUpperCase()}`;
+
+/**
+ * Marks a label whose name is uncertain. `?`: more than one known string
+ * has the hash - the title lists them and picking one pins it for this
+ * context. `≈`: the name only comes from the global dictionary, not the
+ * namespace the label belongs to, so it may be unrelated.
+ */
+const HashMark = memo(({ context, hash, namespace }: HashMarkProps) => {
+  const edit = useContext(NodeEditContext);
+  const candidates = hashCandidates(hash);
+  const { name, guess } = lookupHash(context, hash, namespace);
+  const where = namespace === null ? 'this field' : `the ${namespace ?? context} dictionary`;
+
+  if (candidates.length < 2) {
+    if (!guess) return null;
+    return <span style={GUESS_STYLE} title={`Guess: ${hex(hash)} is not in ${where}; "${name}" comes from the global dictionary`}>≈</span>;
+  }
+
+  const title = `Ambiguous ${context} hash ${hex(hash)}: ${candidates.join(' | ')}`
+    + (guess ? ` (not in ${where})` : '')
+    + (edit ? ' - click to choose' : '');
+  return (
+    <span style={MARK_STYLE} title={title} onClick={e => e.stopPropagation()}>
+      ?
+      {edit && (
+        <select
+          className="nodrag"
+          style={SELECT_STYLE}
+          value={name}
+          onChange={e => edit.pinHashName(context, hash, e.target.value)}
+        >
+          {candidates.map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+      )}
+    </span>
+  );
+});
+HashMark.displayName = 'HashMark';
+
+export default HashMark;
@@ -0,0 +1,67 @@
+import React from 'react';
+
+const PANEL_STYLE: React.CSSProperties = {
+  width: 260,
+  maxHeight: 320,
+  display: 'flex',
+  flexDirection: 'column',
+  background: 'linear-gradient(180deg, #1A1A1A 0%, #111 100%)',
+  border: '1px solid #333',
+  borderRadius: 8,
+  boxShadow: '0 4px 20px rgba(0,0,0,0.6)',
+  fontFamily: "'JetBrains Mono', monospace",
+  fontSize: 10,
+  color: '#E0E0E0',
+};
+const HEADER_STYLE: React.CSSProperties = {
+  display: 'flex', alignItems: 'center', gap: 8, padding: '6px 12px', borderBottom: '1px solid #222', fontSize: 11,
+};
+const LIST_STYLE: React.CSSProperties = { overflowY: 'auto', padding: '4px 0' };
+const ROW_STYLE: React.CSSProperties = { display: 'flex', alignItems: 'baseline', gap: 8, padding: '3px 12px', cursor: 'pointer' };
+
+interface HistoryPanelProps {
+  entries: { label: string; done: boolean }[];
+  position: number;
+  onJump: (position: number) => void;
+  onClose: () => void;
+}
+
+/**
+ * Edit history, oldest first. Clicking a row undoes or redoes up to and
+ * including it; "Opened file" jumps back to the state as loaded.
+ */
+export default function HistoryPanel({ entries, position, onJump, onClose }: HistoryPanelProps) {
+  const row = (label: string, target: number, done: boolean) => (
+    <div
+      key={target}
+      style={{ ...ROW_STYLE, color: done ? '#E0E0E0' : '#555', background: target === position ? '#2A1A14' : 'transparent' }}
+      onClick={() => onJump(target)}
+      onMouseEnter={e => (e.currentTarget.style.background = '#222')}
+      onMouseLeave={e => (e.currentTarget.style.background = target === position ? '#2A1A14' : 'transparent')}
+    >
+      <span style={{ color: target === position ? '#E85D3A' : 'transparent', flexShrink: 0 }}>▶</span>
+      <span>{label}</span>
+    </div>
+  );
+
+  return (
+    <div style={PANEL_STYLE}>
+      <div style={HEADER_STYLE}>
+        <span style={{ fontWeight: 700 }}>History</span>
+        <span style={{ color: '#555' }}>{position}/{entries.length}</span>
+        <button
+          onClick={onClose}
+          style={{ marginLeft: 'auto', background: 'transparent', color: '#555', border: 'none', cursor: 'pointer', fontSize: 14, lineHeight: 1 }}
+          onMouseEnter={e => (e.currentTarget.style.color = '#E0E0E0')}
+          onMouseLeave={e => (e.currentTarget.style.color = '#555')}
+        >
+          ✕
+        </button>
+      </div>
+      <div style={LIST_STYLE}>
+        {row('Opened file', 0, true)}
+        {entries.map((entry, i) => row(entry.label, i + 1, entry.done))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import React, { useRef } from 'react';
+import type { MergeConflict, MergeSide } from '../diff/graph-merge';
+
+const PANEL_STYLE: React.CSSProperties = {
+  width: 340,
+  maxHeight: '60vh',
+  display: 'flex',
+  flexDirection: 'column',
+  background: 'linear-gradient(180deg, #1A1A1A 0%, #111 100%)',
+  border: '1px solid #333',
+  borderRadius: 8,
+  boxShadow: '0 4px 20px rgba(0,0,0,0.6)',
+  fontFamily: "'JetBrains Mono', monospace",
+  fontSize: 10,
+  color: '#E0E0E0',
+};
+const HEADER_STYLE: React.CSSProperties = {
+  display: 'flex', alignItems: 'center', gap: 8, padding: '6px 12px', borderBottom: '1px solid #222', fontSize: 11,
+};
+const INPUT_ROW_STYLE: React.CSSProperties = { display: 'flex', alignItems: 'center', gap: 8, padding: '4px 12px' };
+const LIST_STYLE: React.CSSProperties = { overflowY: 'auto', padding: '4px 0' };
+const ROW_STYLE: React.CSSProperties = { display: 'flex', alignItems: 'baseline', gap: 8, padding: '3px 12px', cursor: 'pointer' };
+const SIDE_STYLE: React.CSSProperties = {
+  flex: 1, minWidth: 0, textAlign: 'left', background: 'transparent', color: '#888', border: '1px solid #333', borderRadius: 4,
+  padding: '2px 6px', fontSize: 10, fontFamily: 'inherit', cursor: 'pointer', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap',
+};
+const PICK_STYLE: React.CSSProperties = {
+  background: '#222', color: '#E0E0E0', border: '1px solid #333', borderRadius: 4, padding: '2px 8px', fontSize: 10, fontFamily: 'inherit', cursor: 'pointer',
+};
+
+/** Outline of conflicting nodes on the canvas */
+export const CONFLICT_COLOR = '#C586C0';
+
+interface MergePanelProps {
+  base?: string;                        // File names of the picked inputs
+  theirs?: string;
+  conflicts: MergeConflict[] | null;    // Null until both inputs are picked
+  onPick: (role: 'base' | 'theirs', file: File) => void;
+  onResolve: (id: string, side: MergeSide) => void;
+  onNavigate: (index: number) => void;
+  onClose: () => void;
+}
+
+function sideText(c: MergeConflict, side: MergeSide): string {
+  const value = c[side];
+  if (c.kind === 'delete') return value ? 'keep node' : 'delete node';
+  return value ?? '(removed)';
+}
+
+/**
+ * Three-way merge of another version into the open graph (ours). Picking a
+ * side for a conflict merges again from the three inputs and reloads the
+ * canvas, so edits made since the merge are lost.
+ */
+export default function MergePanel({ base, theirs, conflicts, onPick, onResolve, onNavigate, onClose }: MergePanelProps) {
+  const baseInputRef = useRef<HTMLInputElement>(null);
+  const theirsInputRef = useRef<HTMLInputElement>(null);
+
+  const input = (role: 'base' | 'theirs', ref: React.RefObject<HTMLInputElement>, name: string | undefined, hint: string) => (
+    <div style={INPUT_ROW_STYLE}>
+      <span style={{ width: 48, color: '#888' }}>{role === 'base' ? 'Base' : 'Theirs'}</span>
+      <input
+        ref={ref}
+        type="file"
+        accept=".gsrc,.json"
+        onChange={e => {
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (file) onPick(role, file);
+        }}
+        style={{ display: 'none' }}
+      />
+      <button style={PICK_STYLE} onClick={() => ref.current?.click()} title={hint}>{name ? 'Change…' : 'Choose…'}</button>
+      <span style={{ color: '#DCDCAA', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{name}</span>
+    </div>
+  );
+
+  return (
+    <div style={PANEL_STYLE}>
+      <div style={HEADER_STYLE}>
+        <span style={{ fontWeight: 700 }}>Merge</span>
+        {conflicts && (
+          <span style={{ color: conflicts.length > 0 ? CONFLICT_COLOR : '#81B88B' }}>
+            {conflicts.length > 0 ? `${conflicts.length} conflict${conflicts.length === 1 ? '' : 's'}` : 'merged cleanly'}
+          </span>
+        )}
+        <button
+          onClick={onClose}
+          style={{ marginLeft: 'auto', background: 'transparent', color: '#555', border: 'none', cursor: 'pointer', fontSize: 14, lineHeight: 1 }}
+          onMouseEnter={e => (e.currentTarget.style.color = '#E0E0E0')}
+          onMouseLeave={e => (e.currentTarget.style.color = '#555')}
+          title="Close (keeps the merged graph)"
+        >
+          ✕
+        </button>
+      </div>
+      <div style={{ padding: '4px 0', borderBottom: '1px solid #222' }}>
+        {input('base', baseInputRef, base, 'The version both sides started from')}
+        {input('theirs', theirsInputRef, theirs, 'The version to merge into the open graph')}
+      </div>
+      <div style={LIST_STYLE}>
+        {!conflicts && <div style={{ ...ROW_STYLE, color: '#555', cursor: 'default' }}>Choose base and theirs to merge into the open graph</div>}
+        {conflicts?.map(c => (
+          <div key={c.id} style={{ padding: '2px 0 4px' }}>
+            <div
+              style={{ ...ROW_STYLE, cursor: c.index !== undefined ? 'pointer' : 'default' }}
+              onClick={() => c.index !== undefined && onNavigate(c.index)}
+              onMouseEnter={e => (e.currentTarget.style.background = '#222')}
+              onMouseLeave={e => (e.currentTarget.style.background = 'transparent')}
+            >
+              <span style={{ color: '#666' }}>{c.index !== undefined ? `#${c.index}` : 'deleted'}</span>
+              <span>{c.className}</span>
+              <span style={{ color: '#9CDCFE', overflow: 'hidden', textOverflow: 'ellipsis' }}>{c.kind === 'delete' ? 'deleted on one side' : c.field}</span>
+            </div>
+            <div style={{ display: 'flex', gap: 6, padding: '0 12px 0 20px' }}>
+              {(['ours', 'theirs'] as const).map(side => (
+                <button
+                  key={side}
+                  onClick={() => c.resolution !== side && onResolve(c.id, side)}
+                  style={c.resolution === side ? { ...SIDE_STYLE, color: '#E0E0E0', borderColor: CONFLICT_COLOR } : SIDE_STYLE}
+                  title={`${side === 'ours' ? 'Ours' : 'Theirs'}: ${sideText(c, side)}`}
+                >
+                  {side}: {sideText(c, side)}
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import { createContext } from 'react';
+import type { GSData } from '../types/graphscript';
+import type { HashContext } from '../utils/hash';
+
+/** What node components need to edit the graph; absent outside the editor */
+export interface NodeEditApi {
+  littleEndian: boolean;
+  /** Current global data blob */
+  globalData: Uint8Array;
+  /** Replace a top-level parameter of a node (recorded in the edit history) */
+  setParameter: (nodeId: string, index: number, next: GSData) => void;
+  /** Overwrite bytes of the global data blob in place (recorded in the edit history) */
+  setGlobalValue: (offset: number, bytes: Uint8Array, label: string) => void;
+  /** Choose the name an ambiguous hash shows in one context, null for the default (relabels the graph) */
+  pinHashName: (context: HashContext, hash: number, name: string | null) => void;
+}
+
+export const NodeEditContext = createContext<NodeEditApi | null>(null);
@@ -0,0 +1,122 @@
+import React, { useState, useMemo } from 'react';
+import { NODE_CLASS_NAMES, hashString, resolveHash } from '../utils/hash';
+import { getNodeCategory, type NodeCategory } from '../utils/node-categories';
+import { describeNodeSchema, type NodeSchemas, type NodeClassSchema } from '../utils/node-schema';
+
+const PANEL_STYLE: React.CSSProperties = {
+  width: 260,
+  maxHeight: '70vh',
+  display: 'flex',
+  flexDirection: 'column',
+  background: 'linear-gradient(180deg, #1A1A1A 0%, #111 100%)',
+  border: '1px solid #333',
+  borderRadius: 8,
+  boxShadow: '0 4px 20px rgba(0,0,0,0.6)',
+  fontFamily: "'JetBrains Mono', monospace",
+  fontSize: 10,
+  color: '#E0E0E0',
+};
+const HEADER_STYLE: React.CSSProperties = {
+  display: 'flex', alignItems: 'center', gap: 8, padding: '6px 12px', borderBottom: '1px solid #222', fontSize: 11,
+};
+const SEARCH_STYLE: React.CSSProperties = {
+  margin: '6px 12px', background: '#111', color: '#E0E0E0', border: '1px solid #333', borderRadius: 4,
+  padding: '4px 8px', fontSize: 10, fontFamily: 'inherit', outline: 'none',
+};
+const LIST_STYLE: React.CSSProperties = { overflowY: 'auto', padding: '0 0 4px' };
+const GROUP_STYLE: React.CSSProperties = { padding: '6px 12px 2px', fontSize: 9, fontWeight: 700, letterSpacing: 1, textTransform: 'uppercase' };
+const ROW_STYLE: React.CSSProperties = { display: 'flex', alignItems: 'baseline', gap: 8, padding: '2px 12px 2px 20px', cursor: 'pointer' };
+const COUNT_STYLE: React.CSSProperties = { color: '#555', marginLeft: 'auto', flexShrink: 0 };
+
+interface PaletteEntry {
+  classHash: number;
+  name: string;
+  schema?: NodeClassSchema;
+}
+
+interface NodePaletteProps {
+  schemas: NodeSchemas;
+  onPlace: (classHash: number) => void;
+  onClose: () => void;
+}
+
+/**
+ * Known node classes grouped by category. Classes with a learned schema (from
+ * the open file or a loaded catalog) are listed with their node count and get
+ * its pins and parameters when placed; the rest get an empty pin skeleton.
+ */
+export default function NodePalette({ schemas, onPlace, onClose }: NodePaletteProps) {
+  const [filter, setFilter] = useState('');
+
+  const entries = useMemo(() => {
+    const byHash = new Map<number, PaletteEntry>();
+    for (const name of NODE_CLASS_NAMES) {
+      const classHash = hashString(name);
+      byHash.set(classHash, { classHash, name });
+    }
+    for (const s of schemas.values()) {
+      byHash.set(s.classHash, { classHash: s.classHash, name: resolveHash(s.classHash), schema: s });
+    }
+    return [...byHash.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }, [schemas]);
+
+  const groups = useMemo(() => {
+    const term = filter.trim().toLowerCase();
+    const out = new Map<string, { category: NodeCategory; entries: PaletteEntry[] }>();
+    for (const e of entries) {
+      if (term && !e.name.toLowerCase().includes(term)) continue;
+      const category = getNodeCategory(e.name);
+      const group = out.get(category.name) ?? { category, entries: [] };
+      group.entries.push(e);
+      out.set(category.name, group);
+    }
+    return [...out.values()].sort((a, b) => a.category.name.localeCompare(b.category.name));
+  }, [entries, filter]);
+
+  return (
+    <div style={PANEL_STYLE}>
+      <div style={HEADER_STYLE}>
+        <span style={{ fontWeight: 700 }}>Add node</span>
+        <span style={{ color: '#555' }}>{entries.length} classes</span>
+        <button
+          onClick={onClose}
+          style={{ marginLeft: 'auto', background: 'transparent', color: '#555', border: 'none', cursor: 'pointer', fontSize: 14, lineHeight: 1 }}
+          onMouseEnter={e => (e.currentTarget.style.color = '#E0E0E0')}
+          onMouseLeave={e => (e.currentTarget.style.color = '#555')}
+        >
+          ✕
+        </button>
+      </div>
+      <input
+        autoFocus
+        style={SEARCH_STYLE}
+        placeholder="Filter classes…"
+        value={filter}
+        spellCheck={false}
+        onChange={e => setFilter(e.target.value)}
+        onKeyDown={e => { if (e.key === 'Escape') onClose(); }}
+      />
+      <div className="nowheel" style={LIST_STYLE}>
+        {groups.length === 0 && <div style={{ ...ROW_STYLE, color: '#555' }}>No matching classes</div>}
+        {groups.map(({ category, entries: groupEntries }) => (
+          <div key={category.name}>
+            <div style={{ ...GROUP_STYLE, color: category.color }}>{category.icon} {category.name}</div>
+            {groupEntries.map(e => (
+              <div
+                key={e.classHash}
+                style={ROW_STYLE}
+                onClick={() => onPlace(e.classHash)}
+                onMouseEnter={ev => (ev.currentTarget.style.background = '#222')}
+                onMouseLeave={ev => (ev.currentTarget.style.background = 'transparent')}
+                title={e.schema ? describeNodeSchema(e.schema) : 'Not seen in any loaded graph: placed without pins'}
+              >
+                <span style={{ color: e.schema ? '#E0E0E0' : '#888' }}>{e.name}</span>
+                {e.schema && <span style={COUNT_STYLE}>×{e.schema.occurrences}</span>}
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,289 @@
+import React, { memo, useState, useEffect, useMemo } from 'react';
+import type { GSData } from '../types/graphscript';
+import { decodeValue, encodeValue, formatValue, formatFloat32, VALUE_TYPE_SIZES, type TypedValue } from '../utils/value-codec';
+import { KNOWN_HASHES, hashString, hashCandidates, resolveHashIn, registerHashString, valueNamespace, type HashNamespace } from '../utils/hash';
+
+const INPUT_STYLE: React.CSSProperties = {
+  background: '#111', color: '#CE9178', border: '1px solid #333', borderRadius: 3,
+  fontFamily: 'inherit', fontSize: 10, padding: '1px 4px', width: 110, textAlign: 'right', outline: 'none',
+};
+const INVALID_BORDER = '#F44747';
+const VECTOR_INPUT_STYLE: React.CSSProperties = { ...INPUT_STYLE, width: 40 };
+const READONLY_STYLE: React.CSSProperties = { color: '#CE9178', fontSize: 10, textAlign: 'right', wordBreak: 'break-all', maxWidth: 150 };
+const SUGGESTIONS_STYLE: React.CSSProperties = {
+  position: 'absolute', right: 0, top: '100%', zIndex: 10, minWidth: 160, maxHeight: 140, overflowY: 'auto',
+  background: '#1A1A1A', border: '1px solid #333', borderRadius: 3, boxShadow: '0 4px 12px rgba(0,0,0,0.6)',
+};
+const SUGGESTION_STYLE: React.CSSProperties = { padding: '2px 6px', fontSize: 10, color: '#E0E0E0', cursor: 'pointer', whiteSpace: 'nowrap' };
+
+const INT_RANGES: Record<string, [bigint, bigint]> = {
+  int: [-(2n ** 31n), 2n ** 31n - 1n],
+  enum: [-(2n ** 31n), 2n ** 31n - 1n],
+  uint32: [0n, 2n ** 32n - 1n],
+  int64: [-(2n ** 63n), 2n ** 63n - 1n],
+  uint64: [0n, 2n ** 64n - 1n],
+};
+
+/** Max dictionary suggestions shown by the hash picker */
+const MAX_SUGGESTIONS = 12;
+
+type EditorKind = 'number' | 'bool' | 'vector' | 'string' | 'hash';
+
+/** Which editor a parameter gets; undefined means the value is shown read-only */
+function editorKind(param: GSData): EditorKind | undefined {
+  // Reference fields hold a global data offset, not the value itself
+  if (param.reference) return undefined;
+  const type = param._resolvedType ?? '';
+  if (type === 'string_hash') return param.value.length === 4 ? 'hash' : undefined;
+  if (type === 'string' || type === 'string_ptr') return 'string';
+  if (type === 'bool') return param.value.length === 1 ? 'bool' : undefined;
+  if (type === 'vector') return param.value.length === 16 ? 'vector' : undefined;
+  if (type === 'float' || INT_RANGES[type]) return param.value.length === VALUE_TYPE_SIZES[type] ? 'number' : undefined;
+  return undefined;
+}
+
+function numberText(type: string, value: TypedValue | undefined): string {
+  if (value === undefined) return '';
+  return type === 'float' && typeof value === 'number' ? formatFloat32(value) : String(value);
+}
+
+/** Parse number text for a type; undefined when it isn't a valid value of that type */
+function parseNumber(type: string, text: string): TypedValue | undefined {
+  const t = text.trim();
+  if (type === 'float') {
+    const v = Number(t);
+    return t !== '' && Number.isFinite(v) ? v : undefined;
+  }
+  if (!/^-?\d+$/.test(t) && !/^0x[0-9a-f]+$/i.test(t)) return undefined;
+  const v = BigInt(t);
+  const [min, max] = INT_RANGES[type];
+  if (v < min || v > max) return undefined;
+  return type === 'int64' || type === 'uint64' ? v.toString() : Number(v);
+}
+
+/** Hash for picker text: a known name or 0x hex. New names are only taken through the explicit "new name" entry */
+function parseHash(text: string): number | undefined {
+  const t = text.trim();
+  if (t === '') return undefined;
+  if (/^0x[0-9a-f]{1,8}$/i.test(t)) return parseInt(t.slice(2), 16) >>> 0;
+  const h = hashString(t);
+  return hashCandidates(h).includes(t) || KNOWN_HASHES[h] === t ? h : undefined;
+}
+
+interface ParameterEditorProps {
+  param: GSData;
+  littleEndian: boolean;
+  onChange: (next: GSData) => void;
+}
+
+/**
+ * Type-aware inline editor for a parameter value. Text edits are applied on
+ * Enter or blur (Escape reverts the draft); invalid input is outlined and not applied.
+ */
+const ParameterEditor = memo(({ param, littleEndian: le, onChange }: ParameterEditorProps) => {
+  const type = param._resolvedType ?? '';
+  const kind = editorKind(param);
+  const namespace = valueNamespace(param._resolvedName);
+
+  const commit = (value: Uint8Array) => {
+    if (value.length === param.value.length && value.every((b, i) => b === param.value[i])) return;
+    onChange({ ...param, value, count: value.length, _displayValue: formatValue(type, value, le, namespace) });
+  };
+
+  switch (kind) {
+    case 'bool':
+      return (
+        <input
+          type="checkbox"
+          className="nodrag"
+          checked={param.value[0] !== 0}
+          onChange={e => commit(encodeValue('bool', e.target.checked, le))}
+        />
+      );
+    case 'number':
+      return (
+        <TextField
+          initial={numberText(type, decodeValue(type, param.value, le))}
+          parse={text => {
+            const v = parseNumber(type, text);
+            return v === undefined ? undefined : encodeValue(type, v, le);
+          }}
+          onCommit={commit}
+        />
+      );
+    case 'vector': {
+      const parts = (decodeValue('vector', param.value, le) as number[]).map(formatFloat32);
+      return (
+        <span style={{ display: 'flex', gap: 2 }}>
+          {parts.map((part, i) => (
+            <TextField
+              key={i}
+              style={VECTOR_INPUT_STYLE}
+              initial={part}
+              parse={text => {
+                const v = parseNumber('float', text);
+                if (v === undefined) return undefined;
+                const next = new Uint8Array(param.value);
+                next.set(encodeValue('float', v, le), i * 4);
+                return next;
+              }}
+              onCommit={commit}
+            />
+          ))}
+        </span>
+      );
+    }
+    case 'string': {
+      // Keep a stored NUL terminator out of the text and put it back on encode
+      const terminated = param.value.length > 0 && param.value[param.value.length - 1] === 0;
+      const bytes = terminated ? param.value.subarray(0, -1) : param.value;
+      const text = decodeValue(type, bytes, le);
+      if (typeof text !== 'string') break;
+      return (
+        <TextField
+          initial={text}
+          style={{ ...INPUT_STYLE, textAlign: 'left' }}
+          parse={s => {
+            const encoded = encodeValue(type, s, le);
+            if (!terminated) return encoded;
+            const out = new Uint8Array(encoded.length + 1);
+            out.set(encoded);
+            return out;
+          }}
+          onCommit={commit}
+        />
+      );
+    }
+    case 'hash':
+      return (
+        <HashPicker
+          hash={new DataView(param.value.buffer, param.value.byteOffset, 4).getUint32(0, le)}
+          namespace={namespace}
+          onCommit={hash => commit(encodeValue('uint32', hash, le))}
+        />
+      );
+  }
+  return <span style={READONLY_STYLE}>{param._displayValue ?? '??'}</span>;
+});
+ParameterEditor.displayName = 'ParameterEditor';
+
+interface TextFieldProps {
+  initial: string;
+  parse: (text: string) => Uint8Array | undefined;
+  onCommit: (value: Uint8Array) => void;
+  style?: React.CSSProperties;
+}
+
+function TextField({ initial, parse, onCommit, style = INPUT_STYLE }: TextFieldProps) {
+  const [draft, setDraft] = useState(initial);
+  useEffect(() => setDraft(initial), [initial]);
+  const valid = parse(draft) !== undefined;
+
+  const apply = () => {
+    const value = parse(draft);
+    if (value) onCommit(value);
+    else setDraft(initial);
+  };
+
+  return (
+    <input
+      className="nodrag"
+      style={valid ? style : { ...style, borderColor: INVALID_BORDER }}
+      value={draft}
+      spellCheck={false}
+      onChange={e => setDraft(e.target.value)}
+      onBlur={apply}
+      onKeyDown={e => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+        else if (e.key === 'Escape') setDraft(initial);
+      }}
+    />
+  );
+}
+
+/** Hash field with autocomplete from the hash dictionary */
+function HashPicker({ hash, namespace, onCommit }: { hash: number; namespace: HashNamespace | null; onCommit: (hash: number) => void }) {
+  const initial = resolveHashIn('value', hash, namespace);
+  const [draft, setDraft] = useState(initial);
+  const [open, setOpen] = useState(false);
+  useEffect(() => setDraft(initial), [initial]);
+
+  const suggestions = useMemo(() => {
+    const term = draft.trim().toLowerCase();
+    if (!open || term === '' || draft === initial) return [];
+    const prefix: string[] = [];
+    const other: string[] = [];
+    for (const name of Object.values(KNOWN_HASHES)) {
+      const lower = name.toLowerCase();
+      if (lower.startsWith(term)) prefix.push(name);
+      else if (lower.includes(term)) other.push(name);
+      if (prefix.length >= MAX_SUGGESTIONS) break;
+    }
+    return [...prefix, ...other].slice(0, MAX_SUGGESTIONS);
+  }, [draft, initial, open]);
+
+  const apply = (text: string) => {
+    setOpen(false);
+    if (text === initial) return;
+    const h = parseHash(text);
+    if (h === undefined) setDraft(initial);
+    else onCommit(h);
+  };
+
+  // Typed text that is no known name: offered as a new name, never taken on blur
+  const unknown = draft !== initial && draft.trim() !== '' && parseHash(draft) === undefined;
+  const addName = () => {
+    setOpen(false);
+    onCommit(registerHashString(draft.trim(), namespace));
+  };
+
+  return (
+    <span style={{ position: 'relative' }}>
+      <input
+        className="nodrag"
+        style={unknown ? { ...INPUT_STYLE, width: 140, borderColor: INVALID_BORDER } : { ...INPUT_STYLE, width: 140 }}
+        value={draft}
+        spellCheck={false}
+        title={`0x${hash.toString(16).padStart(8, '0').toUpperCase()}`}
+        onChange={e => { setDraft(e.target.value); setOpen(true); }}
+        onBlur={() => apply(draft)}
+        onKeyDown={e => {
+          if (e.key === 'Enter') e.currentTarget.blur();
+          else if (e.key === 'Escape') {
+            setDraft(initial);
+            setOpen(false);
+          }
+        }}
+      />
+      {open && (suggestions.length > 0 || unknown) && (
+        <div className="nodrag nowheel" style={SUGGESTIONS_STYLE}>
+          {suggestions.map(name => (
+            <div
+              key={name}
+              style={SUGGESTION_STYLE}
+              // mousedown fires before the input's blur, so the pick wins
+              onMouseDown={e => { e.preventDefault(); setDraft(name); apply(name); }}
+              onMouseEnter={e => (e.currentTarget.style.background = '#2A2A2A')}
+              onMouseLeave={e => (e.currentTarget.style.background = 'transparent')}
+            >
+              {name}
+            </div>
+          ))}
+          {unknown && (
+            <div
+              style={{ ...SUGGESTION_STYLE, color: '#888' }}
+              title="Hash this text and remember it as a name for the rest of the session"
+              onMouseDown={e => { e.preventDefault(); addName(); }}
+              onMouseEnter={e => (e.currentTarget.style.background = '#2A2A2A')}
+              onMouseLeave={e => (e.currentTarget.style.background = 'transparent')}
+            >
+              + New name "{draft.trim()}"
+            </div>
+          )}
+        </div>
+      )}
+    </span>
+  );
+}
+
+export default ParameterEditor;
@@ -0,0 +1,82 @@
+import React from 'react';
+import type { Diagnostic } from '../types/graphscript';
+import { hex } from '../parser/diagnostics';
+
+const PANEL_STYLE: React.CSSProperties = {
+  width: 560,
+  maxHeight: 240,
+  display: 'flex',
+  flexDirection: 'column',
+  background: 'linear-gradient(180deg, #1A1A1A 0%, #111 100%)',
+  border: '1px solid #333',
+  borderRadius: 8,
+  boxShadow: '0 4px 20px rgba(0,0,0,0.6)',
+  fontFamily: "'JetBrains Mono', monospace",
+  fontSize: 10,
+  color: '#E0E0E0',
+};
+const HEADER_STYLE: React.CSSProperties = {
+  display: 'flex', alignItems: 'center', gap: 8, padding: '6px 12px', borderBottom: '1px solid #222', fontSize: 11,
+};
+const LIST_STYLE: React.CSSProperties = { overflowY: 'auto', padding: '4px 0' };
+const ROW_STYLE: React.CSSProperties = { display: 'flex', alignItems: 'baseline', gap: 8, padding: '3px 12px' };
+const PATH_STYLE: React.CSSProperties = { color: '#9CDCFE', whiteSpace: 'nowrap' };
+const RULE_STYLE: React.CSSProperties = { color: '#555', marginLeft: 'auto', paddingLeft: 12, flexShrink: 0, whiteSpace: 'nowrap' };
+const OFFSET_STYLE: React.CSSProperties = { color: '#555', marginLeft: 'auto', paddingLeft: 12, flexShrink: 0 };
+
+const SEVERITY_COLORS: Record<Diagnostic['severity'], string> = {
+  error: '#F44747',
+  warning: '#DCDCAA',
+};
+
+interface ProblemsPanelProps {
+  diagnostics: Diagnostic[];
+  onNavigate: (diagnostic: Diagnostic) => void;
+  onClose: () => void;
+}
+
+/** List of file problems and lint findings; rows that belong to a node jump to it on click */
+export default function ProblemsPanel({ diagnostics, onNavigate, onClose }: ProblemsPanelProps) {
+  const errors = diagnostics.filter(d => d.severity === 'error').length;
+  const warnings = diagnostics.length - errors;
+
+  return (
+    <div style={PANEL_STYLE}>
+      <div style={HEADER_STYLE}>
+        <span style={{ fontWeight: 700 }}>Problems</span>
+        <span style={{ color: SEVERITY_COLORS.error }}>{errors} error{errors === 1 ? '' : 's'}</span>
+        <span style={{ color: SEVERITY_COLORS.warning }}>{warnings} warning{warnings === 1 ? '' : 's'}</span>
+        <button
+          onClick={onClose}
+          style={{ marginLeft: 'auto', background: 'transparent', color: '#555', border: 'none', cursor: 'pointer', fontSize: 14, lineHeight: 1 }}
+          onMouseEnter={e => (e.currentTarget.style.color = '#E0E0E0')}
+          onMouseLeave={e => (e.currentTarget.style.color = '#555')}
+        >
+          ✕
+        </button>
+      </div>
+      <div style={LIST_STYLE}>
+        {diagnostics.length === 0 && <div style={{ ...ROW_STYLE, color: '#555' }}>No problems found</div>}
+        {diagnostics.map((d, i) => {
+          const navigable = d.nodeIndex !== undefined;
+          return (
+            <div
+              key={i}
+              style={{ ...ROW_STYLE, cursor: navigable ? 'pointer' : 'default' }}
+              onClick={() => navigable && onNavigate(d)}
+              onMouseEnter={e => (e.currentTarget.style.background = '#222')}
+              onMouseLeave={e => (e.currentTarget.style.background = 'transparent')}
+              title={navigable ? 'Go to node' : undefined}
+            >
+              <span style={{ color: SEVERITY_COLORS[d.severity], flexShrink: 0 }}>{d.severity === 'error' ? '✖' : '⚠'}</span>
+              {d.path && d.path.length > 0 && <span style={PATH_STYLE}>{d.path.join(' › ')}</span>}
+              <span>{d.message}</span>
+              {d.rule && <span style={RULE_STYLE}>{d.rule}</span>}
+              {d.offset !== undefined && <span style={OFFSET_STYLE}>{hex(d.offset)}</span>}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,294 @@
+/**
+ * Structural diff between two versions of a graph.
+ *
+ * Node indices shift whenever a node is added or removed, so nodes are
+ * matched by content instead: first nodes whose class and field values are
+ * unique to one node on each side, then neighbours reached over the same
+ * pins from already matched nodes, then identical leftovers and finally the
+ * most similar node of the same class. Leftovers linked like their candidate
+ * (to the matches of their neighbours) are preferred. Field values are compared decoded
+ * (blob-referenced variable values dereferenced), so byte order and blob
+ * layout don't show up as changes.
+ */
+
+import type { GSrcFile, GSNode, GSDataSet, GSData, GSConnection } from '../types/graphscript';
+import { hashString, resolveHash } from '../utils/hash';
+import { getVariableValueType } from '../parser/gsrc-parser';
+import { BLOB_TYPE_LAYOUT } from '../utils/data-allocator';
+import { decodeValueExact, formatValue, formatFloat32 } from '../utils/value-codec';
+
+const HASH_INPUT_PINS = hashString('input_pins');
+const HASH_OUTPUT_PINS = hashString('output_pins');
+const HASH_VARIABLE_PINS = hashString('variable_pins');
+
+export type NodeDiffKind = 'added' | 'removed' | 'modified' | 'unchanged';
+
+/** A field whose value differs; `before`/`after` is missing when the field only exists on one side */
+export interface FieldChange {
+  field: string;
+  before?: string;
+  after?: string;
+}
+
+export interface NodeDiff {
+  kind: NodeDiffKind;
+  a?: number;           // Node index in the old graph
+  b?: number;           // Node index in the new graph
+  className: string;
+  changes: FieldChange[];
+}
+
+export interface ConnectionDiff {
+  kind: 'added' | 'removed';
+  connection: GSConnection;   // From the old graph when removed, the new one when added
+  label: string;
+}
+
+export interface GraphDiff {
+  nodes: NodeDiff[];
+  connections: ConnectionDiff[];
+  matches: Map<number, number>;   // Old node index → new node index
+}
+
+/**
+ * A node field: `key` compares values exactly, `text` is for display. The
+ * rest locates the field in the node so a merge can carry it over.
+ */
+export interface FieldValue {
+  key: string;
+  text: string;
+  path?: number[];      // Dataset names from the node root down to the owner
+  data?: GSData;        // The data entry (parameters)
+  pin?: GSDataSet;      // The pin dataset (pins)
+}
+
+function className(node: GSNode): string {
+  return node._resolvedClass ?? resolveHash(node.classHash);
+}
+
+function u32(bytes: Uint8Array, offset: number, le: boolean): number {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(offset, le);
+}
+
+function valueOf(type: string, bytes: Uint8Array, le: boolean): FieldValue {
+  // Hash values decode like uint32 so they compare the same in either byte order
+  const exact = decodeValueExact(type === 'string_hash' ? 'uint32' : type, bytes, le);
+  const key = exact !== undefined ? `${type}:${JSON.stringify(exact)}` : `${type}:${Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('')}`;
+  let text = formatValue(type, bytes, le);
+  if (type === 'float' && typeof exact === 'number') text = formatFloat32(exact);
+  if (type === 'vector' && Array.isArray(exact)) text = `(${exact.map(formatFloat32).join(', ')})`;
+  return { key, text };
+}
+
+/** Every field of a node by label: function, parameters (nested datasets as `[name].field`) and pins */
+export function nodeFields(file: GSrcFile, node: GSNode): Map<string, FieldValue> {
+  const le = file.littleEndian;
+  const blob = file.graph.data.value;
+  const cls = className(node);
+  const isVariable = /^(Variable|ExternalVariable|GlobalVariable)/.test(cls);
+  const fields = new Map<string, FieldValue>();
+  const put = (label: string, value: FieldValue) => {
+    let l = label;
+    for (let n = 2; fields.has(l); n++) l = `${label}#${n}`;
+    fields.set(l, value);
+  };
+
+  const dataValue = (d: GSData): FieldValue => {
+    const type = d._resolvedType ?? resolveHash(d.type);
+    if (!d.reference || d.value.length !== 4) return valueOf(type, d.value, le);
+    // Variable fields hold blob offsets; compare what they point at
+    const field = d._resolvedName ?? '';
+    const slotType = isVariable && field === 'Name' ? 'string_hash' : isVariable && field === 'Value' ? getVariableValueType(cls) : undefined;
+    const size = slotType ? BLOB_TYPE_LAYOUT[slotType]?.size : undefined;
+    const offset = u32(d.value, 0, le);
+    if (slotType && size !== undefined && offset + size <= blob.length) return valueOf(slotType, blob.subarray(offset, offset + size), le);
+    return { key: 'ref', text: '(ref)' };
+  };
+
+  const walk = (ds: GSDataSet, prefix: string, path: number[]) => {
+    for (const d of ds.data) put(`${prefix}${d._resolvedName ?? resolveHash(d.name)}`, { ...dataValue(d), path, data: d });
+    for (const child of ds.dataSets) {
+      const label = child._resolvedName ?? resolveHash(child.name);
+      if (prefix === '' && (child.name === HASH_OUTPUT_PINS || child.name === HASH_VARIABLE_PINS || child.name === HASH_INPUT_PINS)) {
+        // Pin entries are links, diffed as connections; only the pin set matters here
+        for (const pin of child.dataSets) put(`${label}.${resolveHash(pin.name)}`, { key: 'pin', text: 'pin', path: [child.name], pin });
+        continue;
+      }
+      walk(child, `${prefix}[${label}].`, [...path, child.name]);
+    }
+  };
+
+  put('function', { key: String(node.functionHash), text: resolveHash(node.functionHash) });
+  walk(node.dataSet, '', []);
+  return fields;
+}
+
+function signature(node: GSNode, fields: Map<string, FieldValue>): string {
+  return `${node.classHash}|${[...fields].map(([k, v]) => `${k}=${v.key}`).join('|')}`;
+}
+
+/** Links of a node keyed by direction, kind and pins, to walk to the matching neighbour */
+function adjacency(file: GSrcFile): Map<string, number[]>[] {
+  const adj = file.graph.nodes.map(() => new Map<string, number[]>());
+  const add = (node: number, key: string, other: number) => {
+    const list = adj[node].get(key) ?? [];
+    list.push(other);
+    adj[node].set(key, list);
+  };
+  for (const c of file.connections) {
+    const pins = `${c.connectionType}:${c.sourceOutputPinHash}:${c.targetInputPinHash}`;
+    add(c.sourceNodeIndex, `out:${pins}`, c.targetNodeIndex);
+    add(c.targetNodeIndex, `in:${pins}`, c.sourceNodeIndex);
+  }
+  return adj;
+}
+
+/** Match the nodes of `a` to the nodes of `b` (old index → new index) */
+export function matchNodes(a: GSrcFile, b: GSrcFile): Map<number, number> {
+  const fieldsA = a.graph.nodes.map(n => nodeFields(a, n));
+  const fieldsB = b.graph.nodes.map(n => nodeFields(b, n));
+  const sigA = a.graph.nodes.map((n, i) => signature(n, fieldsA[i]));
+  const sigB = b.graph.nodes.map((n, i) => signature(n, fieldsB[i]));
+  const matches = new Map<number, number>();
+  const taken = new Set<number>();
+  const queue: [number, number][] = [];
+  const match = (i: number, j: number) => {
+    matches.set(i, j);
+    taken.add(j);
+    queue.push([i, j]);
+  };
+
+  // 1. Nodes whose exact content is unique on both sides
+  const bySigB = new Map<string, number[]>();
+  sigB.forEach((s, j) => bySigB.set(s, [...bySigB.get(s) ?? [], j]));
+  const countA = new Map<string, number>();
+  for (const s of sigA) countA.set(s, (countA.get(s) ?? 0) + 1);
+  sigA.forEach((s, i) => {
+    const js = bySigB.get(s);
+    if (countA.get(s) === 1 && js?.length === 1) match(i, js[0]);
+  });
+
+  // 2. Neighbours over the same pins of matched nodes
+  const adjA = adjacency(a);
+  const adjB = adjacency(b);
+  const propagate = () => {
+    while (queue.length > 0) {
+      const [i, j] = queue.shift()!;
+      for (const [key, nextA] of adjA[i]) {
+        const nextB = adjB[j].get(key) ?? [];
+        for (const na of nextA) {
+          if (matches.has(na)) continue;
+          const candidates = nextB.filter(nb => !taken.has(nb) && b.graph.nodes[nb].classHash === a.graph.nodes[na].classHash);
+          const same = candidates.filter(nb => sigB[nb] === sigA[na]);
+          if (same.length === 1) match(na, same[0]);
+          else if (candidates.length === 1) match(na, candidates[0]);
+        }
+      }
+    }
+  };
+  propagate();
+
+  // Links of i that lead to the match of their other end from j
+  const agreement = (i: number, j: number) => {
+    let n = 0;
+    for (const [key, nextA] of adjA[i]) {
+      const nextB = adjB[j].get(key) ?? [];
+      for (const na of nextA) if (matches.has(na) && nextB.includes(matches.get(na)!)) n++;
+    }
+    return n;
+  };
+
+  // 3. Identical leftovers, the ones linked like their match first, then nearest index
+  const distance = (i: number, j: number) => Math.abs(i - j);
+  const identical: { i: number; j: number; links: number }[] = [];
+  sigA.forEach((s, i) => {
+    if (matches.has(i)) return;
+    for (const j of bySigB.get(s) ?? []) if (!taken.has(j)) identical.push({ i, j, links: agreement(i, j) });
+  });
+  identical.sort((x, y) => y.links - x.links || distance(x.i, x.j) - distance(y.i, y.j));
+  for (const { i, j } of identical) {
+    if (!matches.has(i) && !taken.has(j)) match(i, j);
+  }
+  propagate();
+
+  // 4. Most similar node of the same class
+  const pairs: { i: number; j: number; score: number }[] = [];
+  a.graph.nodes.forEach((na, i) => {
+    if (matches.has(i)) return;
+    b.graph.nodes.forEach((nb, j) => {
+      if (taken.has(j) || nb.classHash !== na.classHash) return;
+      let score = agreement(i, j);
+      for (const [k, v] of fieldsA[i]) if (fieldsB[j].get(k)?.key === v.key) score++;
+      pairs.push({ i, j, score });
+    });
+  });
+  pairs.sort((x, y) => y.score - x.score || distance(x.i, x.j) - distance(y.i, y.j));
+  for (const { i, j } of pairs) {
+    if (!matches.has(i) && !taken.has(j)) match(i, j);
+  }
+  return matches;
+}
+
+function fieldChanges(before: Map<string, FieldValue>, after: Map<string, FieldValue>): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const [field, v] of before) {
+    const w = after.get(field);
+    if (!w) changes.push({ field, before: v.text });
+    else if (w.key !== v.key) changes.push({ field, before: v.text, after: w.text });
+  }
+  for (const [field, w] of after) {
+    if (!before.has(field)) changes.push({ field, after: w.text });
+  }
+  return changes;
+}
+
+export function connectionLabel(file: GSrcFile, c: GSConnection): string {
+  const name = (i: number) => `#${i} ${className(file.graph.nodes[i])}`;
+  return c.connectionType === 'variable'
+    ? `${name(c.sourceNodeIndex)} → ${name(c.targetNodeIndex)}.${resolveHash(c.targetInputPinHash)}`
+    : `${name(c.sourceNodeIndex)}.${resolveHash(c.sourceOutputPinHash)} → ${name(c.targetNodeIndex)}.${resolveHash(c.targetInputPinHash)}`;
+}
+
+/** Connection identity in terms of new-graph node indices */
+function connectionKey(c: GSConnection, source: number, target: number): string {
+  return `${c.connectionType}|${source}|${c.sourceOutputPinHash}|${target}|${c.targetInputPinHash}`;
+}
+
+export function diffGraphs(a: GSrcFile, b: GSrcFile): GraphDiff {
+  const matches = matchNodes(a, b);
+  const matchedB = new Map([...matches].map(([i, j]) => [j, i]));
+  const nodes: NodeDiff[] = [];
+
+  b.graph.nodes.forEach((nb, j) => {
+    const i = matchedB.get(j);
+    if (i === undefined) {
+      nodes.push({ kind: 'added', b: j, className: className(nb), changes: [] });
+      return;
+    }
+    const changes = fieldChanges(nodeFields(a, a.graph.nodes[i]), nodeFields(b, nb));
+    nodes.push({ kind: changes.length > 0 ? 'modified' : 'unchanged', a: i, b: j, className: className(nb), changes });
+  });
+  a.graph.nodes.forEach((na, i) => {
+    if (!matches.has(i)) nodes.push({ kind: 'removed', a: i, className: className(na), changes: [] });
+  });
+
+  // Connections compared as multisets, old endpoints mapped into the new graph
+  const remaining = new Map<string, GSConnection[]>();
+  for (const c of b.connections) {
+    const key = connectionKey(c, c.sourceNodeIndex, c.targetNodeIndex);
+    remaining.set(key, [...remaining.get(key) ?? [], c]);
+  }
+  const connections: ConnectionDiff[] = [];
+  for (const c of a.connections) {
+    const source = matches.get(c.sourceNodeIndex);
+    const target = matches.get(c.targetNodeIndex);
+    const list = source !== undefined && target !== undefined ? remaining.get(connectionKey(c, source, target)) : undefined;
+    if (list && list.length > 0) list.shift();
+    else connections.push({ kind: 'removed', connection: c, label: connectionLabel(a, c) });
+  }
+  for (const list of remaining.values()) {
+    for (const c of list) connections.push({ kind: 'added', connection: c, label: connectionLabel(b, c) });
+  }
+
+  return { nodes, connections, matches };
+}
@@ -0,0 +1,334 @@
+/**
+ * Three-way merge of graphs: base (the common ancestor), ours and theirs.
+ *
+ * Both sides are matched to the base with matchNodes. Nodes are merged field
+ * by field: a change made on one side is taken, the same change made on both
+ * sides is taken once, and different changes to one field conflict. A node
+ * deleted on one side and changed on the other (fields or links) conflicts
+ * too. Links are merged as multisets over the merged nodes, except that
+ * different changes to the links of one pin - a variable pin, or a flow
+ * output pin - conflict, since taking both would bind the pin twice.
+ *
+ * The result is built on ours - its ADF container, byte order and global
+ * data - and every conflict starts out resolved to one side, so the result is
+ * always a valid graph. Passing resolutions merges again with the picked sides.
+ */
+
+import type { Node, Edge } from '@xyflow/react';
+import type { GSrcFile, GSNode, GSDataSet, GSData, GSConnection, GSGraph } from '../types/graphscript';
+import { hashString, resolveHash } from '../utils/hash';
+import { convertGsrcEndianness } from '../utils/endian';
+import { GlobalDataAllocator, BLOB_TYPE_LAYOUT } from '../utils/data-allocator';
+import { flowToGsrc } from '../utils/flow-to-gsrc';
+import { slotType } from '../script/syntax';
+import { writeGsrc } from '../parser/gsrc-writer';
+import { parseGsrc } from '../parser/gsrc-parser';
+import { matchNodes, nodeFields, type FieldValue } from './graph-diff';
+
+const HASH_OUTPUT_PINS = hashString('output_pins');
+const HASH_VARIABLE_PINS = hashString('variable_pins');
+
+export type MergeSide = 'ours' | 'theirs';
+
+export interface MergeConflict {
+  id: string;               // Stable across merges of the same inputs; the key for resolutions
+  kind: 'field' | 'delete' | 'link';
+  className: string;
+  base: number;             // Node index in base
+  field?: string;           // Field label (kind 'field'), or the pin whose links conflict (kind 'link')
+  ours?: string;            // Ours' value or links, or missing when ours deleted the field or node
+  theirs?: string;
+  resolution: MergeSide;    // The side the result took
+  index?: number;           // Node index in the result, unless the resolution deleted the node
+}
+
+export interface MergeResult {
+  file: GSrcFile;
+  conflicts: MergeConflict[];
+}
+
+/** A node of the result; `key` identifies it across all three graphs */
+interface MergedNode {
+  key: string;
+  node: GSNode;
+  fromOurs: boolean;
+  order: number;
+}
+
+function className(node: GSNode): string {
+  return node._resolvedClass ?? resolveHash(node.classHash);
+}
+
+function u32(bytes: Uint8Array, le: boolean): number {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(0, le);
+}
+
+function cloneDataSet(ds: GSDataSet): GSDataSet {
+  return { ...ds, data: [...ds.data], dataSets: ds.dataSets.map(cloneDataSet) };
+}
+
+/**
+ * A theirs dataset as a whole, without source offsets: those point into
+ * theirs' file, not the one the result is written over
+ */
+function carryDataSet(ds: GSDataSet): GSDataSet {
+  return { ...ds, _offset: undefined, data: ds.data.map(d => ({ ...d, _offset: undefined })), dataSets: ds.dataSets.map(carryDataSet) };
+}
+
+/** A theirs pin without its link entries; links are rebuilt from the merged connections */
+function stripLinks(pin: GSDataSet): GSDataSet {
+  const copy = carryDataSet(pin);
+  return { ...copy, data: copy.data.filter(cd => cd.value.length < 4) };
+}
+
+function sameFields(a: Map<string, FieldValue>, b: Map<string, FieldValue>): boolean {
+  if (a.size !== b.size) return false;
+  for (const [label, v] of a) if (b.get(label)?.key !== v.key) return false;
+  return true;
+}
+
+/** Dataset at `path` below `root`, created (named like the source) where missing */
+function dataSetAt(root: GSDataSet, path: number[], create: boolean): GSDataSet | undefined {
+  let ds = root;
+  for (const name of path) {
+    let child = ds.dataSets.find(c => c.name === name);
+    if (!child) {
+      if (!create) return undefined;
+      child = { name, data: [], dataSets: [], _resolvedName: resolveHash(name) };
+      ds.dataSets.push(child);
+    }
+    ds = child;
+  }
+  return ds;
+}
+
+function linkKey(c: GSConnection, keys: string[]): string {
+  return `${c.connectionType}|${keys[c.sourceNodeIndex]}|${c.sourceOutputPinHash}|${keys[c.targetNodeIndex]}|${c.targetInputPinHash}`;
+}
+
+/** The pin a link belongs to for conflicts: a variable link's variable pin, a flow link's output pin */
+function linkPin(key: string): string {
+  const [type, source, sourcePin, target, targetPin] = key.split('|');
+  return type === 'variable' ? `${type}|${target}|${targetPin}` : `${type}|${source}|${sourcePin}`;
+}
+
+/** The other ends of a pin's links, as listed in a link conflict */
+function linkEnds(file: GSrcFile, links: GSConnection[]): string {
+  if (links.length === 0) return 'no links';
+  return links.map(c => c.connectionType === 'variable'
+    ? `${className(file.graph.nodes[c.sourceNodeIndex])} #${c.sourceNodeIndex}`
+    : `${className(file.graph.nodes[c.targetNodeIndex])} #${c.targetNodeIndex}.${c._targetInputPin ?? resolveHash(c.targetInputPinHash)}`).join(', ');
+}
+
+function groupLinks(file: GSrcFile, keys: string[]): Map<string, GSConnection[]> {
+  const out = new Map<string, GSConnection[]>();
+  for (const c of file.connections) {
+    const key = linkKey(c, keys);
+    out.set(key, [...out.get(key) ?? [], c]);
+  }
+  return out;
+}
+
+export function mergeGraphs(base: GSrcFile, ours: GSrcFile, theirs: GSrcFile, resolutions: Record<string, MergeSide> = {}): MergeResult {
+  const le = ours.littleEndian;
+  base = convertGsrcEndianness(base, le);
+  theirs = convertGsrcEndianness(theirs, le);
+
+  const toOurs = matchNodes(base, ours);
+  const toTheirs = matchNodes(base, theirs);
+  const fromOurs = new Map([...toOurs].map(([i, j]) => [j, i]));
+  const fromTheirs = new Map([...toTheirs].map(([i, j]) => [j, i]));
+
+  // Node keys shared by the three graphs: base nodes by base index, added nodes by side
+  const baseKeys = base.graph.nodes.map((_, i) => `b${i}`);
+  const oursKeys = ours.graph.nodes.map((_, j) => fromOurs.has(j) ? `b${fromOurs.get(j)}` : `o${j}`);
+  const theirsKeys = theirs.graph.nodes.map((_, j) => fromTheirs.has(j) ? `b${fromTheirs.get(j)}` : `t${j}`);
+
+  const baseLinks = groupLinks(base, baseKeys);
+  const oursLinks = groupLinks(ours, oursKeys);
+  const theirsLinks = groupLinks(theirs, theirsKeys);
+  const linkKeys = new Set([...baseLinks.keys(), ...oursLinks.keys(), ...theirsLinks.keys()]);
+
+  // Base nodes whose links a side changed
+  const relinked = (side: Map<string, GSConnection[]>) => {
+    const out = new Set<number>();
+    for (const key of linkKeys) {
+      if ((side.get(key)?.length ?? 0) === (baseLinks.get(key)?.length ?? 0)) continue;
+      const [, source, , target] = key.split('|');
+      for (const k of [source, target]) if (k.startsWith('b')) out.add(Number(k.slice(1)));
+    }
+    return out;
+  };
+  const relinkedOurs = relinked(oursLinks);
+  const relinkedTheirs = relinked(theirsLinks);
+
+  const baseFields = base.graph.nodes.map(n => nodeFields(base, n));
+  const changed = (i: number, file: GSrcFile, j: number, relinkedSide: Set<number>) =>
+    relinkedSide.has(i) || !sameFields(baseFields[i], nodeFields(file, file.graph.nodes[j]));
+
+  // Global data the result is built on; nodes carried over from theirs get their own slots
+  const scratch: GSGraph = { ...ours.graph };
+  const blob = new GlobalDataAllocator(scratch, le);
+
+  /** A data entry of a theirs node, re-pointed into our blob when it references theirs */
+  const carry = (d: GSData, cls: string): GSData => {
+    if (!d.reference || d.value.length !== 4) return { ...d, _offset: undefined };
+    const layout = BLOB_TYPE_LAYOUT[slotType(cls, d._resolvedName ?? resolveHash(d.name), d._resolvedType ?? resolveHash(d.type))];
+    const size = layout?.size ?? 4;
+    const from = u32(d.value, le);
+    const offset = blob.alloc(size, layout?.align ?? 4);
+    blob.writeBytes(offset, theirs.graph.data.value.subarray(from, from + size));
+    const copy = { ...d, _offset: undefined };
+    blob.setRefOffset(copy, offset);
+    return copy;
+  };
+
+  /** A theirs node as a whole: link entries dropped, blob slots copied */
+  const carryNode = (src: GSNode): GSNode => {
+    const cls = className(src);
+    const walk = (ds: GSDataSet): GSDataSet => ({ ...ds, _offset: undefined, data: ds.data.map(d => carry(d, cls)), dataSets: ds.dataSets.map(walk) });
+    const dataSet = { ...src.dataSet, _offset: undefined, data: src.dataSet.data.map(d => carry(d, cls)), dataSets: src.dataSet.dataSets.map(c =>
+      c.name === HASH_OUTPUT_PINS || c.name === HASH_VARIABLE_PINS ? { ...c, _offset: undefined, dataSets: c.dataSets.map(stripLinks) } : walk(c)) };
+    return { ...src, _offset: undefined, dataSet };
+  };
+
+  const conflicts: { conflict: MergeConflict; key: string }[] = [];
+  const resolve = (conflict: Omit<MergeConflict, 'resolution'>, key: string, fallback: MergeSide): MergeSide => {
+    const resolution = resolutions[conflict.id] ?? fallback;
+    conflicts.push({ conflict: { ...conflict, resolution }, key });
+    return resolution;
+  };
+
+  /** Take theirs' version of one field into `node` (a clone of ours') */
+  const takeTheirs = (node: GSNode, theirNode: GSNode, label: string, mine?: FieldValue, their?: FieldValue) => {
+    const cls = className(node);
+    if (label === 'function') {
+      node.functionHash = theirNode.functionHash;
+    } else if (mine?.pin || their?.pin) {
+      const category = dataSetAt(node.dataSet, (mine ?? their)!.path!, !!their);
+      if (!category) return;
+      if (mine?.pin) category.dataSets = category.dataSets.filter(p => p !== mine.pin);
+      if (their?.pin) category.dataSets.push(stripLinks(their.pin));
+    } else if (mine?.data && their?.data && mine.data.reference && their.data.reference && mine.data.value.length === 4) {
+      // Same slot, new contents
+      const layout = BLOB_TYPE_LAYOUT[slotType(cls, mine.data._resolvedName ?? resolveHash(mine.data.name), mine.data._resolvedType ?? resolveHash(mine.data.type))];
+      const from = u32(their.data.value, le);
+      blob.writeBytes(blob.refOffset(mine.data), theirs.graph.data.value.subarray(from, from + (layout?.size ?? 4)));
+    } else {
+      const owner = dataSetAt(node.dataSet, (mine ?? their)!.path!, !!their);
+      if (!owner) return;
+      const at = mine?.data ? owner.data.indexOf(mine.data) : -1;
+      if (their?.data && at >= 0) owner.data[at] = carry(their.data, cls);
+      else if (their?.data) owner.data.push(carry(their.data, cls));
+      else owner.data = owner.data.filter(d => d !== mine!.data);
+    }
+  };
+
+  const mergeNode = (i: number, j: number, t: number): GSNode => {
+    const node: GSNode = { ...ours.graph.nodes[j], dataSet: cloneDataSet(ours.graph.nodes[j].dataSet) };
+    const theirNode = theirs.graph.nodes[t];
+    const fb = baseFields[i];
+    const fo = nodeFields(ours, node);
+    const ft = nodeFields(theirs, theirNode);
+    for (const label of new Set([...fb.keys(), ...fo.keys(), ...ft.keys()])) {
+      const [vb, vo, vt] = [fb.get(label)?.key, fo.get(label)?.key, ft.get(label)?.key];
+      if (vo === vt || vt === vb) continue;
+      if (vo !== vb) {
+        const conflict = { id: `field:${i}:${label}`, kind: 'field' as const, className: className(node), base: i, field: label, ours: fo.get(label)?.text, theirs: ft.get(label)?.text };
+        if (resolve(conflict, `b${i}`, 'ours') === 'ours') continue;
+      }
+      takeTheirs(node, theirNode, label, fo.get(label), ft.get(label));
+    }
+    return node;
+  };
+
+  const merged: MergedNode[] = [];
+  const kept = { ours: new Set<string>(), theirs: new Set<string>() };   // Nodes kept against the side that deleted them
+  const theirsOrder = (t: number) => ours.graph.nodes.length + t;
+
+  ours.graph.nodes.forEach((node, j) => {
+    const i = fromOurs.get(j);
+    if (i === undefined) { merged.push({ key: oursKeys[j], node, fromOurs: true, order: j }); return; }
+    const t = toTheirs.get(i);
+    if (t !== undefined) { merged.push({ key: oursKeys[j], node: mergeNode(i, j, t), fromOurs: true, order: j }); return; }
+    // Deleted by theirs: gone unless ours changed it
+    if (!changed(i, ours, j, relinkedOurs)) return;
+    const conflict = { id: `node:${i}`, kind: 'delete' as const, className: className(node), base: i, ours: 'changed' };
+    if (resolve(conflict, `b${i}`, 'ours') !== 'ours') return;
+    merged.push({ key: oursKeys[j], node, fromOurs: true, order: j });
+    kept.ours.add(oursKeys[j]);
+  });
+
+  theirs.graph.nodes.forEach((node, t) => {
+    const i = fromTheirs.get(t);
+    if (i === undefined) { merged.push({ key: theirsKeys[t], node: carryNode(node), fromOurs: false, order: theirsOrder(t) }); return; }
+    if (toOurs.has(i) || !changed(i, theirs, t, relinkedTheirs)) return;
+    // Deleted by ours, changed by theirs
+    const conflict = { id: `node:${i}`, kind: 'delete' as const, className: className(node), base: i, theirs: 'changed' };
+    if (resolve(conflict, `b${i}`, 'theirs') !== 'theirs') return;
+    merged.push({ key: theirsKeys[t], node: carryNode(node), fromOurs: false, order: theirsOrder(t) });
+    kept.theirs.add(theirsKeys[t]);
+  });
+
+  merged.sort((a, b) => a.order - b.order);
+  const byKey = new Map(merged.map(m => [m.key, m]));
+
+  // Link counts per key; a kept node keeps the links the deleting side dropped with it
+  const counts = new Map<string, { b: number; o: number; t: number }>();
+  const pins = new Map<string, string[]>();
+  for (const key of linkKeys) {
+    const [, source, , target] = key.split('|');
+    if (!byKey.has(source) || !byKey.has(target)) continue;
+    const [b, o, t] = [baseLinks, oursLinks, theirsLinks].map(m => m.get(key)?.length ?? 0);
+    counts.set(key, {
+      b,
+      o: kept.theirs.has(source) || kept.theirs.has(target) ? b : o,
+      t: kept.ours.has(source) || kept.ours.has(target) ? b : t,
+    });
+    pins.set(linkPin(key), [...pins.get(linkPin(key)) ?? [], key]);
+  }
+
+  // Both sides relinked one pin differently: one side's links of the pin are taken
+  const pinSide = new Map<string, MergeSide>();
+  for (const [pin, keys] of pins) {
+    const all = keys.map(key => counts.get(key)!);
+    if (!all.some(c => c.o !== c.b) || !all.some(c => c.t !== c.b) || all.every(c => c.o === c.t)) continue;
+    const [type, owner, pinHash] = pin.split('|');
+    const side = (links: Map<string, GSConnection[]>) => keys.flatMap(key => links.get(key) ?? []);
+    const conflict = {
+      id: `link:${pin}`, kind: 'link' as const, className: className(byKey.get(owner)!.node), base: Number(owner.slice(1)),
+      field: `${type === 'variable' ? 'variable pin' : 'output pin'} ${resolveHash(Number(pinHash))}`,
+      ours: linkEnds(ours, side(oursLinks)), theirs: linkEnds(theirs, side(theirsLinks)),
+    };
+    pinSide.set(pin, resolve(conflict, owner, 'ours'));
+  }
+
+  // Links: one side's change to the count is taken; where both changed it, both changes apply
+  const edges: Edge[] = [];
+  for (const [key, { b, o, t }] of counts) {
+    const [type, source, sourcePin, target, targetPin] = key.split('|');
+    const picked = pinSide.get(linkPin(key));
+    const count = picked ? (picked === 'ours' ? o : t) : o === b ? t : t === b || o === t ? o : Math.max(0, o + t - b);
+    // Keep our link entries on nodes taken from ours so their blob slots stay put
+    const owner = byKey.get(type === 'variable' ? target : source)!;
+    const existing = owner.fromOurs ? oursLinks.get(key) ?? [] : [];
+    for (let k = 0; k < count; k++) {
+      edges.push({
+        id: `${key}|${k}`, source, target,
+        sourceHandle: type === 'variable' ? `var-out-${source}` : `out-${sourcePin}`,
+        targetHandle: type === 'variable' ? `var-${targetPin}` : `in-${targetPin}`,
+        data: { connection: existing[k] },
+      });
+    }
+  }
+
+  blob.commit();
+  const nodes: Node[] = merged.map((m, index) => ({ id: m.key, position: { x: 0, y: 0 }, data: { nodeIndex: index, gsNode: m.node } }));
+  const file = parseGsrc(writeGsrc(flowToGsrc({ ...ours, graph: scratch }, nodes, edges, scratch.data.value)));
+
+  const indexOf = new Map(merged.map((m, index) => [m.key, index]));
+  return {
+    file,
+    conflicts: conflicts.map(({ conflict, key }) => indexOf.has(key) ? { ...conflict, index: indexOf.get(key) } : conflict),
+  };
+}
@@ -0,0 +1,216 @@
+/**
+ * Graph validation: a set of lint rules over a GSGraph and its connections.
+ *
+ * The parser only reports what it can't read; these rules find graphs that
+ * read fine but are broken - links into pins that don't exist, unbound
+ * variables, dead nodes - which the game either crashes on or silently
+ * ignores. Each rule reports Diagnostics tagged with its id and, where one
+ * is to blame, the node index so the Problems panel can jump to it.
+ */
+
+import type { GSGraph, GSConnection, GSDataSet, Diagnostic } from '../types/graphscript';
+import { hashString, resolveHash } from '../utils/hash';
+import { hex } from '../parser/diagnostics';
+import { getVariableValueType } from '../parser/gsrc-parser';
+import type { NodeSchemas } from '../utils/node-schema';
+
+const HASH_INPUT_PINS = hashString('input_pins');
+const HASH_OUTPUT_PINS = hashString('output_pins');
+const HASH_VARIABLE_PINS = hashString('variable_pins');
+
+/** Classes execution starts from */
+const ENTRY_CLASSES = new Set(['Start', 'Entry', 'Main']);
+
+export interface LintContext {
+  graph: GSGraph;
+  connections: GSConnection[];
+  littleEndian: boolean;
+  schemas?: NodeSchemas;   // Schema catalog to check variable types against
+}
+
+type Report = (severity: Diagnostic['severity'], message: string, nodeIndex?: number, path?: string[]) => void;
+
+export interface LintRule {
+  id: string;
+  description: string;
+  check(ctx: LintContext, report: Report): void;
+}
+
+function className(graph: GSGraph, index: number): string {
+  const node = graph.nodes[index];
+  return node._resolvedClass ?? resolveHash(node.classHash);
+}
+
+function isVariableClass(cls: string): boolean {
+  return /^(Variable|ExternalVariable|GlobalVariable)/.test(cls);
+}
+
+function pins(ds: GSDataSet, category: number): GSDataSet[] {
+  return ds.dataSets.find(c => c.name === category)?.dataSets ?? [];
+}
+
+function u32(bytes: Uint8Array, offset: number, le: boolean): number {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(offset, le);
+}
+
+/** Name hash a Variable node's Name field points at, if it can be read */
+function variableName(ctx: LintContext, index: number): number | undefined {
+  const blob = ctx.graph.data.value;
+  const field = ctx.graph.nodes[index].dataSet.data.find(d => d._resolvedName === 'Name' && d.value.length === 4);
+  if (!field) return undefined;
+  const offset = u32(field.value, 0, ctx.littleEndian);
+  return offset + 4 <= blob.length ? u32(blob, offset, ctx.littleEndian) : undefined;
+}
+
+// ---- Rules ----
+
+const inputPinRule: LintRule = {
+  id: 'input-pin',
+  description: 'Flow links must end on an input pin of the target node',
+  check({ graph, connections }, report) {
+    for (const c of connections) {
+      if (c.connectionType !== 'flow') continue;
+      const inputs = pins(graph.nodes[c.targetNodeIndex].dataSet, HASH_INPUT_PINS);
+      if (inputs.some(p => p.name === c.targetInputPinHash)) continue;
+      report('error', `${resolveHash(c.sourceOutputPinHash)} links to ${resolveHash(c.targetInputPinHash)}, which is not an input pin of node ${c.targetNodeIndex} (${className(graph, c.targetNodeIndex)})`,
+        c.sourceNodeIndex, [`node ${c.sourceNodeIndex}`, 'output_pins', resolveHash(c.sourceOutputPinHash)]);
+    }
+  },
+};
+
+const unboundVariableRule: LintRule = {
+  id: 'unbound-variable',
+  description: 'Every variable pin needs a variable node bound to it',
+  check({ graph, connections }, report) {
+    graph.nodes.forEach((node, i) => {
+      for (const pin of pins(node.dataSet, HASH_VARIABLE_PINS)) {
+        const bound = connections.some(c => c.connectionType === 'variable' && c.targetNodeIndex === i && c.targetInputPinHash === pin.name);
+        if (!bound) report('warning', `variable pin ${resolveHash(pin.name)} has no variable bound`, i, [`node ${i}`, 'variable_pins', resolveHash(pin.name)]);
+      }
+    });
+  },
+};
+
+const unreachableRule: LintRule = {
+  id: 'unreachable',
+  description: 'Nodes should be reachable from an entry node',
+  check({ graph, connections }, report) {
+    const entries = graph.nodes.map((_, i) => i).filter(i => ENTRY_CLASSES.has(className(graph, i)));
+    if (graph.nodes.length === 0) return;
+    if (entries.length === 0) {
+      report('warning', `no entry node (${[...ENTRY_CLASSES].join(', ')}); nothing in the graph runs`);
+      return;
+    }
+    const next: number[][] = graph.nodes.map(() => []);
+    for (const c of connections) if (c.connectionType === 'flow') next[c.sourceNodeIndex].push(c.targetNodeIndex);
+    const reached = new Set(entries);
+    const queue = [...entries];
+    while (queue.length > 0) {
+      for (const t of next[queue.shift()!]) {
+        if (!reached.has(t)) { reached.add(t); queue.push(t); }
+      }
+    }
+    // A variable node is live when something reachable reads it
+    for (const c of connections) {
+      if (c.connectionType === 'variable' && reached.has(c.targetNodeIndex)) reached.add(c.sourceNodeIndex);
+    }
+    graph.nodes.forEach((_, i) => {
+      if (!reached.has(i)) report('warning', `${className(graph, i)} is not reachable from an entry node`, i, [`node ${i}`]);
+    });
+  },
+};
+
+const duplicateVariableRule: LintRule = {
+  id: 'duplicate-variable',
+  description: 'Local variable names should be unique within a graph',
+  check(ctx, report) {
+    // External and global variables refer to a variable declared elsewhere, so sharing their name is expected
+    const first = new Map<number, number>();
+    ctx.graph.nodes.forEach((_, i) => {
+      if (!/^Variable/.test(className(ctx.graph, i))) return;
+      const name = variableName(ctx, i);
+      if (name === undefined) return;
+      const prev = first.get(name);
+      if (prev === undefined) first.set(name, i);
+      else report('warning', `variable ${resolveHash(name)} is also declared by node ${prev}`, i, [`node ${i}`, 'Name']);
+    });
+  },
+};
+
+const variableTypeRule: LintRule = {
+  id: 'variable-type',
+  description: 'Variable pins must be bound to variable nodes of the type the pin takes',
+  check({ graph, connections, schemas }, report) {
+    const bound = new Map<string, { c: GSConnection; type: string }[]>();
+    for (const c of connections) {
+      if (c.connectionType !== 'variable') continue;
+      const pin = resolveHash(c.targetInputPinHash);
+      const at = [`node ${c.targetNodeIndex}`, 'variable_pins', pin];
+      const cls = className(graph, c.sourceNodeIndex);
+      if (!isVariableClass(cls)) {
+        report('error', `variable pin ${pin} is bound to node ${c.sourceNodeIndex} (${cls}), which is not a variable`, c.targetNodeIndex, at);
+        continue;
+      }
+      const type = getVariableValueType(cls);
+      const expected = schemas?.get(graph.nodes[c.targetNodeIndex].classHash)?.variablePinTypes[c.targetInputPinHash];
+      if (expected && !expected.includes(type)) {
+        report('warning', `variable pin ${pin} takes ${expected.join(' or ')}, but node ${c.sourceNodeIndex} (${cls}) holds ${type}`, c.targetNodeIndex, at);
+      }
+      const key = `${c.targetNodeIndex}:${c.targetInputPinHash}`;
+      bound.set(key, [...bound.get(key) ?? [], { c, type }]);
+    }
+    for (const list of bound.values()) {
+      const other = list.find(b => b.type !== list[0].type);
+      if (!other) continue;
+      const { c } = other;
+      const pin = resolveHash(c.targetInputPinHash);
+      report('error', `variable pin ${pin} is bound to both ${list[0].type} (node ${list[0].c.sourceNodeIndex}) and ${other.type} (node ${c.sourceNodeIndex})`,
+        c.targetNodeIndex, [`node ${c.targetNodeIndex}`, 'variable_pins', pin]);
+    }
+  },
+};
+
+const nodeIndexRule: LintRule = {
+  id: 'node-index',
+  description: 'Link slots in the global data must hold the index of an existing node',
+  check({ graph, littleEndian: le }, report) {
+    const blob = graph.data.value;
+    graph.nodes.forEach((node, i) => {
+      for (const [category, label] of [[HASH_OUTPUT_PINS, 'output_pins'], [HASH_VARIABLE_PINS, 'variable_pins']] as const) {
+        for (const pin of pins(node.dataSet, category)) {
+          pin.data.forEach((cd, j) => {
+            if (cd.value.length < 4) return;
+            const path = [`node ${i}`, 'dataSet', label, resolveHash(pin.name), `data[${j}]`];
+            const offset = u32(cd.value, 0, le);
+            if (offset + 4 > blob.length) {
+              report('warning', `connection slot ${hex(offset)} beyond global data (${blob.length} bytes)`, i, path);
+              return;
+            }
+            const target = u32(blob, offset, le);
+            if (target >= graph.nodes.length) report('warning', `connection target node ${target} out of range (${graph.nodes.length} nodes)`, i, path);
+          });
+        }
+      }
+    });
+  },
+};
+
+export const LINT_RULES: LintRule[] = [
+  inputPinRule,
+  unboundVariableRule,
+  unreachableRule,
+  duplicateVariableRule,
+  variableTypeRule,
+  nodeIndexRule,
+];
+
+/** Run the rules over a graph; diagnostics come out grouped by rule, in rule order */
+export function validateGraph(ctx: LintContext, rules: LintRule[] = LINT_RULES): Diagnostic[] {
+  const out: Diagnostic[] = [];
+  for (const rule of rules) {
+    rule.check(ctx, (severity, message, nodeIndex, path) => {
+      out.push({ severity, message, rule: rule.id, nodeIndex, path });
+    });
+  }
+  return out;
+}
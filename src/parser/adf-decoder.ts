@@ -0,0 +1,303 @@
+/**
+ * Generic, type-driven decoder for ADF instance payloads.
+ *
+ * Walks a payload using the AdfType definitions embedded in the file
+ * (AdfReader.types) and produces a plain JS value tree:
+ *   - Struct        → object keyed by member name (in member order)
+ *   - Array         → JS array (Uint8Array for byte arrays)
+ *   - InlineArray   → JS array of the fixed element count
+ *   - Pointer       → the pointed-to value, or null
+ *   - String        → string
+ *   - Scalar / Enum / StringHash → number (bigint for 64-bit integers)
+ *
+ * Pointers and array offsets are payload-relative, as in GsrcParser.
+ */
+
+import type { AdfInstance, AdfType } from '../types/graphscript';
+import { AdfTypeKind } from '../types/graphscript';
+import { AdfReader } from './adf-reader';
+import { resolveHash } from '../utils/hash';
+
+export type AdfValue =
+  | number
+  | bigint
+  | string
+  | null
+  | Uint8Array
+  | AdfValue[]
+  | { [member: string]: AdfValue };
+
+type ScalarKind = 'int8' | 'uint8' | 'int16' | 'uint16' | 'int32' | 'uint32' | 'int64' | 'uint64' | 'float' | 'double';
+
+/** Built-in ADF primitive type hashes (these are not listed in a file's type table) */
+export const ADF_SCALAR_TYPES: Record<number, { name: ScalarKind; size: number }> = {
+  0x580D0A62: { name: 'int8', size: 1 },
+  0x0CA2821D: { name: 'uint8', size: 1 },
+  0xD13FCF93: { name: 'int16', size: 2 },
+  0x86D152BD: { name: 'uint16', size: 2 },
+  0x192FE633: { name: 'int32', size: 4 },
+  0x075E4E4F: { name: 'uint32', size: 4 },
+  0xAF41354F: { name: 'int64', size: 8 },
+  0xA139E01F: { name: 'uint64', size: 8 },
+  0x7515A207: { name: 'float', size: 4 },
+  0xC609F663: { name: 'double', size: 8 },
+};
+
+/** Size-based fallback for scalars whose type hash is not known */
+const SCALAR_BY_SIZE: Record<number, ScalarKind> = { 1: 'uint8', 2: 'uint16', 4: 'uint32', 8: 'uint64' };
+
+const MAX_DEPTH = 64;
+const MAX_TREE_ELEMENTS = 500;
+
+/** Annotated view of a decoded value, for inspection UIs */
+export interface AdfTreeNode {
+  label: string;
+  typeName: string;
+  offset?: number;                 // Absolute file offset, when the node maps to file bytes
+  size: number;
+  value?: string;                  // Formatted leaf value or summary
+  children?: () => AdfTreeNode[];  // Decoded lazily on expand
+  error?: string;
+}
+
+export class AdfDecoder {
+  /** Payload-relative offset of every decoded struct, array and byte array */
+  readonly offsets = new WeakMap<object, number>();
+
+  private view: DataView;
+  private data: Uint8Array;
+  private le: boolean;
+  private P: number;
+  private end: number;
+
+  constructor(private reader: AdfReader, private instance: AdfInstance) {
+    this.data = reader.rawData;
+    this.view = new DataView(reader.buffer);
+    this.le = reader.isLittleEndian;
+    this.P = instance.payloadOffset;
+    this.end = instance.payloadOffset + instance.payloadSize;
+  }
+
+  /** Decode the whole instance payload according to its root type */
+  decodeInstance(): AdfValue {
+    return this.decode(this.instance.typeHash, this.P, 0);
+  }
+
+  getType(typeHash: number): AdfType | undefined {
+    return this.reader.types.get(typeHash);
+  }
+
+  /** Size in bytes of a value of the given type (0 if unknown) */
+  typeSize(typeHash: number): number {
+    const scalar = ADF_SCALAR_TYPES[typeHash];
+    if (scalar) return scalar.size;
+    return this.getType(typeHash)?.size ?? 0;
+  }
+
+  /** Byte stride between array elements of the given type */
+  elementStride(typeHash: number): number {
+    const t = this.getType(typeHash);
+    const size = this.typeSize(typeHash);
+    const align = t?.alignment || 1;
+    return Math.ceil(size / align) * align;
+  }
+
+  typeName(typeHash: number): string {
+    return adfTypeName(this.reader, typeHash);
+  }
+
+  /** Decode a value of `typeHash` at an absolute file offset */
+  decode(typeHash: number, abs: number, depth: number, sizeHint = 0): AdfValue {
+    if (depth > MAX_DEPTH) throw new Error(`ADF decode nested too deep at 0x${abs.toString(16)}`);
+
+    const scalar = ADF_SCALAR_TYPES[typeHash];
+    if (scalar) return this.readScalar(scalar.name, abs);
+
+    const type = this.getType(typeHash);
+    if (!type) {
+      const kind = SCALAR_BY_SIZE[sizeHint];
+      if (kind) return this.readScalar(kind, abs);
+      return this.bytes(abs, sizeHint);
+    }
+
+    switch (type.adfType) {
+      case AdfTypeKind.Struct: {
+        const obj: { [member: string]: AdfValue } = {};
+        this.offsets.set(obj, abs - this.P);
+        type.members.forEach((m, i) => {
+          const key = m.name && !(m.name in obj) ? m.name : `member_${i}`;
+          obj[key] = this.decode(m.typeHash, abs + m.offset, depth + 1, m.size);
+        });
+        return obj;
+      }
+      case AdfTypeKind.Pointer: {
+        const rel = this.ptr(abs);
+        if (rel === 0 || type.subTypeHash === undefined) return null;
+        return this.decode(type.subTypeHash, this.P + rel, depth + 1);
+      }
+      case AdfTypeKind.Array: {
+        const rel = this.ptr(abs);
+        const count = this.ptr(abs + 8);
+        if (type.subTypeHash === undefined) return [];
+        return this.decodeElements(type.subTypeHash, rel > 0 ? this.P + rel : 0, rel > 0 ? count : 0, depth, rel > 0);
+      }
+      case AdfTypeKind.InlineArray: {
+        if (type.subTypeHash === undefined) return [];
+        const stride = this.elementStride(type.subTypeHash);
+        const count = type.elementLength ?? (stride > 0 ? Math.floor(type.size / stride) : 0);
+        return this.decodeElements(type.subTypeHash, abs, count, depth, true);
+      }
+      case AdfTypeKind.String: {
+        const rel = this.ptr(abs);
+        return rel === 0 ? '' : this.reader.readCString(this.P + rel);
+      }
+      case AdfTypeKind.Enum:
+      case AdfTypeKind.StringHash:
+        return this.readScalar(SCALAR_BY_SIZE[type.size] ?? 'uint32', abs);
+      case AdfTypeKind.Scalar:
+      default: {
+        const kind = SCALAR_BY_SIZE[type.size];
+        return kind ? this.readScalar(kind, abs) : this.bytes(abs, type.size);
+      }
+    }
+  }
+
+  /** Describe the whole instance payload as an annotated tree */
+  describeInstance(): AdfTreeNode {
+    return this.describe(this.instance.typeHash, this.P, this.instance.name, 0);
+  }
+
+  /** Annotated counterpart of decode(): labels, type names and file offsets for every value */
+  describe(typeHash: number, abs: number, label: string, depth: number, sizeHint = 0): AdfTreeNode {
+    const type = this.getType(typeHash);
+    const typeName = this.typeName(typeHash);
+    const size = this.typeSize(typeHash) || sizeHint;
+    const node: AdfTreeNode = { label, typeName, offset: abs, size };
+    if (depth > MAX_DEPTH) return { ...node, error: 'nested too deep' };
+
+    try {
+      if (!type || type.adfType === AdfTypeKind.Scalar || type.adfType === AdfTypeKind.Enum) {
+        node.value = fmtScalar(this.decode(typeHash, abs, depth, sizeHint));
+      } else if (type.adfType === AdfTypeKind.StringHash) {
+        const h = this.decode(typeHash, abs, depth) as number;
+        node.value = `0x${h.toString(16).padStart(8, '0').toUpperCase()} (${resolveHash(h)})`;
+      } else if (type.adfType === AdfTypeKind.String) {
+        node.value = JSON.stringify(this.decode(typeHash, abs, depth));
+      } else if (type.adfType === AdfTypeKind.Struct) {
+        node.value = `{${type.members.length}}`;
+        node.children = () => type.members.map(m =>
+          this.describe(m.typeHash, abs + m.offset, m.name || resolveHash(m.nameHash), depth + 1, m.size));
+      } else if (type.adfType === AdfTypeKind.Pointer) {
+        const rel = this.ptr(abs);
+        node.value = rel === 0 ? 'null' : `→ 0x${(this.P + rel).toString(16).toUpperCase()}`;
+        if (rel !== 0 && type.subTypeHash !== undefined) {
+          node.children = () => [this.describe(type.subTypeHash!, this.P + rel, '*', depth + 1)];
+        }
+      } else if (type.adfType === AdfTypeKind.Array || type.adfType === AdfTypeKind.InlineArray) {
+        const inline = type.adfType === AdfTypeKind.InlineArray;
+        const rel = inline ? 0 : this.ptr(abs);
+        const elem = type.subTypeHash;
+        const stride = elem !== undefined ? this.elementStride(elem) : 0;
+        const count = inline
+          ? type.elementLength ?? (stride > 0 ? Math.floor(type.size / stride) : 0)
+          : (rel > 0 ? this.ptr(abs + 8) : 0);
+        const start = inline ? abs : this.P + rel;
+        node.value = `[${count}]${!inline && rel > 0 ? ` @ 0x${start.toString(16).toUpperCase()}` : ''}`;
+        if (elem !== undefined && count > 0) {
+          const elemScalar = ADF_SCALAR_TYPES[elem];
+          if (elemScalar && elemScalar.size === 1) {
+            node.value += ` ${hexPreview(this.bytes(start, count))}`;
+          } else {
+            node.children = () => {
+              const shown = Math.min(count, MAX_TREE_ELEMENTS);
+              const out: AdfTreeNode[] = [];
+              for (let i = 0; i < shown; i++) out.push(this.describe(elem, start + i * stride, `[${i}]`, depth + 1));
+              if (count > shown) out.push({ label: '…', typeName: '', offset: start + shown * stride, size: 0, value: `${count - shown} more` });
+              return out;
+            };
+          }
+        }
+      } else {
+        node.value = hexPreview(this.bytes(abs, size));
+      }
+    } catch (err) {
+      node.error = (err as Error).message;
+    }
+    return node;
+  }
+
+  private decodeElements(elemHash: number, abs: number, count: number, depth: number, located: boolean): AdfValue {
+    const elemScalar = ADF_SCALAR_TYPES[elemHash];
+    const stride = this.elementStride(elemHash);
+    if (count > 0 && (stride === 0 || abs + stride * count > this.end)) {
+      throw new Error(`ADF array of ${count} × ${this.typeName(elemHash)} at 0x${abs.toString(16)} exceeds payload`);
+    }
+    // Byte arrays are kept as raw bytes
+    if (elemScalar && (elemScalar.name === 'uint8' || elemScalar.name === 'int8')) {
+      const out = new Uint8Array(count);
+      out.set(this.data.subarray(abs, abs + count));
+      if (located) this.offsets.set(out, abs - this.P);
+      return out;
+    }
+    const arr: AdfValue[] = [];
+    if (located) this.offsets.set(arr, abs - this.P);
+    for (let i = 0; i < count; i++) arr.push(this.decode(elemHash, abs + i * stride, depth + 1));
+    return arr;
+  }
+
+  /** 64-bit offset/count field; only the low 32 bits are meaningful */
+  private ptr(abs: number): number {
+    this.check(abs, 8);
+    return this.view.getUint32(this.le ? abs : abs + 4, this.le);
+  }
+
+  private bytes(abs: number, size: number): Uint8Array {
+    this.check(abs, size);
+    return this.data.slice(abs, abs + size);
+  }
+
+  private readScalar(kind: ScalarKind, abs: number): number | bigint {
+    const v = this.view;
+    const le = this.le;
+    switch (kind) {
+      case 'int8': this.check(abs, 1); return v.getInt8(abs);
+      case 'uint8': this.check(abs, 1); return v.getUint8(abs);
+      case 'int16': this.check(abs, 2); return v.getInt16(abs, le);
+      case 'uint16': this.check(abs, 2); return v.getUint16(abs, le);
+      case 'int32': this.check(abs, 4); return v.getInt32(abs, le);
+      case 'uint32': this.check(abs, 4); return v.getUint32(abs, le);
+      case 'int64': this.check(abs, 8); return v.getBigInt64(abs, le);
+      case 'uint64': this.check(abs, 8); return v.getBigUint64(abs, le);
+      case 'float': this.check(abs, 4); return v.getFloat32(abs, le);
+      case 'double': this.check(abs, 8); return v.getFloat64(abs, le);
+    }
+  }
+
+  private check(abs: number, size: number): void {
+    if (abs < this.P || abs + size > this.end) {
+      throw new Error(`ADF read of ${size} bytes at 0x${abs.toString(16)} is outside the instance payload`);
+    }
+  }
+}
+
+function fmtScalar(v: AdfValue): string {
+  if (typeof v === 'number') return Number.isInteger(v) ? v.toString() : v.toFixed(4);
+  if (typeof v === 'bigint') return v.toString();
+  if (v instanceof Uint8Array) return hexPreview(v);
+  return String(v);
+}
+
+function hexPreview(bytes: Uint8Array, max = 32): string {
+  const hex = Array.from(bytes.subarray(0, max)).map(b => b.toString(16).padStart(2, '0')).join(' ');
+  return bytes.length > max ? `${hex}...` : hex;
+}
+
+/** Display name of a type hash: built-in scalar, type table entry, or hex */
+export function adfTypeName(reader: AdfReader, typeHash: number): string {
+  return ADF_SCALAR_TYPES[typeHash]?.name || reader.types.get(typeHash)?.name || `0x${typeHash.toString(16).padStart(8, '0').toUpperCase()}`;
+}
+
+/** Decode an instance of an already-parsed ADF file */
+export function decodeAdfInstance(reader: AdfReader, instance: AdfInstance): AdfValue {
+  return new AdfDecoder(reader, instance).decodeInstance();
+}
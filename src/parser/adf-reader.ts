@@ -5,45 +5,77 @@
  * 1. Header with version, offsets to instances and types
  * 2. Type definitions (struct layouts, scalars, arrays, etc.)
  * 3. Instance entries (name, type, payload offset/size)
- * 4. Payload data (the actual struct data)
+ * 4. String-hash table (strings the file declares, with their hashes)
+ * 5. Payload data (the actual struct data)
  * 
  * For .gsrc files, the payload contains a GSGraph structure that is
  * deserialized according to the embedded type definitions.
  */
 
-import type { AdfHeader, AdfInstance, AdfType, AdfTypeMember, AdfTypeKind } from '../types/graphscript';
+import type { AdfHeader, AdfInstance, AdfType, AdfTypeMember, AdfTypeKind, AdfStringHash } from '../types/graphscript';
+import { DiagnosticLog, hex } from './diagnostics';
 
 const ADF_MAGIC_LE = 0x41444620; // "ADF " little-endian
 const ADF_MAGIC_BE = 0x20464441; // " FDA" big-endian
 
+const HEADER_SIZE = 64;
+
+const utf8 = new TextDecoder();
+
+function emptyHeader(fourCC: number, version: number): AdfHeader {
+  return {
+    fourCC, version,
+    instanceCount: 0, firstInstanceOffset: 0,
+    typeCount: 0, firstTypeOffset: 0,
+    stringHashCount: 0, firstStringHashOffset: 0,
+    stringCount: 0, firstStringDataOffset: 0,
+    fileSize: 0, description: '',
+  };
+}
+
 export class AdfReader {
   private view: DataView;
   private data: Uint8Array;
   private littleEndian: boolean = true;
   
-  public header!: AdfHeader;
+  public header: AdfHeader = emptyHeader(0, 0);
   public types: Map<number, AdfType> = new Map();
   public instances: AdfInstance[] = [];
+  public stringHashes: AdfStringHash[] = [];
+  /** String data section, decoded once and indexed by string number */
+  public strings: string[] = [];
+  /** Problems found while reading. Parsing stops only where the structure can't be followed. */
+  public diagnostics = new DiagnosticLog();
+  private typeNameCache = new Map<number, string>();
 
   constructor(buffer: ArrayBuffer) {
     this.data = new Uint8Array(buffer);
     this.view = new DataView(buffer);
   }
 
+  /** Read the container. Problems are reported to `diagnostics`; a bad header leaves everything empty. */
   parse(): void {
-    this.parseHeader();
+    if (!this.parseHeader()) return;
+    this.parseStringTable();
     this.parseTypes();
     this.parseInstances();
+    this.checkPayloads();
+    this.parseStringHashes();
   }
 
-  private parseHeader(): void {
+  private parseHeader(): boolean {
+    if (this.data.length < HEADER_SIZE) {
+      this.diagnostics.error(`File is ${this.data.length} bytes, too small for an ADF header (${HEADER_SIZE} bytes)`, { offset: 0, path: ['header'] });
+      return false;
+    }
     const magic = this.view.getUint32(0, true);
     if (magic === ADF_MAGIC_LE) {
       this.littleEndian = true;
     } else if (magic === ADF_MAGIC_BE) {
       this.littleEndian = false;
     } else {
-      throw new Error(`Invalid ADF magic: 0x${magic.toString(16)}`);
+      this.diagnostics.error(`Invalid ADF magic ${hex(magic)}`, { offset: 0, path: ['header', 'magic'] });
+      return false;
     }
 
     const version = this.view.getUint32(4, this.littleEndian);
@@ -94,15 +126,40 @@ export class AdfReader {
         description: '',
       };
     } else {
-      throw new Error(`Unsupported ADF version: ${version}`);
+      this.diagnostics.error(`Unsupported ADF version ${version}`, { offset: 4, path: ['header', 'version'] });
+      this.header = emptyHeader(magic, version);
+      return false;
+    }
+
+    const sections: ['firstInstanceOffset' | 'firstTypeOffset' | 'firstStringHashOffset' | 'firstStringDataOffset', number][] = [
+      ['firstInstanceOffset', this.header.instanceCount],
+      ['firstTypeOffset', this.header.typeCount],
+      ['firstStringHashOffset', this.header.stringHashCount],
+      ['firstStringDataOffset', this.header.stringCount],
+    ];
+    for (const [field, count] of sections) {
+      const offset = this.header[field];
+      if (count > 0 && offset >= this.data.length) {
+        this.diagnostics.error(`${field} ${hex(offset)} is beyond the end of the file (${hex(this.data.length)}); section skipped`, { offset, path: ['header', field] });
+        this.header[field] = 0;
+      }
     }
+    if (this.header.fileSize > 0 && this.header.fileSize !== this.data.length) {
+      this.diagnostics.warning(`Header fileSize ${this.header.fileSize} differs from the actual size ${this.data.length}`, { offset: 40, path: ['header', 'fileSize'] });
+    }
+    return true;
   }
 
   private parseTypes(): void {
+    if (this.header.firstTypeOffset === 0) return;
     let offset = this.header.firstTypeOffset;
     
     for (let i = 0; i < this.header.typeCount; i++) {
       const typeStart = offset;
+      if (typeStart + 32 > this.data.length) {
+        this.diagnostics.error(`Type table ends after ${i} of ${this.header.typeCount} types`, { offset: typeStart, path: ['types', `type[${i}]`] });
+        return;
+      }
       
       const adfType = this.view.getUint32(offset, this.littleEndian); offset += 4;
       const size = this.view.getUint32(offset, this.littleEndian); offset += 4;
@@ -112,6 +169,10 @@ export class AdfReader {
       const flags = this.view.getUint32(offset, this.littleEndian); offset += 4;
       const memberCount = this.view.getUint32(offset, this.littleEndian); offset += 4;
       const membersOffset = this.view.getUint32(offset, this.littleEndian); offset += 4;
+      if (typeStart + 32 + memberCount * 32 > this.data.length) {
+        this.diagnostics.error(`${memberCount} members run past the end of the file`, { offset: typeStart, path: ['types', `type[${i}]`] });
+        return;
+      }
       
       // Read name from string table
       const name = this.readTypeName(typeStart, nameOffset);
@@ -152,8 +213,8 @@ export class AdfReader {
         members,
       };
 
-      // For array types, parse sub-type
-      if (adfType === 3 /* Array */ || adfType === 4 /* InlineArray */) {
+      // For array and pointer types, parse sub-type
+      if (adfType === 2 /* Pointer */ || adfType === 3 /* Array */ || adfType === 4 /* InlineArray */) {
         if (members.length > 0) {
           type.subTypeHash = members[0].typeHash;
         }
@@ -167,9 +228,15 @@ export class AdfReader {
   }
 
   private parseInstances(): void {
+    if (this.header.firstInstanceOffset === 0) return;
     let offset = this.header.firstInstanceOffset;
+    const stride = this.header.version >= 4 ? 24 : 48;
     
     for (let i = 0; i < this.header.instanceCount; i++) {
+      if (offset + stride > this.data.length) {
+        this.diagnostics.error(`Instance table ends after ${i} of ${this.header.instanceCount} instances`, { offset, path: ['instances', `instance[${i}]`] });
+        return;
+      }
       if (this.header.version >= 4) {
         const nameHash = this.view.getUint32(offset, this.littleEndian);
         const typeHash = this.view.getUint32(offset + 4, this.littleEndian);
@@ -177,11 +244,10 @@ export class AdfReader {
         const payloadSize = this.view.getUint32(offset + 12, this.littleEndian);
         const nameIdx = this.view.getUint32(offset + 16, this.littleEndian);
         
-        // Try to read name from string data
-        let name = `instance_${i}`;
-        if (this.header.firstStringDataOffset > 0 && nameIdx < this.header.stringCount) {
-          // Resolve from string table
-          name = this.readStringFromTable(nameIdx);
+        let name = this.getString(nameIdx);
+        if (name === undefined) {
+          this.diagnostics.warning(`Name index ${nameIdx} is outside the string table (${this.strings.length} strings)`, { offset: offset + 16, path: ['instances', `instance[${i}]`] });
+          name = `instance_${i}`;
         }
         
         this.instances.push({
@@ -210,27 +276,71 @@ export class AdfReader {
     }
   }
 
+  /** Report instances whose payload does not lie inside the file */
+  private checkPayloads(): void {
+    this.instances.forEach((inst, i) => {
+      if (inst.payloadOffset + inst.payloadSize > this.data.length) {
+        this.diagnostics.error(`Payload ${hex(inst.payloadOffset)}+${hex(inst.payloadSize)} runs past the end of the file (${hex(this.data.length)})`, { offset: inst.payloadOffset, path: ['instances', inst.name] });
+      }
+    });
+  }
+
+  /** String-hash entries: null-terminated string followed by a 64-bit hash (low 32 bits used) */
+  private parseStringHashes(): void {
+    if (this.header.stringHashCount === 0 || this.header.firstStringHashOffset === 0) return;
+    let offset = this.header.firstStringHashOffset;
+    for (let i = 0; i < this.header.stringHashCount; i++) {
+      const end = this.data.indexOf(0, offset);
+      if (end < 0 || end + 9 > this.data.length) {
+        this.diagnostics.warning(`String-hash table ends after ${i} of ${this.header.stringHashCount} entries`, { offset, path: ['stringHashes', `entry[${i}]`] });
+        break;
+      }
+      const value = utf8.decode(this.data.subarray(offset, end));
+      offset = end + 1;
+      const hash = this.view.getUint32(offset + (this.littleEndian ? 0 : 4), this.littleEndian);
+      offset += 8;
+      this.stringHashes.push({ value, hash });
+    }
+  }
+
+  /** Decode the string data section (consecutive null-terminated strings) into `strings` */
+  private parseStringTable(): void {
+    if (this.header.firstStringDataOffset === 0 || this.header.stringCount === 0) return;
+    let offset = this.header.firstStringDataOffset;
+    for (let i = 0; i < this.header.stringCount; i++) {
+      if (offset >= this.data.length) {
+        this.diagnostics.warning(`String table ends after ${i} of ${this.header.stringCount} strings`, { offset, path: ['strings', `string[${i}]`] });
+        break;
+      }
+      let end = offset;
+      while (end < this.data.length && this.data[end] !== 0) end++;
+      this.strings.push(utf8.decode(this.data.subarray(offset, end)));
+      offset = end + 1;
+    }
+  }
+
+  /** String by index in the string data section, or undefined if out of range */
+  getString(index: number): string | undefined {
+    return index < this.strings.length ? this.strings[index] : undefined;
+  }
+
   /** Read a null-terminated string at absolute offset */
   readCString(offset: number): string {
     let end = offset;
     while (end < this.data.length && this.data[end] !== 0) end++;
-    return new TextDecoder().decode(this.data.subarray(offset, end));
+    return utf8.decode(this.data.subarray(offset, end));
   }
 
-  /** Read type name from relative offset within type block */
+  /** Read type name from relative offset within type block (cached by absolute offset) */
   private readTypeName(typeStart: number, nameOffset: number): string {
     if (nameOffset === 0) return '';
-    return this.readCString(typeStart + nameOffset);
-  }
-
-  /** Read string from the string data table */
-  private readStringFromTable(index: number): string {
-    let offset = this.header.firstStringDataOffset;
-    for (let i = 0; i < index; i++) {
-      while (offset < this.data.length && this.data[offset] !== 0) offset++;
-      offset++; // skip null terminator
+    const abs = typeStart + nameOffset;
+    let name = this.typeNameCache.get(abs);
+    if (name === undefined) {
+      name = this.readCString(abs);
+      this.typeNameCache.set(abs, name);
     }
-    return this.readCString(offset);
+    return name;
   }
 
   /** Get raw payload bytes for an instance */
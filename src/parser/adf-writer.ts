@@ -0,0 +1,161 @@
+/**
+ * ADF container writer - the inverse of AdfReader.
+ *
+ * Rebuilds an ADF file around new instance payloads. Sections the editor
+ * does not model (type definitions, string hashes, string data) are carried
+ * over byte-for-byte from the source file; the header and instance table
+ * are re-emitted with their offsets shifted past any payload that changed
+ * size. With no payload changes the output equals the source file.
+ *
+ * The writer can also emit the opposite byte order (PC little-endian <->
+ * console big-endian): the container sections are word-swapped here, while
+ * the caller supplies every instance payload already in the target order.
+ */
+
+import { AdfReader } from './adf-reader';
+
+/** Size changes are padded to this so following sections keep their alignment */
+const SECTION_ALIGN = 16;
+
+interface Splice {
+  start: number;
+  end: number;
+  bytes: Uint8Array;
+}
+
+export class AdfWriter {
+  private reader: AdfReader;
+  private payloads = new Map<number, Uint8Array>();
+  private targetLittleEndian: boolean;
+
+  constructor(source: ArrayBuffer) {
+    this.reader = new AdfReader(source);
+    this.reader.parse();
+    this.targetLittleEndian = this.reader.isLittleEndian;
+  }
+
+  get isLittleEndian(): boolean {
+    return this.reader.isLittleEndian;
+  }
+
+  get instances() {
+    return this.reader.instances;
+  }
+
+  /** Replace the payload of the instance at the given index */
+  setPayload(index: number, payload: Uint8Array): void {
+    if (!this.reader.instances[index]) throw new Error(`No ADF instance ${index}`);
+    this.payloads.set(index, payload);
+  }
+
+  /** Byte order of the written file. Defaults to the source file's order. */
+  setByteOrder(littleEndian: boolean): void {
+    this.targetLittleEndian = littleEndian;
+  }
+
+  write(): ArrayBuffer {
+    const src = this.reader.rawData;
+    const header = this.reader.header;
+    const le = this.targetLittleEndian;
+    const convert = le !== this.reader.isLittleEndian;
+    if (convert) {
+      if (header.version !== 4) throw new Error(`Byte order conversion is only supported for ADF v4 (file is v${header.version})`);
+      const missing = this.reader.instances.findIndex((_, i) => !this.payloads.has(i));
+      if (missing >= 0) throw new Error(`Cannot convert byte order: instance ${missing} has no re-encoded payload`);
+    }
+
+    const splices: Splice[] = [];
+    for (const [index, payload] of this.payloads) {
+      const inst = this.reader.instances[index];
+      const delta = Math.ceil((payload.length - inst.payloadSize) / SECTION_ALIGN) * SECTION_ALIGN;
+      const bytes = new Uint8Array(inst.payloadSize + delta);
+      bytes.set(payload);
+      splices.push({ start: inst.payloadOffset, end: inst.payloadOffset + inst.payloadSize, bytes });
+    }
+    splices.sort((a, b) => a.start - b.start);
+
+    // Map an offset in the source file to its position in the output
+    const shift = (off: number): number => {
+      let out = off;
+      for (const s of splices) {
+        if (s.end <= off) out += s.bytes.length - (s.end - s.start);
+      }
+      return out;
+    };
+
+    const totalDelta = splices.reduce((acc, s) => acc + s.bytes.length - (s.end - s.start), 0);
+    const out = new Uint8Array(src.length + totalDelta);
+    let srcPos = 0;
+    let outPos = 0;
+    for (const s of splices) {
+      out.set(src.subarray(srcPos, s.start), outPos);
+      outPos += s.start - srcPos;
+      out.set(s.bytes, outPos);
+      outPos += s.bytes.length;
+      srcPos = s.end;
+    }
+    out.set(src.subarray(srcPos), outPos);
+
+    const view = new DataView(out.buffer);
+    if (convert) this.swapSections(out, shift);
+    const patch = (pos: number, value: number) => { if (value > 0) view.setUint32(pos, shift(value), le); };
+
+    // Header
+    patch(12, header.firstInstanceOffset);
+    patch(20, header.firstTypeOffset);
+    if (header.version >= 3) patch(28, header.firstStringHashOffset);
+    if (header.version >= 4) {
+      patch(36, header.firstStringDataOffset);
+      if (header.fileSize > 0) view.setUint32(40, header.fileSize + totalDelta, le);
+    }
+
+    // Instance table
+    const stride = header.version >= 4 ? 24 : 48;
+    const tableStart = shift(header.firstInstanceOffset);
+    this.reader.instances.forEach((inst, i) => {
+      const entry = tableStart + i * stride;
+      view.setUint32(entry + 8, shift(inst.payloadOffset), le);
+      const payload = this.payloads.get(i);
+      view.setUint32(entry + 12, payload ? payload.length : inst.payloadSize, le);
+    });
+
+    return out.buffer;
+  }
+
+  /**
+   * Reverse every multi-byte field outside the instance payloads: header,
+   * instance table, type definitions and the string-hash values. String
+   * data is bytes and needs no conversion. Section positions are walked in
+   * source coordinates and mapped through `shift`.
+   */
+  private swapSections(out: Uint8Array, shift: (off: number) => number): void {
+    const src = this.reader.rawData;
+    const srcView = new DataView(src.buffer, src.byteOffset, src.byteLength);
+    const srcLe = this.reader.isLittleEndian;
+    const header = this.reader.header;
+    const swapWords = (pos: number, length: number, width = 4) => {
+      for (let p = pos; p + width <= pos + length && p + width <= out.length; p += width) out.subarray(p, p + width).reverse();
+    };
+
+    // Magic through the reserved words before the description
+    swapWords(0, 64);
+
+    swapWords(shift(header.firstInstanceOffset), header.instanceCount * 24);
+
+    let typeOff = header.firstTypeOffset;
+    for (let i = 0; i < header.typeCount && typeOff + 32 <= src.length; i++) {
+      const memberCount = srcView.getUint32(typeOff + 24, srcLe);
+      const length = 32 + memberCount * 32;
+      swapWords(shift(typeOff), length);
+      typeOff += length;
+    }
+
+    let hashOff = header.firstStringHashOffset;
+    for (let i = 0; i < header.stringHashCount && hashOff > 0; i++) {
+      const end = src.indexOf(0, hashOff);
+      if (end < 0 || end + 9 > src.length) break;
+      swapWords(shift(end + 1), 8, 8);
+      hashOff = end + 9;
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import type { Diagnostic } from '../types/graphscript';
+
+/** Where a diagnostic points: byte offset, struct path and owning node */
+export type DiagnosticLocation = Pick<Diagnostic, 'offset' | 'path' | 'nodeIndex'>;
+
+/** Collects diagnostics while a file is read, so parsing can continue past bad data */
+export class DiagnosticLog {
+  readonly items: Diagnostic[] = [];
+
+  error(message: string, at: DiagnosticLocation = {}): void {
+    this.items.push({ severity: 'error', message, ...at });
+  }
+
+  warning(message: string, at: DiagnosticLocation = {}): void {
+    this.items.push({ severity: 'warning', message, ...at });
+  }
+
+  get hasErrors(): boolean {
+    return this.items.some(d => d.severity === 'error');
+  }
+}
+
+/** One-line rendering: `node 12 › dataSet › output_pins › data[3]: message` */
+export function formatDiagnostic(d: Diagnostic): string {
+  return d.path && d.path.length > 0 ? `${d.path.join(' › ')}: ${d.message}` : d.message;
+}
+
+export function hex(n: number): string {
+  return `0x${n.toString(16).toUpperCase()}`;
+}
@@ -0,0 +1,300 @@
+/**
+ * GSRC-JSON: lossless, versioned text form of a .gsrc file.
+ *
+ * The graph is written as readable JSON - every hash appears as its number
+ * (authoritative) next to its resolved name, values are typed where the type
+ * allows an exact round-trip and hex bytes otherwise. The ADF container
+ * around the graph payload (header, type definitions, string tables) is
+ * kept as base64 with the payload cut out, and the source layout offsets
+ * are kept as hints, so `binary → JSON → binary` is byte-identical.
+ *
+ * Document layout (version 1):
+ *
+ *   {
+ *     "format": "gsrc-json", "version": 1,
+ *     "adf": { "version", "byteOrder": "little" | "big", "payloadOffset", "payloadSize", "container" },
+ *     "graph": { "nodesOffset"?, "nodes": [GsrcJsonNode...], "data": GsrcJsonData, "padding"? }
+ *   }
+ *
+ * `padding` holds the payload bytes the graph doesn't (struct padding, the
+ * high dwords of 64-bit fields, bytes between blocks) where they aren't zero.
+ */
+
+import type { GSrcFile, GSGraph, GSNode, GSDataSet, GSData } from '../types/graphscript';
+import { AdfReader } from './adf-reader';
+import { parseGsrc } from './gsrc-parser';
+import { writeGsrc } from './gsrc-writer';
+import { resolveHash } from '../utils/hash';
+import { decodeValueExact, encodeValue, type TypedValue } from '../utils/value-codec';
+
+export const GSRC_JSON_FORMAT = 'gsrc-json';
+export const GSRC_JSON_VERSION = 1;
+
+/** Hex rows are split at this many bytes to keep diffs line-sized */
+const BYTES_PER_ROW = 32;
+
+export interface GsrcJsonDocument {
+  format: typeof GSRC_JSON_FORMAT;
+  version: number;
+  adf: {
+    version: number;
+    byteOrder: 'little' | 'big';
+    payloadOffset: number;  // Where the graph payload sits in the container
+    payloadSize: number;    // Size of the payload cut out of the container
+    container: string;      // Base64 of the ADF file without the graph payload
+  };
+  graph: {
+    nodesOffset?: number;   // Payload-relative layout hint
+    nodes: GsrcJsonNode[];
+    data: GsrcJsonData;     // Global data blob
+    padding?: GsrcJsonPadding[];
+  };
+}
+
+/** Nonzero payload bytes outside the graph's fields, at a payload-relative offset */
+export interface GsrcJsonPadding {
+  offset: number;
+  bytes: string | string[];   // Raw hex, split into rows when long
+}
+
+export interface GsrcJsonNode {
+  class: string;
+  classHash: number;
+  function: string;
+  functionHash: number;
+  dataSet: GsrcJsonDataSet;
+}
+
+export interface GsrcJsonDataSet {
+  name: string;
+  nameHash: number;
+  data: GsrcJsonData[];
+  dataSets: GsrcJsonDataSet[];
+  dataOffset?: number;      // Payload-relative layout hints
+  dataSetsOffset?: number;
+}
+
+/**
+ * A GSData value. At most one of `value`, `ref` and `bytes` is present;
+ * none means an empty value.
+ */
+export interface GsrcJsonData {
+  name: string;
+  nameHash: number;
+  type: string;
+  typeHash: number;
+  reference: boolean;
+  value?: TypedValue;          // Typed value (64-bit integers as decimal strings)
+  ref?: number;                // Global data offset held by a 4-byte reference field
+  bytes?: string | string[];   // Raw hex, split into rows when long
+  count?: number;              // Stored count, only when it differs from the byte length
+  valueOffset?: number;        // Payload-relative layout hint
+}
+
+// ---- Export ----
+
+function toBase64(bytes: Uint8Array): string {
+  let s = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) s += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(s);
+}
+
+function fromBase64(text: string): Uint8Array {
+  const s = atob(text);
+  const bytes = new Uint8Array(s.length);
+  for (let i = 0; i < s.length; i++) bytes[i] = s.charCodeAt(i);
+  return bytes;
+}
+
+function toHex(bytes: Uint8Array): string | string[] {
+  const hex = Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+  if (bytes.length <= BYTES_PER_ROW) return hex;
+  const rows: string[] = [];
+  for (let i = 0; i < hex.length; i += BYTES_PER_ROW * 2) rows.push(hex.slice(i, i + BYTES_PER_ROW * 2));
+  return rows;
+}
+
+function fromHex(hex: string | string[], path: string): Uint8Array {
+  const s = Array.isArray(hex) ? hex.join('') : hex;
+  if (s.length % 2 !== 0 || /[^0-9a-f]/i.test(s)) throw new Error(`${path}: invalid hex bytes`);
+  const bytes = new Uint8Array(s.length / 2);
+  for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(s.slice(i * 2, i * 2 + 2), 16);
+  return bytes;
+}
+
+function dataToJson(d: GSData, le: boolean): GsrcJsonData {
+  const type = resolveHash(d.type);
+  const out: GsrcJsonData = { name: resolveHash(d.name), nameHash: d.name, type, typeHash: d.type, reference: d.reference };
+  if (d.value.length > 0) {
+    const typed = d.reference ? undefined : decodeValueExact(type, d.value, le);
+    if (d.reference && d.value.length === 4) out.ref = new DataView(d.value.buffer, d.value.byteOffset, 4).getUint32(0, le);
+    else if (typed !== undefined) out.value = typed;
+    else out.bytes = toHex(d.value);
+  }
+  if (d.count !== d.value.length) out.count = d.count;
+  if (d._valueOffset !== undefined) out.valueOffset = d._valueOffset;
+  return out;
+}
+
+function dataSetToJson(ds: GSDataSet, le: boolean): GsrcJsonDataSet {
+  const out: GsrcJsonDataSet = {
+    name: resolveHash(ds.name),
+    nameHash: ds.name,
+    data: ds.data.map(d => dataToJson(d, le)),
+    dataSets: ds.dataSets.map(child => dataSetToJson(child, le)),
+  };
+  if (ds._dataOffset !== undefined) out.dataOffset = ds._dataOffset;
+  if (ds._dataSetsOffset !== undefined) out.dataSetsOffset = ds._dataSetsOffset;
+  return out;
+}
+
+/** The ADF file around the graph payload, with the payload bytes removed */
+function containerOf(file: GSrcFile): { container: Uint8Array; payloadOffset: number; payloadSize: number } {
+  const reader = new AdfReader(file.rawBuffer as ArrayBuffer);
+  reader.parse();
+  const inst = reader.instances[0];
+  if (!inst) throw new Error('No instances in ADF');
+  const raw = reader.rawData;
+  const container = new Uint8Array(raw.length - inst.payloadSize);
+  container.set(raw.subarray(0, inst.payloadOffset));
+  container.set(raw.subarray(inst.payloadOffset + inst.payloadSize), inst.payloadOffset);
+  return { container, payloadOffset: inst.payloadOffset, payloadSize: inst.payloadSize };
+}
+
+/** The graph payload of a .gsrc binary */
+function payloadOf(buffer: ArrayBuffer): Uint8Array {
+  const reader = new AdfReader(buffer);
+  reader.parse();
+  const inst = reader.instances[0];
+  if (!inst) throw new Error('No instances in ADF');
+  return new Uint8Array(buffer, inst.payloadOffset, inst.payloadSize);
+}
+
+/** Runs of bytes where `binary` differs from `rebuilt`, a payload of the same size */
+function paddingOf(binary: Uint8Array, rebuilt: Uint8Array): GsrcJsonPadding[] {
+  const out: GsrcJsonPadding[] = [];
+  for (let i = 0; i < binary.length; i++) {
+    if (binary[i] === rebuilt[i]) continue;
+    const start = i;
+    while (i < binary.length && binary[i] !== rebuilt[i]) i++;
+    out.push({ offset: start, bytes: toHex(binary.subarray(start, i)) });
+  }
+  return out;
+}
+
+export function gsrcToJson(file: GSrcFile): GsrcJsonDocument {
+  const le = file.littleEndian;
+  const { container, payloadOffset, payloadSize } = containerOf(file);
+  const graph: GsrcJsonDocument['graph'] = {
+    nodes: file.graph.nodes.map((n): GsrcJsonNode => ({
+      class: resolveHash(n.classHash),
+      classHash: n.classHash,
+      function: resolveHash(n.functionHash),
+      functionHash: n.functionHash,
+      dataSet: dataSetToJson(n.dataSet, le),
+    })),
+    data: dataToJson(file.graph.data, le),
+  };
+  if (file.graph._nodesOffset !== undefined) graph.nodesOffset = file.graph._nodesOffset;
+  const doc: GsrcJsonDocument = {
+    format: GSRC_JSON_FORMAT,
+    version: GSRC_JSON_VERSION,
+    adf: { version: file.adfVersion, byteOrder: le ? 'little' : 'big', payloadOffset, payloadSize, container: toBase64(container) },
+    graph,
+  };
+
+  // Whatever the rebuild from the graph alone leaves zero
+  const binary = payloadOf(writeGsrc(file));
+  const rebuilt = payloadOf(jsonToBinary(doc));
+  const padding = binary.length === rebuilt.length ? paddingOf(binary, rebuilt) : [];
+  if (padding.length > 0) graph.padding = padding;
+  return doc;
+}
+
+export function stringifyGsrcJson(file: GSrcFile): string {
+  return `${JSON.stringify(gsrcToJson(file), null, 2)}\n`;
+}
+
+// ---- Import ----
+
+function u32Field(v: unknown, path: string): number {
+  if (typeof v !== 'number' || !Number.isInteger(v) || v < 0 || v > 0xFFFFFFFF) throw new Error(`${path}: expected an unsigned 32-bit integer`);
+  return v;
+}
+
+function dataFromJson(j: GsrcJsonData, le: boolean, path: string): GSData {
+  const name = u32Field(j.nameHash, `${path}.nameHash`);
+  const type = u32Field(j.typeHash, `${path}.typeHash`);
+  let value: Uint8Array = new Uint8Array(0);
+  if (j.ref !== undefined) {
+    value = new Uint8Array(4);
+    new DataView(value.buffer).setUint32(0, u32Field(j.ref, `${path}.ref`), le);
+  } else if (j.value !== undefined) {
+    try {
+      value = encodeValue(resolveHash(type), j.value, le);
+    } catch (err) {
+      throw new Error(`${path}.value: ${(err as Error).message}`);
+    }
+  } else if (j.bytes !== undefined) {
+    value = fromHex(j.bytes, `${path}.bytes`);
+  }
+  return { name, type, value, count: j.count ?? value.length, reference: !!j.reference, _valueOffset: j.valueOffset };
+}
+
+function dataSetFromJson(j: GsrcJsonDataSet, le: boolean, path: string): GSDataSet {
+  return {
+    name: u32Field(j.nameHash, `${path}.nameHash`),
+    data: (j.data ?? []).map((d, i) => dataFromJson(d, le, `${path}.data[${i}]`)),
+    dataSets: (j.dataSets ?? []).map((ds, i) => dataSetFromJson(ds, le, `${path}.dataSets[${i}]`)),
+    _dataOffset: j.dataOffset,
+    _dataSetsOffset: j.dataSetsOffset,
+  };
+}
+
+/** Rebuild the .gsrc binary described by a GSRC-JSON document */
+export function jsonToBinary(doc: GsrcJsonDocument): ArrayBuffer {
+  if (doc?.format !== GSRC_JSON_FORMAT) throw new Error(`Not a ${GSRC_JSON_FORMAT} document`);
+  if (doc.version !== GSRC_JSON_VERSION) throw new Error(`Unsupported ${GSRC_JSON_FORMAT} version ${doc.version} (expected ${GSRC_JSON_VERSION})`);
+  const { adf } = doc;
+  const le = adf.byteOrder !== 'big';
+
+  // Put a placeholder payload back into the container; the writer replaces it
+  const container = fromBase64(adf.container);
+  const raw = new Uint8Array(container.length + adf.payloadSize);
+  raw.set(container.subarray(0, adf.payloadOffset));
+  raw.set(container.subarray(adf.payloadOffset), adf.payloadOffset + adf.payloadSize);
+
+  const graph: GSGraph = {
+    nodes: doc.graph.nodes.map((n, i): GSNode => ({
+      classHash: u32Field(n.classHash, `graph.nodes[${i}].classHash`),
+      functionHash: u32Field(n.functionHash, `graph.nodes[${i}].functionHash`),
+      dataSet: dataSetFromJson(n.dataSet, le, `graph.nodes[${i}].dataSet`),
+      _index: i,
+    })),
+    data: dataFromJson(doc.graph.data, le, 'graph.data'),
+    _nodesOffset: doc.graph.nodesOffset,
+  };
+  const file: GSrcFile = {
+    graph, connections: [], diagnostics: [], internalData: new Uint8Array(0),
+    adfVersion: adf.version, littleEndian: le, rawBuffer: raw.buffer,
+  };
+  const out = writeGsrc(file);
+
+  // Padding offsets are only meaningful while the payload keeps its source size
+  const padding = doc.graph.padding ?? [];
+  const payload = padding.length > 0 ? payloadOf(out) : undefined;
+  if (payload?.length === adf.payloadSize) {
+    padding.forEach((p, i) => {
+      const bytes = fromHex(p.bytes, `graph.padding[${i}].bytes`);
+      const offset = u32Field(p.offset, `graph.padding[${i}].offset`);
+      if (offset + bytes.length > payload.length) throw new Error(`graph.padding[${i}]: outside the payload`);
+      payload.set(bytes, offset);
+    });
+  }
+  return out;
+}
+
+/** Parse GSRC-JSON text into a GSrcFile, as if the equivalent binary had been opened */
+export function parseGsrcJson(text: string): GSrcFile {
+  return parseGsrc(jsonToBinary(JSON.parse(text) as GsrcJsonDocument));
+}
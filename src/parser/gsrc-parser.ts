@@ -1,9 +1,22 @@
-import type { GSGraph, GSNode, GSDataSet, GSData, GSConnection, GSrcFile } from '../types/graphscript';
+import type { GSGraph, GSNode, GSDataSet, GSData, GSConnection, GSrcFile, AdfInstance } from '../types/graphscript';
+import { AdfTypeKind } from '../types/graphscript';
 import { AdfReader } from './adf-reader';
-import { resolveHash, hashString } from '../utils/hash';
+import { AdfDecoder, type AdfValue } from './adf-decoder';
+import { DiagnosticLog, hex } from './diagnostics';
+import { resolveHash, resolveHashIn, hashString, registerHashString, valueNamespace, type HashNamespace } from '../utils/hash';
+import { formatValue, formatHashValue } from '../utils/value-codec';
 
 const HASH_OUTPUT_PINS = hashString('output_pins');
 const HASH_VARIABLE_PINS = hashString('variable_pins');
+// Datasets whose children are pins
+const PIN_CATEGORIES = new Set([hashString('input_pins'), HASH_OUTPUT_PINS, HASH_VARIABLE_PINS]);
+
+const GRAPH_SIZE = 0x30;
+const NODE_SIZE = 0x40;
+const DATASET_SIZE = 0x30;
+const DATA_SIZE = 0x20;
+/** Dataset nesting beyond this is treated as a pointer cycle */
+const MAX_DATASET_DEPTH = 32;
 
 export class GsrcParser {
   private adf: AdfReader;
@@ -11,105 +24,208 @@ export class GsrcParser {
   private view!: DataView;
   private data!: Uint8Array;
   private le = true;
+  private end = 0;           // Absolute end of the payload
+  private node?: number;     // Node being parsed, for diagnostics
+  private diagnostics: DiagnosticLog;
 
-  constructor(buffer: ArrayBuffer) { this.adf = new AdfReader(buffer); }
+  constructor(buffer: ArrayBuffer) {
+    this.adf = new AdfReader(buffer);
+    this.diagnostics = this.adf.diagnostics;
+  }
 
+  /** Parse the file, recovering past bad offsets. Problems end up in `diagnostics` of the result. */
   parse(): GSrcFile {
     this.adf.parse();
+    // Strings the file declares itself resolve its own node, pin and data names
+    for (const sh of this.adf.stringHashes) registerHashString(sh.value);
     this.le = this.adf.isLittleEndian;
     this.data = this.adf.rawData;
     this.view = new DataView(this.adf.buffer);
     const inst = this.adf.instances[0];
-    if (!inst) throw new Error('No instances in ADF');
+    if (!inst) {
+      if (!this.diagnostics.hasErrors) this.diagnostics.error('No instances in ADF', { path: ['instances'] });
+      return this.result(emptyGraph(), [], new Uint8Array(0));
+    }
     this.P = inst.payloadOffset;
-    const graph = this.parseGraph(this.P);
+    this.end = Math.min(this.data.length, inst.payloadOffset + inst.payloadSize);
+    if (this.P + GRAPH_SIZE > this.end) {
+      this.diagnostics.error(`Payload of ${inst.payloadSize} bytes is too small for a GSGraph`, { offset: this.P, path: ['graph'] });
+      return this.result(emptyGraph(), [], this.data.subarray(this.P, this.end));
+    }
+    const graph = this.parseGraphFromTypes(inst) ?? this.parseGraph(this.P);
     this.resolveVariableNodeData(graph);
     const connections = this.extractConnections(graph);
-    return { graph, connections, internalData: this.data.subarray(this.P, this.P + inst.payloadSize), adfVersion: this.adf.header.version, rawBuffer: this.adf.buffer };
+    return this.result(graph, connections, this.data.subarray(this.P, this.end));
+  }
+
+  private result(graph: GSGraph, connections: GSConnection[], internalData: Uint8Array): GSrcFile {
+    return { graph, connections, diagnostics: this.diagnostics.items, internalData, adfVersion: this.adf.header.version, littleEndian: this.le, rawBuffer: this.adf.buffer };
+  }
+
+  /** Build the graph by decoding the payload with the file's own type definitions.
+   *  Struct members are mapped by position - GSGraph{nodes, data}, GSNode{class, function, dataSet},
+   *  GSDataSet{name, data, dataSets}, GSData{name, type, value, reference} - so member offsets and
+   *  strides come from the file rather than this parser. Returns null when the types don't fit,
+   *  in which case the fixed PC layout below is used. */
+  private parseGraphFromTypes(inst: AdfInstance): GSGraph | null {
+    const rootType = this.adf.types.get(inst.typeHash);
+    if (!rootType || rootType.adfType !== AdfTypeKind.Struct) return null;
+    const decoder = new AdfDecoder(this.adf, inst);
+    try {
+      const [nodes, data] = fields(decoder.decodeInstance(), 2);
+      const graph: GSGraph = {
+        nodes: list(nodes).map((n, i) => ({ ...this.nodeFromDecoded(n, decoder), _index: i })),
+        data: this.dataFromDecoded(data, decoder),
+        _nodesOffset: decoder.offsets.get(list(nodes)),
+      };
+      return graph;
+    } catch (err) {
+      this.diagnostics.warning(`Decoding with the file's type definitions failed (${(err as Error).message}); using the fixed GSGraph layout`, { offset: this.P, path: ['graph'] });
+      return null;
+    }
+  }
+
+  private nodeFromDecoded(v: AdfValue, decoder: AdfDecoder): GSNode {
+    const [cls, fn, ds] = fields(v, 3);
+    const classHash = u32Of(cls);
+    return { classHash, functionHash: u32Of(fn), dataSet: this.dataSetFromDecoded(ds, decoder), _resolvedClass: resolveHashIn('class', classHash), _offset: decoder.offsets.get(v as object) };
+  }
+
+  /** `namespace`: what the dataset's name names - a pin below a pin category, else data */
+  private dataSetFromDecoded(v: AdfValue, decoder: AdfDecoder, namespace: HashNamespace = 'data'): GSDataSet {
+    const [name, data, dataSets] = fields(v, 3);
+    const nameHash = u32Of(name);
+    return {
+      name: nameHash,
+      // Entries of a pin name the pins they link to
+      data: list(data).map(d => this.dataFromDecoded(d, decoder, namespace)),
+      dataSets: list(dataSets).map(ds => this.dataSetFromDecoded(ds, decoder, PIN_CATEGORIES.has(nameHash) ? 'pin' : 'data')),
+      _resolvedName: resolveHashIn(namespace, nameHash),
+      _dataOffset: decoder.offsets.get(list(data)),
+      _dataSetsOffset: decoder.offsets.get(list(dataSets)),
+      _offset: decoder.offsets.get(v as object),
+    };
+  }
+
+  private dataFromDecoded(v: AdfValue, decoder: AdfDecoder, namespace: HashNamespace = 'data'): GSData {
+    const [name, type, raw, reference] = fields(v, 4);
+    const value = raw instanceof Uint8Array ? raw : Uint8Array.from(list(raw).map(b => u32Of(b) & 0xFF));
+    const d: GSData = {
+      name: u32Of(name), type: u32Of(type), value, count: value.length, reference: u32Of(reference) !== 0,
+      _resolvedName: resolveHashIn(namespace, u32Of(name)), _resolvedType: resolveHashIn('type', u32Of(type)), _valueOffset: decoder.offsets.get(raw as object),
+      _offset: decoder.offsets.get(v as object),
+    };
+    d._displayValue = this.fmtVal(d);
+    return d;
   }
 
   private abs(rel: number) { return this.P + rel; }
   private u32(off: number) { return this.view.getUint32(off, this.le); }
+  /** 64-bit offset/count/pointer field; only the low 32 bits are meaningful */
+  private u64(off: number) { return this.view.getUint32(this.le ? off : off + 4, this.le); }
+
+  /**
+   * How many elements of a `count` × `stride` array at payload offset `rel`
+   * lie inside the payload. Elements that don't are reported and skipped.
+   */
+  private fitCount(rel: number, count: number, stride: number, what: string, path: string[]): number {
+    const a = this.abs(rel);
+    if (a >= this.end) {
+      this.diagnostics.error(`${what} offset ${hex(rel)} beyond payload`, { offset: a, path, nodeIndex: this.node });
+      return 0;
+    }
+    const fit = Math.min(count, Math.floor((this.end - a) / stride));
+    if (fit < count) {
+      this.diagnostics.error(`${what} array of ${count} at ${hex(rel)} runs past the payload end; read ${fit}`, { offset: a, path, nodeIndex: this.node });
+    }
+    return fit;
+  }
 
   private parseGraph(base: number): GSGraph {
-    const nodesRel = this.u32(base);
-    const nodesCount = this.u32(base + 0x08);
-    const globalData = this.parseData(base + 0x10);
+    const nodesRel = this.u64(base);
+    const nodesCount = this.u64(base + 0x08);
+    const globalData = this.parseData(base + 0x10, ['graph', 'data']);
     const nodes: GSNode[] = [];
     if (nodesRel > 0 && nodesCount > 0) {
       const a = this.abs(nodesRel);
-      for (let i = 0; i < nodesCount; i++) {
-        const n = this.parseNode(a + i * 0x40);
+      const count = this.fitCount(nodesRel, nodesCount, NODE_SIZE, 'nodes', ['graph']);
+      for (let i = 0; i < count; i++) {
+        this.node = i;
+        const n = this.parseNode(a + i * NODE_SIZE, [`node ${i}`]);
         n._index = i;
         nodes.push(n);
       }
+      this.node = undefined;
     }
-    return { nodes, data: globalData };
+    return { nodes, data: globalData, _nodesOffset: nodesRel > 0 ? nodesRel : undefined };
   }
 
-  private parseNode(base: number): GSNode {
+  private parseNode(base: number, path: string[]): GSNode {
     const classHash = this.u32(base);
-    const functionHash = this.u32(base + 0x08);
-    const dataSet = this.parseDataSet(base + 0x10);
-    return { classHash, functionHash, dataSet, _resolvedClass: resolveHash(classHash) };
+    const functionHash = this.u64(base + 0x08);
+    const dataSet = this.parseDataSet(base + 0x10, [...path, 'dataSet'], 0);
+    return { classHash, functionHash, dataSet, _resolvedClass: resolveHashIn('class', classHash), _offset: base - this.P };
   }
 
-  private parseDataSet(base: number): GSDataSet {
+  /** `namespace`: what the dataset's name names - a pin below a pin category, else data */
+  private parseDataSet(base: number, path: string[], depth: number, namespace: HashNamespace = 'data'): GSDataSet {
     const name = this.u32(base);
-    const dataRel = this.u32(base + 0x08);
-    const dataCount = this.u32(base + 0x10);
-    const dsRel = this.u32(base + 0x18);
-    const dsCount = this.u32(base + 0x20);
+    const dataRel = this.u64(base + 0x08);
+    const dataCount = this.u64(base + 0x10);
+    const dsRel = this.u64(base + 0x18);
+    const dsCount = this.u64(base + 0x20);
 
     const data: GSData[] = [];
     if (dataRel > 0 && dataCount > 0) {
       const a = this.abs(dataRel);
-      for (let i = 0; i < dataCount; i++) data.push(this.parseData(a + i * 0x20));
+      const count = this.fitCount(dataRel, dataCount, DATA_SIZE, 'data', path);
+      // Entries of a pin name the pins they link to
+      for (let i = 0; i < count; i++) data.push(this.parseData(a + i * DATA_SIZE, [...path, `data[${i}]`], namespace));
     }
     const dataSets: GSDataSet[] = [];
     if (dsRel > 0 && dsCount > 0) {
-      const a = this.abs(dsRel);
-      for (let i = 0; i < dsCount; i++) dataSets.push(this.parseDataSet(a + i * 0x30));
+      if (depth >= MAX_DATASET_DEPTH) {
+        this.diagnostics.error(`dataSets nested deeper than ${MAX_DATASET_DEPTH} levels (pointer cycle?); children skipped`, { offset: this.abs(dsRel), path, nodeIndex: this.node });
+      } else {
+        const a = this.abs(dsRel);
+        const count = this.fitCount(dsRel, dsCount, DATASET_SIZE, 'dataSets', path);
+        for (let i = 0; i < count; i++) {
+          const b = a + i * DATASET_SIZE;
+          dataSets.push(this.parseDataSet(b, [...path, resolveHash(this.u32(b))], depth + 1, PIN_CATEGORIES.has(name) ? 'pin' : 'data'));
+        }
+      }
     }
-    return { name, data, dataSets, _resolvedName: resolveHash(name) };
+    return { name, data, dataSets, _resolvedName: resolveHashIn(namespace, name), _dataOffset: dataRel > 0 ? dataRel : undefined, _dataSetsOffset: dsRel > 0 ? dsRel : undefined, _offset: base - this.P };
   }
 
-  private parseData(base: number): GSData {
+  private parseData(base: number, path: string[], namespace: HashNamespace = 'data'): GSData {
     const name = this.u32(base);
     const type = this.u32(base + 0x04);
-    const valRel = this.u32(base + 0x08);
-    const valCount = this.u32(base + 0x10);
+    const valRel = this.u64(base + 0x08);
+    const valCount = this.u64(base + 0x10);
     const reference = this.data[base + 0x18] !== 0;
 
     let value = new Uint8Array(0);
     if (valRel > 0 && valCount > 0) {
       const a = this.abs(valRel);
-      value = new Uint8Array(valCount);
-      value.set(this.data.subarray(a, a + valCount));
+      if (a >= this.end) {
+        this.diagnostics.error(`value offset ${hex(valRel)} beyond payload`, { offset: base + 0x08, path, nodeIndex: this.node });
+      } else if (a + valCount > this.end) {
+        this.diagnostics.error(`value of ${valCount} bytes at ${hex(valRel)} runs past the payload end`, { offset: base + 0x10, path, nodeIndex: this.node });
+      } else {
+        value = new Uint8Array(valCount);
+        value.set(this.data.subarray(a, a + valCount));
+      }
     }
 
-    const d: GSData = { name, type, value, count: valCount, reference, _resolvedName: resolveHash(name), _resolvedType: resolveHash(type) };
+    const d: GSData = { name, type, value, count: valCount, reference, _resolvedName: resolveHashIn(namespace, name), _resolvedType: resolveHashIn('type', type), _valueOffset: valRel > 0 ? valRel : undefined, _offset: base - this.P };
     d._displayValue = this.fmtVal(d);
     return d;
   }
 
+  /** Hash values are looked up in the namespace their field names */
   private fmtVal(d: GSData): string {
-    if (d.value.length === 0) return '(empty)';
-    const dv = new DataView(d.value.buffer, d.value.byteOffset, d.value.byteLength);
-    const t = d._resolvedType ?? '';
-    try {
-      if (t === 'float' && d.value.length >= 4) return dv.getFloat32(0, this.le).toFixed(4);
-      if (t === 'int' && d.value.length >= 4) return dv.getInt32(0, this.le).toString();
-      if (t === 'uint32' && d.value.length >= 4) { const v = dv.getUint32(0, this.le); const r = resolveHash(v); return r.startsWith('0x') ? v.toString() : `${v} (${r})`; }
-      if (t === 'bool' && d.value.length >= 1) return d.value[0] ? 'true' : 'false';
-      if (t === 'int64' && d.value.length >= 8) return dv.getBigInt64(0, this.le).toString();
-      if (t === 'uint64' && d.value.length >= 8) return dv.getBigUint64(0, this.le).toString();
-      if (t === 'vector' && d.value.length >= 16) return `(${dv.getFloat32(0,this.le).toFixed(2)}, ${dv.getFloat32(4,this.le).toFixed(2)}, ${dv.getFloat32(8,this.le).toFixed(2)}, ${dv.getFloat32(12,this.le).toFixed(2)})`;
-      if (t === 'enum' && d.value.length >= 4) return dv.getInt32(0, this.le).toString();
-      if ((t === 'string' || t === 'string_ptr') && d.value.length > 0) return new TextDecoder().decode(d.value);
-    } catch {}
-    const hex = Array.from(d.value.subarray(0, Math.min(16, d.value.length))).map(b => b.toString(16).padStart(2, '0')).join(' ');
-    return d.value.length > 16 ? `${hex}...` : hex;
+    return formatValue(d._resolvedType ?? '', d.value, this.le, valueNamespace(d._resolvedName));
   }
 
   /** Dereference Variable node fields through the global data blob.
@@ -122,12 +238,14 @@ export class GsrcParser {
     if (globalData.length === 0) return;
     const gdv = new DataView(globalData.buffer, globalData.byteOffset, globalData.byteLength);
 
-    for (const node of graph.nodes) {
+    for (let ni = 0; ni < graph.nodes.length; ni++) {
+      const node = graph.nodes[ni];
       const cls = node._resolvedClass ?? '';
       if (!/^(Variable|ExternalVariable|GlobalVariable)/.test(cls)) continue;
+      const at = (field: string) => ({ path: [`node ${ni}`, 'dataSet', field], nodeIndex: ni });
 
       // Determine value type from class name
-      const varType = this.getVariableValueType(cls);
+      const varType = getVariableValueType(cls);
 
       for (const d of node.dataSet.data) {
         const fieldName = d._resolvedName ?? '';
@@ -139,38 +257,23 @@ export class GsrcParser {
           // Name field: offset → uint32 name hash in global data
           if (offset + 4 <= globalData.length) {
             const nameHash = gdv.getUint32(offset, this.le);
-            const resolved = resolveHash(nameHash);
-            d._displayValue = resolved;
+            d._displayValue = formatHashValue(nameHash, 'data');
             d._resolvedType = 'uint32';
+          } else {
+            this.diagnostics.warning(`Name offset ${hex(offset)} beyond global data (${globalData.length} bytes)`, at(fieldName));
           }
         } else if (fieldName === 'Value' && d.reference) {
           // Value field: offset → actual value in global data
           if (offset < globalData.length) {
             d._displayValue = this.fmtGlobalValue(gdv, offset, globalData.length, varType);
+          } else {
+            this.diagnostics.warning(`Value offset ${hex(offset)} beyond global data (${globalData.length} bytes)`, at(fieldName));
           }
         }
       }
     }
   }
 
-  /** Get the expected value type from a variable class name */
-  private getVariableValueType(cls: string): string {
-    const base = cls.replace(/^(External|Global)/, '');
-    if (base.startsWith('VariableFloat')) return 'float';
-    if (base.startsWith('VariableInt')) return 'int';
-    if (base.startsWith('VariableBool')) return 'bool';
-    if (base.startsWith('VariableUint32')) return 'uint32';
-    if (base.startsWith('VariableUint64')) return 'uint64';
-    if (base === 'VariableString' || base === 'VariableStringHash') return 'string_hash';
-    if (base.startsWith('VariableVector')) return 'vector';
-    if (base.startsWith('VariableHash') || base === 'VariableStringHash') return 'string_hash';
-    if (base.startsWith('VariableEnum')) return 'enum';
-    if (base.startsWith('VariableTransform')) return 'vector';
-    if (base.startsWith('VariableEventSend') || base.startsWith('VariableEventReceive')) return 'event';
-    if (base.startsWith('VariableObject') || base.startsWith('VariableFile') || base.startsWith('VariableGraphFile') || base.startsWith('VariableGlobalRef')) return 'uint64';
-    return 'uint32';
-  }
-
   /** Format a value read from the global data blob at a given offset */
   private fmtGlobalValue(gdv: DataView, offset: number, len: number, varType: string): string {
     try {
@@ -182,7 +285,7 @@ export class GsrcParser {
       }
       if (varType === 'uint32' && offset + 4 <= len) {
         const v = gdv.getUint32(offset, this.le);
-        const r = resolveHash(v);
+        const r = formatHashValue(v, null);
         return r.startsWith('0x') ? v.toString() : `${v} (${r})`;
       }
       if (varType === 'bool' && offset + 1 <= len) {
@@ -196,8 +299,7 @@ export class GsrcParser {
       }
       if (varType === 'string_hash' && offset + 4 <= len) {
         const v = gdv.getUint32(offset, this.le);
-        const r = resolveHash(v);
-        return r;
+        return formatHashValue(v, null);
       }
       if (varType === 'vector' && offset + 16 <= len) {
         return `(${gdv.getFloat32(offset, this.le).toFixed(2)}, ${gdv.getFloat32(offset + 4, this.le).toFixed(2)}, ${gdv.getFloat32(offset + 8, this.le).toFixed(2)}, ${gdv.getFloat32(offset + 12, this.le).toFixed(2)})`;
@@ -213,16 +315,26 @@ export class GsrcParser {
     return '??';
   }
 
-  /** Resolve a connection value (offset into global data blob) to a target node index */
-  private resolveConnectionTarget(globalDataValue: Uint8Array, offset: number): number | null {
-    if (globalDataValue.length === 0 || offset + 4 > globalDataValue.length) return null;
+  /** Resolve a connection value (offset into global data blob) to a target node index,
+   *  reporting slots outside the blob and targets that are not a node */
+  private resolveConnectionTarget(graph: GSGraph, cd: GSData, path: string[], nodeIndex: number): number | null {
+    const globalDataValue = graph.data.value;
+    const offset = new DataView(cd.value.buffer, cd.value.byteOffset, cd.value.byteLength).getUint32(0, this.le);
+    if (offset + 4 > globalDataValue.length) {
+      this.diagnostics.warning(`connection slot ${hex(offset)} beyond global data (${globalDataValue.length} bytes)`, { path, nodeIndex });
+      return null;
+    }
     const dv = new DataView(globalDataValue.buffer, globalDataValue.byteOffset, globalDataValue.byteLength);
-    return dv.getUint32(offset, this.le);
+    const target = dv.getUint32(offset, this.le);
+    if (target >= graph.nodes.length) {
+      this.diagnostics.warning(`connection target node ${target} out of range (${graph.nodes.length} nodes)`, { path, nodeIndex });
+      return null;
+    }
+    return target;
   }
 
   extractConnections(graph: GSGraph): GSConnection[] {
     const conns: GSConnection[] = [];
-    const globalData = graph.data.value;
 
     for (let ni = 0; ni < graph.nodes.length; ni++) {
       const node = graph.nodes[ni];
@@ -231,13 +343,11 @@ export class GsrcParser {
       const outDS = node.dataSet.dataSets.find(ds => ds.name === HASH_OUTPUT_PINS);
       if (outDS) {
         for (const pinDS of outDS.dataSets) {
-          for (const cd of pinDS.data) {
+          for (const [j, cd] of pinDS.data.entries()) {
             if (cd.value.length >= 4) {
-              const dv = new DataView(cd.value.buffer, cd.value.byteOffset, cd.value.byteLength);
-              const gdOffset = dv.getUint32(0, this.le);
-              const ti = this.resolveConnectionTarget(globalData, gdOffset);
-              if (ti !== null && ti < graph.nodes.length) {
-                conns.push({ sourceNodeIndex: ni, sourceOutputPinHash: pinDS.name, targetNodeIndex: ti, targetInputPinHash: cd.name, connectionType: 'flow', _sourceOutputPin: resolveHash(pinDS.name), _targetInputPin: resolveHash(cd.name) });
+              const ti = this.resolveConnectionTarget(graph, cd, [`node ${ni}`, 'dataSet', 'output_pins', resolveHash(pinDS.name), `data[${j}]`], ni);
+              if (ti !== null) {
+                conns.push({ sourceNodeIndex: ni, sourceOutputPinHash: pinDS.name, targetNodeIndex: ti, targetInputPinHash: cd.name, connectionType: 'flow', _sourceOutputPin: resolveHashIn('pin', pinDS.name), _targetInputPin: resolveHashIn('pin', cd.name), _pinData: cd });
               }
             }
           }
@@ -248,13 +358,11 @@ export class GsrcParser {
       const varDS = node.dataSet.dataSets.find(ds => ds.name === HASH_VARIABLE_PINS);
       if (varDS) {
         for (const pinDS of varDS.dataSets) {
-          for (const cd of pinDS.data) {
+          for (const [j, cd] of pinDS.data.entries()) {
             if (cd.value.length >= 4) {
-              const dv = new DataView(cd.value.buffer, cd.value.byteOffset, cd.value.byteLength);
-              const gdOffset = dv.getUint32(0, this.le);
-              const ti = this.resolveConnectionTarget(globalData, gdOffset);
-              if (ti !== null && ti < graph.nodes.length) {
-                conns.push({ sourceNodeIndex: ti, sourceOutputPinHash: pinDS.name, targetNodeIndex: ni, targetInputPinHash: pinDS.name, connectionType: 'variable', _sourceOutputPin: resolveHash(pinDS.name), _targetInputPin: resolveHash(pinDS.name) });
+              const ti = this.resolveConnectionTarget(graph, cd, [`node ${ni}`, 'dataSet', 'variable_pins', resolveHash(pinDS.name), `data[${j}]`], ni);
+              if (ti !== null) {
+                conns.push({ sourceNodeIndex: ti, sourceOutputPinHash: pinDS.name, targetNodeIndex: ni, targetInputPinHash: pinDS.name, connectionType: 'variable', _sourceOutputPin: resolveHashIn('pin', pinDS.name), _targetInputPin: resolveHashIn('pin', pinDS.name), _pinData: cd });
               }
             }
           }
@@ -265,6 +373,48 @@ export class GsrcParser {
   }
 }
 
+/** Get the expected value type from a variable class name */
+export function getVariableValueType(cls: string): string {
+  const base = cls.replace(/^(External|Global)/, '');
+  if (base.startsWith('VariableFloat')) return 'float';
+  if (base.startsWith('VariableInt')) return 'int';
+  if (base.startsWith('VariableBool')) return 'bool';
+  if (base.startsWith('VariableUint32')) return 'uint32';
+  if (base.startsWith('VariableUint64')) return 'uint64';
+  if (base === 'VariableString' || base === 'VariableStringHash') return 'string_hash';
+  if (base.startsWith('VariableVector')) return 'vector';
+  if (base.startsWith('VariableHash') || base === 'VariableStringHash') return 'string_hash';
+  if (base.startsWith('VariableEnum')) return 'enum';
+  if (base.startsWith('VariableTransform')) return 'vector';
+  if (base.startsWith('VariableEventSend') || base.startsWith('VariableEventReceive')) return 'event';
+  if (base.startsWith('VariableObject') || base.startsWith('VariableFile') || base.startsWith('VariableGraphFile') || base.startsWith('VariableGlobalRef')) return 'uint64';
+  return 'uint32';
+}
+
+function emptyGraph(): GSGraph {
+  return { nodes: [], data: { name: 0, type: 0, value: new Uint8Array(0), count: 0, reference: false } };
+}
+
+/** Member values of a decoded struct, in member order */
+function fields(v: AdfValue, min: number): AdfValue[] {
+  if (v === null || typeof v !== 'object' || Array.isArray(v) || v instanceof Uint8Array) throw new Error('Expected struct');
+  const f = Object.values(v);
+  if (f.length < min) throw new Error(`Expected at least ${min} struct members`);
+  return f;
+}
+
+function list(v: AdfValue): AdfValue[] {
+  if (!Array.isArray(v)) throw new Error('Expected array');
+  return v;
+}
+
+/** Hash-sized value of a decoded scalar (64-bit fields keep their low 32 bits) */
+function u32Of(v: AdfValue): number {
+  if (typeof v === 'number') return v >>> 0;
+  if (typeof v === 'bigint') return Number(v & 0xFFFFFFFFn);
+  throw new Error('Expected scalar');
+}
+
 export function parseGsrc(buffer: ArrayBuffer): GSrcFile {
   return new GsrcParser(buffer).parse();
 }
@@ -0,0 +1,246 @@
+import type { GSGraph, GSNode, GSDataSet, GSData, GSrcFile } from '../types/graphscript';
+import { AdfWriter } from './adf-writer';
+
+const GRAPH_SIZE = 0x30;
+const NODE_SIZE = 0x40;
+const DATASET_SIZE = 0x30;
+const DATA_SIZE = 0x20;
+const STRUCT_ALIGN = 8;
+const MAX_DATASET_DEPTH = 64;
+
+/** A contiguous allocation in the payload (struct array or value bytes) */
+interface Block {
+  size: number;
+  align: number;
+  origOffset?: number;   // Where the block lived in the source payload, if anywhere
+  offset: number;        // Assigned offset in the output payload
+  emit: (base: number) => void;
+}
+
+/** Source bytes copied to the output as they were (padding between blocks, the payload's tail) */
+interface Span {
+  src: number;
+  dst: number;
+  size: number;
+}
+
+/**
+ * Serializes a GSrcFile back into a .gsrc (ADF) file - the inverse of GsrcParser.
+ *
+ * The payload is rebuilt from the GSGraph model using the same 0x40 node,
+ * 0x30 dataset and 0x20 data strides the parser reads. Blocks that came from
+ * the source file are laid out in their original order and keep their original
+ * spacing, so an unmodified graph is written back byte-identical; new blocks
+ * are appended after them. Bytes the model doesn't hold are copied from the
+ * source: the padding between blocks and at the payload's end, and each
+ * struct's padding and the high dwords of its 64-bit fields, for structs that
+ * came from the source file (`_offset`). The space of deleted blocks is dropped.
+ *
+ * The file is written in `file.littleEndian` byte order; when that differs
+ * from the source buffer the model must already hold target-order values
+ * (see convertGsrcEndianness). Only the bytes between blocks are copied then,
+ * so struct padding and high dwords are zero.
+ */
+export class GsrcWriter {
+  private blocks: Block[] = [];
+  private spans: Span[] = [];
+  private view!: DataView;
+  private data!: Uint8Array;
+  private le = true;
+  private source!: Uint8Array;             // Source payload
+  private sourceView!: DataView;
+  private sameOrder = true;                // Whether source structs can be copied as they are
+
+  constructor(private file: GSrcFile) {}
+
+  write(): ArrayBuffer {
+    const adf = new AdfWriter(this.file.rawBuffer as ArrayBuffer);
+    this.le = this.file.littleEndian;
+    adf.setByteOrder(this.le);
+    const inst = adf.instances[0];
+    if (!inst) throw new Error('No instances in ADF');
+
+    this.source = new Uint8Array(this.file.rawBuffer as ArrayBuffer, inst.payloadOffset, inst.payloadSize);
+    this.sourceView = new DataView(this.source.buffer, this.source.byteOffset, this.source.byteLength);
+    this.sameOrder = adf.isLittleEndian === this.le;
+
+    this.blocks = [];
+    this.spans = this.sameOrder ? [{ src: 0, dst: 0, size: Math.min(GRAPH_SIZE, this.source.length) }] : [];
+    const emitGraph = this.collectGraph(this.file.graph);
+    const size = this.layout(inst.payloadSize, sourceExtents(this.source, adf.isLittleEndian));
+
+    this.data = new Uint8Array(size);
+    this.view = new DataView(this.data.buffer);
+    for (const s of this.spans) this.data.set(this.source.subarray(s.src, s.src + s.size), s.dst);
+    emitGraph(0);
+    for (const b of this.blocks) b.emit(b.offset);
+
+    adf.setPayload(0, this.data);
+    return adf.write();
+  }
+
+  private u32(off: number, v: number) { this.view.setUint32(off, v >>> 0, this.le); }
+  /** 64-bit offset/count/pointer field holding a 32-bit value; the high dword is left as copied */
+  private u64(off: number, v: number) { this.view.setUint32(this.le ? off : off + 4, v >>> 0, this.le); }
+
+  /**
+   * Copy a struct from the source to `base` before its fields are written, if
+   * it came from there: `hash` must still be the struct's first field.
+   */
+  private copyStruct(base: number, origOffset: number | undefined, size: number, hash: number) {
+    if (!this.sameOrder || origOffset === undefined || origOffset + size > this.source.length) return;
+    if (this.sourceView.getUint32(origOffset, this.le) !== hash >>> 0) return;
+    this.data.set(this.source.subarray(origOffset, origOffset + size), base);
+  }
+
+  /**
+   * Assign output offsets to all blocks and return the payload size.
+   * `extents` are the blocks of the source payload (offset -> size).
+   */
+  private layout(origPayloadSize: number, extents: Map<number, number>): number {
+    const known = this.blocks.filter(b => b.origOffset !== undefined).sort((a, b) => a.origOffset! - b.origOffset!);
+    const added = this.blocks.filter(b => b.origOffset === undefined && b.size > 0);
+    const ends = [...extents].map(([offset, size]) => offset + size).sort((a, b) => a - b);
+
+    let cursor = GRAPH_SIZE;
+    let prevOrigEnd = GRAPH_SIZE;
+    let e = 0;
+    for (const b of known) {
+      // Keep the gap the source file had before this block: from the end of
+      // the source block before it, which may be one the model no longer has
+      while (e < ends.length && ends[e] <= b.origOffset!) prevOrigEnd = Math.max(prevOrigEnd, ends[e++]);
+      const gap = b.origOffset! >= prevOrigEnd ? b.origOffset! - prevOrigEnd : 0;
+      if (gap > 0) this.spans.push({ src: prevOrigEnd, dst: cursor, size: gap });
+      // Source blocks only get re-aligned to what they were aligned to originally
+      b.offset = alignUp(cursor + gap, b.origOffset! % b.align === 0 ? b.align : 1);
+      cursor = b.offset + b.size;
+      prevOrigEnd = Math.max(prevOrigEnd, b.origOffset! + b.size, b.origOffset! + (extents.get(b.origOffset!) ?? 0));
+    }
+    while (e < ends.length) prevOrigEnd = Math.max(prevOrigEnd, ends[e++]);
+    const trailing = Math.max(0, origPayloadSize - prevOrigEnd);
+    for (const b of added) {
+      b.offset = alignUp(cursor, b.align);
+      cursor = b.offset + b.size;
+    }
+    if (added.length > 0) return cursor;
+    if (trailing > 0) this.spans.push({ src: prevOrigEnd, dst: cursor, size: trailing });
+    return cursor + trailing;
+  }
+
+  private addBlock(size: number, align: number, origOffset: number | undefined, emit: (base: number) => void): Block {
+    const b: Block = { size, align, origOffset, offset: 0, emit };
+    if (size > 0 || origOffset !== undefined) this.blocks.push(b);
+    return b;
+  }
+
+  /** Offset to store in a pointer field for a block (0 for empty, unplaced arrays) */
+  private ref(b: Block): number {
+    return b.size > 0 || b.origOffset !== undefined ? b.offset : 0;
+  }
+
+  private collectGraph(graph: GSGraph): (base: number) => void {
+    const nodes = this.addBlock(graph.nodes.length * NODE_SIZE, STRUCT_ALIGN, graph._nodesOffset, base => {
+      nodeEmitters.forEach((emit, i) => emit(base + i * NODE_SIZE));
+    });
+    const nodeEmitters = graph.nodes.map(n => this.collectNode(n));
+    const emitData = this.collectData(graph.data);
+    return base => {
+      this.u64(base, this.ref(nodes));
+      this.u64(base + 0x08, graph.nodes.length);
+      emitData(base + 0x10);
+    };
+  }
+
+  private collectNode(node: GSNode): (base: number) => void {
+    const emitDataSet = this.collectDataSet(node.dataSet);
+    return base => {
+      this.copyStruct(base, node._offset, NODE_SIZE, node.classHash);
+      this.u32(base, node.classHash);
+      this.u64(base + 0x08, node.functionHash);
+      emitDataSet(base + 0x10);
+    };
+  }
+
+  private collectDataSet(ds: GSDataSet): (base: number) => void {
+    // Arrays are registered before their elements so new blocks are laid out parent-first
+    const data = this.addBlock(ds.data.length * DATA_SIZE, STRUCT_ALIGN, ds._dataOffset, base => {
+      dataEmitters.forEach((emit, i) => emit(base + i * DATA_SIZE));
+    });
+    const dataEmitters = ds.data.map(d => this.collectData(d));
+    const dataSets = this.addBlock(ds.dataSets.length * DATASET_SIZE, STRUCT_ALIGN, ds._dataSetsOffset, base => {
+      childEmitters.forEach((emit, i) => emit(base + i * DATASET_SIZE));
+    });
+    const childEmitters = ds.dataSets.map(child => this.collectDataSet(child));
+    return base => {
+      this.copyStruct(base, ds._offset, DATASET_SIZE, ds.name);
+      this.u32(base, ds.name);
+      this.u64(base + 0x08, this.ref(data));
+      this.u64(base + 0x10, ds.data.length);
+      this.u64(base + 0x18, this.ref(dataSets));
+      this.u64(base + 0x20, ds.dataSets.length);
+    };
+  }
+
+  private collectData(d: GSData): (base: number) => void {
+    const value = this.addBlock(d.value.length, valueAlignment(d), d._valueOffset, base => {
+      this.data.set(d.value, base);
+    });
+    return base => {
+      this.copyStruct(base, d._offset, DATA_SIZE, d.name);
+      this.u32(base, d.name);
+      this.u32(base + 0x04, d.type);
+      this.u64(base + 0x08, this.ref(value));
+      this.u64(base + 0x10, d.value.length || d.count);
+      this.data[base + 0x18] = d.reference ? 1 : 0;
+    };
+  }
+}
+
+/**
+ * Blocks of a source payload (offset -> size): struct arrays and value bytes,
+ * found by walking it like the parser's fixed layout does
+ */
+function sourceExtents(payload: Uint8Array, le: boolean): Map<number, number> {
+  const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+  const out = new Map<number, number>();
+  const u64 = (off: number) => off + 8 <= payload.length ? view.getUint32(le ? off : off + 4, le) : 0;
+  // Each array once, so pointer cycles end
+  const array = (rel: number, count: number, stride: number) => {
+    if (rel === 0 || count === 0 || rel + count * stride > payload.length || out.has(rel)) return false;
+    out.set(rel, count * stride);
+    return true;
+  };
+  const walkData = (base: number) => {
+    const rel = u64(base + 0x08);
+    const count = u64(base + 0x10);
+    if (rel > 0 && count > 0 && rel + count <= payload.length) out.set(rel, Math.max(out.get(rel) ?? 0, count));
+  };
+  const walkDataSet = (base: number, depth: number) => {
+    const dataRel = u64(base + 0x08);
+    const dataCount = u64(base + 0x10);
+    if (array(dataRel, dataCount, DATA_SIZE)) for (let i = 0; i < dataCount; i++) walkData(dataRel + i * DATA_SIZE);
+    const dsRel = u64(base + 0x18);
+    const dsCount = u64(base + 0x20);
+    if (depth < MAX_DATASET_DEPTH && array(dsRel, dsCount, DATASET_SIZE)) {
+      for (let i = 0; i < dsCount; i++) walkDataSet(dsRel + i * DATASET_SIZE, depth + 1);
+    }
+  };
+  const nodesRel = u64(0);
+  const nodeCount = u64(0x08);
+  if (array(nodesRel, nodeCount, NODE_SIZE)) for (let i = 0; i < nodeCount; i++) walkDataSet(nodesRel + i * NODE_SIZE + 0x10, 0);
+  walkData(0x10);
+  return out;
+}
+
+function alignUp(n: number, a: number): number {
+  return Math.ceil(n / a) * a;
+}
+
+/** Alignment for newly placed value bytes, wide enough for the widest scalar they hold */
+function valueAlignment(d: GSData): number {
+  return d.value.length >= 8 && d.value.length % 8 === 0 ? 8 : 4;
+}
+
+export function writeGsrc(file: GSrcFile): ArrayBuffer {
+  return new GsrcWriter(file).write();
+}
@@ -0,0 +1,345 @@
+/**
+ * GraphScript text (.gst) compiler - the inverse of decompileGsrc.
+ *
+ * Text only describes the graph, so compiling needs a base .gsrc for the
+ * ADF container (type definitions, byte order). Node labels (`#12`) are
+ * local to the script: nodes are numbered in the order they are declared,
+ * and the global data blob is rebuilt from `&` values and links.
+ */
+
+import type { GSrcFile, GSGraph, GSNode, GSDataSet, GSData } from '../types/graphscript';
+import { GlobalDataAllocator, BLOB_TYPE_LAYOUT } from '../utils/data-allocator';
+import { hashString, resolveHash } from '../utils/hash';
+import { encodeValue } from '../utils/value-codec';
+import { writeGsrc } from '../parser/gsrc-writer';
+import { parseGsrc } from '../parser/gsrc-parser';
+import { SCRIPT_VERSION, tokenize, nameTokenHash, slotType, type Token } from './syntax';
+
+const HASH_OUTPUT_PINS = hashString('output_pins');
+const HASH_VARIABLE_PINS = hashString('variable_pins');
+const HASH_INT = hashString('int');
+
+/** A value literal before it is encoded for a type */
+type Literal =
+  | { kind: 'empty' }
+  | { kind: 'number'; text: string }
+  | { kind: 'bool'; value: boolean }
+  | { kind: 'string'; value: string }
+  | { kind: 'vector'; value: number[] }
+  | { kind: 'hash'; value: number }
+  | { kind: 'bytes'; value: Uint8Array };
+
+interface DataDecl {
+  line: number;
+  name: number;
+  type: number;
+  reference: boolean;
+  slot: boolean;      // `&literal`: the literal lives in the global data blob
+  literal: Literal;
+}
+
+interface LinkDecl {
+  line: number;
+  label: number;      // Node label the link points at
+  name: number;       // Data entry name (input pin for flow links)
+}
+
+interface DataSetDecl {
+  name: number;
+  data: DataDecl[];
+  dataSets: DataSetDecl[];
+  links?: { pin: number; targets: LinkDecl[] }[];  // outputs / variables blocks
+}
+
+interface NodeDecl {
+  line: number;
+  label: number;
+  classHash: number;
+  functionHash: number;
+  root?: number;
+  body: DataSetDecl;
+}
+
+class ScriptParser {
+  private pos = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  private peek(offset = 0): Token | undefined {
+    return this.tokens[this.pos + offset];
+  }
+
+  private fail(message: string, t = this.peek()): never {
+    throw new Error(t ? `line ${t.line}: ${message}, got '${t.text}'` : `${message} at end of script`);
+  }
+
+  private next(): Token {
+    const t = this.peek();
+    if (!t) this.fail('unexpected end of script');
+    this.pos++;
+    return t;
+  }
+
+  private is(text: string, offset = 0): boolean {
+    const t = this.peek(offset);
+    return !!t && t.text === text && (t.kind === 'punct' || t.kind === 'ident');
+  }
+
+  private expect(text: string): Token {
+    if (!this.is(text)) this.fail(`expected '${text}'`);
+    return this.next();
+  }
+
+  private name(): number {
+    const t = this.peek();
+    if (!t || (t.kind !== 'ident' && t.kind !== 'string' && t.kind !== 'hex')) this.fail('expected a name');
+    return nameTokenHash(this.next());
+  }
+
+  private integer(): number {
+    const t = this.next();
+    if ((t.kind !== 'number' && t.kind !== 'hex') || !/^(\d+|0x[0-9a-fA-F]+)$/.test(t.text)) this.fail('expected an integer', t);
+    return Number(t.text);
+  }
+
+  parse(): { global: { name: number; type: number }; root?: number; nodes: NodeDecl[] } {
+    this.expect('graphscript');
+    const version = this.integer();
+    if (version !== SCRIPT_VERSION) throw new Error(`Unsupported graphscript version ${version} (expected ${SCRIPT_VERSION})`);
+
+    let global = { name: hashString('GlobalVariableData'), type: hashString('data_block') };
+    let root: number | undefined;
+    const nodes: NodeDecl[] = [];
+    while (this.peek()) {
+      if (this.is('global')) {
+        this.next();
+        const name = this.name();
+        this.expect(':');
+        global = { name, type: this.name() };
+      } else if (this.is('root')) {
+        this.next();
+        root = this.name();
+      } else if (this.is('node')) {
+        nodes.push(this.node());
+      } else {
+        this.fail("expected 'node'");
+      }
+    }
+    return { global, root, nodes };
+  }
+
+  private node(): NodeDecl {
+    const line = this.expect('node').line;
+    this.expect('#');
+    const label = this.integer();
+    const classHash = this.name();
+    const decl: NodeDecl = { line, label, classHash, functionHash: 0, body: { name: 0, data: [], dataSets: [] } };
+    this.expect('{');
+    while (!this.is('}')) {
+      if (this.is('function') && !this.is(':', 1)) {
+        this.next();
+        decl.functionHash = this.name();
+      } else if (this.is('root') && !this.is(':', 1)) {
+        this.next();
+        decl.root = this.name();
+      } else {
+        this.item(decl.body);
+      }
+    }
+    this.expect('}');
+    return decl;
+  }
+
+  /** A parameter line or a nested block, added to `ds` */
+  private item(ds: DataSetDecl): void {
+    if ((this.is('outputs') || this.is('variables')) && this.is('{', 1)) {
+      ds.dataSets.push(this.links(this.next().text === 'outputs'));
+    } else if (this.is('[')) {
+      this.next();
+      const child: DataSetDecl = { name: this.name(), data: [], dataSets: [] };
+      this.expect(']');
+      this.expect('{');
+      while (!this.is('}')) this.item(child);
+      this.expect('}');
+      ds.dataSets.push(child);
+    } else {
+      ds.data.push(this.data());
+    }
+  }
+
+  private data(): DataDecl {
+    const line = this.peek()?.line ?? 0;
+    const name = this.name();
+    this.expect(':');
+    const type = this.name();
+    const reference = this.is('ref');
+    if (reference) this.next();
+    this.expect('=');
+    const slot = this.is('&');
+    if (slot) this.next();
+    return { line, name, type, reference, slot, literal: this.literal() };
+  }
+
+  private literal(): Literal {
+    const t = this.next();
+    if (t.kind === 'number') return { kind: 'number', text: t.text };
+    if (t.kind === 'string') return { kind: 'string', value: JSON.parse(t.text) as string };
+    if (t.kind === 'ident') {
+      switch (t.text) {
+        case 'empty': return { kind: 'empty' };
+        case 'true': return { kind: 'bool', value: true };
+        case 'false': return { kind: 'bool', value: false };
+        case 'hash': return { kind: 'hash', value: this.name() };
+        case 'bytes': {
+          const hex = this.next();
+          if (hex.kind !== 'string' || !/^"([0-9a-fA-F]{2})*"$/.test(hex.text)) this.fail('expected a quoted hex string', hex);
+          const s = hex.text.slice(1, -1);
+          return { kind: 'bytes', value: Uint8Array.from(s.match(/../g) ?? [], b => parseInt(b, 16)) };
+        }
+      }
+    }
+    if (t.text === '(' && t.kind === 'punct') {
+      const value: number[] = [];
+      while (value.length === 0 || this.is(',')) {
+        if (value.length > 0) this.next();
+        const n = this.next();
+        if (n.kind !== 'number') this.fail('expected a vector component', n);
+        value.push(Number(n.text));
+      }
+      this.expect(')');
+      return { kind: 'vector', value };
+    }
+    return this.fail('expected a value', t);
+  }
+
+  /** `outputs { pin -> #n.input, ... }` or `variables { pin <- #n [as name], ... }` */
+  private links(isOutputs: boolean): DataSetDecl {
+    const category: DataSetDecl = { name: isOutputs ? HASH_OUTPUT_PINS : HASH_VARIABLE_PINS, data: [], dataSets: [], links: [] };
+    this.expect('{');
+    while (!this.is('}')) {
+      const pin = this.name();
+      this.expect(isOutputs ? '->' : '<-');
+      const targets: LinkDecl[] = [];
+      while (this.is('#')) {
+        const line = this.next().line;
+        const label = this.integer();
+        let name = pin;
+        if (isOutputs) {
+          this.expect('.');
+          name = this.name();
+        } else if (this.is('as')) {
+          this.next();
+          name = this.name();
+        }
+        targets.push({ line, label, name });
+        if (!this.is(',')) break;
+        this.next();
+      }
+      category.links!.push({ pin, targets });
+    }
+    this.expect('}');
+    return category;
+  }
+}
+
+class ScriptCompiler {
+  private blob!: GlobalDataAllocator;
+  private indexOf = new Map<number, number>();
+
+  constructor(private base: GSrcFile) {}
+
+  compile(source: string): GSrcFile {
+    const script = new ScriptParser(tokenize(source)).parse();
+    const le = this.base.littleEndian;
+
+    script.nodes.forEach((n, i) => {
+      if (this.indexOf.has(n.label)) throw new Error(`line ${n.line}: node #${n.label} is declared twice`);
+      this.indexOf.set(n.label, i);
+    });
+
+    const graph: GSGraph = {
+      nodes: [],
+      data: { name: script.global.name, type: script.global.type, value: new Uint8Array(0), count: 0, reference: false },
+    };
+    this.blob = new GlobalDataAllocator(graph, le);
+    graph.nodes = script.nodes.map((n, i): GSNode => {
+      const cls = resolveHash(n.classHash);
+      const dataSet = this.dataSet({ ...n.body, name: n.root ?? script.root ?? 0 }, cls, le);
+      return { classHash: n.classHash, functionHash: n.functionHash, dataSet, _index: i };
+    });
+    this.blob.commit();
+
+    // Write and re-read so the result is exactly what the binary holds
+    const file: GSrcFile = { ...this.base, graph, connections: [], diagnostics: [] };
+    return parseGsrc(writeGsrc(file));
+  }
+
+  private dataSet(decl: DataSetDecl, cls: string, le: boolean): GSDataSet {
+    const ds: GSDataSet = {
+      name: decl.name,
+      data: decl.data.map(d => this.data(d, cls, le)),
+      dataSets: decl.dataSets.map(child => this.dataSet(child, cls, le)),
+    };
+    for (const { pin, targets } of decl.links ?? []) {
+      ds.dataSets.push({ name: pin, data: targets.map(t => this.link(t)), dataSets: [] });
+    }
+    return ds;
+  }
+
+  private link(t: LinkDecl): GSData {
+    const index = this.indexOf.get(t.label);
+    if (index === undefined) throw new Error(`line ${t.line}: link to undeclared node #${t.label}`);
+    return this.refData(t.name, HASH_INT, true, this.blob.allocU32(index));
+  }
+
+  private data(d: DataDecl, cls: string, le: boolean): GSData {
+    const type = resolveHash(d.type);
+    let bytes: Uint8Array;
+    try {
+      bytes = encodeLiteral(d.slot ? slotType(cls, resolveHash(d.name), type) : type, d.literal, le);
+    } catch (err) {
+      throw new Error(`line ${d.line}: ${(err as Error).message}`);
+    }
+    if (!d.slot) return { name: d.name, type: d.type, value: bytes, count: bytes.length, reference: d.reference };
+
+    const layout = BLOB_TYPE_LAYOUT[slotType(cls, resolveHash(d.name), type)];
+    const offset = this.blob.alloc(bytes.length, layout?.align ?? 4);
+    this.blob.writeBytes(offset, bytes);
+    return this.refData(d.name, d.type, d.reference, offset);
+  }
+
+  /** A 4-byte field holding a global data offset */
+  private refData(name: number, type: number, reference: boolean, offset: number): GSData {
+    const data: GSData = { name, type, value: new Uint8Array(4), count: 4, reference };
+    this.blob.setRefOffset(data, offset);
+    return data;
+  }
+}
+
+function encodeLiteral(type: string, lit: Literal, le: boolean): Uint8Array {
+  switch (lit.kind) {
+    case 'empty': return new Uint8Array(0);
+    case 'bytes': return lit.value;
+    case 'hash': {
+      const bytes = new Uint8Array(4);
+      new DataView(bytes.buffer).setUint32(0, lit.value, le);
+      return bytes;
+    }
+    case 'number': {
+      if (type === 'int64' || type === 'uint64') return encodeValue(type, lit.text, le);
+      if ((type === 'int' || type === 'uint32' || type === 'enum') && !/^-?\d+$/.test(lit.text)) throw new Error(`${lit.text} is not an integer`);
+      return encodeValue(type, Number(lit.text), le);
+    }
+    case 'bool': return encodeValue('bool', lit.value, le);
+    case 'string': return encodeValue(type === 'string_ptr' ? type : 'string', lit.value, le);
+    case 'vector': return encodeValue('vector', lit.value, le);
+  }
+}
+
+/**
+ * Compile GraphScript text into a GSrcFile. `base` supplies the ADF
+ * container and byte order (normally the file the script was decompiled from).
+ */
+export function compileScript(source: string, base: GSrcFile): GSrcFile {
+  return new ScriptCompiler(base).compile(source);
+}
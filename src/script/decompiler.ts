@@ -0,0 +1,190 @@
+/**
+ * GraphScript text (.gst) decompiler.
+ *
+ * Every GSNode becomes a `node` declaration holding its parameters, its
+ * flow links and its variable bindings:
+ *
+ *   graphscript 1
+ *   global GlobalVariableData: data_block
+ *   root 0xAA7D522A
+ *
+ *   node #0 Start {
+ *     function Start
+ *     outputs {
+ *       out -> #1.in, #4.in
+ *     }
+ *   }
+ *
+ *   node #1 VariableFloat {
+ *     Name: uint32 ref = &hash myVar
+ *     Value: float ref = &2.5
+ *     variables {
+ *       Target <- #3
+ *     }
+ *     [input_pins] {
+ *       [In] {}
+ *     }
+ *   }
+ *
+ * Parameters are `name: type [ref] = value`. Values are typed literals
+ * (numbers, true/false, "strings", vectors `(x, y, z, w)`, `hash name`,
+ * `bytes "hex"`, `empty`); `&literal` is a value stored in the global data
+ * blob that the field points at. `outputs` and `variables` are the
+ * output_pins / variable_pins datasets written as links, any other dataset
+ * is written as a nested `[name] { ... }` block. `root` names the node
+ * root dataset (per node when it differs from the file default).
+ *
+ * The text describes the graph, not its byte layout: compiling it rebuilds
+ * the global data blob from the `&` values and links. Use GSRC-JSON for a
+ * byte-identical text form.
+ */
+
+import type { GSrcFile, GSDataSet, GSData } from '../types/graphscript';
+import { GlobalDataAllocator, type BlobRef } from '../utils/data-allocator';
+import { hashString, resolveHash, KNOWN_HASHES } from '../utils/hash';
+import { decodeValueExact, formatFloat32 } from '../utils/value-codec';
+import { SCRIPT_VERSION, formatName, slotType } from './syntax';
+
+const HASH_OUTPUT_PINS = hashString('output_pins');
+const HASH_VARIABLE_PINS = hashString('variable_pins');
+const HASH_INT = hashString('int');
+
+const INDENT = '  ';
+
+function hexBytes(bytes: Uint8Array): string {
+  return `bytes "${Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('')}"`;
+}
+
+/** A value literal for bytes of the given type; raw bytes when no typed form round-trips */
+export function formatLiteral(type: string, bytes: Uint8Array, le: boolean): string {
+  if (bytes.length === 0) return 'empty';
+  if ((type === 'uint32' || type === 'string_hash') && bytes.length === 4) {
+    const v = new DataView(bytes.buffer, bytes.byteOffset, 4).getUint32(0, le);
+    if (type === 'string_hash' || KNOWN_HASHES[v] !== undefined) return `hash ${formatName(v)}`;
+  }
+  const value = decodeValueExact(type, bytes, le);
+  if (value === undefined) return hexBytes(bytes);
+  if (typeof value === 'number') return type === 'float' ? formatFloat32(value) : String(value);
+  if (typeof value === 'boolean') return String(value);
+  if (Array.isArray(value)) return `(${value.map(formatFloat32).join(', ')})`;
+  return type === 'int64' || type === 'uint64' ? value : JSON.stringify(value);
+}
+
+class Decompiler {
+  private lines: string[] = [];
+  private refs = new Map<GSData, { offset: number; size: number }>();
+  private blob: Uint8Array;
+  private le: boolean;
+
+  constructor(private file: GSrcFile) {
+    this.le = file.littleEndian;
+    this.blob = file.graph.data.value;
+    this.collectRefs(new GlobalDataAllocator(file.graph, this.le).references());
+  }
+
+  /** Slot extents: known sizes, otherwise up to the next referenced offset */
+  private collectRefs(refs: BlobRef[]): void {
+    const offsets = [...new Set(refs.map(r => r.offset))].sort((a, b) => a - b);
+    for (const r of refs) {
+      const next = offsets.find(o => o > r.offset) ?? this.blob.length;
+      const size = Math.min(r.size ?? next - r.offset, this.blob.length - r.offset);
+      this.refs.set(r.owner, { offset: r.offset, size });
+    }
+  }
+
+  private slot(d: GSData): Uint8Array | undefined {
+    const ref = this.refs.get(d);
+    return ref && this.blob.subarray(ref.offset, ref.offset + ref.size);
+  }
+
+  run(): string {
+    const { graph } = this.file;
+    const roots = graph.nodes.map(n => n.dataSet.name);
+    const defaultRoot = mostCommon(roots);
+
+    this.lines.push(`graphscript ${SCRIPT_VERSION}`);
+    this.lines.push(`global ${formatName(graph.data.name)}: ${formatName(graph.data.type)}`);
+    if (defaultRoot !== undefined) this.lines.push(`root ${formatName(defaultRoot)}`);
+
+    graph.nodes.forEach((node, i) => {
+      const cls = node._resolvedClass ?? resolveHash(node.classHash);
+      this.lines.push('');
+      this.lines.push(`node #${i} ${formatName(node.classHash)} {`);
+      if (node.functionHash !== 0) this.lines.push(`${INDENT}function ${formatName(node.functionHash)}`);
+      if (node.dataSet.name !== defaultRoot) this.lines.push(`${INDENT}root ${formatName(node.dataSet.name)}`);
+      this.body(node.dataSet, cls, INDENT);
+      this.lines.push('}');
+    });
+    return `${this.lines.join('\n')}\n`;
+  }
+
+  private body(ds: GSDataSet, cls: string, indent: string): void {
+    for (const d of ds.data) this.data(d, cls, indent);
+    for (const child of ds.dataSets) {
+      if (child.name === HASH_OUTPUT_PINS && this.pinLinks(child, 'outputs', indent)) continue;
+      if (child.name === HASH_VARIABLE_PINS && this.pinLinks(child, 'variables', indent)) continue;
+      const open = `${indent}[${formatName(child.name)}] {`;
+      if (child.data.length === 0 && child.dataSets.length === 0) {
+        this.lines.push(`${open}}`);
+      } else {
+        this.lines.push(open);
+        this.body(child, cls, indent + INDENT);
+        this.lines.push(`${indent}}`);
+      }
+    }
+  }
+
+  private data(d: GSData, cls: string, indent: string): void {
+    const name = resolveHash(d.name);
+    const type = resolveHash(d.type);
+    const slot = this.slot(d);
+    const value = slot
+      ? `&${formatLiteral(slotType(cls, name, type), slot, this.le)}`
+      : formatLiteral(type, d.value, this.le);
+    this.lines.push(`${indent}${formatName(d.name)}: ${formatName(d.type)}${d.reference ? ' ref' : ''} = ${value}`);
+  }
+
+  /** Target node index held by a link's blob slot, if the entry is a plain link */
+  private linkTarget(d: GSData): number | undefined {
+    const slot = this.slot(d);
+    if (!d.reference || d.type !== HASH_INT || !slot || slot.length !== 4) return undefined;
+    const target = new DataView(slot.buffer, slot.byteOffset, 4).getUint32(0, this.le);
+    return target < this.file.graph.nodes.length ? target : undefined;
+  }
+
+  /**
+   * Write output_pins / variable_pins as link lines. Returns false (and
+   * writes nothing) when the dataset holds anything links can't express.
+   */
+  private pinLinks(category: GSDataSet, keyword: 'outputs' | 'variables', indent: string): boolean {
+    if (category.data.length > 0) return false;
+    const lines: string[] = [];
+    for (const pin of category.dataSets) {
+      if (pin.dataSets.length > 0) return false;
+      const targets: string[] = [];
+      for (const d of pin.data) {
+        const target = this.linkTarget(d);
+        if (target === undefined) return false;
+        if (keyword === 'outputs') targets.push(`#${target}.${formatName(d.name)}`);
+        else targets.push(d.name === pin.name ? `#${target}` : `#${target} as ${formatName(d.name)}`);
+      }
+      const arrow = keyword === 'outputs' ? '->' : '<-';
+      lines.push(`${indent}${INDENT}${formatName(pin.name)} ${arrow}${targets.length > 0 ? ` ${targets.join(', ')}` : ''}`);
+    }
+    this.lines.push(`${indent}${keyword} {`, ...lines, `${indent}}`);
+    return true;
+  }
+}
+
+function mostCommon(values: number[]): number | undefined {
+  const counts = new Map<number, number>();
+  for (const v of values) counts.set(v, (counts.get(v) ?? 0) + 1);
+  let best: number | undefined;
+  for (const [v, n] of counts) if (best === undefined || n > counts.get(best)!) best = v;
+  return best;
+}
+
+/** Render a parsed .gsrc as GraphScript text */
+export function decompileGsrc(file: GSrcFile): string {
+  return new Decompiler(file).run();
+}
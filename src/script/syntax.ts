@@ -0,0 +1,80 @@
+/**
+ * Shared pieces of the GraphScript text language (.gst): tokens, name and
+ * literal formatting, and the rules that decide how a referenced global data
+ * slot is typed. See decompiler.ts for the language itself.
+ */
+
+import { hashString, resolveHash, KNOWN_HASHES } from '../utils/hash';
+import { getVariableValueType } from '../parser/gsrc-parser';
+
+export const SCRIPT_VERSION = 1;
+export const SCRIPT_EXTENSION = '.gst';
+
+export type TokenKind = 'ident' | 'number' | 'hex' | 'string' | 'punct';
+
+export interface Token {
+  kind: TokenKind;
+  text: string;
+  line: number;
+}
+
+const PUNCTUATION = ['->', '<-', '{', '}', '[', ']', '(', ')', ':', '=', ',', '&', '#', '.'];
+
+export function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  const lines = source.split(/\r?\n/);
+  lines.forEach((text, i) => {
+    const line = i + 1;
+    let p = 0;
+    while (p < text.length) {
+      const rest = text.slice(p);
+      const ws = /^\s+/.exec(rest);
+      if (ws) { p += ws[0].length; continue; }
+      if (rest.startsWith('//')) break;
+
+      const match = (kind: TokenKind, re: RegExp): boolean => {
+        const m = re.exec(rest);
+        if (m) { tokens.push({ kind, text: m[0], line }); p += m[0].length; }
+        return !!m;
+      };
+      if (match('hex', /^0x[0-9a-fA-F]+/)
+        || match('number', /^-?(\d+(\.\d+(?![xX\d]))?|\.\d+(?![xX\d]))([eE][-+]?\d+)?/)
+        || match('ident', /^[A-Za-z_][A-Za-z0-9_]*/)
+        || match('string', /^"(?:[^"\\]|\\.)*"/)) continue;
+
+      const punct = PUNCTUATION.find(s => rest.startsWith(s));
+      if (!punct) throw new Error(`line ${line}: unexpected character '${rest[0]}'`);
+      tokens.push({ kind: 'punct', text: punct, line });
+      p += punct.length;
+    }
+  });
+  return tokens;
+}
+
+/** A hash as written in script text: bare identifier, quoted string, or 0x hex when unresolved */
+export function formatName(hash: number): string {
+  const name = KNOWN_HASHES[hash];
+  if (name === undefined) return resolveHash(hash);
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+/** Hash of a name token (the inverse of formatName) */
+export function nameTokenHash(t: Token): number {
+  if (t.kind === 'hex') return parseInt(t.text.slice(2), 16) >>> 0;
+  if (t.kind === 'string') return hashString(JSON.parse(t.text) as string);
+  if (t.kind === 'ident') return hashString(t.text);
+  throw new Error(`line ${t.line}: expected a name, got '${t.text}'`);
+}
+
+/**
+ * Type of the global data slot a reference field points at. Variable nodes
+ * store their value with the variable class's type and their name as a hash;
+ * everything else is typed by the field itself.
+ */
+export function slotType(className: string, fieldName: string, fieldType: string): string {
+  if (/^(Variable|ExternalVariable|GlobalVariable)/.test(className)) {
+    if (fieldName === 'Name') return 'string_hash';
+    if (fieldName === 'Value') return getVariableValueType(className);
+  }
+  return fieldType;
+}
@@ -14,6 +14,8 @@ export interface GSData {
   _resolvedName?: string;
   _resolvedType?: string;
   _displayValue?: string;
+  _valueOffset?: number;  // Payload-relative offset of value bytes in the source file
+  _offset?: number;       // Payload-relative offset of this struct in the source file
 }
 
 /** SGSDataSet - container for data and nested datasets */
@@ -23,6 +25,9 @@ export interface GSDataSet {
   dataSets: GSDataSet[];  // m_DataSets - nested datasets
   // Resolved runtime fields
   _resolvedName?: string;
+  _dataOffset?: number;      // Payload-relative offset of m_Data in the source file
+  _dataSetsOffset?: number;  // Payload-relative offset of m_DataSets in the source file
+  _offset?: number;          // Payload-relative offset of this struct in the source file
 }
 
 /** SGSNode - a single node in the graph */
@@ -33,12 +38,14 @@ export interface GSNode {
   // Resolved runtime fields
   _resolvedClass?: string;
   _index?: number;        // Index in the node array
+  _offset?: number;       // Payload-relative offset of this struct in the source file
 }
 
 /** SGSGraph - root graph structure */
 export interface GSGraph {
   nodes: GSNode[];        // m_Nodes array
   data: GSData;           // m_Data - global graph data
+  _nodesOffset?: number;  // Payload-relative offset of m_Nodes in the source file
 }
 
 /** Connection info extracted from output pins */
@@ -51,15 +58,28 @@ export interface GSConnection {
   // Resolved names
   _sourceOutputPin?: string;
   _targetInputPin?: string;
+  _pinData?: GSData;  // Pin data entry the connection was read from
+}
+
+/** A problem found in a file, located by byte offset and struct path */
+export interface Diagnostic {
+  severity: 'error' | 'warning';
+  message: string;
+  offset?: number;     // Absolute byte offset in the file
+  path?: string[];     // Struct path, e.g. ['node 12', 'dataSet', 'output_pins', 'data[3]']
+  nodeIndex?: number;  // Graph node the problem belongs to, for navigation
+  rule?: string;       // Lint rule that reported it (parse problems have none)
 }
 
 /** Parsed .gsrc file */
 export interface GSrcFile {
   graph: GSGraph;
   connections: GSConnection[];
+  diagnostics: Diagnostic[];     // Problems found while parsing (the graph holds what could be recovered)
   internalData: Uint8Array;  // The internal graph data buffer
   // ADF metadata
   adfVersion: number;
+  littleEndian: boolean;         // false for console (big-endian) files
   rawBuffer: ArrayBufferLike;    // Original file for re-serialization
 }
 
@@ -88,6 +108,12 @@ export interface AdfInstance {
   name: string;
 }
 
+/** Entry of the ADF string-hash table: a string the file declares together with its hash */
+export interface AdfStringHash {
+  value: string;
+  hash: number;
+}
+
 export const enum AdfTypeKind {
   Scalar = 0,
   Struct = 1,
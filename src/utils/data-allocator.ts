@@ -0,0 +1,208 @@
+/**
+ * Allocator for the global graph data blob (GSGraph.data.value).
+ *
+ * The blob acts as a heap: pin connection data holds a uint32 offset into it
+ * where the target node index lives, and Variable nodes point their Name and
+ * Value fields at slots holding the variable's name hash and value. This
+ * allocator hands out aligned slots and recycles freed ones.
+ */
+
+import type { GSGraph, GSData, GSDataSet } from '../types/graphscript';
+import { resolveHash, hashString } from './hash';
+import { getVariableValueType } from '../parser/gsrc-parser';
+
+const HASH_OUTPUT_PINS = hashString('output_pins');
+const HASH_VARIABLE_PINS = hashString('variable_pins');
+
+/** Slot size/alignment per value type stored in the blob (size undefined = unknown extent) */
+export const BLOB_TYPE_LAYOUT: Record<string, { size?: number; align: number }> = {
+  float: { size: 4, align: 4 },
+  int: { size: 4, align: 4 },
+  uint32: { size: 4, align: 4 },
+  enum: { size: 4, align: 4 },
+  string_hash: { size: 4, align: 4 },
+  bool: { size: 1, align: 1 },
+  uint64: { size: 8, align: 8 },
+  vector: { size: 16, align: 16 },
+  event: { align: 4 },
+};
+
+/** A GSData whose value is an offset into the global blob */
+export interface BlobRef {
+  owner: GSData;
+  offset: number;
+  size?: number;
+  align: number;
+  kind: 'connection' | 'variable-name' | 'variable-value' | 'reference';
+}
+
+interface FreeRange {
+  offset: number;
+  size: number;
+}
+
+function alignUp(n: number, a: number): number {
+  return Math.ceil(n / a) * a;
+}
+
+export class GlobalDataAllocator {
+  private bytes: Uint8Array;
+  private length: number;
+  private freeList: FreeRange[] = [];
+
+  constructor(private graph: GSGraph, private le: boolean) {
+    const src = graph.data.value;
+    this.bytes = new Uint8Array(Math.max(16, src.length));
+    this.bytes.set(src);
+    this.length = src.length;
+  }
+
+  get size(): number {
+    return this.length;
+  }
+
+  private get view(): DataView {
+    return new DataView(this.bytes.buffer, 0, this.length);
+  }
+
+  private ensureCapacity(n: number): void {
+    if (n <= this.bytes.length) return;
+    const next = new Uint8Array(Math.max(n, this.bytes.length * 2));
+    next.set(this.bytes.subarray(0, this.length));
+    this.bytes = next;
+  }
+
+  /** Allocate a zeroed slot, reusing a freed range when one fits */
+  alloc(size: number, align: number = 4): number {
+    for (let i = 0; i < this.freeList.length; i++) {
+      const r = this.freeList[i];
+      const start = alignUp(r.offset, align);
+      if (start + size > r.offset + r.size) continue;
+      this.freeList.splice(i, 1);
+      if (start > r.offset) this.freeList.push({ offset: r.offset, size: start - r.offset });
+      if (start + size < r.offset + r.size) this.freeList.push({ offset: start + size, size: r.offset + r.size - start - size });
+      this.bytes.fill(0, start, start + size);
+      return start;
+    }
+    const start = alignUp(this.length, align);
+    this.ensureCapacity(start + size);
+    this.bytes.fill(0, this.length, start + size);
+    this.length = start + size;
+    return start;
+  }
+
+  /** Allocate a slot sized and aligned for a value type (see BLOB_TYPE_LAYOUT) */
+  allocValue(type: string): number {
+    const layout = BLOB_TYPE_LAYOUT[type] ?? BLOB_TYPE_LAYOUT.uint32;
+    return this.alloc(layout.size ?? 4, layout.align);
+  }
+
+  allocU32(value: number): number {
+    const off = this.alloc(4, 4);
+    this.writeU32(off, value);
+    return off;
+  }
+
+  /** Release a slot. The caller must make sure nothing references it anymore. */
+  free(offset: number, size: number): void {
+    if (offset < 0 || size <= 0 || offset >= this.length) return;
+    size = Math.min(size, this.length - offset);
+    this.bytes.fill(0, offset, offset + size);
+    this.freeList.push({ offset, size });
+    this.coalesce();
+  }
+
+  /** Merge adjacent free ranges and give a free tail back to the blob */
+  private coalesce(): void {
+    this.freeList.sort((a, b) => a.offset - b.offset);
+    const merged: FreeRange[] = [];
+    for (const r of this.freeList) {
+      const last = merged[merged.length - 1];
+      if (last && last.offset + last.size >= r.offset) {
+        last.size = Math.max(last.size, r.offset + r.size - last.offset);
+      } else {
+        merged.push({ ...r });
+      }
+    }
+    const tail = merged[merged.length - 1];
+    if (tail && tail.offset + tail.size >= this.length) {
+      this.length = tail.offset;
+      merged.pop();
+    }
+    this.freeList = merged;
+  }
+
+  readU32(offset: number): number {
+    return this.view.getUint32(offset, this.le);
+  }
+
+  writeU32(offset: number, value: number): void {
+    this.view.setUint32(offset, value >>> 0, this.le);
+  }
+
+  writeBytes(offset: number, data: Uint8Array): void {
+    this.bytes.set(data, offset);
+  }
+
+  /** Live view of the blob contents (valid until the next allocation) */
+  getBytes(): Uint8Array {
+    return this.bytes.subarray(0, this.length);
+  }
+
+  /** Read the blob offset stored in a referencing GSData */
+  refOffset(d: GSData): number {
+    return new DataView(d.value.buffer, d.value.byteOffset, d.value.byteLength).getUint32(0, this.le);
+  }
+
+  /** Point a referencing GSData at a new blob offset */
+  setRefOffset(d: GSData, offset: number): void {
+    const value = new Uint8Array(d.value);
+    new DataView(value.buffer).setUint32(0, offset >>> 0, this.le);
+    d.value = value;
+  }
+
+  /** Collect every GSData in the graph that points into the blob */
+  references(): BlobRef[] {
+    const refs: BlobRef[] = [];
+    const claimed = new Set<GSData>();
+    const add = (owner: GSData, kind: BlobRef['kind'], layout: { size?: number; align: number }) => {
+      if (owner.value.length < 4 || claimed.has(owner)) return;
+      const offset = this.refOffset(owner);
+      if (offset >= this.length) return;
+      claimed.add(owner);
+      refs.push({ owner, offset, size: layout.size, align: layout.align, kind });
+    };
+
+    for (const node of this.graph.nodes) {
+      for (const cat of node.dataSet.dataSets) {
+        if (cat.name !== HASH_OUTPUT_PINS && cat.name !== HASH_VARIABLE_PINS) continue;
+        for (const pin of cat.dataSets) {
+          for (const cd of pin.data) add(cd, 'connection', BLOB_TYPE_LAYOUT.uint32);
+        }
+      }
+
+      const cls = node._resolvedClass ?? resolveHash(node.classHash);
+      if (/^(Variable|ExternalVariable|GlobalVariable)/.test(cls)) {
+        for (const d of node.dataSet.data) {
+          const field = d._resolvedName ?? resolveHash(d.name);
+          if (field === 'Name') add(d, 'variable-name', BLOB_TYPE_LAYOUT.uint32);
+          else if (field === 'Value' && d.reference) add(d, 'variable-value', BLOB_TYPE_LAYOUT[getVariableValueType(cls)] ?? BLOB_TYPE_LAYOUT.uint32);
+        }
+      }
+
+      // Any other reference field points into the blob with an unknown extent
+      const walk = (ds: GSDataSet) => {
+        for (const d of ds.data) if (d.reference) add(d, 'reference', { align: 4 });
+        ds.dataSets.forEach(walk);
+      };
+      walk(node.dataSet);
+    }
+    return refs;
+  }
+
+  /** Write the blob back into graph.data */
+  commit(): void {
+    const value = this.getBytes().slice();
+    this.graph.data = { ...this.graph.data, value, count: value.length };
+  }
+}
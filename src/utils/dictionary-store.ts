@@ -0,0 +1,66 @@
+/**
+ * IndexedDB persistence for user hash dictionaries and the names pinned for
+ * ambiguous hashes, so both apply again every time the editor starts.
+ */
+
+import type { UserDictionary } from './hash-dictionary';
+import type { HashContext, HashPin } from './hash';
+
+const DB_NAME = 'gsrc-editor';
+const DB_VERSION = 2;
+const STORE = 'dictionaries';
+const PIN_STORE = 'pins';     // Since version 2
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function openDb(): Promise<IDBDatabase> {
+  const req = indexedDB.open(DB_NAME, DB_VERSION);
+  req.onupgradeneeded = () => {
+    if (!req.result.objectStoreNames.contains(STORE)) req.result.createObjectStore(STORE, { keyPath: 'id' });
+    if (!req.result.objectStoreNames.contains(PIN_STORE)) req.result.createObjectStore(PIN_STORE, { keyPath: 'id' });
+  };
+  return request(req);
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>, name = STORE): Promise<T> {
+  const db = await openDb();
+  try {
+    return await request(run(db.transaction(name, mode).objectStore(name)));
+  } finally {
+    db.close();
+  }
+}
+
+/** Stored dictionaries, oldest import first */
+export async function listDictionaries(): Promise<UserDictionary[]> {
+  const all = await withStore('readonly', store => store.getAll() as IDBRequest<UserDictionary[]>);
+  return all.sort((a, b) => a.importedAt - b.importedAt);
+}
+
+export async function saveDictionary(dict: UserDictionary): Promise<void> {
+  await withStore('readwrite', store => store.put(dict));
+}
+
+export async function deleteDictionary(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+}
+
+const pinId = (context: HashContext, hash: number) => `${context}:${hash}`;
+
+export async function listHashPins(): Promise<HashPin[]> {
+  const all = await withStore('readonly', store => store.getAll() as IDBRequest<(HashPin & { id: string })[]>, PIN_STORE);
+  return all.map(({ context, hash, name }) => ({ context, hash, name }));
+}
+
+export async function saveHashPin(pin: HashPin): Promise<void> {
+  await withStore('readwrite', store => store.put({ id: pinId(pin.context, pin.hash), ...pin }), PIN_STORE);
+}
+
+export async function deleteHashPin(context: HashContext, hash: number): Promise<void> {
+  await withStore('readwrite', store => store.delete(pinId(context, hash)), PIN_STORE);
+}
@@ -0,0 +1,13 @@
+/**
+ * Trigger a browser download for generated file contents.
+ */
+export function downloadBlob(data: BlobPart, fileName: string, mimeType = 'application/octet-stream'): void {
+  const url = URL.createObjectURL(new Blob([data], { type: mimeType }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,219 @@
+/**
+ * Command-based undo/redo for the flow editor.
+ *
+ * Every graph edit is an EditCommand that knows how to apply itself to the
+ * editor state and how to revert it. Commands are pure: they return new
+ * node/edge arrays and never mutate the GSNode/GSData objects they touch,
+ * so an undone edit leaves no trace in the model that flowToGsrc builds.
+ */
+
+import type { Node, Edge, XYPosition } from '@xyflow/react';
+import type { GSData, GSDataSet } from '../types/graphscript';
+import type { NodeData } from './gsrc-to-flow';
+
+export interface FlowState {
+  nodes: Node[];
+  edges: Edge[];
+  globalData: Uint8Array;   // Current global data blob (GSGraph.data.value)
+}
+
+export interface EditCommand {
+  label: string;
+  apply(state: FlowState): FlowState;
+  revert(state: FlowState): FlowState;
+}
+
+/** Oldest steps are dropped beyond this many */
+const HISTORY_LIMIT = 200;
+
+export class EditHistory {
+  private past: EditCommand[] = [];
+  private future: EditCommand[] = [];
+
+  get canUndo(): boolean {
+    return this.past.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.future.length > 0;
+  }
+
+  /** Applied commands (oldest first) followed by undone ones (next redo first) */
+  get entries(): { label: string; done: boolean }[] {
+    return [
+      ...this.past.map(c => ({ label: c.label, done: true })),
+      ...[...this.future].reverse().map(c => ({ label: c.label, done: false })),
+    ];
+  }
+
+  /** Number of applied commands, i.e. the position of the cursor in `entries` */
+  get position(): number {
+    return this.past.length;
+  }
+
+  /** Record a command whose effect is already in the state (e.g. a finished drag) */
+  record(command: EditCommand): void {
+    this.past.push(command);
+    if (this.past.length > HISTORY_LIMIT) this.past.shift();
+    this.future = [];
+  }
+
+  execute(command: EditCommand, state: FlowState): FlowState {
+    this.record(command);
+    return command.apply(state);
+  }
+
+  undo(state: FlowState): FlowState | null {
+    const command = this.past.pop();
+    if (!command) return null;
+    this.future.push(command);
+    return command.revert(state);
+  }
+
+  redo(state: FlowState): FlowState | null {
+    const command = this.future.pop();
+    if (!command) return null;
+    this.past.push(command);
+    return command.apply(state);
+  }
+
+  clear(): void {
+    this.past = [];
+    this.future = [];
+  }
+}
+
+function plural(n: number, word: string): string {
+  return `${n} ${word}${n === 1 ? '' : 's'}`;
+}
+
+function className(node: Node | undefined): string {
+  return (node?.data as NodeData | undefined)?.className ?? node?.id ?? '?';
+}
+
+// ---- Commands ----
+
+export interface NodeMove {
+  id: string;
+  from: XYPosition;
+  to: XYPosition;
+}
+
+/** Move nodes; one command per drag gesture however many position updates it had */
+export function moveNodes(moves: NodeMove[]): EditCommand {
+  const place = (state: FlowState, key: 'from' | 'to'): FlowState => {
+    const byId = new Map(moves.map(m => [m.id, m[key]]));
+    return { ...state, nodes: state.nodes.map(n => byId.has(n.id) ? { ...n, position: byId.get(n.id)! } : n) };
+  };
+  return {
+    label: moves.length === 1 ? 'Move node' : `Move ${plural(moves.length, 'node')}`,
+    apply: state => place(state, 'to'),
+    revert: state => place(state, 'from'),
+  };
+}
+
+export function insertEdge(edge: Edge, label: string): EditCommand {
+  return {
+    label,
+    apply: state => ({ ...state, edges: [...state.edges, edge] }),
+    revert: state => ({ ...state, edges: state.edges.filter(e => e.id !== edge.id) }),
+  };
+}
+
+/** Label for a new connection, e.g. `Connect Start → VariableFloat` */
+export function connectLabel(state: FlowState, edge: Pick<Edge, 'source' | 'target'>): string {
+  const find = (id: string) => state.nodes.find(n => n.id === id);
+  return `Connect ${className(find(edge.source))} → ${className(find(edge.target))}`;
+}
+
+/**
+ * Remove nodes and edges (edges touching a removed node go with it).
+ * Reverting puts every element back at its original array position, so the
+ * node and pin order written to the file is unchanged by delete + undo.
+ */
+export function removeElements(state: FlowState, nodes: Node[], edges: Edge[]): EditCommand {
+  const nodeIds = new Set(nodes.map(n => n.id));
+  const edgeIds = new Set(edges.map(e => e.id));
+  for (const e of state.edges) {
+    if (nodeIds.has(e.source) || nodeIds.has(e.target)) edgeIds.add(e.id);
+  }
+  const removedNodes = state.nodes.map((n, i) => ({ n, i })).filter(({ n }) => nodeIds.has(n.id));
+  const removedEdges = state.edges.map((e, i) => ({ e, i })).filter(({ e }) => edgeIds.has(e.id));
+
+  const parts: string[] = [];
+  if (removedNodes.length === 1) parts.push(className(removedNodes[0].n));
+  else if (removedNodes.length > 1) parts.push(plural(removedNodes.length, 'node'));
+  if (removedEdges.length > 0) parts.push(plural(removedEdges.length, 'link'));
+
+  const reinsert = <T>(list: T[], removed: { item: T; i: number }[]): T[] => {
+    const out = [...list];
+    for (const { item, i } of removed) out.splice(Math.min(i, out.length), 0, item);
+    return out;
+  };
+  return {
+    label: `Delete ${parts.join(', ')}`,
+    apply: s => ({
+      ...s,
+      nodes: s.nodes.filter(n => !nodeIds.has(n.id)),
+      edges: s.edges.filter(e => !edgeIds.has(e.id)),
+    }),
+    revert: s => ({
+      ...s,
+      nodes: reinsert(s.nodes, removedNodes.map(({ n, i }) => ({ item: n, i }))),
+      edges: reinsert(s.edges, removedEdges.map(({ e, i }) => ({ item: e, i }))),
+    }),
+  };
+}
+
+/**
+ * Add a new node whose reference fields got fresh slots in the global data
+ * blob; `before`/`after` are the whole blob without and with those slots.
+ */
+export function placeNode(node: Node, before: Uint8Array, after: Uint8Array): EditCommand {
+  return {
+    label: `Add ${className(node)}`,
+    apply: s => ({ ...s, nodes: [...s.nodes, node], globalData: after }),
+    revert: s => ({ ...s, nodes: s.nodes.filter(n => n.id !== node.id), globalData: before }),
+  };
+}
+
+/**
+ * Replace a top-level parameter (an entry of the node's root dataset data).
+ * The node gets a new GSNode with a copied dataset, so the model stays
+ * immutable and `before` is restored as-is on undo.
+ */
+export function setParameter(nodeId: string, index: number, before: GSData, after: GSData, label?: string): EditCommand {
+  const put = (state: FlowState, value: GSData): FlowState => ({
+    ...state,
+    nodes: state.nodes.map(n => {
+      if (n.id !== nodeId) return n;
+      const d = n.data as NodeData;
+      const data = d.gsNode.dataSet.data.map((p, i) => i === index ? value : p);
+      const dataSet: GSDataSet = { ...d.gsNode.dataSet, data };
+      return { ...n, data: { ...d, gsNode: { ...d.gsNode, dataSet }, parameters: data } };
+    }),
+  });
+  return {
+    label: label ?? `Edit ${after._resolvedName ?? 'parameter'}`,
+    apply: state => put(state, after),
+    revert: state => put(state, before),
+  };
+}
+
+/**
+ * Overwrite bytes of the global data blob in place, e.g. the value slot a
+ * Variable node's Value field points at. Nothing is allocated or moved, so
+ * every reference into the blob stays valid.
+ */
+export function writeGlobalData(offset: number, before: Uint8Array, after: Uint8Array, label: string): EditCommand {
+  const put = (state: FlowState, bytes: Uint8Array): FlowState => {
+    const globalData = new Uint8Array(state.globalData);
+    globalData.set(bytes, offset);
+    return { ...state, globalData };
+  };
+  return {
+    label,
+    apply: state => put(state, after),
+    revert: state => put(state, before),
+  };
+}
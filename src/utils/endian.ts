@@ -0,0 +1,113 @@
+/**
+ * PC (little-endian) <-> console (big-endian) conversion of a GSrcFile.
+ *
+ * GSData values are raw bytes in the file's byte order, so converting means
+ * reversing each scalar in place: 4-byte words for float/int/uint32/enum/hash
+ * and vector components, 8 bytes for 64-bit values, nothing for bools and
+ * strings. The global data blob is swapped per referenced slot, using the
+ * slot types the allocator knows about, with 4-byte words everywhere else.
+ * Hashes are values, not bytes, so they need no recomputation.
+ *
+ * The result carries the target `littleEndian` flag and is written with
+ * writeGsrc, which swaps the container sections to match.
+ */
+
+import type { GSrcFile, GSGraph, GSNode, GSDataSet, GSData } from '../types/graphscript';
+import { GlobalDataAllocator } from './data-allocator';
+
+/** Width of the scalars making up a value of each type (1 = byte data, never swapped) */
+const SCALAR_WIDTH: Record<string, number> = {
+  float: 4,
+  int: 4,
+  uint32: 4,
+  enum: 4,
+  string_hash: 4,
+  vector: 4,
+  int64: 8,
+  uint64: 8,
+  bool: 1,
+  string: 1,
+  string_ptr: 1,
+};
+
+/** Scalar width for a GSData value; unknown types are treated as 32-bit words when they fit */
+function scalarWidth(d: GSData): number {
+  const width = SCALAR_WIDTH[d._resolvedType ?? ''];
+  if (width !== undefined) return width;
+  return d.value.length % 4 === 0 ? 4 : 1;
+}
+
+/** Copy of `bytes` with every `width`-byte group reversed (a trailing partial group is left as is) */
+function swapGroups(bytes: Uint8Array, width: number): Uint8Array {
+  const out = bytes.slice();
+  if (width <= 1) return out;
+  for (let p = 0; p + width <= out.length; p += width) out.subarray(p, p + width).reverse();
+  return out;
+}
+
+/** Converted copies keyed by their source GSData, so connections can follow their pin data */
+type DataMap = Map<GSData, GSData>;
+
+/** Value bytes of a GSData in the other byte order */
+export function swapValueBytes(d: GSData): Uint8Array {
+  return swapGroups(d.value, scalarWidth(d));
+}
+
+function convertData(d: GSData, converted: DataMap): GSData {
+  const out = { ...d, value: swapValueBytes(d) };
+  converted.set(d, out);
+  return out;
+}
+
+function convertDataSet(ds: GSDataSet, converted: DataMap): GSDataSet {
+  return {
+    ...ds,
+    data: ds.data.map(d => convertData(d, converted)),
+    dataSets: ds.dataSets.map(child => convertDataSet(child, converted)),
+  };
+}
+
+/**
+ * Swap the global data blob. Slots with a known type get their own width;
+ * every other 4-aligned word not covered by a typed slot is swapped as a u32.
+ */
+function convertBlob(graph: GSGraph, le: boolean): Uint8Array {
+  const src = graph.data.value;
+  const out = src.slice();
+  const widths = new Uint8Array(src.length);
+
+  for (const ref of new GlobalDataAllocator(graph, le).references()) {
+    if (ref.size === undefined) continue;
+    const width = ref.size === 1 ? 1 : ref.size === 8 ? 8 : 4;
+    const end = Math.min(ref.offset + ref.size, src.length);
+    for (let p = ref.offset; p < end; p++) widths[p] = width;
+  }
+
+  let p = 0;
+  while (p < src.length) {
+    const width = widths[p];
+    if (width > 1 && p + width <= src.length) {
+      out.subarray(p, p + width).reverse();
+      p += width;
+    } else if (width === 0 && p % 4 === 0 && p + 4 <= src.length && widths.subarray(p, p + 4).every(w => w === 0)) {
+      out.subarray(p, p + 4).reverse();
+      p += 4;
+    } else {
+      p++;
+    }
+  }
+  return out;
+}
+
+/** Re-encode every value in the graph for the given byte order. No-op if already in it. */
+export function convertGsrcEndianness(file: GSrcFile, littleEndian: boolean): GSrcFile {
+  if (file.littleEndian === littleEndian) return file;
+
+  const converted: DataMap = new Map();
+  const nodes = file.graph.nodes.map((n): GSNode => ({ ...n, dataSet: convertDataSet(n.dataSet, converted) }));
+  const value = convertBlob(file.graph, file.littleEndian);
+  const graph: GSGraph = { ...file.graph, nodes, data: { ...file.graph.data, value } };
+  const connections = file.connections.map(c => (c._pinData ? { ...c, _pinData: converted.get(c._pinData) } : c));
+
+  return { ...file, graph, connections, littleEndian };
+}
@@ -0,0 +1,167 @@
+/**
+ * Converts the React Flow editor state back into the GSrcFile model
+ * so it can be serialized with the GSRC writer.
+ *
+ * Node order follows the original node indices (deleted nodes are dropped
+ * and the rest renumbered). Connections are rebuilt from the current edges:
+ * pin data entries whose edge still exists are kept, entries whose edge was
+ * removed are dropped (their blob slots freed), and new edges get a fresh pin
+ * data entry pointing at a newly allocated target-index slot in the global data blob.
+ * Entries the parser made no connection for (slot or target out of range)
+ * never had an edge; they are kept unchanged.
+ */
+
+import type { Node, Edge } from '@xyflow/react';
+import type { GSrcFile, GSGraph, GSNode, GSDataSet, GSData, GSConnection } from '../types/graphscript';
+import type { NodeData } from './gsrc-to-flow';
+import { resolveHash, hashString } from './hash';
+import { GlobalDataAllocator } from './data-allocator';
+
+const HASH_OUTPUT_PINS = hashString('output_pins');
+const HASH_VARIABLE_PINS = hashString('variable_pins');
+
+interface EdgeData {
+  connection?: GSConnection;
+}
+
+/** A connection requested by the current edges */
+interface WantedLink {
+  pinHash: number;        // Output pin (flow) or variable pin (variable) on the owning node
+  targetNodeId: string;   // Node the blob slot points at
+  inputPinHash: number;   // Target input pin (flow only)
+  existing?: GSData;      // Pin data entry this edge was loaded from
+}
+
+/** Parse a handle id like `out-123` / `var-456` into its pin hash */
+function handleHash(handle: string | null | undefined, prefix: string): number | null {
+  if (!handle || !handle.startsWith(prefix)) return null;
+  const v = Number(handle.slice(prefix.length));
+  return Number.isFinite(v) ? v >>> 0 : null;
+}
+
+export function isVariableEdge(edge: Pick<Edge, 'sourceHandle' | 'targetHandle'>): boolean {
+  return !!edge.sourceHandle?.startsWith('var-out-') && !!edge.targetHandle?.startsWith('var-');
+}
+
+function cloneDataSet(ds: GSDataSet): GSDataSet {
+  return { ...ds, data: [...ds.data], dataSets: ds.dataSets.map(cloneDataSet) };
+}
+
+/** Find an existing pin data entry to copy name/type/reference conventions from */
+function findTemplate(file: GSrcFile, categoryHash: number): GSData | undefined {
+  for (const node of file.graph.nodes) {
+    const cat = node.dataSet.dataSets.find(ds => ds.name === categoryHash);
+    for (const pin of cat?.dataSets ?? []) {
+      const d = pin.data.find(cd => cd.value.length >= 4);
+      if (d) return d;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * `globalData` is the blob to start from when it has been edited since the
+ * file was loaded (defaults to the file's own).
+ */
+export function flowToGsrc(file: GSrcFile, nodes: Node[], edges: Edge[], globalData = file.graph.data.value): GSrcFile {
+  const le = file.littleEndian;
+
+  // Keep original node order; renumber around deleted nodes
+  const ordered = [...nodes].sort((a, b) => (a.data as NodeData).nodeIndex - (b.data as NodeData).nodeIndex);
+  const newIndex = new Map<string, number>();
+  ordered.forEach((n, i) => newIndex.set(n.id, i));
+
+  // Group wanted links by owning node: flow links live on the source, variable links on the target
+  const flowLinks = new Map<string, WantedLink[]>();
+  const varLinks = new Map<string, WantedLink[]>();
+  for (const e of edges) {
+    if (!newIndex.has(e.source) || !newIndex.has(e.target)) continue;
+    const existing = (e.data as EdgeData | undefined)?.connection?._pinData;
+    if (isVariableEdge(e)) {
+      const pinHash = handleHash(e.targetHandle, 'var-');
+      if (pinHash === null) continue;
+      const list = varLinks.get(e.target) ?? [];
+      list.push({ pinHash, targetNodeId: e.source, inputPinHash: pinHash, existing });
+      varLinks.set(e.target, list);
+    } else {
+      const pinHash = handleHash(e.sourceHandle, 'out-');
+      const inputPinHash = handleHash(e.targetHandle, 'in-');
+      if (pinHash === null || inputPinHash === null) continue;
+      const list = flowLinks.get(e.source) ?? [];
+      list.push({ pinHash, targetNodeId: e.target, inputPinHash, existing });
+      flowLinks.set(e.source, list);
+    }
+  }
+
+  const graph: GSGraph = { ...file.graph, nodes: [], data: { ...file.graph.data, value: globalData, count: globalData.length } };
+  const blob = new GlobalDataAllocator(graph, le);
+  const removedSlots: number[] = [];
+  // Pin data entries loaded as an edge; any other entry never had one to delete
+  const linked = new Set(file.connections.map(c => c._pinData).filter(Boolean));
+  const pending: { cd: GSData; targetIndex: number }[] = [];
+
+  const flowTemplate = findTemplate(file, HASH_OUTPUT_PINS);
+  const varTemplate = findTemplate(file, HASH_VARIABLE_PINS);
+
+  const connections: GSConnection[] = [];
+  const addConnection = (ownerIndex: number, pinHash: number, link: WantedLink, isVariable: boolean) => {
+    const other = newIndex.get(link.targetNodeId)!;
+    connections.push(isVariable
+      ? { sourceNodeIndex: other, sourceOutputPinHash: pinHash, targetNodeIndex: ownerIndex, targetInputPinHash: pinHash, connectionType: 'variable', _sourceOutputPin: resolveHash(pinHash), _targetInputPin: resolveHash(pinHash), _pinData: link.existing }
+      : { sourceNodeIndex: ownerIndex, sourceOutputPinHash: pinHash, targetNodeIndex: other, targetInputPinHash: link.inputPinHash, connectionType: 'flow', _sourceOutputPin: resolveHash(pinHash), _targetInputPin: resolveHash(link.inputPinHash), _pinData: link.existing });
+  };
+
+  const rebuildPins = (ownerIndex: number, ds: GSDataSet, categoryHash: number, links: WantedLink[], template: GSData | undefined, isVariable: boolean) => {
+    const category = ds.dataSets.find(c => c.name === categoryHash);
+    if (!category) return;
+    for (const pin of category.dataSets) {
+      const wanted = links.filter(l => l.pinHash === pin.name);
+      const kept: GSData[] = [];
+      for (const cd of pin.data) {
+        if (cd.value.length < 4) { kept.push(cd); continue; }
+        const link = wanted.find(l => l.existing === cd);
+        const slot = blob.refOffset(cd);
+        if (!link) {
+          if (linked.has(cd)) removedSlots.push(slot);
+          else kept.push(cd);
+          continue;
+        }
+        if (slot + 4 <= blob.size) blob.writeU32(slot, newIndex.get(link.targetNodeId)!);
+        kept.push(cd);
+        addConnection(ownerIndex, pin.name, link, isVariable);
+      }
+      for (const link of wanted) {
+        if (link.existing && pin.data.includes(link.existing)) continue;
+        const value = new Uint8Array(4);
+        const name = isVariable ? (template?.name ?? pin.name) : link.inputPinHash;
+        const type = template?.type ?? hashString('int');
+        const cd: GSData = {
+          name, type, value, count: 4, reference: template?.reference ?? true,
+          _resolvedName: resolveHash(name), _resolvedType: resolveHash(type),
+        };
+        kept.push(cd);
+        pending.push({ cd, targetIndex: newIndex.get(link.targetNodeId)! });
+        addConnection(ownerIndex, pin.name, { ...link, existing: cd }, isVariable);
+      }
+      pin.data = kept;
+    }
+  };
+
+  graph.nodes = ordered.map((n, i): GSNode => {
+    const src = (n.data as NodeData).gsNode;
+    const dataSet = cloneDataSet(src.dataSet);
+    rebuildPins(i, dataSet, HASH_OUTPUT_PINS, flowLinks.get(n.id) ?? [], flowTemplate, false);
+    rebuildPins(i, dataSet, HASH_VARIABLE_PINS, varLinks.get(n.id) ?? [], varTemplate, true);
+    return { ...src, dataSet, _index: i };
+  });
+
+  // Free slots of removed connections (unless still shared), then place the new ones
+  const live = new Set(blob.references().filter(r => !pending.some(p => p.cd === r.owner)).map(r => r.offset));
+  for (const slot of new Set(removedSlots)) {
+    if (!live.has(slot)) blob.free(slot, 4);
+  }
+  for (const { cd, targetIndex } of pending) blob.setRefOffset(cd, blob.allocU32(targetIndex));
+  blob.commit();
+
+  return { ...file, graph, connections };
+}
@@ -5,7 +5,8 @@
 
 import type { Node, Edge } from '@xyflow/react';
 import type { GSrcFile, GSNode, GSDataSet, GSData, GSConnection } from '../types/graphscript';
-import { resolveHash, hashString } from './hash';
+import { resolveHashIn, hashString, valueNamespace, type HashContext } from './hash';
+import { formatValue, formatHashValue } from './value-codec';
 import { getNodeCategory } from './node-categories';
 
 const HASH_INPUT_PINS = hashString('input_pins');
@@ -38,7 +39,7 @@ function extractPins(ds: GSDataSet, pinCategoryHash: number): PinInfo[] {
 
   return pinCategory.dataSets.map(pinDS => ({
     hash: pinDS.name,
-    name: resolveHash(pinDS.name),
+    name: resolveHashIn('pin', pinDS.name),
     data: pinDS.data,
   }));
 }
@@ -287,6 +288,84 @@ function layoutNodes(
   return positions;
 }
 
+/** Build the React Flow node for a GSNode; `index` is its position in the graph's node list */
+export function toFlowNode(gsNode: GSNode, index: number, position: { x: number; y: number }): Node<NodeData> {
+  const className = gsNode._resolvedClass ?? resolveHashIn('class', gsNode.classHash);
+  return {
+    id: `node-${index}`,
+    type: 'gsNode',
+    position,
+    data: {
+      label: className,
+      classHash: gsNode.classHash,
+      className,
+      category: getNodeCategory(className),
+      nodeIndex: index,
+      gsNode,
+      inputPins: extractPins(gsNode.dataSet, HASH_INPUT_PINS),
+      outputPins: extractPins(gsNode.dataSet, HASH_OUTPUT_PINS),
+      variablePins: extractPins(gsNode.dataSet, HASH_VARIABLE_PINS),
+      parameters: extractParameters(gsNode.dataSet),
+    },
+  };
+}
+
+/**
+ * Re-resolve the labels that show `hash` in one context, after the name
+ * pinned for it changed. Only labels change: nodes that show no such label
+ * are returned as-is, the others get copies with fresh names.
+ */
+export function relabelHash(
+  nodes: Node[],
+  context: HashContext,
+  hash: number,
+  le: boolean,
+  globalData: Uint8Array,
+): Node[] {
+  const u32 = (bytes: Uint8Array, offset: number) =>
+    new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(offset, le);
+  const pins = (list: PinInfo[]) => context !== 'pin' || !list.some(p => p.hash === hash)
+    ? list
+    : list.map(p => p.hash === hash ? { ...p, name: resolveHashIn('pin', hash) } : p);
+
+  return nodes.map(n => {
+    const d = n.data as NodeData;
+    const isVariable = /^(Variable|ExternalVariable|GlobalVariable)/.test(d.className);
+    const relabel = (p: GSData): GSData => {
+      if (context === 'data') return p.name === hash ? { ...p, _resolvedName: resolveHashIn('data', hash) } : p;
+      if (context !== 'value' || p.value.length < 4) return p;
+      // A Variable node's Name points at its name hash in the global data
+      if (isVariable && p._resolvedName === 'Name') {
+        const offset = u32(p.value, 0);
+        if (offset + 4 > globalData.length || u32(globalData, offset) !== hash) return p;
+        return { ...p, _displayValue: formatHashValue(hash, 'data') };
+      }
+      if (p.reference || p.value.length !== 4 || (p._resolvedType !== 'uint32' && p._resolvedType !== 'string_hash')) return p;
+      if (u32(p.value, 0) !== hash) return p;
+      return { ...p, _displayValue: formatValue(p._resolvedType, p.value, le, valueNamespace(p._resolvedName)) };
+    };
+
+    const parameters = d.parameters.map(relabel);
+    const inputPins = pins(d.inputPins);
+    const outputPins = pins(d.outputPins);
+    const variablePins = pins(d.variablePins);
+    const classChanged = context === 'class' && d.classHash === hash;
+    const paramsChanged = parameters.some((p, i) => p !== d.parameters[i]);
+    if (!classChanged && !paramsChanged && inputPins === d.inputPins && outputPins === d.outputPins && variablePins === d.variablePins) return n;
+
+    const className = classChanged ? resolveHashIn('class', hash) : d.className;
+    const gsNode: GSNode = {
+      ...d.gsNode,
+      _resolvedClass: className,
+      dataSet: paramsChanged ? { ...d.gsNode.dataSet, data: parameters } : d.gsNode.dataSet,
+    };
+    return {
+      ...n,
+      data: { ...d, label: className, className, category: getNodeCategory(className), gsNode, inputPins, outputPins, variablePins, parameters: gsNode.dataSet.data },
+    };
+  });
+}
+
 export function gsrcToFlow(file: GSrcFile): { nodes: Node<NodeData>[]; edges: Edge[] } {
   const flowNodes: Node<NodeData>[] = [];
   const flowEdges: Edge[] = [];
@@ -296,34 +375,7 @@ export function gsrcToFlow(file: GSrcFile): { nodes: Node<NodeData>[]; edges: Ed
 
   // Create flow nodes
   for (let i = 0; i < file.graph.nodes.length; i++) {
-    const gsNode = file.graph.nodes[i];
-    const className = gsNode._resolvedClass ?? resolveHash(gsNode.classHash);
-    const category = getNodeCategory(className);
-
-    const inputPins = extractPins(gsNode.dataSet, HASH_INPUT_PINS);
-    const outputPins = extractPins(gsNode.dataSet, HASH_OUTPUT_PINS);
-    const variablePins = extractPins(gsNode.dataSet, HASH_VARIABLE_PINS);
-    const parameters = extractParameters(gsNode.dataSet);
-
-    const pos = positions.get(i) ?? { x: i * 320, y: 0 };
-
-    flowNodes.push({
-      id: `node-${i}`,
-      type: 'gsNode',
-      position: pos,
-      data: {
-        label: className,
-        classHash: gsNode.classHash,
-        className,
-        category,
-        nodeIndex: i,
-        gsNode,
-        inputPins,
-        outputPins,
-        variablePins,
-        parameters,
-      },
-    });
+    flowNodes.push(toFlowNode(file.graph.nodes[i], i, positions.get(i) ?? { x: i * 320, y: 0 }));
   }
 
   // Create flow edges from connections
@@ -357,6 +409,7 @@ export function gsrcToFlow(file: GSrcFile): { nodes: Node<NodeData>[]; edges: Ed
       type: 'smoothstep',
       animated: false,
       style: edgeStyle,
+      data: { connection: conn },
     });
   }
 
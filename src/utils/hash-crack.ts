@@ -0,0 +1,191 @@
+/**
+ * Dictionary attack on the name hashes a graph leaves unresolved.
+ *
+ * Candidates are built from words (known names and the parts they are made
+ * of) in case variants, with the prefixes and suffixes engine names use and
+ * with numeric suffixes, and hashed with jenkinsLookup3. A hit only means
+ * the hashes match - with millions of candidates a few are chance
+ * collisions, so the user confirms each one before it is registered.
+ *
+ * The search itself runs in hash-crack.worker.ts.
+ */
+
+import type { GSrcFile, GSDataSet } from '../types/graphscript';
+import { jenkinsLookup3, resolveHash, KNOWN_HASHES } from './hash';
+
+export type HashKind = 'class' | 'pin' | 'data' | 'value';
+
+export interface UnresolvedHash {
+  hash: number;
+  kinds: HashKind[];     // Where the graph uses it
+  count: number;         // Number of uses
+  nodeIndex: number;     // First node using it
+}
+
+export interface CrackOptions {
+  prefixes: string[];    // '' tries the word alone
+  suffixes: string[];
+  maxNumber: number;     // Numeric suffixes 0..maxNumber, -1 for none
+  pairs: boolean;        // Also join two word parts (slow)
+}
+
+export const DEFAULT_CRACK_OPTIONS: CrackOptions = {
+  prefixes: ['', 'Variable', 'ExternalVariable', 'GlobalVariable', 'Get', 'Set', 'Is', 'On'],
+  suffixes: ['', '_pins', 'Id', 'Value'],
+  maxNumber: 9,
+  pairs: false,
+};
+
+/** A hit the user accepted, with the kinds of use it was found for */
+export interface CrackHit {
+  string: string;
+  kinds: HashKind[];
+}
+
+/** Posted to the worker to start a search */
+export interface CrackRequest {
+  targets: number[];
+  words: string[];
+  options: CrackOptions;
+}
+
+/** Posted back by the worker */
+export type CrackMessage =
+  | { type: 'hit'; hash: number; string: string }
+  | { type: 'progress'; done: number; total: number; tried: number }
+  | { type: 'done'; tried: number };
+
+const PIN_SETS = new Set(['input_pins', 'output_pins', 'variable_pins']);
+
+function u32(bytes: Uint8Array, offset: number, le: boolean): number {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(offset, le);
+}
+
+/**
+ * Hashes the open graph uses as names that no dictionary resolves: node
+ * classes and functions, pin names, dataset and data names, and uint32 /
+ * string_hash values. Values below 0x10000 are counts and ids rather than
+ * hashes and are left out. Most used first.
+ */
+export function collectUnresolvedHashes(file: GSrcFile): UnresolvedHash[] {
+  const le = file.littleEndian;
+  const blob = file.graph.data.value;
+  const found = new Map<number, UnresolvedHash>();
+  const add = (hash: number, kind: HashKind, nodeIndex: number) => {
+    if (hash === 0 || KNOWN_HASHES[hash] !== undefined) return;
+    const entry = found.get(hash);
+    if (!entry) { found.set(hash, { hash, kinds: [kind], count: 1, nodeIndex }); return; }
+    entry.count++;
+    if (!entry.kinds.includes(kind)) entry.kinds.push(kind);
+  };
+  const walk = (ds: GSDataSet, nodeIndex: number, pins: boolean) => {
+    for (const d of ds.data) {
+      add(d.name, pins ? 'pin' : 'data', nodeIndex);
+      if (d.reference || d.value.length !== 4) continue;
+      const type = d._resolvedType ?? resolveHash(d.type);
+      const v = u32(d.value, 0, le);
+      if ((type === 'uint32' || type === 'string_hash') && v > 0xFFFF) add(v, 'value', nodeIndex);
+    }
+    for (const child of ds.dataSets) {
+      add(child.name, pins ? 'pin' : 'data', nodeIndex);
+      walk(child, nodeIndex, pins || PIN_SETS.has(child._resolvedName ?? resolveHash(child.name)));
+    }
+  };
+  file.graph.nodes.forEach((node, ni) => {
+    add(node.classHash, 'class', ni);
+    add(node.functionHash, 'class', ni);
+    walk(node.dataSet, ni, false);
+    if (!/^(Variable|ExternalVariable|GlobalVariable)/.test(node._resolvedClass ?? resolveHash(node.classHash))) return;
+    const name = node.dataSet.data.find(d => d._resolvedName === 'Name' && d.value.length === 4);
+    const offset = name ? u32(name.value, 0, le) : -1;
+    if (offset >= 0 && offset + 4 <= blob.length) add(u32(blob, offset, le), 'value', ni);
+  });
+  return [...found.values()].sort((a, b) => b.count - a.count || a.nodeIndex - b.nodeIndex);
+}
+
+/** Split a name into its parts: "GetPlayerHealth_pins" -> Get, Player, Health, pins */
+function nameParts(s: string): string[] {
+  return s.split(/[^A-Za-z0-9]+|(?<=[a-z0-9])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/).filter(p => p.length >= 2);
+}
+
+/** Words to build candidates from: the names themselves and their parts */
+export function crackWords(names: Iterable<string>): string[] {
+  const out = new Set<string>();
+  for (const name of names) {
+    if (!name || name.length > 64) continue;
+    out.add(name);
+    for (const part of nameParts(name)) out.add(part);
+  }
+  return [...out];
+}
+
+const capitalize = (s: string) => s.charAt(0).toUpperCase() + s.slice(1);
+
+/** The spellings engine names use for one word */
+function caseVariants(word: string): string[] {
+  const parts = nameParts(word);
+  const variants = new Set([word, word.toLowerCase(), word.toUpperCase(), capitalize(word), word.charAt(0).toLowerCase() + word.slice(1)]);
+  if (parts.length > 1) {
+    variants.add(parts.map(p => p.toLowerCase()).join('_'));
+    variants.add(parts.map(p => capitalize(p.toLowerCase())).join(''));
+  }
+  return [...variants];
+}
+
+/** Candidates for one word, before numeric suffixes */
+function* decorate(word: string, options: CrackOptions): Generator<string> {
+  for (const v of caseVariants(word)) {
+    for (const prefix of options.prefixes) {
+      const stem = prefix ? `${prefix}${capitalize(v)}` : v;
+      for (const suffix of options.suffixes) yield `${stem}${suffix}`;
+      if (prefix) yield `${prefix.toLowerCase()}_${v.toLowerCase()}`;
+    }
+  }
+}
+
+/** Every candidate string for one word */
+function* candidates(word: string, options: CrackOptions): Generator<string> {
+  for (const c of decorate(word, options)) {
+    yield c;
+    for (let n = 0; n <= options.maxNumber; n++) {
+      yield `${c}${n}`;
+      yield `${c}_${n}`;
+    }
+  }
+}
+
+/**
+ * Hash every candidate against the targets. Calls onHit once per cracked
+ * hash (first string found) and onProgress after each word.
+ */
+export function crackHashes(
+  targets: Iterable<number>,
+  words: string[],
+  options: CrackOptions,
+  onHit: (hash: number, s: string) => void,
+  onProgress?: (done: number, total: number, tried: number) => void,
+): number {
+  const open = new Set(targets);
+  let tried = 0;
+  const attempt = (s: string) => {
+    tried++;
+    const h = jenkinsLookup3(s);
+    if (!open.has(h)) return;
+    open.delete(h);
+    onHit(h, s);
+  };
+  const parts = options.pairs ? [...new Set(words.flatMap(nameParts))].map(capitalize) : [];
+  const total = words.length + parts.length;
+  for (let i = 0; i < words.length && open.size > 0; i++) {
+    for (const c of candidates(words[i], options)) attempt(c);
+    onProgress?.(i + 1, total, tried);
+  }
+  for (let i = 0; i < parts.length && open.size > 0; i++) {
+    for (const second of parts) {
+      attempt(`${parts[i]}${second}`);
+      attempt(`${parts[i]}_${second}`.toLowerCase());
+    }
+    onProgress?.(words.length + i + 1, total, tried);
+  }
+  return tried;
+}
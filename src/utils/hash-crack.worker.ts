@@ -0,0 +1,26 @@
+/**
+ * Runs crackHashes off the UI thread: takes one CrackRequest, posts a
+ * CrackMessage per hit, progress every word and 'done' at the end. Stop a
+ * search by terminating the worker.
+ */
+
+import { crackHashes, type CrackMessage, type CrackRequest } from './hash-crack';
+
+const ctx = self as unknown as Worker;
+const post = (msg: CrackMessage) => ctx.postMessage(msg);
+
+let lastProgress = 0;
+
+ctx.onmessage = (e: MessageEvent<CrackRequest>) => {
+  const { targets, words, options } = e.data;
+  const tried = crackHashes(targets, words, options,
+    (hash, string) => post({ type: 'hit', hash, string }),
+    (done, total, tried) => {
+      // Throttled; a word takes well under a millisecond
+      const now = Date.now();
+      if (now - lastProgress < 100 && done < total) return;
+      lastProgress = now;
+      post({ type: 'progress', done, total, tried });
+    });
+  post({ type: 'done', tried });
+};
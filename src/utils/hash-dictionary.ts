@@ -0,0 +1,125 @@
+/**
+ * Hash dictionaries: the string lists shipped in `public/dictionaries/` and
+ * the ones the user imports on top of them.
+ *
+ * Shipped dictionaries are listed in `public/dictionaries/index.json` with their
+ * priority, so a new game version or DLC only needs its file and an entry
+ * there. A list is a `.txt` file with one string per line (blank lines and
+ * lines starting with `#` skipped) or an ADF `.hashc` file; user lists rank
+ * above the shipped ones. Every string is hashed with hashString, so a list only
+ * needs the names, not their hashes. A dictionary may declare a namespace
+ * (class, pin, data, event, object, type) to also name hashes of that kind.
+ */
+
+import type { GSrcFile, GSDataSet } from '../types/graphscript';
+import { hashString, resolveHash, HASH_NAMESPACES, type HashDictionary, type HashNamespace } from './hash';
+import { parseHashc } from './hashc';
+
+export interface UserDictionary {
+  id: string;
+  name: string;           // File the list was imported from
+  strings: string[];
+  importedAt: number;     // ms since epoch
+  priority?: number;      // Relative to other user lists; missing in lists stored before it existed
+  namespace?: HashNamespace;
+}
+
+/** public/dictionaries/index.json */
+export interface DictionaryManifest {
+  /** `description` says where the file comes from; it is not read */
+  dictionaries: { file: string; name?: string; description?: string; priority?: number; namespace?: HashNamespace }[];
+}
+
+/** User lists rank above every shipped dictionary */
+export const USER_PRIORITY_BASE = 1000;
+
+const TEXT_DECODER = new TextDecoder('utf-8');
+
+/** Strings of a `.txt` or `.hashc` list, deduplicated, in file order */
+export function parseStringList(fileName: string, bytes: Uint8Array): string[] {
+  if (/\.hashc$/i.test(fileName)) return parseHashc(bytes.slice().buffer);
+  const lines = TEXT_DECODER.decode(bytes).split(/\r?\n/).filter(l => !l.trimStart().startsWith('#'));
+  const out = new Set<string>();
+  for (const line of lines) {
+    const s = line.trim();
+    if (s && !/[\uFFFD\u0000-\u001F]/.test(s)) out.add(s);
+  }
+  return [...out];
+}
+
+export function parseDictionaryManifest(text: string): DictionaryManifest {
+  const doc = JSON.parse(text) as DictionaryManifest;
+  if (!Array.isArray(doc?.dictionaries) || doc.dictionaries.some(d => typeof d?.file !== 'string')) {
+    throw new Error('Not a dictionary manifest');
+  }
+  const bad = doc.dictionaries.find(d => d.namespace !== undefined && !HASH_NAMESPACES.includes(d.namespace));
+  if (bad) throw new Error(`${bad.file}: unknown namespace "${bad.namespace}" (expected ${HASH_NAMESPACES.join(', ')})`);
+  return doc;
+}
+
+/** Shipped dictionary from a manifest entry and the file's contents */
+export function bundledDictionary(entry: DictionaryManifest['dictionaries'][number], buffer: ArrayBuffer): HashDictionary {
+  return { id: `bundled:${entry.file}`, name: entry.name ?? entry.file, priority: entry.priority ?? 0, builtin: true, namespace: entry.namespace, strings: parseStringList(entry.file, new Uint8Array(buffer)) };
+}
+
+/** Fetch the shipped dictionaries the manifest lists (browser; relative to the page) */
+export async function fetchBundledDictionaries(base = 'dictionaries/'): Promise<HashDictionary[]> {
+  const fetchOk = async (path: string) => {
+    const res = await fetch(`${base}${path}`);
+    if (!res.ok) throw new Error(`${base}${path}: ${res.status} ${res.statusText}`);
+    return res;
+  };
+  const manifest = parseDictionaryManifest(await (await fetchOk('index.json')).text());
+  return Promise.all(manifest.dictionaries.map(async entry => bundledDictionary(entry, await (await fetchOk(entry.file)).arrayBuffer())));
+}
+
+/** A user list as a dictionary ranked above the shipped ones */
+export function userHashDictionary(dict: UserDictionary): HashDictionary {
+  return { id: dict.id, name: dict.name, priority: USER_PRIORITY_BASE + (dict.priority ?? 0), builtin: false, namespace: dict.namespace, strings: dict.strings };
+}
+
+/** One string per line, sorted, as a `.txt` list */
+export function stringifyStringList(strings: Iterable<string>): string {
+  return `${[...new Set(strings)].sort().join('\n')}\n`;
+}
+
+function u32(bytes: Uint8Array, offset: number, le: boolean): number {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(offset, le);
+}
+
+/**
+ * Every hash a graph uses as a name: node classes and functions, dataset,
+ * pin and field names, types, and string_hash values (including the names
+ * of Variable nodes, which live in the global data).
+ */
+export function collectFileHashes(file: GSrcFile): Set<number> {
+  const le = file.littleEndian;
+  const blob = file.graph.data.value;
+  const out = new Set<number>();
+  const walk = (ds: GSDataSet) => {
+    out.add(ds.name);
+    for (const d of ds.data) {
+      out.add(d.name);
+      out.add(d.type);
+      if (d.value.length !== 4) continue;
+      if (!d.reference && (d._resolvedType ?? resolveHash(d.type)) === 'string_hash') out.add(u32(d.value, 0, le));
+    }
+    ds.dataSets.forEach(walk);
+  };
+  for (const node of file.graph.nodes) {
+    out.add(node.classHash);
+    out.add(node.functionHash);
+    walk(node.dataSet);
+    if (!/^(Variable|ExternalVariable|GlobalVariable)/.test(node._resolvedClass ?? resolveHash(node.classHash))) continue;
+    const name = node.dataSet.data.find(d => d._resolvedName === 'Name' && d.value.length === 4);
+    const offset = name ? u32(name.value, 0, le) : -1;
+    if (offset >= 0 && offset + 4 <= blob.length) out.add(u32(blob, offset, le));
+  }
+  out.delete(0);   // No name
+  return out;
+}
+
+/** Hashes the strings of a dictionary name */
+export function dictionaryHashes(dict: UserDictionary): Set<number> {
+  return new Set(dict.strings.map(hashString));
+}
@@ -2,12 +2,15 @@
 /**
  * Jenkins lookup3 hashlittle2 - the hash function used by Mad Max / Avalanche engine
  * All names in GraphScript are stored as uint32 hashes of their string names.
+ * The hash reads the UTF-8 bytes of the name, so the result is a plain number
+ * independent of file byte order: PC and console files store the same values,
+ * only the bytes holding them differ.
  */
 
-import { HASHC_STRINGS } from './hashc-strings';
+const encoder = new TextEncoder();
 
 export function jenkinsLookup3(key: string, initval: number = 0): number {
-  const k = new TextEncoder().encode(key);
+  const k = encoder.encode(key);
   const length = k.length;
 
   let a = 0xdeadbeef + length + initval;
@@ -66,17 +69,9 @@ export function hashString(s: string): number {
 // Pre-computed hashes for known GraphScript identifiers
 export const KNOWN_HASHES: Record<number, string> = {};
 
-const KNOWN_STRINGS = [
-  // Data types
-  'bool', 'int', 'uint32', 'int64', 'uint64', 'float', 'vector', 'enum',
-  'string', 'string_ptr', 'data_block',
-  // Pin categories
-  'input_pins', 'output_pins', 'variable_pins',
-  // File extension
-  '.gsrc',
-  // Special datasets
-  'GlobalVariableData',
-  // Node class names (from CGraphScriptGameObjectFunctionMap)
+/** GraphScript node class names known to the engine */
+export const NODE_CLASS_NAMES = [
+  // From CGraphScriptGameObjectFunctionMap
   'Debug', 'DebugText', 'IsEditor', 'GriffaSetState', 'GriffaGetState',
   'GriffaTriggerCutsceneNumber', 'GetUpgradeableValue', 'SpawnStorm',
   'InStormArea', 'InTerritoryArea', 'GetLocationInfoForLocationTrackedItem',
@@ -263,28 +258,194 @@ const KNOWN_STRINGS = [
   'GlobalVariableTransform',
   // Flow control
   'Start', 'Return', 'Entry', 'Exit', "Main", "Output", "Error", "ExternalGraph", "Selection", "Block", "Mulitlock",
-  // Common variable/pin names
+];
+
+/** Data types */
+const TYPE_NAMES = [
+  'bool', 'int', 'uint32', 'int64', 'uint64', 'float', 'vector', 'enum',
+  'string', 'string_ptr', 'string_hash', 'data_block',
+];
+
+const CLASS_NAMES = [
+  ...NODE_CLASS_NAMES,
   'VariableStringHash', 'ExternalVariableStringHash', 'GlobalVariableStringHash',
-  'update', 'destroy', 'on_spawn', 'on_despawn', 'result', 'value',
+];
+
+/** Common flow pin names */
+const PIN_NAMES = [
+  'update', 'destroy', 'on_spawn', 'on_despawn',
+  'in', 'out', 'start', 'done', 'next', 'then',
+  'found', 'not_found', 'success', 'fail',
+];
+
+/** Common dataset, parameter and variable names */
+const DATA_NAMES = [
+  // Pin categories
+  'input_pins', 'output_pins', 'variable_pins',
+  // Special datasets
+  'GlobalVariableData',
+  'result', 'value',
   'target', 'source', 'object', 'position', 'transform', 'distance',
-  'radius', 'enabled', 'disabled', 'true', 'false', 'index', 'count',
+  'radius', 'enabled', 'disabled', 'index', 'count',
   'name', 'type', 'id', 'hash', 'priority', 'state',
-  'in', 'out', 'start', 'done', 'next', 'then',
   'Value', 'Name', 'Type', 'Alias', 'Id',
   'amount', 'economy_id', 'parent', 'character',
-  'found', 'not_found', 'success', 'fail',
 ];
 
-// Build the reverse lookup table
-for (const s of KNOWN_STRINGS) {
-  const h = hashString(s);
-  KNOWN_HASHES[h] = s;
+const KNOWN_STRINGS = [
+  ...TYPE_NAMES,
+  // File extension
+  '.gsrc',
+  ...CLASS_NAMES,
+  ...PIN_NAMES,
+  ...DATA_NAMES,
+  'true', 'false',
+];
+
+/**
+ * What a name hash names. Each kind has its own dictionary, so a value is
+ * only labelled with a string known to be, say, an event name; the global
+ * dictionary (every string of every source) is the fallback.
+ */
+export type HashNamespace = 'class' | 'pin' | 'data' | 'event' | 'object' | 'type';
+
+export const HASH_NAMESPACES: HashNamespace[] = ['class', 'pin', 'data', 'event', 'object', 'type'];
+
+const NAMESPACE_STRINGS: Record<HashNamespace, string[]> = {
+  class: CLASS_NAMES, pin: PIN_NAMES, data: DATA_NAMES, event: [], object: [], type: TYPE_NAMES,
+};
+
+// Which namespace a uint32 / string_hash value names, by the field holding it
+const VALUE_NAMESPACES: [RegExp, HashNamespace][] = [
+  [/event/i, 'event'],
+  [/alias|tag|object|entity|target/i, 'object'],
+  [/class/i, 'class'],
+  [/pin/i, 'pin'],
+  [/type$/i, 'type'],
+];
+
+/** Namespace of the value a field holds, or null when the field name doesn't tell */
+export function valueNamespace(fieldName: string | undefined): HashNamespace | null {
+  return VALUE_NAMESPACES.find(([re]) => re.test(fieldName ?? ''))?.[1] ?? null;
 }
 
-// Register all strings from pc_key.hashc (engine-wide hash dictionary)
-for (const s of HASHC_STRINGS) {
-  const h = hashString(s);
-  if (!(h in KNOWN_HASHES)) KNOWN_HASHES[h] = s;  // don't overwrite manual entries
+/**
+ * A list of names loaded from a .hashc or text file. When two dictionaries
+ * name the same hash the one with the higher priority wins; within one
+ * dictionary the first string wins.
+ */
+export interface HashDictionary {
+  id: string;
+  name: string;
+  priority: number;
+  builtin: boolean;     // Shipped with the editor, not imported by the user
+  namespace?: HashNamespace;   // Also names hashes of this kind; every dictionary feeds the global one
+  strings: string[];
+}
+
+const namespaceTables = (): Record<HashNamespace, Record<number, string>> =>
+  ({ class: {}, pin: {}, data: {}, event: {}, object: {}, type: {} });
+
+// Names that always win: runtime registrations, then KNOWN_STRINGS
+const RUNTIME_HASHES: Record<number, string> = {};
+const MANUAL_HASHES: Record<number, string> = {};
+for (const s of KNOWN_STRINGS) MANUAL_HASHES[hashString(s)] = s;
+const RUNTIME_NAMESPACES = namespaceTables();
+const MANUAL_NAMESPACES = namespaceTables();
+for (const ns of HASH_NAMESPACES) {
+  for (const s of NAMESPACE_STRINGS[ns]) MANUAL_NAMESPACES[ns][hashString(s)] = s;
+}
+
+// Per-namespace counterpart of KNOWN_HASHES
+const NAMESPACE_HASHES = namespaceTables();
+
+const dictionaries: { dict: HashDictionary; hashes: number[] }[] = [];
+let builtinHashes = new Set<number>();
+
+// Every distinct string known for a hash, the one KNOWN_HASHES shows first
+const HASH_STRINGS = new Map<number, string[]>();
+const reportedCollisions = new Set<string>();
+
+/** Where a hash is used; each can have its own name for an ambiguous hash */
+export type HashContext = HashNamespace | 'value';
+
+export interface HashPin {
+  context: HashContext;
+  hash: number;
+  name: string;
+}
+
+const PINNED: Record<HashContext, Record<number, string>> = { ...namespaceTables(), value: {} };
+
+function addHashString(h: number, s: string): void {
+  const strings = HASH_STRINGS.get(h);
+  if (!strings) HASH_STRINGS.set(h, [s]);
+  else if (!strings.includes(s)) strings.push(s);
+}
+
+/** Refill KNOWN_HASHES in place from every source, in priority order */
+function rebuildKnownHashes(): void {
+  for (const k of Object.keys(KNOWN_HASHES)) delete KNOWN_HASHES[k];
+  HASH_STRINGS.clear();
+  const ordered = [...dictionaries].sort((a, b) => b.dict.priority - a.dict.priority);
+  builtinHashes = new Set(Object.keys(MANUAL_HASHES).map(Number));
+  // Highest priority first, so each list starts with the string that wins
+  for (const source of [RUNTIME_HASHES, MANUAL_HASHES]) {
+    for (const [h, s] of Object.entries(source)) addHashString(Number(h), s);
+  }
+  for (const ns of HASH_NAMESPACES) {
+    for (const k of Object.keys(NAMESPACE_HASHES[ns])) delete NAMESPACE_HASHES[ns][k];
+  }
+  for (const { dict, hashes } of ordered) {
+    const table = dict.namespace && NAMESPACE_HASHES[dict.namespace];
+    hashes.forEach((h, i) => {
+      if (!(h in KNOWN_HASHES)) KNOWN_HASHES[h] = dict.strings[i];
+      if (table && !(h in table)) table[h] = dict.strings[i];
+      addHashString(h, dict.strings[i]);
+      if (dict.builtin) builtinHashes.add(h);
+    });
+  }
+  Object.assign(KNOWN_HASHES, MANUAL_HASHES, RUNTIME_HASHES);
+  for (const ns of HASH_NAMESPACES) Object.assign(NAMESPACE_HASHES[ns], MANUAL_NAMESPACES[ns], RUNTIME_NAMESPACES[ns]);
+  for (const h of HASH_STRINGS.keys()) reportCollision(h);
+}
+
+/** Warn once about each set of strings sharing a hash */
+function reportCollision(hash: number): void {
+  const strings = HASH_STRINGS.get(hash);
+  if (!strings || strings.length < 2) return;
+  const key = `${hash}:${[...strings].sort().join('\0')}`;
+  if (reportedCollisions.has(key)) return;
+  reportedCollisions.add(key);
+  console.warn(`Hash collision 0x${hash.toString(16).padStart(8, '0').toUpperCase()}: ${strings.map(s => JSON.stringify(s)).join(', ')} (showing ${JSON.stringify(KNOWN_HASHES[hash])})`);
+}
+
+rebuildKnownHashes();
+
+/** Add a dictionary, or replace the one with the same id */
+export function setHashDictionary(dict: HashDictionary): void {
+  const entry = { dict, hashes: dict.strings.map(hashString) };
+  const at = dictionaries.findIndex(d => d.dict.id === dict.id);
+  if (at >= 0) dictionaries[at] = entry;
+  else dictionaries.push(entry);
+  rebuildKnownHashes();
+}
+
+export function removeHashDictionary(id: string): void {
+  const at = dictionaries.findIndex(d => d.dict.id === id);
+  if (at < 0) return;
+  dictionaries.splice(at, 1);
+  rebuildKnownHashes();
+}
+
+/** Loaded dictionaries, highest priority first */
+export function getHashDictionaries(): HashDictionary[] {
+  return dictionaries.map(d => d.dict).sort((a, b) => b.priority - a.priority);
+}
+
+/** Whether the names shipped with the editor cover a hash */
+export function isBuiltinHash(hash: number): boolean {
+  return builtinHashes.has(hash);
 }
 
 /**
@@ -294,11 +455,67 @@ export function resolveHash(hash: number): string {
   return KNOWN_HASHES[hash] ?? `0x${hash.toString(16).padStart(8, '0').toUpperCase()}`;
 }
 
+export interface HashLookup {
+  name: string;
+  guess: boolean;    // Only the global dictionary knows it, not the namespace asked for
+}
+
+/**
+ * Look a hash up where it is used: the name pinned for the context, then the
+ * namespace's dictionary, then the global one. Values name whatever their
+ * field holds, so their namespace is passed in (null: unknown).
+ */
+export function lookupHash(context: HashContext, hash: number, namespace: HashNamespace | null = context === 'value' ? null : context): HashLookup {
+  const pinned = PINNED[context][hash];
+  if (pinned !== undefined) return { name: pinned, guess: false };
+  const named = namespace ? NAMESPACE_HASHES[namespace][hash] : undefined;
+  if (named !== undefined) return { name: named, guess: false };
+  return { name: resolveHash(hash), guess: KNOWN_HASHES[hash] !== undefined };
+}
+
+/** Name of a hash where it is used (see lookupHash) */
+export function resolveHashIn(context: HashContext, hash: number, namespace?: HashNamespace | null): string {
+  return lookupHash(context, hash, namespace).name;
+}
+
+/** Every string known for a hash, the default one first */
+export function hashCandidates(hash: number): string[] {
+  return HASH_STRINGS.get(hash) ?? [];
+}
+
+/** Whether more than one known string has this hash */
+export function isAmbiguousHash(hash: number): boolean {
+  return hashCandidates(hash).length > 1;
+}
+
+/** Hashes with more than one known string */
+export function getHashCollisions(): { hash: number; strings: string[] }[] {
+  return [...HASH_STRINGS].filter(([, strings]) => strings.length > 1).map(([hash, strings]) => ({ hash, strings }));
+}
+
+/** Show `name` for `hash` in one context, or go back to the default with null */
+export function pinHashName(context: HashContext, hash: number, name: string | null): void {
+  if (name === null) delete PINNED[context][hash];
+  else PINNED[context][hash] = name;
+}
+
+export function getHashPins(): HashPin[] {
+  return (Object.keys(PINNED) as HashContext[]).flatMap(context =>
+    Object.entries(PINNED[context]).map(([hash, name]) => ({ context, hash: Number(hash), name })));
+}
+
 /**
- * Register additional known hash strings at runtime
+ * Register additional known hash strings at runtime, optionally as a name of
+ * one namespace
  */
-export function registerHashString(s: string): number {
+export function registerHashString(s: string, namespace?: HashNamespace | null): number {
   const h = hashString(s);
+  RUNTIME_HASHES[h] = s;
   KNOWN_HASHES[h] = s;
+  if (namespace) RUNTIME_NAMESPACES[namespace][h] = NAMESPACE_HASHES[namespace][h] = s;
+  const strings = HASH_STRINGS.get(h);
+  // Runtime names win, so they go first
+  HASH_STRINGS.set(h, [s, ...(strings ?? []).filter(x => x !== s)]);
+  reportCollision(h);
   return h;
 }
@@ -1,5192 +0,0 @@
-// Auto-generated from pc_key.hashc — 5042 known engine strings
-// Used for resolving Jenkins lookup3 hashes to human-readable names
-export const HASHC_STRINGS: string[] = [
-  ".common",
-  ".music_sfx",
-  ".set_weather_tod",
-  "01.entrance",
-  "01.mm1020_obj01.mm1030_cs010",
-  "01_Need_100",
-  "02.mm1020_obj02.go_to_graveyard(outer_graves)",
-  "02_Need_200",
-  "03.mm1020_obj02a.find_some_fuel",
-  "03_Need_300",
-  "04.mm1020_obj02b.refuel_the_magnum_opus",
-  "04_Need_400",
-  "05.mm1020_obj02c.store_a_fuel_can",
-  "05_Need_500",
-  "06.crossroad",
-  "06.mm1020_obj02d.go_to_the_graveyard(canyon_gate)",
-  "07.garage",
-  "07.mm1020_obj02e.destroy_gate_with_fuel_can",
-  "08.mm1020_obj03.go_to_graveyard(canyon)",
-  "09.mm1020_obj03a.go_to_graveyard(canyon)",
-  "10.mm1020_obj04.caves",
-  "11.mm1020_obj05.defender",
-  "12.mm1020_obj06.return_to_magnum_opus",
-  "13.mm1020_obj07.escape_graveyard",
-  "14.mm1020_obj08.return_to_hideout",
-  "A01_loaded",
-  "A02_loaded",
-  "A03_loaded",
-  "A04_loaded",
-  "Act2WayHitBack",
-  "Act2WayHitFront",
-  "Act4WayHitBack",
-  "Act4WayHitFront",
-  "Act4WayHitLeft",
-  "Act4WayHitRight",
-  "ActAimEnd",
-  "ActAimStart",
-  "ActCompanionHide",
-  "ActHarpoonAim",
-  "ActHarpoonDisconnect",
-  "ActHarpoonFire",
-  "ActHarpoonHit",
-  "ActHarpoonIdle",
-  "ActItemCancelIntoShotgun",
-  "ActJerryCanThrow",
-  "ActReturnToWeapon",
-  "ActShotgunFirePosBackRight",
-  "ActShotgunFirePosCornerFrontRight",
-  "ActShotgunFirePosDoorRight",
-  "ActShotgunFireUp",
-  "ActShotgunLeftHighBackTB",
-  "ActShotgunLeftHighFrontTB",
-  "ActShotgunLeftLowBackTB",
-  "ActShotgunLeftLowFrontTB",
-  "ActShotgunLowFrontTB",
-  "ActShotgunRightBackTB",
-  "ActShotgunRightFrontTB",
-  "ActShotgunShootBwdLeft",
-  "ActShotgunShootBwdRight",
-  "ActShotgunShootFwd",
-  "ActThrowObject",
-  "ActThunderStickThrow",
-  "Activate",
-  "ActivateCoordinator",
-  "ActivateFlames",
-  "ActivateLogic",
-  "ActivateOverride",
-  "ActivatePlayer",
-  "ActivateRace",
-  "Activation_Event",
-  "ActiveMode",
-  "Add25Damage",
-  "Add5Damage",
-  "AddToRender",
-  "AddToUpdate",
-  "AffectedObject",
-  "AiCategory",
-  "AimDisableSegment",
-  "AimDotLimit",
-  "AimSizeScale",
-  "AimState",
-  "AimTimeMin",
-  "AlignCar",
-  "AlignMax",
-  "AlignmentBoneId",
-  "AlignmentGameObject",
-  "All_objectives_completed",
-  "AllowPlayerOutsideVehicleDeathExplosion",
-  "AnchorPointJointId",
-  "AngularLimitTauFactor",
-  "AnimSegmentAttachToRightHand",
-  "AnimSegmentCloserangeFire",
-  "AnimSegmentFreezeBufferShootTimer",
-  "AnimSegmentInAim",
-  "AnimSegmentInFire",
-  "AnimSegmentWaitForFire",
-  "AnimationSet",
-  "ApplyEngineUpgrade",
-  "Area",
-  "ArenaActive",
-  "ArenaInactive",
-  "AttachJointId",
-  "AutoState",
-  "AutoUnlockAll",
-  "BaseValue",
-  "BeefUpUpgrades",
-  "BeefUpUpgradesPlus",
-  "BlackboardKey",
-  "BlackboardShootWorldDir",
-  "BlockIndex",
-  "Blur",
-  "Boarder1",
-  "Boarder2",
-  "Boarder3",
-  "Boarder4",
-  "BoarderJumpingTargetRange",
-  "BoarderLandAnimSegment",
-  "BoarderLanded",
-  "BoostCooldown",
-  "Breached",
-  "BreakThreshold",
-  "BroadcastInterval",
-  "BroadcastLifetime",
-  "BuffMode",
-  "BurstAmount",
-  "BurstDelay",
-  "BypassRaycastChecksDistance",
-  "CAiEntityBlackboardSetter",
-  "CAnimRotation",
-  "CAnimRotation1",
-  "CAreaOfOperationsComponent",
-  "CAreaOfOperationsComponent1",
-  "CAreaOfOperationsComponent2",
-  "CBoneAttachment",
-  "CBoneAttachment1",
-  "CBoneAttachment2",
-  "CBoneAttachment3",
-  "CBoneAttachment4",
-  "CCameraAnimationModifier",
-  "CCameraBaseSmoothingModifier",
-  "CCameraCollisionModifier",
-  "CCameraGlobalAttachmentModifier",
-  "CCameraGlobalAttachmentModifier1",
-  "CCameraGlobalAttachmentModifier3",
-  "CCameraGlobalAttachmentModifier4",
-  "CCameraMotionBlurModifier",
-  "CCameraScriptModifier",
-  "CCameraScriptModifier1",
-  "CCameraScriptModifier4",
-  "CCameraScriptModifier5",
-  "CCameraShakeModifier",
-  "CCameraTargetProjectedModifier",
-  "CCameraTransition",
-  "CCameraTransition1",
-  "CCameraTransition2",
-  "CCameraTransition3",
-  "CCameraTransition4",
-  "CCameraTransitionCollection",
-  "CCameraTransitionCollection1",
-  "CCameraUpModifier",
-  "CCameraVehicleOffsetModifier",
-  "CConstraint",
-  "CConstraintBreakableDecoratorData",
-  "CConstraintLimitedHingeData",
-  "CConstraintRagDollData",
-  "CConstraintStiffSpringData",
-  "CDistanceTrigger",
-  "CDoActOnEventObject",
-  "CDoActOnEventObject1",
-  "CEconomyResource",
-  "CEffectPointEmitter",
-  "CEffectPointEmitter1",
-  "CEffectSpawner",
-  "CEffectSpawner1",
-  "CEffectSpawner2",
-  "CEffectSpawner3",
-  "CEffectSpawner4",
-  "CEffectSpawner5",
-  "CEffectSpawner8",
-  "CEffectSpawner9",
-  "CEffectSpawnerInstance",
-  "CEffectSpawnerInstance1",
-  "CEffectSpawnerInstance2",
-  "CEffectSpawnerInstance3",
-  "CEnvironmentPresetCameraLight",
-  "CEnvironmentPresetColorCurve",
-  "CEnvironmentPresetFog",
-  "CEnvironmentPresetHDRControl",
-  "CEnvironmentPresetLighting",
-  "CEnvironmentPresetProjectToTerrain",
-  "CEnvironmentPresetRender",
-  "CEnvironmentPresetSSAO",
-  "CEnvironmentPresetShadow",
-  "CEnvironmentPresetToneMapping",
-  "CEnvironmentPresetVisualEffects",
-  "CEnvironmentPresetWind",
-  "CEventTrigger",
-  "CEventTrigger1",
-  "CFlameObject",
-  "CFlamePulse",
-  "CForcePulse",
-  "CGameObjectList",
-  "CGraphScriptGameObject",
-  "CGraphScriptGameObject1",
-  "CGraphScriptGameObject2",
-  "CInteraction",
-  "CInteraction1",
-  "CInteraction4",
-  "CInteractionComponentAnimationLayer",
-  "CInteractionComponentAnimationLayer1",
-  "CInteractionComponentAnimationLayer2",
-  "CInteractionComponentButtonInput",
-  "CInteractionComponentDoAct",
-  "CInteractionComponentDoAct1",
-  "CInteractionComponentLinkToResource",
-  "CInteractionComponentScript",
-  "CInteractionComponentSetContextFlag",
-  "CInteractionComponentSetModel",
-  "CInteractionComponentSetNode",
-  "CInteractionContext",
-  "CInteractionEventToAct",
-  "CInteractionGraph",
-  "CInteractionGraph1",
-  "CInteractionGraphEntry",
-  "CInteractionGraphExit",
-  "CInteractionGraphExit1",
-  "CInteractionGraphLineNodeFractionCondition",
-  "CInteractionGraphPointNode",
-  "CInteractionGraphPointNode1",
-  "CInteractionGraphPointNode12",
-  "CInteractionGraphPointNode4",
-  "CInteractionGraphPointNode5",
-  "CInteractionGraphTransition",
-  "CInteractionGraphTransition21",
-  "CInteractionGraphTransition22",
-  "CInteractionGraphTransition3",
-  "CInteractionGraphTransition6",
-  "CInteractionGraphTransition7",
-  "CInteractionGraphUserEdge",
-  "CInteractionGraphUserEdge1",
-  "CInteractionScriptCondition",
-  "CInteractionScriptCondition1",
-  "CInteractionTrackMessageHandler",
-  "CInteractionTrigger",
-  "CItemAttachedEffectObject",
-  "CItemThunderstickObjectExplosion",
-  "COutline",
-  "CPlacedAvoidanceObstacle",
-  "CRigidObject",
-  "CRigidObject1",
-  "CRigidObject2",
-  "CRigidObject3",
-  "CRigidObject4",
-  "CRopeObject",
-  "CScriptGameObject",
-  "CScriptGameObject1",
-  "CScriptGameObject11",
-  "CScriptGameObject12",
-  "CScriptGameObject13",
-  "CScriptGameObject14",
-  "CScriptGameObject15",
-  "CScriptGameObject16",
-  "CScriptGameObject17",
-  "CScriptGameObject18",
-  "CScriptGameObject7",
-  "CScriptGameObject8",
-  "CScriptGameObject9",
-  "CShapeTriggerComponent",
-  "CShapeTriggerComponent1",
-  "CSkeletalAnimatedObject",
-  "CSoundModuleControllerGO",
-  "CSoundModuleSetFunction",
-  "CSoundPointEmitter",
-  "CSpawnObject",
-  "CSpawnObject1",
-  "CTimeTrigger",
-  "CWeaponPropertiesOverrideCollideObject",
-  "CameraOffsetBwd",
-  "CameraStopMargin",
-  "CampComplete",
-  "CanBePierced",
-  "CanBePiercedFromProtectedHit",
-  "CapacityUpgradeableValueNameId",
-  "Character",
-  "CharacterAttach",
-  "CharacterDetach",
-  "CharacterDialogueFleeChase",
-  "CharacterDialogueFleeNear",
-  "CharacterPointAt",
-  "Characters",
-  "CheckMOBlockingTeleportTrigger",
-  "CheckPromptBoarderJumping",
-  "CheckPromptBoarderShakeOff",
-  "CheckSlowMoBoarderJumping",
-  "CheckSlowMoBoarderShakeOff",
-  "CleanupCrewCollectedLoot",
-  "ClearEvent",
-  "ClearForMOParkShapeTrigger",
-  "ClearForRaceShapeTrigger",
-  "ClearMOTeleportTrigger",
-  "ClearPlayerTeleportTrigger",
-  "CloneFactory",
-  "CloneFactoryName",
-  "Collect",
-  "CollisionTriggerDelay",
-  "Color",
-  "ComboTarget",
-  "CompetitionId",
-  "Complete",
-  "ConstantRecoveryVelocity",
-  "ConvoyActive",
-  "ConvoyCompositionId",
-  "ConvoyData",
-  "ConvoyDespawnDistance",
-  "ConvoyLeaderDestoyedEvent",
-  "ConvoyResourcesLoadedEvent",
-  "ConvoyRoadDiscoveryDistance",
-  "ConvoyRoadVisitedDistance",
-  "CooldownTime",
-  "CoreRoadMover",
-  "CostAccepted",
-  "CostRejected",
-  "CriticalHealthTrigger",
-  "CriticalSpawn",
-  "CriticalStageAct",
-  "CurrentRange",
-  "CurrentThunderStickRange",
-  "DOFChromaticAberration",
-  "DOFHeightFalloff",
-  "DOFTransitionFar",
-  "DOFTransitionNear",
-  "DPSMax",
-  "DPSMin",
-  "DR1010_set_fuel_sub_icon",
-  "DR1020_set_fuel_sub_icon",
-  "DR1030_set_fuel_sub_icon",
-  "DR1040_set_fuel_sub_icon",
-  "DR1050_set_fuel_sub_icon",
-  "DR2010_set_fuel_sub_icon",
-  "DR2020_set_fuel_sub_icon",
-  "DR2030_set_fuel_sub_icon",
-  "DR2040_set_fuel_sub_icon",
-  "DR2050_set_fuel_sub_icon",
-  "DR3010_set_fuel_sub_icon",
-  "DR3020_set_fuel_sub_icon",
-  "DR3030_set_fuel_sub_icon",
-  "DR3040_set_fuel_sub_icon",
-  "DR3050_set_fuel_sub_icon",
-  "Damage",
-  "DamageAmount",
-  "DamageControlRef",
-  "DamageThresholdMax",
-  "DamageThresholdMin",
-  "DamageTrackerScript",
-  "Damping",
-  "DeActivateCoordinator",
-  "DeActivateCoordinatorEject",
-  "Deactivate",
-  "DeactivateFlames",
-  "DeactivateLogic",
-  "DeactivateRace",
-  "DeathRunActivated",
-  "DeathRunActivatedSendEvent",
-  "DeathRunDeactivatedSendEvent",
-  "DeathRunDescId",
-  "DeathRunInProgressSendEvent",
-  "DeathRunModeTutorialEvent",
-  "DeathRunNameId",
-  "DeathRunPlayerAwardedNewVehicleEvent",
-  "DeathRunPlayerExitVehicleTutorialEvent",
-  "DeathRunResetGlobals",
-  "DeathRunSuccess.InArchangel.Event",
-  "DeathRunSuccessEvent",
-  "DeathScript",
-  "DeathXvmScript",
-  "DeathrunEnemyFinished",
-  "DeathrunRejectTeleportPlayerEvent",
-  "Deathrun_ID_Event",
-  "Debug",
-  "DebugFillCanteen",
-  "DebugGiveHugeScrap",
-  "DebugGiveScrap",
-  "DebugGiveScrapSingle",
-  "Decals",
-  "Decor",
-  "Delay_Before_Camera_start",
-  "DeleteEvent",
-  "DepleteEvent",
-  "DespawnAndExit",
-  "DestroyPlayerVehicle",
-  "DetachLevelTooLowHintEvent",
-  "DetachOnDisable",
-  "DetectionAngle",
-  "DetectionRangeMax",
-  "DetectionRangeMin",
-  "DidSomethingSuspicious",
-  "DidSomethingSuspiciousCooldown",
-  "DiffuseTexture",
-  "Disable",
-  "DisableAutoRegen",
-  "DisableBoost",
-  "DisableDebug",
-  "DisableEvent",
-  "DisableFirePrompt",
-  "DisableHandheld",
-  "DisableIfLocationObjectiveCompleted",
-  "DisableIfTriggered",
-  "DisableJesusMode",
-  "DisableLimits",
-  "DisableRearview",
-  "DisableSeatedTargetTag",
-  "DisableSniperMode",
-  "DisableSprinting",
-  "DisableUpdateWorldMatrix",
-  "Disconnect",
-  "DistanceChain1",
-  "DistanceChain2",
-  "DistanceChain3",
-  "DistanceChain4",
-  "DistanceChain5",
-  "DoneWithRefueling",
-  "DoneWithRepairing",
-  "DriverAimingId",
-  "DriverSeatEnter",
-  "DropAllArmorOnCar",
-  "DustCloudEffectEmitter",
-  "Dynamic_Doors",
-  "East",
-  "EffectDetach",
-  "EffectDetachBreak",
-  "EffectDetachFailed",
-  "EffectHooked",
-  "EffectStrain",
-  "ElasticConstraint",
-  "Enable",
-  "EnableAutoRegen",
-  "EnableBoost",
-  "EnableCollisionsOnBreak",
-  "EnableDebug",
-  "EnableEvent",
-  "EnableFirePrompt",
-  "EnableHandheld",
-  "EnableJesusMode",
-  "EnableLogic",
-  "EnableOutsideMaxRadius",
-  "EnableRearview",
-  "EnableSniperMode",
-  "EnableSprinting",
-  "EnableUpdateWorldMatrix",
-  "EnableWeakspot",
-  "Enabled",
-  "EncampmentAnchor",
-  "EncounterConvoyRouteDiscovered",
-  "EncounterConvoyRouteVisited",
-  "EncounterConvoySpawned",
-  "EngineRumbleDisableEvent",
-  "EngineRumbleEnableEvent",
-  "EngineTurnedOff",
-  "EngineTurnedOn",
-  "EnterGarage",
-  "EnterInnerZone",
-  "EnteredStronghold",
-  "EntryGetCan",
-  "EntryPutCan",
-  "EvaluationInterval",
-  "Evening",
-  "EventDisableInfluence",
-  "EventEnableInfluence",
-  "Event_FadeIn",
-  "Event_FadeOut",
-  "Event_Test",
-  "Evt_BuzzardBullies_Toggle",
-  "Evt_Buzzard_Ambush_Toggle",
-  "Evt_Buzzard_Bullies_Toggle",
-  "Evt_Corpses_Toggle",
-  "Evt_Despawn",
-  "Evt_DuringFade",
-  "Evt_Jeet_Main_Mission_Bypass_Reenable_check",
-  "Evt_PlayerLimp",
-  "Evt_RoadkillAftermath_Toggle",
-  "Evt_RoadkillBrokenCar_Toggle",
-  "Evt_RoadkillBullies_Toggle",
-  "Evt_RoadkillMercykill_Toggle",
-  "Evt_RoadkillWreck_Toggle",
-  "Evt_Roadkill_Campsite_Toggle",
-  "Evt_Roadkill_Gluesniffers_Toggle",
-  "Evt_Roadkill_Mercykill_Toggle",
-  "Evt_Roadkill_Raided_Toggle",
-  "Evt_ScrotusAftermath_Toggle",
-  "Evt_ScrotusBrokencar_Toggle",
-  "Evt_ScrotusBullies_Toggle",
-  "Evt_ScrotusMercykill_Toggle",
-  "Evt_Scrotus_Campsite_Toggle",
-  "Evt_Scrotus_Gluesniffer_Toggle",
-  "Evt_Scrotus_Mercykill_Toggle",
-  "Evt_Spawn",
-  "Evt_StartAbduction",
-  "Evt_Wanderer_Campsite_Toggle",
-  "Evt_Wanderer_Mercykill_Toggle",
-  "Evt_Wanderer_Raided_Toggle",
-  "ExitGarage",
-  "ExitShapeTrigger",
-  "ExpectedDriverAlias",
-  "ExplodeDelayMax",
-  "ExplodeDelayMin",
-  "ExplodeEffect",
-  "ExplosionFaction",
-  "ExplosionLvl1",
-  "ExplosionLvl2",
-  "ExplosionLvl3",
-  "ExplosionLvl4",
-  "ExplosionRadius",
-  "ExplosionShieldingFOVObject",
-  "ExplosionType",
-  "ExposureValue",
-  "ExposureValueEnabled",
-  "ExtAnimsAreLoaded",
-  "ExtPlayerEnterDriverSeat",
-  "ExternalFloat",
-  "FOV",
-  "FOVDegrees",
-  "FOVDepth",
-  "Faction",
-  "FactionAllied",
-  "FactionInfluenceTag",
-  "Fading",
-  "FinishLineShapeEnemy",
-  "FinishLineShapePlayer",
-  "Fire",
-  "FireDelay",
-  "FleeBlackboardId",
-  "FleeVisiblyFromTargetBlackboardId",
-  "FocalDistanceFar",
-  "FocalDistanceNear",
-  "ForceBreak",
-  "ForceDestroy",
-  "ForceDestroyEvent",
-  "ForceDisconnect",
-  "ForceDrivingCameraReset",
-  "ForceForward",
-  "ForceHandbrake",
-  "ForceRepairStart",
-  "ForceRepairStop",
-  "ForceThrowOutFromVehicle",
-  "GameLoadingCompleted",
-  "GarageUpgradeAlias",
-  "Gate",
-  "GatherRange",
-  "GatingObject",
-  "GatingProfileName",
-  "GatingProfileNameNotScouted",
-  "GlobalCooldownIncrease",
-  "GlobalTargetListAlias",
-  "Graffiti",
-  "GuardAccel",
-  "GuardSpedMin",
-  "GuardSpeedMax",
-  "GuardsPersistenceTime",
-  "GuiRefuel",
-  "GuiRepair",
-  "Hanging",
-  "HarpoonAttachSoundId",
-  "HarpoonAttribute",
-  "HarpoonConnectedSoundVariableId",
-  "HarpoonFireSoundId",
-  "HarpoonProjectile",
-  "HarpoonVictimBBId",
-  "HasUsedGriffaToken",
-  "Head",
-  "HealVehicle",
-  "HealthTracker",
-  "HealthTrigger_1",
-  "HealthTrigger_2",
-  "HealthTrigger_3",
-  "Hide",
-  "HideGuiTimer",
-  "HideHarpoon",
-  "HidePart",
-  "HidePimpParts",
-  "HideShotgun",
-  "HideSideBurner",
-  "HideThunderstick",
-  "HookAttachEffect",
-  "HookDetachEffect",
-  "HookLength",
-  "HookedNoDriverState",
-  "HookedState",
-  "Hour",
-  "Human",
-  "HydraHarpoonFired",
-  "HydraJerryCanInCarFired",
-  "HydraScrotusTSInCarFired",
-  "HydraShotgunInCarFired",
-  "IdleState",
-  "InDeathRunCleanUpGlobalsEvent",
-  "InDeathRunModeEventExit",
-  "InDeathRunSpawnMarkerTag",
-  "InDeathRunSplineDisableAvoidanceTag",
-  "InDeathRunSplineTag",
-  "InDespawnDistance",
-  "InEntityCompositionId",
-  "InEvaluateTutorialEvent",
-  "InEvasionTutorialEvent",
-  "InFadeUnloadLocationsEvent",
-  "InGameLoadInterruptEvent",
-  "InMapIconTransform",
-  "InMaxVehicles",
-  "InNearSplineFinishDistance",
-  "InOnInitialisedEvent",
-  "InOnNearSplineFinishEvent",
-  "InOnVehicleDestroyedEvent",
-  "InRaceMusicEvent",
-  "InReinforcementIntervalMax",
-  "InReinforcementIntervalMin",
-  "InReinforcementsEntityCompositionId",
-  "InReinforcementsRoadTraversal",
-  "InShotgunInventoryId",
-  "InShotgunUsageTutorialEvent",
-  "InSpawnDistance",
-  "InSpawnInfoDataContainer",
-  "InSpawnInfoDataTag",
-  "InSplineDisableAvoidanceTag",
-  "InSplineMover",
-  "InSplineMoverAvoidanceRange",
-  "InSplineMoverAvoidanceTag",
-  "InVehicleSetupEvent",
-  "InactiveMode",
-  "Indestructible",
-  "Indoor?",
-  "IneffectiveDamageTimeTolerance",
-  "Infiltraded",
-  "Inflict_Damage_1",
-  "Inflict_Damage_2",
-  "Inflict_Damage_3",
-  "Inflict_Damage_4",
-  "Initiated",
-  "Intent",
-  "Interaction",
-  "InterpolatingEffect",
-  "IntroDataContainer",
-  "IntroductionDisplayTime",
-  "IntroductionTag",
-  "IntroductionsDisable",
-  "IntroductionsEnable",
-  "InventoryItemId",
-  "IsActive",
-  "IsCampComplete",
-  "IsStage1",
-  "ItemJerryCan",
-  "ItemShotgun",
-  "ItemThunderStick",
-  "Jaw",
-  "JeetTerritoryUpgrades",
-  "KillCar",
-  "Lamp",
-  "LeaderDespawnPruneGuards",
-  "LeaderDespawnedEvent",
-  "LevelRequiredWarningTextRef",
-  "LevelValuesProfile",
-  "Light",
-  "LinkedEconomyResource",
-  "LoadEvent",
-  "Loader",
-  "LocationInfoTrackedItemRef",
-  "LockPlayerInsideVehicle",
-  "Locked",
-  "LookAhead",
-  "Loop",
-  "Lunch",
-  "MPMTexture",
-  "MakeDestructible",
-  "MakeIndestructible",
-  "MakeInvulnerable",
-  "MakeVulnerable",
-  "Max",
-  "MaxAlertness",
-  "MaxAngularLimit",
-  "MaxBulletAmountAllowed",
-  "MaxDOFFar",
-  "MaxDOFNear",
-  "MaxForce",
-  "MaxFrictionTorque",
-  "MaxRange",
-  "MaxReached",
-  "MaxThunderStickRange",
-  "MenuStart",
-  "MinAngularLimit",
-  "MinForce",
-  "MinSpeedForFleeBroadcast",
-  "MinTargetingDistance",
-  "Mission1030UpgradeSetup",
-  "Modifier",
-  "MolotovBurstAmount",
-  "MolotovBurstDelay",
-  "MolotovDetectionAngle",
-  "MolotovDetectionRangeMax",
-  "MolotovDetectionRangeMin",
-  "MolotovEnabled",
-  "MolotovFireDelay",
-  "Molotov_ammo_area_damage_radius",
-  "Molotov_ammo_velocity",
-  "Molotov_bulletspershot",
-  "Molotov_max_bullet_spread",
-  "Molotov_max_damage",
-  "Molotov_max_spread_height",
-  "Molotov_max_spread_width",
-  "Molotov_min_damage",
-  "Molotov_min_spread_height",
-  "Molotov_min_spread_width",
-  "Morning",
-  "Motion",
-  "MountedVehicle",
-  "MuteEvent",
-  "MuzzleEmitter",
-  "NearObject",
-  "NerfedMode",
-  "NewCompanion",
-  "Night",
-  "NoYankAllowedHintEvent",
-  "NonDamageScript",
-  "NormalMapTexture",
-  "North",
-  "NotEnoughScrap",
-  "OnArmamentCountZero",
-  "OnArmedEvent",
-  "OnBellCountZero",
-  "OnBreak",
-  "OnCamp100ProcentComplet",
-  "OnChain1",
-  "OnChain2",
-  "OnChain3",
-  "OnChain4",
-  "OnChain5",
-  "OnCriticalHit",
-  "OnDeath",
-  "OnDeathRunActivated",
-  "OnDeathRunDeactivated",
-  "OnEnabledBroadcastDelay",
-  "OnEndMove",
-  "OnEnter",
-  "OnExit",
-  "OnExitMainMenu",
-  "OnExplodedEvent",
-  "OnFallDamageAmount",
-  "OnFire",
-  "OnFlamePipeDeath",
-  "OnFlamePipeRestore",
-  "OnGenericHeavyHit",
-  "OnGenericLightHit",
-  "OnInsigniaCountZero",
-  "OnLeftStarter",
-  "OnLookoutCountZero",
-  "OnLootStashCountZero",
-  "OnMainObjectiveCountZero",
-  "OnPlayerEnter",
-  "OnPlayerEnterVehicle",
-  "OnPlayerExitVehicle",
-  "OnProjectPartCountZero",
-  "OnRelicCountZero",
-  "OnRightStarter",
-  "OnScrapBoxCountZero",
-  "OnSprayPaintCountZero",
-  "OnStartDramatic",
-  "OnStartExhaust",
-  "OnStartHeavy",
-  "OnStartLight",
-  "OnStartMedium",
-  "OnStartTrackingEvent",
-  "OnStoppedTrackingEvent",
-  "OnUpgradesFinishedLoading",
-  "OncharacterBuffAdded",
-  "OnlyTriggerOnPlayer",
-  "Opening",
-  "Openings",
-  "OptionalPhysicsToIgnore",
-  "OptionalProtectingWeakspot",
-  "OpusWarsActivated",
-  "OpusWarsActivatedLoadRedroad",
-  "Outline",
-  "OverrideTargetNormal",
-  "OverrideTargetPosition",
-  "ParentPhysicsOverride",
-  "PhysicsObject",
-  "PhysicsPartNameId",
-  "Play",
-  "PlayerActivate",
-  "PlayerActivateBoombug",
-  "PlayerDamageEffectSpawner",
-  "PlayerEnter",
-  "PlayerEnterCamp",
-  "PlayerEnterSniperHint",
-  "PlayerEnterVehicle",
-  "PlayerExitCamp",
-  "PlayerExitVehicle",
-  "PlayerLeave",
-  "PositionBoneId",
-  "PositionOffsetUp",
-  "Postcard",
-  "PowerValue",
-  "PreShootState",
-  "PrimeDelay",
-  "ProjectName",
-  "ProportionalRecoveryVelocity",
-  "QueryItem",
-  "Queue",
-  "QuickshotState",
-  "RammingLevel1",
-  "RammingLevel4",
-  "RandomDirection",
-  "RandomStartOnRoute",
-  "Range",
-  "RayCaster",
-  "RaycastIgnoreHitDistanceThreshold",
-  "RaycastIgnoreParts",
-  "Re-Check",
-  "Recoil",
-  "ReducePlayerEnvironmentDamage",
-  "ReelinEmitter",
-  "Referenced",
-  "Refresh",
-  "RefuelAmount",
-  "RefuelCostBase",
-  "RefuelCostMultiplier",
-  "RefuelUsingScrapAmount",
-  "RelayEvent",
-  "ReleaseHandbrake",
-  "RelicAlias",
-  "RelicLoadEvent",
-  "RelicMapIconNameId",
-  "RelicRepositionDistance",
-  "RelicRevealWreckedGuiIconEvent",
-  "RelicTextId",
-  "RelicUnloadEvent",
-  "Reload",
-  "ReloadActDefault",
-  "ReloadActOGC",
-  "ReloadAnimSegment",
-  "ReloadState",
-  "ReloadTime",
-  "Remaining",
-  "RepairAmount",
-  "RepairCostBase",
-  "RepairCostMultiplier",
-  "RepairUsingScrapAmount",
-  "ReplenishEvent",
-  "RepositionCooldownDisable",
-  "RepositionCooldownEnable",
-  "RequestScarecrowCam",
-  "Reset",
-  "ResetAFSM",
-  "ResetCollisionValuesOnNextCamera",
-  "ResetLocation",
-  "ResetTimer",
-  "RestLength",
-  "RestartOnExit",
-  "RestoreHealth",
-  "RestorePlayerEnvironmentDamage",
-  "Restriction",
-  "Reverb",
-  "RoadPathCacheObject",
-  "RollChain1",
-  "RollChain2",
-  "RollChain3",
-  "RollChain4",
-  "RollChain5",
-  "RollbackState",
-  "RopeObject",
-  "RopeToHookOffsetFwd",
-  "Rotational_Coverage",
-  "RouteGameObjectOrderedList",
-  "SAiNoDriveZoneComponentObject",
-  "SAiNoDriveZoneEntryObject",
-  "SAiVehicleParams",
-  "SAnimationLayerInfo",
-  "SBBoardingCornerBackRight",
-  "SBBoardingCornerFrontRight",
-  "SBBoardingDoorRight",
-  "SBBoardingPosRoof",
-  "SBDriverInCar",
-  "SBEnterExit",
-  "SBHiding",
-  "SBHoldingLever",
-  "SBReloading",
-  "SBRepairing",
-  "SBSigSniper",
-  "SCarCombatMapPosition",
-  "SCharacterLimb",
-  "SCharacterLimb1",
-  "SCharacterLimb2",
-  "SDCRef",
-  "SDestructionPart",
-  "SDestructionPart1",
-  "SDestructionPart2",
-  "SDestructionPart3",
-  "SDestructionPart4",
-  "SDestructionPart5",
-  "SDestructionPart6",
-  "SDestructionPart7",
-  "SDestructionPart8",
-  "SDestructionPart9",
-  "SEventTriggerComponent",
-  "SEventTriggerComponent1",
-  "SEventTriggerComponent2",
-  "SHealthDecreasedEvent",
-  "SLocalSteeringParams",
-  "SP_BuzzardBullies",
-  "SP_Buzzard_Ambush",
-  "SP_Buzzard_Bullies",
-  "SP_Corpses",
-  "SP_RoadkillAftermath",
-  "SP_RoadkillBrokenCar",
-  "SP_RoadkillBullies",
-  "SP_RoadkillMercykill",
-  "SP_RoadkillWreck",
-  "SP_Roadkill_Campsite",
-  "SP_Roadkill_Gluesniffers",
-  "SP_Roadkill_Mercykill",
-  "SP_Roadkill_Raided",
-  "SP_ScrotusAftermath",
-  "SP_ScrotusBrokenCar",
-  "SP_ScrotusBullies",
-  "SP_ScrotusMercykill",
-  "SP_Scrotus_Campsite",
-  "SP_Scrotus_Gluesniffer",
-  "SP_Scrotus_Mercykill",
-  "SP_Wanderer_Campsite",
-  "SP_Wanderer_Mercykill",
-  "SP_Wanderer_Raided",
-  "SPhysicsParams",
-  "SPhysicsParams1",
-  "SPhysicsParams2",
-  "SSetAiEntityProperty",
-  "SSetAiEntityProperty1",
-  "SSetAiEntityProperty2",
-  "SSetAiEntityProperty3",
-  "SSetAiEntityProperty4",
-  "SafeZone",
-  "ScaleU",
-  "ScaleV",
-  "Scope",
-  "ScratchAIWaypoints",
-  "ScriptGameObject",
-  "SeatGraphModifier",
-  "SegmentReadyToEquip",
-  "SegmentWeaponFire",
-  "SelectHarpoon",
-  "SelectShotgun",
-  "SelectSideBurner",
-  "SelectSniper",
-  "SelectThunderstick",
-  "SelectedEntityMappingId",
-  "Send",
-  "SendEventExitHooked",
-  "SendEventGuiPromptAimShootEnable",
-  "SendEventGuiPromptAimShootThunderstickEnable",
-  "SendEventGuiPromptAllShootDisable",
-  "SendEventGuiPromptQuickShootEnable",
-  "SendEventGuiPromptQuickShootThunderstickEnable",
-  "SendEventOnFireAtTarget",
-  "SendEventOnHookFail",
-  "SendEventOnHooked",
-  "SendEventReloadGameplaySoundCancel",
-  "SendEventReloadGameplaySoundEnd",
-  "SendEventReloadGameplaySoundStart",
-  "SendOnComplete",
-  "SendOnFallDamage",
-  "SetEvent",
-  "SetLocation",
-  "SetRepairAmount",
-  "Set_Time_Event",
-  "Set_camp_completed_false",
-  "Set_camp_completed_true",
-  "Set_checkpoint_1_false",
-  "Set_checkpoint_1_true",
-  "Set_checkpoint_2_false",
-  "Set_checkpoint_2_true",
-  "Set_checkpoint_3_false",
-  "Set_checkpoint_3_true",
-  "Shape",
-  "ShapeTrigger",
-  "Shiv_SlotValue",
-  "ShootState",
-  "Shotgun_SlotValue",
-  "ShouldCheckStealth",
-  "Show",
-  "ShowAimCameraOnFireAt",
-  "ShowHarpoon",
-  "ShowPart",
-  "ShowShotgun",
-  "ShowSideBurner",
-  "ShowThunderstick",
-  "Shutdown",
-  "ShutdownEvent",
-  "ShutdownInsideMinRadius",
-  "Side",
-  "Sitting",
-  "Size",
-  "SkipParentObject",
-  "SlowMoBlendIn",
-  "SlowMoBlendOut",
-  "SlowMoDefaultBlendIn",
-  "SlowMoDefaultBlendOut",
-  "SlowMoDefaultTargetSpeed",
-  "SlowMoOGCBlendIn",
-  "SlowMoOGCBlendOut",
-  "SlowMoOGCTargetSpeed",
-  "SlowMoOGCWithVehiclesBlendIn",
-  "SlowMoOGCWithVehiclesBlendOut",
-  "SlowMoOGCWithVehiclesTargetSpeed",
-  "SlowMoStateDelay",
-  "SlowMoTargetSpeed",
-  "SlowmoDelayAfterShot",
-  "SlowmoShootBlendIn",
-  "SlowmoShootBlendOut",
-  "SlowmoShootTargetSpeed",
-  "SniperActionCameraActivated",
-  "SniperActionCameraDeactivated",
-  "Sniper_SlotValue",
-  "SoundFunctionName",
-  "SoundModuleName",
-  "SoundVariableName",
-  "Soundbank",
-  "South",
-  "SpawnBarrel",
-  "SpawnClampFrustrationTime",
-  "SpawnFailedRetryTime",
-  "SpawnMoverSpeed",
-  "SpawnMultipleBarrels",
-  "SpawnPoint",
-  "SpawnResourcesHold",
-  "SpawnResourcesReleaseHoldEvent",
-  "SpawnToleranceMax",
-  "SpawnToleranceMin",
-  "SpawnTransform",
-  "SpawnWith",
-  "Spawned",
-  "SpawnedBarrelsTargetPlayer",
-  "SpawnedObjectList",
-  "SpawnerMapIcon",
-  "SpawnerMapIconDisable",
-  "SpawnerMapIconEnable",
-  "SpawnerRepelRange",
-  "SpawningTowardSpeedScalar",
-  "Speed",
-  "SplineGameObject",
-  "Stains",
-  "Standing",
-  "Start",
-  "StartActive",
-  "StartBlocked",
-  "StartDelayTime",
-  "StartEnabled",
-  "StartExitingDriverVehicle",
-  "StartExitingPassengerVehicle",
-  "StartInstantRefuel",
-  "StartInstantRepair",
-  "StartLimiting",
-  "StartMuted",
-  "StartOffset",
-  "StartState",
-  "StartUCoord",
-  "StartUpdate",
-  "StartVCoord",
-  "StateBitFiring",
-  "StateBitReloading",
-  "StateBitSniper",
-  "StateNameId",
-  "StealthCooldown",
-  "StealthMultiplyer",
-  "Stop",
-  "StopForceForward",
-  "StopLimiting",
-  "StopUpdate",
-  "Stopping",
-  "StormActive",
-  "StormClearedSeekedShelterEvent",
-  "StormId",
-  "StormInactive",
-  "StormWarningEvent",
-  "SwitchToEventTriggeredTargetProfileEvent",
-  "TYPE",
-  "Tag",
-  "TargetFilteringUseStrength",
-  "TargetListAlias",
-  "TargetProfileId",
-  "TargetProfileIdEventTriggered",
-  "TargetProfileIdOnGround",
-  "TargetStrength",
-  "TargetableByHarpoon",
-  "TargetableByJerrycan",
-  "TargetableByShotgun",
-  "TargetableByThunderStick",
-  "TargetableByThunderstick",
-  "Tau",
-  "TestAndRevealLocation",
-  "TestEnter",
-  "TestExit",
-  "TestSpawn_snugfitbounds",
-  "ThreatResourceObject",
-  "ThreatTransferOnCollectedEvent",
-  "Threshold",
-  "ThunderStickCap",
-  "ThunderStickProjectile",
-  "Thundercap_SlotValue",
-  "ThunderpoonLvl1Id",
-  "ThunderpoonLvl2Id",
-  "ThunderpoonLvl3Id",
-  "ThunderpoonLvl4Id",
-  "TimeIntervall",
-  "Toggle",
-  "TopCameraCollision",
-  "TrackingArrivalDistance",
-  "TransferObject",
-  "Transform.TeleportMO",
-  "TranslateInUCoord",
-  "Trg_Damage",
-  "Trigger",
-  "TriggerBack",
-  "TriggerEnemyHitReaction",
-  "TriggerEvent",
-  "TriggerPerimeter",
-  "TriggerPlayerBoarderHitReaction",
-  "TriggerPlayerForceStop",
-  "TriggerPlayerForceStopAndExit",
-  "TriggerVistaCam",
-  "TriggerVistaGui",
-  "Triggered",
-  "TurnTakerGroupId",
-  "Type",
-  "UITargetsMax",
-  "UVSet",
-  "Unbroken_no_limbs",
-  "Unbroken_open_chest",
-  "Unbroken_whole",
-  "UnlockPlayerInsideVehicle",
-  "UnmuteEvent",
-  "Update",
-  "UpdateGameProgressionStat",
-  "UpdateWeaponList",
-  "UpgradeLocationLoaded",
-  "UpgradeMenuRepair",
-  "UseVignette",
-  "ValidateLineTest",
-  "ValidationCameraSightCone",
-  "ValidationRadiusMax",
-  "ValidationRadiusMin",
-  "Vanilla",
-  "Variant",
-  "Vehicle",
-  "VehicleBrakeActivated",
-  "VehicleBrakeReleased",
-  "VehicleIncapacitated",
-  "VehiclePositionBoneId",
-  "VehicleWeaponAlt2Fire",
-  "VehicleWeaponAlt2Released",
-  "VehicleWeaponAltFire",
-  "VehicleWeaponAltReleased",
-  "Version",
-  "VignetteIndex",
-  "Visible",
-  "WarningEffectName",
-  "WeakspotStartActive",
-  "WeaponAimGroupId",
-  "WeaponScript",
-  "West",
-  "WheelIndex",
-  "Wielder",
-  "WielderScriptChildId",
-  "WithTag",
-  "YankDamage",
-  "YankHideHintEvent",
-  "YankHintEvent",
-  "YankingImpulseScalar",
-  "YankingOverrideDamage",
-  "ZeroArmaments",
-  "ZoomOutHeight",
-  "_GUID",
-  "__collapsed",
-  "__removed",
-  "_child_objects",
-  "_class",
-  "_class_hash",
-  "_collapsed",
-  "_debug_object",
-  "_decoration_info",
-  "_dummy",
-  "_editor_ignore",
-  "_exportable",
-  "_exportable_user",
-  "_game_object_template",
-  "_has_entity_template",
-  "_is_generated",
-  "_isentity",
-  "_isgameobject",
-  "_isinstance",
-  "_islocation",
-  "_isroot",
-  "_locked_user",
-  "_nodefaultbbox",
-  "_normal_intensity",
-  "_object_id",
-  "_object_id_category",
-  "_opacity",
-  "_scalable",
-  "_texture_index",
-  "_unmodified_instance",
-  "_version",
-  "_visibility",
-  "_width_scale",
-  "_worldoriginal",
-  "_xls_file",
-  "a00_vh_buzzards_warchief",
-  "a01",
-  "a01_reveal_enc1010",
-  "a01_reveal_enc1010_north",
-  "a01_reveal_enc1010_northwest",
-  "a01_reveal_enc1010_south",
-  "a01_reveal_enc1010_west",
-  "a01_reveal_enc1020",
-  "a01_reveal_enc1020_east",
-  "a01_reveal_enc1020_north",
-  "a01_reveal_enc1020_south",
-  "a01_reveal_enc1020_west",
-  "a02",
-  "a02_reveal_enc2010",
-  "a02_reveal_enc2010_north",
-  "a02_reveal_enc2010_northwest",
-  "a02_reveal_enc2010_south",
-  "a02_reveal_enc2010_southwest",
-  "a04",
-  "a04_reveal_gastown",
-  "acc",
-  "accel",
-  "acceleration",
-  "acceleration_clamp",
-  "acceleration_speed",
-  "acceleration_time",
-  "accept",
-  "accept_event",
-  "accept_opuswars",
-  "accumulatedDamageAmountForEvent",
-  "act",
-  "act_event",
-  "act_on_break_from_melee",
-  "act_on_break_from_shotgun",
-  "act_on_breakout",
-  "act_on_part_break",
-  "action_id",
-  "action_identifier",
-  "action_list",
-  "activate",
-  "activateCamera",
-  "activate_camera",
-  "activate_control",
-  "activate_event",
-  "activate_fade_in",
-  "activate_reverb_instance_event",
-  "activate_reverb_instance_on_enabled",
-  "activate_sequence",
-  "activation_distance",
-  "activation_event",
-  "activation_range",
-  "activation_tags",
-  "active",
-  "active_from_start",
-  "active_time",
-  "activities",
-  "ad",
-  "adaptive_level_manual",
-  "add_legend_point_event",
-  "add_time_event",
-  "additional_props",
-  "additional_time_per_gear",
-  "additional_type_name",
-  "after",
-  "aiBoostTriggered",
-  "ai_avoidance_disabled",
-  "ai_base_upgrade_level",
-  "ai_flee_gfx_off",
-  "ai_flee_gfx_on",
-  "ai_helpers",
-  "ai_interactions",
-  "ai_priority",
-  "ai_rpm_increase_smoothing",
-  "ai_rpm_increase_smoothing_enable",
-  "ai_sensor_event_throw_name",
-  "ai_sensor_event_throw_radius",
-  "alerted_area",
-  "alias",
-  "alias_event_activation",
-  "align_car",
-  "align_elevation",
-  "align_player",
-  "align_with_slope",
-  "alignment_bone",
-  "alive_deform_scale",
-  "all_clusters",
-  "all_layers",
-  "allow_deformation_when_alive",
-  "allow_destroyed",
-  "allow_engine_override",
-  "allow_mm1039_blocked_interaction_and_icon",
-  "allow_offroad",
-  "allow_repair_if_dead",
-  "allow_shortcut_roads",
-  "alphamask_source_channel",
-  "alphamask_texture",
-  "always_deploying",
-  "always_keep_active_during_sequence",
-  "always_on",
-  "ambient_apply_mode",
-  "ambient_ground",
-  "ambient_ground_enabled",
-  "ambient_ground_multiplier",
-  "ambient_ground_multiplier_enabled",
-  "ambient_multiplier",
-  "ambient_sky",
-  "ambient_sky_enabled",
-  "ambient_sky_multiplier",
-  "ambient_sky_multiplier_enabled",
-  "ambush",
-  "ambush_event",
-  "ammo_area_damage_radius",
-  "ammo_area_explode_radius",
-  "ammo_max_range",
-  "ammo_velocity",
-  "ammount",
-  "amplifier",
-  "amplitude",
-  "angle",
-  "angle_allowed",
-  "angular_cast_ahead",
-  "angular_damping",
-  "angular_damping_override",
-  "anim_clip",
-  "anim_event_on_explosion",
-  "anim_event_on_hit",
-  "anim_event_on_killed",
-  "animated-static",
-  "animated_model",
-  "animated_sources",
-  "animation_act",
-  "animation_event",
-  "animation_game_object",
-  "animation_layer",
-  "animation_layer_dependencies",
-  "animation_modifier",
-  "animation_modulator_game_object",
-  "animation_original_speed_variable",
-  "animation_speed",
-  "animation_speed_change",
-  "animation_strength",
-  "animation_time_variable",
-  "ao_volumes",
-  "aoo",
-  "apply_dof_range",
-  "apply_dot",
-  "apply_event",
-  "apply_on_create",
-  "apply_on_event",
-  "arc",
-  "arcade_physics_enabled",
-  "archetype_id",
-  "area_light_angle",
-  "area_light_height",
-  "area_light_width",
-  "arena_bounds_trigger",
-  "arena_completed",
-  "arena_spawn_type",
-  "arena_spawn_type_max_count",
-  "arg1",
-  "arg1_type",
-  "arg2",
-  "arg2_type",
-  "arg3",
-  "arg3_type",
-  "arg4",
-  "arg4_type",
-  "armorDamageScale",
-  "armorSpeedThreshold",
-  "armory",
-  "armour_piercing_scalar",
-  "art",
-  "associated_with",
-  "at_end",
-  "at_start",
-  "atmospheric",
-  "attach_items_to_ground",
-  "attach_style",
-  "attach_to_beginning",
-  "attach_to_end",
-  "attach_to_listener",
-  "attached_effect",
-  "attached_effect_offset",
-  "attached_effect_start_on",
-  "attaching_preset",
-  "attack_cooldown_time_max",
-  "attack_cooldown_time_min",
-  "attack_event",
-  "attack_finished_event",
-  "attack_num_bursts_max",
-  "attack_num_bursts_min",
-  "attack_point_cooldown_penalty",
-  "attack_point_name",
-  "attr_id",
-  "attribute_id",
-  "audible_range",
-  "audio_systems_global",
-  "auto_aim_interpolation_time",
-  "auto_aim_interpolation_use_time",
-  "auto_aim_position",
-  "auto_align_acceleration_time",
-  "auto_align_attackers",
-  "auto_align_attackers_acc",
-  "auto_align_attackers_angle_shift",
-  "auto_align_attackers_angle_shift_dist",
-  "auto_align_attackers_blend_fadeout_dist",
-  "auto_align_attackers_blend_speed",
-  "auto_align_attackers_blend_speed_constant",
-  "auto_align_attackers_deacc",
-  "auto_align_attackers_ignore_closest_dist",
-  "auto_align_attackers_movement_threshold",
-  "auto_align_attackers_strategy",
-  "auto_align_attackers_timer",
-  "auto_align_blend_speed",
-  "auto_align_input_threshold_time",
-  "auto_align_target",
-  "auto_align_timer",
-  "auto_align_vista_target",
-  "auto_elevation_offset",
-  "auto_play",
-  "auto_reel",
-  "auto_route_gps",
-  "auto_wield_bone",
-  "automark",
-  "automation_start_event",
-  "automation_stop_event",
-  "available",
-  "award_vehicle_event",
-  "azimuth_dead_zone",
-  "backward_event",
-  "banking_factor",
-  "barrel_position1",
-  "barrel_position2",
-  "barrel_position3",
-  "barrel_position4",
-  "base_acceleration",
-  "base_infinite_gear_time",
-  "bash_event",
-  "bb_key",
-  "bearing",
-  "behavior_tree_file",
-  "behaviour_file",
-  "behaviour_tree",
-  "bend_offset",
-  "big_bash_event",
-  "big_pikes",
-  "binocular_trigger_off",
-  "binocular_trigger_on",
-  "bio_category",
-  "bios",
-  "birds",
-  "blend_in_time",
-  "blend_option",
-  "blend_out_time",
-  "blink_time",
-  "blob_shadow_falloff",
-  "blob_shadow_max_shadow",
-  "blob_shadow_max_shadow_enabled",
-  "blob_shadow_scale_x",
-  "blob_shadow_scale_y",
-  "blob_shadow_scale_z",
-  "blob_shadows_apply_mode",
-  "block_alias",
-  "block_cuename",
-  "block_faction",
-  "block_intent",
-  "blocked_alias",
-  "blocked_cuename",
-  "blocked_faction",
-  "blocked_intent",
-  "blood",
-  "bloom_contrast",
-  "bloom_lighten",
-  "bloom_saturation",
-  "bloom_threshold",
-  "blue_boost_effect_0",
-  "blue_boost_effect_1",
-  "blue_boost_effect_10",
-  "blue_boost_effect_11",
-  "blue_boost_effect_12",
-  "blue_boost_effect_13",
-  "blue_boost_effect_14",
-  "blue_boost_effect_15",
-  "blue_boost_effect_16",
-  "blue_boost_effect_17",
-  "blue_boost_effect_2",
-  "blue_boost_effect_3",
-  "blue_boost_effect_4",
-  "blue_boost_effect_5",
-  "blue_boost_effect_6",
-  "blue_boost_effect_7",
-  "blue_boost_effect_8",
-  "blue_boost_effect_9",
-  "blur",
-  "blur_factor",
-  "blur_offset",
-  "boarder_patrol",
-  "boatwrecks",
-  "body",
-  "bodyHealthComponent",
-  "body_health_state_script",
-  "body_healthcomponent",
-  "bone",
-  "bone_name",
-  "bone_name_axle_front",
-  "bone_name_axle_rear",
-  "bone_name_chassis_front",
-  "bone_name_chassis_rear",
-  "bone_transform_event",
-  "bonus_item_received_event",
-  "bookmark",
-  "boombug",
-  "boomer",
-  "boost_effect_0",
-  "boost_effect_1",
-  "boost_effect_10",
-  "boost_effect_11",
-  "boost_effect_12",
-  "boost_effect_13",
-  "boost_effect_14",
-  "boost_effect_15",
-  "boost_effect_16",
-  "boost_effect_17",
-  "boost_effect_2",
-  "boost_effect_3",
-  "boost_effect_4",
-  "boost_effect_5",
-  "boost_effect_6",
-  "boost_effect_7",
-  "boost_effect_8",
-  "boost_effect_9",
-  "boost_enabled",
-  "boost_script",
-  "boost_top_speed",
-  "boost_torque",
-  "borderpatrol",
-  "boss_health_trigger_1",
-  "boss_health_trigger_2",
-  "boss_health_trigger_3",
-  "bottom_area",
-  "box_yz1_(left)_disable",
-  "break_event",
-  "break_free_combat_timer_in_sec",
-  "break_free_distance",
-  "breathing_amplitude",
-  "breathing_frequency",
-  "broadcastSniperHits",
-  "broken_vehicle",
-  "bts_send_event_on_fail",
-  "bts_send_event_on_success",
-  "buff",
-  "buff_event",
-  "bullet_cheap_impact_effect_name",
-  "bullet_count_for_cheap_effect",
-  "bullet_fire_effect_name",
-  "bullet_impact_effect_name",
-  "bullet_inventory_id",
-  "bullet_model",
-  "bullet_protection",
-  "bullet_travel_effect",
-  "bulletspershot",
-  "bullettype",
-  "buoyancy",
-  "burst_cooldown",
-  "burst_interval",
-  "burst_num_drops",
-  "burstrate",
-  "buzzard_signage",
-  "camera",
-  "camera_alignment",
-  "camera_base_offset",
-  "camera_dist_offset",
-  "camera_first_person_offset_object",
-  "camera_fov",
-  "camera_id_requirement",
-  "camera_id_requirement2",
-  "camera_light_apply_mode",
-  "camera_light_bearing",
-  "camera_light_bearing_enabled",
-  "camera_light_color",
-  "camera_light_color_enabled",
-  "camera_light_falloff",
-  "camera_light_falloff_enabled",
-  "camera_light_height",
-  "camera_light_height_enabled",
-  "camera_light_multiplier_diffuse",
-  "camera_light_multiplier_diffuse_enabled",
-  "camera_light_multiplier_specular",
-  "camera_light_multiplier_specular_enabled",
-  "camera_light_offset",
-  "camera_light_offset_enabled",
-  "camera_light_point_light",
-  "camera_light_point_light_enabled",
-  "camera_light_second_color",
-  "camera_light_second_color_enabled",
-  "camera_light_second_falloff",
-  "camera_light_second_falloff_enabled",
-  "camera_light_second_multiplier_diffuse",
-  "camera_light_second_multiplier_diffuse_enabled",
-  "camera_light_second_multiplier_specular",
-  "camera_light_second_multiplier_specular_enabled",
-  "camera_light_second_offset",
-  "camera_light_second_offset_enabled",
-  "camera_passthrough",
-  "camera_shake",
-  "camp_scrap_objective_icons",
-  "can_be_dropped",
-  "can_be_shattered",
-  "can_repair",
-  "canyon",
-  "car",
-  "car_alias",
-  "car_suspensions",
-  "carrier",
-  "carrier_dmg",
-  "carry_dog",
-  "cars",
-  "cast_end",
-  "cast_offset",
-  "cast_radius",
-  "cast_shadows",
-  "cast_start",
-  "ccdirector",
-  "ccenemy",
-  "center_of_mass",
-  "center_offset",
-  "chainsaw_effect_offset_1",
-  "chainsaw_effect_offset_2",
-  "challenge.onDie",
-  "chance_time",
-  "change_dof",
-  "change_dof_cutscene",
-  "change_fov",
-  "change_fov_cutscene",
-  "change_weather_probability",
-  "char",
-  "character",
-  "character_alias",
-  "character_grace_period",
-  "character_impact_effect",
-  "character_kill_immediately",
-  "character_level",
-  "character_loot_time",
-  "character_on_enter_event",
-  "character_on_leave_event",
-  "character_pardon_on_leave",
-  "character_scoped_relay_event",
-  "character_sets",
-  "characters",
-  "characters_to_spawn",
-  "chassi_controlled_lod",
-  "check",
-  "check_deform_type",
-  "check_if_storm_is_active",
-  "check_is_empty",
-  "check_legend",
-  "check_loot",
-  "check_loot_event",
-  "check_mo_in_area",
-  "check_on_creation",
-  "check_status_event",
-  "check_triggers",
-  "child_bone_name",
-  "chum",
-  "chum_control",
-  "chumbucket",
-  "chumbucket_mechanic",
-  "chums_buggy",
-  "cinematic_shadow_priority",
-  "cinematic_temps",
-  "cinematics",
-  "civilean_smellies",
-  "clamp_max_exposure",
-  "clamp_min_exposure",
-  "clamp_to_edge",
-  "clamp_to_edge_distance",
-  "clamp_to_screen",
-  "cleanup_mm1012",
-  "clear_attached_effects_event",
-  "clear_event",
-  "climate_zone_name",
-  "climb_onto",
-  "clip",
-  "clone_at_object",
-  "clone_factory",
-  "clone_property_name",
-  "cloud_shadow_intensity",
-  "cloud_shadow_intensity_enabled",
-  "cloud_shadow_intensity_wind",
-  "cloud_shadow_intensity_wind_enabled",
-  "cloud_shadow_speed",
-  "cloud_shadow_speed_enabled",
-  "cloud_shadow_texture_path",
-  "cloud_shadow_tiling",
-  "cloud_shadow_tiling_enabled",
-  "cloud_shadow_wind_speed_multiplier",
-  "cloud_shadow_wind_speed_multiplier_enabled",
-  "cloud_shadows_apply_mode",
-  "co1010",
-  "cockroaches",
-  "collect_loot",
-  "collect_loot_event",
-  "collide_character",
-  "collide_with_character_scalar",
-  "collision",
-  "collisionVisualDamageHandler",
-  "collision_effect_impact_fall_off",
-  "collision_effect_impact_force_threshold",
-  "collision_effect_impact_hold_time",
-  "collision_effect_impact_min_normal_proj",
-  "collision_effect_input_name_impact",
-  "collision_effect_input_name_roll",
-  "collision_effect_input_name_slide",
-  "collision_effect_name_impact",
-  "collision_effect_name_roll",
-  "collision_effect_name_slide",
-  "collision_effect_roll_fall_off",
-  "collision_effect_roll_force_threshold",
-  "collision_effect_roll_hold_time",
-  "collision_effect_roll_min_normal_proj",
-  "collision_effect_scalar",
-  "collision_effect_slide_fall_off",
-  "collision_effect_slide_force_threshold",
-  "collision_effect_slide_hold_time",
-  "collision_effect_slide_min_normal_proj",
-  "collision_enabled",
-  "color",
-  "color_curve",
-  "color_curve_apply_mode",
-  "color_curve_texture_path_a",
-  "color_curve_texture_path_a_enabled",
-  "color_multiplier",
-  "color_tint",
-  "colour",
-  "combat",
-  "combat_offset",
-  "common",
-  "common_xvm_libraries",
-  "companion",
-  "companion_character",
-  "companion_type",
-  "complete_intel_event",
-  "complete_tracked_item",
-  "completed",
-  "completetion_delay_time",
-  "concrete_pipes",
-  "cone_allowed_degrees",
-  "cone_limit",
-  "connect_to_gui",
-  "consume_event",
-  "containers",
-  "control_alias",
-  "control_music",
-  "controller_preset",
-  "controller_rumble",
-  "controller_type",
-  "convex_polygon_points",
-  "convex_polygon_sizes",
-  "convoy",
-  "convoy_lead",
-  "cooldown",
-  "coordinator",
-  "corpses",
-  "count",
-  "create",
-  "create_aliased_controller_when_used",
-  "create_on_enabled",
-  "creation_context",
-  "crossSectionalArea",
-  "crowdazzleDialogue",
-  "cruise_max_offset_distance",
-  "cruise_min_offset_distance",
-  "cruise_offset_maxspeed",
-  "crusher",
-  "cue_name",
-  "cull_distance",
-  "cull_fade_time",
-  "culling_validation_range",
-  "customCollisionHandler",
-  "custom_event_1_receive",
-  "custom_event_1_send",
-  "custom_variable",
-  "custom_variable_value",
-  "cut_from_event",
-  "cut_navmesh",
-  "cut_navmesh_disconnected",
-  "cut_navmesh_unlocked",
-  "cut_to_event",
-  "cutoff_angle_begin",
-  "cutoff_angle_end",
-  "cutsceneDone",
-  "cutsceneStart",
-  "cutscene_fade",
-  "cutscene_spawnpoint",
-  "cylinder_shape",
-  "damageConfigId",
-  "damageTracker",
-  "damage_controller",
-  "damage_destruction_controller_group_game_object",
-  "damage_impact",
-  "damage_offset_detection_radius",
-  "damage_offset_enabled",
-  "damage_over_threshold",
-  "damage_radius",
-  "damage_to_health_component",
-  "damage_to_health_component_percent_value",
-  "damage_tracker_graph_start",
-  "damage_type",
-  "damageables",
-  "damaged",
-  "damping",
-  "dashboard",
-  "day_cycle_length_in_minutes",
-  "daze_chance_multiplier",
-  "daze_effect_name",
-  "deactivate_control",
-  "deactivate_event",
-  "deactivate_reverb_instance_event",
-  "deactivate_reverb_instance_on_disabled",
-  "deactivation_tags",
-  "dead_graph_block",
-  "dead_graph_reset",
-  "dead_graph_start",
-  "dead_graph_start_from_signature",
-  "dead_graph_unblock",
-  "death_fire_effect",
-  "death_run_legendary_time",
-  "death_run_success_time",
-  "deathrun_modifier",
-  "debris_can_fade_out",
-  "debris_fade_duration",
-  "debris_fade_max_rnd",
-  "debris_fade_start",
-  "debris_model_scaling_enabled",
-  "debris_quality",
-  "debug",
-  "debugHealthDrawLocation",
-  "debugShowHealth",
-  "debug_draw",
-  "debug_draw_range_radius",
-  "debug_draw_sight_range",
-  "debug_info",
-  "debug_reload",
-  "decals",
-  "decayHFRatio",
-  "decayTime",
-  "deceleration",
-  "deceleration_time",
-  "decline_event",
-  "decoration",
-  "decorationsset",
-  "decorative_text",
-  "decrease_alive_count_event",
-  "decrease_animation_speed",
-  "decrease_count_distance",
-  "deep_friah",
-  "deepfriah",
-  "default",
-  "default_blur",
-  "default_dof_chromatic_aberration",
-  "default_dof_effect_far",
-  "default_dof_effect_near",
-  "default_dof_focal_far",
-  "default_dof_focal_near",
-  "default_dof_height_falloff",
-  "default_dof_transition_far",
-  "default_dof_transition_near",
-  "default_fov",
-  "default_value",
-  "defender",
-  "deflate",
-  "deform_threshold",
-  "deformation.off",
-  "deformation.on",
-  "delay",
-  "delay_event_send",
-  "delay_time",
-  "delayed_start_timer",
-  "demand_loading_enabled",
-  "density",
-  "depends_on_name",
-  "deplete_all_threat_in_region",
-  "deplete_all_threat_in_territory",
-  "deplete_on_event",
-  "deploy_act",
-  "deployer",
-  "depreoritized_area_logic",
-  "depth",
-  "desc_id",
-  "desired_distance",
-  "desired_door_state",
-  "despawn",
-  "despawn_distance",
-  "despawn_event",
-  "despawn_hierarchy_depth",
-  "despawn_time",
-  "despawn_when_dead",
-  "destroy_effect",
-  "destroy_shattering_effect_base",
-  "destroy_shattering_effect_level_1",
-  "destroy_shattering_effect_level_2",
-  "destruction_damage_controller",
-  "detected_by_player_cooldown",
-  "detected_by_player_max_radius",
-  "deviation_enable",
-  "dia.chumbucket",
-  "dialog",
-  "dialogue",
-  "dialogue_donut",
-  "dialogue_handbrake_turn",
-  "dialogue_jump_fall",
-  "dialogue_jump_in_air",
-  "dialogue_topspeed",
-  "dialogue_type",
-  "dialouge_length",
-  "diegetic",
-  "diffuse",
-  "diffuse_texture",
-  "diffuseweight",
-  "diffusion",
-  "digglings",
-  "diner",
-  "direct_path_gain",
-  "direction_triggers",
-  "disable",
-  "disable_avoidance",
-  "disable_boost",
-  "disable_challenge_hud",
-  "disable_chance",
-  "disable_collision",
-  "disable_collision_event",
-  "disable_controls",
-  "disable_destructable_event",
-  "disable_driving_event",
-  "disable_drop_event",
-  "disable_event",
-  "disable_gate_event",
-  "disable_gate_spawn",
-  "disable_generator",
-  "disable_healthbar",
-  "disable_hit_and_run",
-  "disable_icon_override",
-  "disable_ignite_event",
-  "disable_increase_event",
-  "disable_motor",
-  "disable_on_event",
-  "disable_outside_max_distance",
-  "disable_particle_clipper_event",
-  "disable_parts",
-  "disable_player_attack",
-  "disable_render_event",
-  "disable_request_interaction",
-  "disable_shotgun_target_event",
-  "disable_sound",
-  "disable_spawning_event",
-  "disable_stone_throwing",
-  "disable_target",
-  "disable_throw_event",
-  "disable_trigger",
-  "disable_wind_event",
-  "disable_wire",
-  "disable_xy0_plane",
-  "disable_xy1_plane",
-  "disable_xz0_disc",
-  "disable_xz0_plane",
-  "disable_xz1_disc",
-  "disable_xz1_plane",
-  "disable_yz0_plane",
-  "disable_yz1_plane",
-  "disabled_for_chumbucket",
-  "disableonevent",
-  "disc_xz1_(top)_disable",
-  "discard_saved_event",
-  "disconnect_after_deform_threshold",
-  "disconnect_default_velocity",
-  "disconnect_from_gui",
-  "display_name",
-  "displayed_name",
-  "distance_allowed",
-  "distance_fov_end",
-  "distance_fov_start",
-  "distance_fraction_parameter",
-  "distance_parameter",
-  "distance_parameter_2",
-  "distance_push_length",
-  "distance_push_start",
-  "distance_safe",
-  "distance_that_max_has_to_be_away",
-  "distance_to_ground",
-  "distance_to_player_trigger",
-  "do_act_event",
-  "do_action_on_event",
-  "do_not_shoot_if_target_in_vehicle",
-  "do_unaware_patrol",
-  "dof_algorithm",
-  "dof_chromatic_aberration",
-  "dof_distance_end",
-  "dof_distance_start",
-  "dof_far_transition",
-  "dof_focus_seek_speed",
-  "dof_height_falloff",
-  "dof_max_far",
-  "dof_max_near",
-  "dof_min_focus_distance",
-  "dof_near_transition",
-  "dof_target_bone",
-  "dof_time_fraction_end",
-  "dof_time_fraction_start",
-  "dof_transition_far",
-  "dof_transition_near",
-  "dog",
-  "dont_want_water",
-  "door_exists",
-  "door_side",
-  "doors",
-  "double_sided",
-  "down_event",
-  "drag",
-  "draw_sidewalk_line",
-  "dressing",
-  "driver_flee",
-  "driving_intent",
-  "drop_at_start",
-  "dropkick",
-  "dualwield_modifier",
-  "duration",
-  "dynamic",
-  "dynamic_pathfinding",
-  "dynamic_scaling",
-  "dynamic_stuff",
-  "e001",
-  "e002",
-  "e3_demo",
-  "ease_out_value",
-  "economy_resource",
-  "economy_resource_amount_required",
-  "economy_resource_detection_range",
-  "economy_resource_parent",
-  "economy_resource_scrap",
-  "economy_resource_shiv",
-  "economy_resource_shotgun",
-  "economy_resource_sniper",
-  "economy_resource_thunderstick",
-  "economy_resource_water",
-  "edge_layer",
-  "editor_broken_state_alpha",
-  "editor_play",
-  "effectSplutter",
-  "effect_detached",
-  "effect_engine_start",
-  "effect_exhaust",
-  "effect_exhaust2",
-  "effect_exhaust3",
-  "effect_exhaust4",
-  "effect_exhaust5",
-  "effect_exhaust6",
-  "effect_exhaust7",
-  "effect_exhaust8",
-  "effect_exhaust_backfire_0",
-  "effect_exhaust_backfire_1",
-  "effect_exhaust_backfire_2",
-  "effect_exhaust_backfire_3",
-  "effect_exhaust_backfire_4",
-  "effect_exhaust_backfire_5",
-  "effect_exhaust_backfire_small_0",
-  "effect_exhaust_backfire_small_1",
-  "effect_exhaust_backfire_small_2",
-  "effect_exhaust_backfire_small_3",
-  "effect_exhaust_backfire_small_4",
-  "effect_exhaust_backfire_small_5",
-  "effect_fade_box_offset",
-  "effect_fade_box_size",
-  "effect_name",
-  "effect_name_low_quality",
-  "effect_offset",
-  "effect_optimization",
-  "effect_point_emitter",
-  "effect_settings_file",
-  "effect_skid_attack_time",
-  "effect_skid_release_time",
-  "effect_spawner_collision_impact",
-  "effect_spawner_collision_slide",
-  "effect_spawner_collision_undercarriage",
-  "effect_spawner_group",
-  "effect_spawner_player_health",
-  "effect_spawner_suspension_compression",
-  "effect_spawner_suspension_relaxation",
-  "effect_spawner_undercarriage_trail",
-  "effect_spawner_wheel_front_left_roll",
-  "effect_spawner_wheel_front_left_skid",
-  "effect_spawner_wheel_front_right_roll",
-  "effect_spawner_wheel_front_right_skid",
-  "effect_spawner_wheel_rear_left_roll",
-  "effect_spawner_wheel_rear_left_skid",
-  "effect_spawner_wheel_rear_left_spin",
-  "effect_spawner_wheel_rear_left_spin_reverse",
-  "effect_spawner_wheel_rear_right_roll",
-  "effect_spawner_wheel_rear_right_skid",
-  "effect_spawner_wheel_rear_right_spin",
-  "effect_spawner_wheel_rear_right_spin_reverse",
-  "effect_spin_spray_attack_time",
-  "effect_spin_spray_release_time",
-  "effect_spinspray_attack_time",
-  "effect_spinspray_release_time",
-  "effect_threshold_roll",
-  "effect_threshold_skid",
-  "effect_threshold_spin",
-  "effect_threshold_suspension_compression_length",
-  "effect_threshold_suspension_compression_speed",
-  "effect_threshold_suspension_relaxation_length",
-  "effect_threshold_suspension_relaxation_speed",
-  "effect_wheel_contact_release_time",
-  "eject_shell_effect_name",
-  "eject_shell_effect_offset",
-  "elastic_constraint",
-  "elasticity",
-  "elasticity_base",
-  "elasticity_ramp",
-  "elasticity_ramp_range",
-  "elevation_dead_zone",
-  "emit_on_event",
-  "emit_sensor_event",
-  "enable",
-  "enable.prompt.event",
-  "enable_activation_on_event",
-  "enable_avoidance",
-  "enable_buoyancy",
-  "enable_by_default",
-  "enable_challenge_hud",
-  "enable_controls",
-  "enable_debugging",
-  "enable_destructable_event",
-  "enable_driving_event",
-  "enable_drop_event",
-  "enable_event",
-  "enable_flash_effect",
-  "enable_generator",
-  "enable_ignite_event",
-  "enable_increase_event",
-  "enable_infinite_gear",
-  "enable_motor",
-  "enable_object_collision",
-  "enable_on_event",
-  "enable_particle_clipper_event",
-  "enable_parts",
-  "enable_render_event",
-  "enable_request_interaction",
-  "enable_shotgun_target_event",
-  "enable_spawning_event",
-  "enable_specular",
-  "enable_throw_event",
-  "enable_trigger",
-  "enable_wind_event",
-  "enable_wire",
-  "enabled",
-  "enabled_from_start",
-  "enableonevent",
-  "enc1000",
-  "enc1010.shooting_range",
-  "enc1020.logic",
-  "encampment",
-  "encampment_anchor",
-  "encampment_gui_name",
-  "encampment_leader",
-  "encampment_logic",
-  "encampment_name",
-  "encampment_navigation",
-  "encampments",
-  "encounter_system",
-  "encounter_type",
-  "end_fraction",
-  "end_on_button",
-  "end_point",
-  "end_time",
-  "enemy_lowhealth_event",
-  "enemy_pool",
-  "engine.running",
-  "engine.stopped",
-  "engine_not_pre_installed",
-  "engine_pre_installed",
-  "engine_startup_time",
-  "enter_event",
-  "entities",
-  "entity_alias",
-  "entrance",
-  "entrance_logic",
-  "entry",
-  "entry_node",
-  "entry_position_obstruction",
-  "entry_position_projection",
-  "entry_prio",
-  "entry_transform",
-  "entry_type",
-  "envelope_slope_type",
-  "envelope_start_event",
-  "envelope_stop_event",
-  "envelope_value0",
-  "envelope_value1",
-  "envelope_width",
-  "enviroment",
-  "environment",
-  "environment_damage_factor",
-  "equipment_name",
-  "estimated_acceleration",
-  "evaluation_order",
-  "evaluation_priority",
-  "event",
-  "event_0",
-  "event_create",
-  "event_delay_start",
-  "event_disable",
-  "event_disable_dynamic_scaling",
-  "event_disable_instant",
-  "event_disable_xy0_plane",
-  "event_disable_xy1_plane",
-  "event_disable_xz0_disc",
-  "event_disable_xz0_plane",
-  "event_disable_xz1_disc",
-  "event_disable_xz1_plane",
-  "event_disable_yz0_plane",
-  "event_disable_yz1_plane",
-  "event_disengage",
-  "event_enable",
-  "event_enable_dynamic_scaling",
-  "event_enable_xy0_plane",
-  "event_enable_xy1_plane",
-  "event_enable_xz0_disc",
-  "event_enable_xz0_plane",
-  "event_enable_xz1_disc",
-  "event_enable_xz1_plane",
-  "event_enable_yz0_plane",
-  "event_enable_yz1_plane",
-  "event_engage",
-  "event_executed",
-  "event_finished_loading",
-  "event_finished_playing",
-  "event_id",
-  "event_key_off",
-  "event_kill_and_play",
-  "event_load",
-  "event_name",
-  "event_on_create",
-  "event_on_created",
-  "event_on_kicked",
-  "event_play",
-  "event_radius",
-  "event_receive_matrix",
-  "event_release",
-  "event_stop",
-  "event_stop_instant",
-  "event_stop_retriggering",
-  "event_to_send",
-  "event_type",
-  "event_unload",
-  "events",
-  "everything_collected",
-  "evolve_factor",
-  "evolve_time",
-  "excludeSnipeWeakspotByTag",
-  "exclude_farlocation",
-  "exclude_player",
-  "exclude_player_damage",
-  "exclude_player_vehicle",
-  "exclude_vehicles",
-  "exclusive",
-  "execute_on_disabled",
-  "execute_on_enabled",
-  "execute_on_removed_from_world",
-  "exhaust_script",
-  "exit",
-  "exit_distance",
-  "exit_event",
-  "exit_position_obstruction",
-  "exit_position_projection",
-  "exit_state",
-  "exit_transform",
-  "expired_event",
-  "explode_effect",
-  "explode_event",
-  "explode_radius",
-  "explosion",
-  "explosion2",
-  "explosion_animation_event",
-  "explosion_effect",
-  "explosion_effect_direction",
-  "explosion_effect_offset",
-  "explosion_fire_damage_radius",
-  "explosion_force_pulse",
-  "explosion_fx",
-  "explosion_id",
-  "explosion_protection",
-  "explosion_type_name",
-  "exposure",
-  "exposure_speed_down",
-  "exposure_speed_up",
-  "extended_fov",
-  "extension_max_speed",
-  "extension_max_velocity",
-  "external_spline_name",
-  "extra_layer",
-  "extrude",
-  "eye_gloss_intensity",
-  "eye_reflection_bearing",
-  "eye_reflection_intensity",
-  "eye_specular_fresnel_falloff_dist",
-  "eye_specular_fresnel_falloff_dist_enabled",
-  "face_bone",
-  "faction",
-  "faction_type",
-  "factory_interior",
-  "fade_color",
-  "fade_from_event",
-  "fade_in",
-  "fade_in_duration",
-  "fade_in_event",
-  "fade_in_time",
-  "fade_offset",
-  "fade_out",
-  "fade_out_duration",
-  "fade_out_event",
-  "fade_out_inner_radius",
-  "fade_out_outer_radius",
-  "fade_out_player",
-  "fade_out_time",
-  "fade_player",
-  "fade_range",
-  "fade_time",
-  "fade_to_event",
-  "fail_conditions",
-  "fall_protection",
-  "falloff",
-  "false_event",
-  "fang",
-  "far_load_distance",
-  "far_resolution",
-  "far_size",
-  "far_update_time_in_ms",
-  "fast_travel",
-  "fast_travel_ref",
-  "fecal",
-  "fence_entity",
-  "feral",
-  "feral_blaster",
-  "file",
-  "filename",
-  "filter_blend_mask_flags",
-  "filter_type",
-  "final_gear_rpm_smoothing",
-  "fire",
-  "fireSplutterOff",
-  "fireSplutterOn",
-  "fire_blank_effect_name",
-  "fire_damage_radius",
-  "fire_effect_name",
-  "fire_flame_effect_name",
-  "fire_flare_event",
-  "fire_protection",
-  "fire_radius",
-  "fire_raider",
-  "fire_sound_effect_name",
-  "firedamage_effect",
-  "fireeffectpos",
-  "fireimpact_effect",
-  "firemode",
-  "fireraider",
-  "firerate",
-  "first_cluster",
-  "first_enter_event",
-  "first_gear_rpm_smoothing",
-  "first_person_aiming_azimuth_threshold",
-  "fixed_time_step",
-  "flag",
-  "flameObject",
-  "flame_effect_spawner_reference",
-  "flame_event",
-  "flame_handler",
-  "flame_main_control",
-  "flame_pipes",
-  "flatten_terrain",
-  "flee_dist",
-  "flicker_frequency1",
-  "flicker_frequency2",
-  "flicker_frequency3",
-  "flicker_light_influence",
-  "flicker_position_influence",
-  "flicker_radius_influence",
-  "flies",
-  "flip_matrix_multiplication",
-  "flip_z",
-  "float_track_parameter_0",
-  "floating_bobble",
-  "flow",
-  "focal_distance_far",
-  "focal_distance_far_fraction",
-  "focal_distance_near",
-  "focal_distance_near_fraction",
-  "focal_range",
-  "focal_range_max_scale",
-  "focal_range_min_scale",
-  "focus_point",
-  "fog_apply_mode",
-  "fog_color_away_multiplier",
-  "fog_color_away_multiplier_enabled",
-  "fog_color_away_sun",
-  "fog_color_away_sun_enabled",
-  "fog_color_towards_multiplier",
-  "fog_color_towards_multiplier_enabled",
-  "fog_color_towards_sun",
-  "fog_color_towards_sun_enabled",
-  "fog_color_wind",
-  "fog_color_wind_enabled",
-  "fog_color_wind_intensity_multiplier",
-  "fog_color_wind_intensity_multiplier_enabled",
-  "fog_color_wind_multiplier",
-  "fog_color_wind_multiplier_enabled",
-  "fog_distance_end",
-  "fog_distance_end_enabled",
-  "fog_distance_end_wind_multiplier",
-  "fog_distance_end_wind_multiplier_enabled",
-  "fog_distance_start",
-  "fog_distance_start_enabled",
-  "fog_distance_start_wind",
-  "fog_distance_start_wind_enabled",
-  "fog_height_apply_mode",
-  "fog_height_density",
-  "fog_height_density_enabled",
-  "fog_height_gradient",
-  "fog_height_gradient_enabled",
-  "fog_height_gradient_wind_multiplier",
-  "fog_height_gradient_wind_multiplier_enabled",
-  "fog_height_range",
-  "fog_height_range_enabled",
-  "fog_height_start",
-  "fog_height_start_enabled",
-  "fog_modulation",
-  "fog_pollution",
-  "fog_pollution_enabled",
-  "fog_smoothing_rate",
-  "fog_volume_ambient_color",
-  "fog_volume_ambient_color_enabled",
-  "fog_volume_color",
-  "fog_volume_color_enabled",
-  "fog_volume_color_multiplier",
-  "fog_volume_distribution",
-  "fog_volume_distribution_enabled",
-  "fog_volume_exposure_influence",
-  "fog_volume_exposure_influence_wind",
-  "fog_volume_exposure_multiplier",
-  "fog_volume_exposure_power",
-  "fog_volume_far_apply_mode",
-  "fog_volume_height_falloff",
-  "fog_volume_height_falloff_enabled",
-  "fog_volume_height_falloff_wind_multiplier",
-  "fog_volume_height_falloff_wind_multiplier_enabled",
-  "fog_volume_intensity",
-  "fog_volume_intensity_enabled",
-  "fog_volume_intensity_wind_multiplier",
-  "fog_volume_intensity_wind_multiplier_enabled",
-  "fog_volume_near_apply_mode",
-  "fog_volume_noise_apply_mode",
-  "fog_volume_noise_intensity",
-  "fog_volume_noise_intensity_enabled",
-  "fog_volume_noise_speed",
-  "fog_volume_noise_speed_enabled",
-  "fog_volume_noise_speed_wind_multiplier",
-  "fog_volume_noise_speed_wind_multiplier_enabled",
-  "fog_volume_noise_tiling",
-  "fog_volume_noise_tiling_enabled",
-  "fog_volume_noise_vertical_speed",
-  "fog_volume_noise_vertical_speed_enabled",
-  "fog_volume_quality",
-  "fog_volume_quality_enabled",
-  "fog_volume_range",
-  "fog_volume_range_enabled",
-  "fog_volume_range_far",
-  "fog_volume_range_far_enabled",
-  "fog_volume_ray_color",
-  "fog_volume_ray_color_enabled",
-  "fog_volume_ray_contrast",
-  "fog_volume_ray_contrast_enabled",
-  "fog_volume_ray_height_falloff",
-  "fog_volume_ray_height_falloff_enabled",
-  "fog_volume_ray_height_falloff_wind_multiplier",
-  "fog_volume_ray_height_falloff_wind_multiplier_enabled",
-  "fog_volume_ray_intensity",
-  "fog_volume_ray_intensity_enabled",
-  "fog_volume_ray_intensity_wind_multiplier",
-  "fog_volume_ray_intensity_wind_multiplier_enabled",
-  "fog_volume_wind_color",
-  "fog_volume_wind_color_enabled",
-  "follow_alias",
-  "follow_alias_local_matrix",
-  "follow_sun_offset",
-  "food",
-  "food_depots",
-  "forceNormal",
-  "forceNormalVector",
-  "force_activate_on_spawn",
-  "force_collision_group_to_terrain",
-  "force_damage",
-  "force_destroy",
-  "force_enable",
-  "force_enable_fast_travel",
-  "force_enable_object",
-  "force_explode_event",
-  "force_farlocation",
-  "force_instant",
-  "force_kill_on_unload",
-  "force_level_1",
-  "force_level_2",
-  "force_level_3",
-  "force_level_4",
-  "force_level_5",
-  "force_lod_event",
-  "force_lod_reset_event",
-  "force_power",
-  "force_prompt_refresh",
-  "force_pulse",
-  "force_pulse_lvl2",
-  "force_pulse_lvl3",
-  "force_pulse_lvl4",
-  "force_save_as_broken",
-  "force_spawn",
-  "force_target_on_spawn",
-  "force_terrain_system_group",
-  "force_vehicle_only_layer",
-  "forced_collision_group",
-  "format_data_0",
-  "format_data_1",
-  "format_data_2",
-  "format_data_3",
-  "forward_event",
-  "forward_offset",
-  "found_icon_event",
-  "fov",
-  "fov_algorithm",
-  "fov_padding",
-  "fov_time_fraction_end",
-  "fov_time_fraction_start",
-  "fps",
-  "frame",
-  "frame_increase_value",
-  "freeroam",
-  "friction",
-  "from_position_offset",
-  "front_obstacle",
-  "fuel",
-  "fuelConsumptionRate",
-  "fuel_depots",
-  "fuel_empty_event",
-  "fuel_full_ratio_required",
-  "fuel_initial_level_event",
-  "fuel_is_scrap_based",
-  "fuel_low_event",
-  "fuel_required",
-  "fuel_resource",
-  "fuel_resource_object",
-  "function",
-  "functionName",
-  "fuse_time",
-  "fx.look_at",
-  "fx.looping",
-  "fx.triggered",
-  "gain",
-  "game_object_alias",
-  "game_object_link",
-  "gameplayDamageHandler",
-  "gameplay_logic",
-  "gameplay_missions",
-  "gamescom_demo",
-  "gamestate",
-  "gameworld_global",
-  "gameworld_player",
-  "gamma",
-  "gang_leader_emit_radius",
-  "garage_crowdazzle",
-  "garage_gastown",
-  "gastown_corpses",
-  "gastown_vfx",
-  "general",
-  "generator_disabled_event",
-  "geo",
-  "gimp",
-  "gimps",
-  "give",
-  "give_item",
-  "give_item_0",
-  "give_item_1",
-  "global",
-  "global_apply_mode",
-  "global_light_cull_distance",
-  "global_light_cull_distance_enabled",
-  "global_light_diffuse_scale",
-  "global_light_diffuse_scale_enabled",
-  "global_light_scale",
-  "global_light_specular_scale",
-  "global_light_specular_scale_enabled",
-  "global_load_order",
-  "global_reverb_patches",
-  "global_tracks",
-  "go_to_ground",
-  "goto_event",
-  "graffiti",
-  "graphscript_globals",
-  "gravity",
-  "grind_damage_effect_spawner1",
-  "grind_damage_effect_spawner2",
-  "grind_damage_effect_spawner3",
-  "grind_damage_effect_spawner4",
-  "grindingDamageScale",
-  "grindingEffectHandler",
-  "ground_camera_height",
-  "group_member_0",
-  "group_member_1",
-  "group_member_2",
-  "group_member_3",
-  "group_member_4",
-  "group_member_5",
-  "group_member_6",
-  "group_member_7",
-  "group_member_8",
-  "group_member_9",
-  "gui_message_hide",
-  "gui_message_show",
-  "gui_wielded_item_name",
-  "gutgash",
-  "gutgash_threat_level_4_or_less",
-  "gutgash_threat_level_5",
-  "hack_collision_off",
-  "hair_shadow_priority",
-  "hair_specular_light_intensity",
-  "hair_specular_light_intensity_enabled",
-  "hand_bone",
-  "handbrake_stop",
-  "has_atleast_attr_id",
-  "has_atleast_level",
-  "has_atleast_part_id",
-  "has_fuel_compare",
-  "has_loot",
-  "has_loot_event",
-  "has_tail_port",
-  "has_zero_loot_event",
-  "hdr_control_clamp_max_exposure",
-  "hdr_control_clamp_max_exposure_enabled",
-  "hdr_control_clamp_min_exposure",
-  "hdr_control_clamp_min_exposure_enabled",
-  "hdr_control_enabled_manual_exposure",
-  "hdr_control_enabled_manual_exposure_enabled",
-  "hdr_control_exposure_speed_down",
-  "hdr_control_exposure_speed_up",
-  "hdr_control_histogram_adaption_speed",
-  "hdr_control_histogram_bucket_distribution",
-  "hdr_control_influence_window_bias_height",
-  "hdr_control_influence_window_bias_width",
-  "hdr_control_influence_window_scale_height",
-  "hdr_control_influence_window_scale_width",
-  "hdr_control_manual_exposure",
-  "hdr_control_manual_exposure_enabled",
-  "hdr_control_max_raw_hdr_range",
-  "hdr_control_target_bright_point",
-  "hdr_control_target_bright_point_enabled",
-  "hdr_multiplier",
-  "head_bump_height",
-  "head_bump_inner_radius",
-  "head_bump_outer_radius",
-  "header_id",
-  "headlight_deformation_off",
-  "headlight_deformation_on",
-  "headlights.force.off",
-  "headlights.force.on",
-  "headlights.override.daynight.off",
-  "headlights.override.daynight.on",
-  "health",
-  "healthComponent",
-  "healthPctTriggerValue",
-  "healthStateHandler",
-  "health_is_scrap_based",
-  "health_pct_effect_triggers",
-  "health_required",
-  "healthbar",
-  "healthtrigger_critical_event",
-  "healthtrigger_event",
-  "healthtriggger_limit",
-  "heat_haze",
-  "heat_haze_distance",
-  "heat_haze_height_falloff",
-  "heat_haze_wind_multiplier",
-  "height",
-  "height_max",
-  "height_max_when_npc_controlled",
-  "height_offset",
-  "hfReference",
-  "hide_after_deform_threshold",
-  "hide_common_upgrades",
-  "hide_event",
-  "hide_gps_event",
-  "hide_obstacles",
-  "hide_on_event",
-  "hide_timer",
-  "hideonevent",
-  "hideout_scrap_objective_icons",
-  "high_priority",
-  "highway_road_blend_test",
-  "highway_tunnel",
-  "histogram_adaption_speed",
-  "histogram_bucket_distribution",
-  "hit_by_bullet_script",
-  "hit_by_collision_script",
-  "hit_by_explosion_script",
-  "hit_by_fire_script",
-  "hit_characters",
-  "hit_scan",
-  "hold_timer_apply",
-  "hold_timer_reset",
-  "hook_attach_effect",
-  "hook_detach_effect",
-  "hope",
-  "huge_scrap_increase",
-  "hurt_area",
-  "hv_01",
-  "hv_02",
-  "hv_03",
-  "icon_alias",
-  "icon_id",
-  "icon_revealed",
-  "icon_text",
-  "id",
-  "id_event_activation",
-  "idle_chainsaw_effect_1",
-  "idle_chainsaw_effect_2",
-  "ignoreCollisionIfDestroyed",
-  "ignore_camera",
-  "ignore_characters",
-  "ignore_collision_if_destroyed",
-  "ignore_faction",
-  "ignore_if_entering",
-  "ignore_instance",
-  "ignore_line_of_sight",
-  "ignore_offset_distance_change",
-  "ignore_parent_instance",
-  "ignore_parent_rotation",
-  "ignore_timediff",
-  "ignore_x",
-  "ignore_y",
-  "ignore_z",
-  "ignored_by_camera",
-  "image",
-  "image_idx0",
-  "image_idx1",
-  "image_idx2",
-  "impact_damage_factor",
-  "impact_damage_threshold",
-  "impact_protection",
-  "impact_warning_effect",
-  "impact_warning_effect_id",
-  "improved_rigidbody_quality",
-  "impulse",
-  "impulse_min",
-  "impulse_predict_algo",
-  "impulse_scale",
-  "impulse_scale_for_collision_strength",
-  "in_air_camera",
-  "in_door",
-  "includer",
-  "increase_animation_speed",
-  "increase_enabled",
-  "increase_stat",
-  "inflate",
-  "influence_range",
-  "infobox_display_position_object",
-  "inherit_direction",
-  "inherit_parent_transform",
-  "inherit_position",
-  "inherit_rotation",
-  "inherit_rotation_from_skybox",
-  "inherit_velocity",
-  "initial_level",
-  "initial_state",
-  "inner_cone",
-  "inner_radius",
-  "input_script",
-  "inside",
-  "inside_event",
-  "inside_set_time",
-  "inside_time_to_set",
-  "instantiate_effect_spawner",
-  "intensity",
-  "interaction",
-  "interaction_context",
-  "interaction_context_1",
-  "interaction_context_2",
-  "interaction_context_3",
-  "interaction_event_activation",
-  "interesting_fov",
-  "interior",
-  "interpolation_type",
-  "interval",
-  "intro",
-  "intro_context_obj",
-  "invalidation_radius",
-  "inverse_result",
-  "invert",
-  "invert_result",
-  "inverted_normal",
-  "inverted_normalize_distance",
-  "invisible_collision",
-  "invulnerable",
-  "is_3d",
-  "is_area_light",
-  "is_boomer",
-  "is_connected_to_encampment_inventory",
-  "is_defender",
-  "is_empty_event",
-  "is_gimp",
-  "is_group_health",
-  "is_guard",
-  "is_higher",
-  "is_hinged",
-  "is_hostile_even_if_allied_faction",
-  "is_indoor",
-  "is_influence_active",
-  "is_initial_gang_leader",
-  "is_inside_event",
-  "is_invulnerable",
-  "is_kingpin",
-  "is_leader",
-  "is_perk",
-  "is_praise",
-  "is_roadkill",
-  "is_rotated_180",
-  "is_running",
-  "is_scavenger",
-  "is_shadow_caster",
-  "is_skinned",
-  "is_spot_light",
-  "is_sun_influenced",
-  "is_thunderstick_boarder",
-  "is_tool",
-  "is_wheel",
-  "is_wheel_armor",
-  "item",
-  "item_carry_interaction_type",
-  "item_category",
-  "item_id",
-  "item_name",
-  "item_obj",
-  "item_pickup_interaction_type",
-  "item_to_turn",
-  "item_transform",
-  "items_restocked",
-  "jeet",
-  "jeet_side_mission_unlocked_check",
-  "jeet_threat_level_4_or_less",
-  "jeet_threat_level_5",
-  "jesusMode",
-  "jesusModeAllowKill",
-  "jimmybar_required",
-  "jump_out_height",
-  "jumper",
-  "keep_orientation",
-  "keep_original_rotation",
-  "keep_start_position",
-  "keep_system_group_object1",
-  "keep_system_group_object2",
-  "keep_up",
-  "key",
-  "key_source",
-  "kill_owner_on_explosion",
-  "kill_percentage",
-  "kill_weakspot_after_deform_threshold",
-  "ladder_context",
-  "ladder_destroyed_event",
-  "ladders",
-  "lag_enabled",
-  "lag_speed_decrease",
-  "lag_speed_increase",
-  "lag_speed_max",
-  "landmover_spawning",
-  "large_stockpile_cost",
-  "last_exit_event",
-  "launch_data_max_velocity",
-  "launch_data_min_distance",
-  "launch_data_min_velocity",
-  "launch_data_velocity_spread",
-  "launcher",
-  "launcher_test",
-  "layer",
-  "layer_index",
-  "layer_name",
-  "layout",
-  "leader",
-  "leader_named_point",
-  "leave_sniper_event",
-  "leave_thunderstick_launcher_event",
-  "leave_timer",
-  "leaving_max_event",
-  "leaving_min_event",
-  "left_slope",
-  "lefthandikpos_x",
-  "lefthandikpos_y",
-  "lefthandikpos_z",
-  "lefthandikrot_p",
-  "lefthandikrot_r",
-  "lefthandikrot_y",
-  "legend_point_added_event",
-  "level",
-  "level_explicit_strength",
-  "lfReference",
-  "life_time",
-  "lift_acceleration",
-  "lift_constant",
-  "lift_deceleration",
-  "lift_velocity",
-  "light_clip_distance",
-  "light_clip_range",
-  "light_direction_bearing",
-  "light_direction_bearing_enabled",
-  "light_direction_height",
-  "light_direction_height_clamp",
-  "light_direction_height_clamp_enabled",
-  "light_direction_height_enabled",
-  "light_scenes",
-  "lightning_protection",
-  "lights",
-  "limb_part",
-  "limit_max",
-  "limit_min",
-  "line_vertex_0",
-  "line_vertex_1",
-  "line_vertex_2",
-  "line_vertex_3",
-  "line_vertex_4",
-  "linear",
-  "linear_damping",
-  "linear_damping_override",
-  "linked_lookat_trigger",
-  "list_position",
-  "lizard_object",
-  "load",
-  "load_event",
-  "load_event_name",
-  "load_on_enabled",
-  "local.start.storm.loot",
-  "local::tire.ondeath",
-  "local::wheel.removed",
-  "local_attach_offset",
-  "local_reflection_apply_mode",
-  "local_reflection_bearing",
-  "local_reflection_bearing_enabled",
-  "local_reflection_cube_map_index",
-  "local_reflection_cube_map_index_enabled",
-  "local_reflection_cubemap_dependency",
-  "local_reflection_cubemap_preload",
-  "local_reflection_scale",
-  "local_reflection_scale_enabled",
-  "local_target_list",
-  "location",
-  "location.activity_presence_enter",
-  "location.activity_presence_exit",
-  "location_event",
-  "location_info_object",
-  "location_key",
-  "location_load_event_bloody_shirt",
-  "location_load_event_chrome",
-  "location_load_event_clean_shirt",
-  "location_load_event_color",
-  "location_load_event_head_arm_0",
-  "location_load_event_head_arm_1",
-  "location_load_event_head_arm_2",
-  "location_load_event_rust",
-  "location_type",
-  "location_unload_event",
-  "location_unload_event_arm",
-  "location_unload_event_router",
-  "lock",
-  "lock_archangels",
-  "lock_for_player_event",
-  "lock_x_axis",
-  "lock_y_axis",
-  "lock_z_axis",
-  "locked_for_player",
-  "logbook_show",
-  "logic",
-  "logic.shared",
-  "lookAtTrigger",
-  "loop",
-  "loop_count",
-  "loop_mode",
-  "loot",
-  "lootbag_instance",
-  "loots",
-  "low_health",
-  "maggots",
-  "magnetable",
-  "magsize",
-  "main_missions",
-  "make_dynamic_event",
-  "make_invulnerable",
-  "make_invulnerable_e3",
-  "make_key_frame",
-  "make_npc_controlled",
-  "make_vulnerable",
-  "map_export_visibility",
-  "map_id",
-  "map_zoomed_in",
-  "map_zoomed_out",
-  "marked",
-  "marked_for_spawn",
-  "marker_event",
-  "mask_offset_x",
-  "mask_offset_y",
-  "mask_scale_x",
-  "mask_scale_y",
-  "mass",
-  "mass_override",
-  "master_object",
-  "match_attr_id",
-  "match_part_id",
-  "material",
-  "material_id",
-  "materials",
-  "matrix_event",
-  "max",
-  "maxHealth",
-  "max_acceleration",
-  "max_active_enemies",
-  "max_alive",
-  "max_alive_offset_deform_scale",
-  "max_angle",
-  "max_angular_acceleration",
-  "max_angular_velocity",
-  "max_angular_velocity_override",
-  "max_ao",
-  "max_boost_capacity",
-  "max_bullet_spread",
-  "max_camera_passthrough_thickness",
-  "max_capacity",
-  "max_count",
-  "max_damage",
-  "max_damagedecal_radius",
-  "max_deceleration",
-  "max_detection_range",
-  "max_deviation_high_rpm_filter",
-  "max_direct_speed",
-  "max_disengage_rage",
-  "max_distance",
-  "max_distance_push_velocity",
-  "max_distance_to_base",
-  "max_dof",
-  "max_dof_far",
-  "max_dof_near",
-  "max_elevation",
-  "max_event",
-  "max_hang_angle",
-  "max_health",
-  "max_instances",
-  "max_instant_range",
-  "max_interpolation_to_end_target",
-  "max_invalidation_penalty",
-  "max_length",
-  "max_linear_velocity",
-  "max_linear_velocity_override",
-  "max_objects",
-  "max_offset",
-  "max_offset_deform_scale",
-  "max_playing_sound_emitters",
-  "max_raw_hdr_range",
-  "max_raycast_dist",
-  "max_rotation_speed",
-  "max_search_range",
-  "max_sound_distance",
-  "max_sound_separation",
-  "max_speed",
-  "max_spread_height",
-  "max_spread_width",
-  "max_top_speed",
-  "max_top_speed_mouse",
-  "max_translation_xz_off",
-  "max_translation_y_off",
-  "max_turn_velocity",
-  "max_upgrades",
-  "max_velocity",
-  "max_visible_azimuth",
-  "max_visible_azimuth_left",
-  "max_visible_azimuth_right",
-  "max_visible_elevation",
-  "maximum_allowed_scrap",
-  "maximum_amplitude",
-  "maximum_angular_impulse",
-  "maximum_linear_impulse",
-  "maximum_speed",
-  "maximum_total_ammo",
-  "me",
-  "medium_stockpile_cost",
-  "melee_protection",
-  "melee_weapon",
-  "melee_weapon_heavy",
-  "melee_weapon_light",
-  "melee_weapon_npc",
-  "meshes",
-  "message_color",
-  "message_fontsize",
-  "message_lifespan",
-  "message_lines",
-  "message_pos",
-  "message_type",
-  "metal_grinder",
-  "mid_resolution",
-  "mid_size",
-  "mid_update_time_in_ms",
-  "min",
-  "min_angle",
-  "min_angular_velocity_to_trigger_roll",
-  "min_collision_dist",
-  "min_collision_strength",
-  "min_count",
-  "min_damage",
-  "min_deviation_angle",
-  "min_deviation_high_rpm_filter",
-  "min_direct_speed",
-  "min_distance_inner",
-  "min_distance_outer",
-  "min_elevation",
-  "min_event",
-  "min_interpolation_to_end_target",
-  "min_invalidation_penalty",
-  "min_length",
-  "min_player_velocity",
-  "min_scaled_speed",
-  "min_speed",
-  "min_spread_height",
-  "min_spread_width",
-  "min_time_between_intents",
-  "min_top_speed",
-  "min_velocity",
-  "min_visible_azimuth",
-  "min_visible_azimuth_left",
-  "min_visible_azimuth_right",
-  "min_visible_elevation",
-  "min_wind_velocity",
-  "min_y",
-  "min_z_velocity",
-  "mine_close_range",
-  "mine_detection_angle",
-  "mine_max_detection_range",
-  "minimap",
-  "minimum_time_in_weather",
-  "minimum_total_ammo",
-  "mirrorPctHealthDamagable",
-  "mission_blocked_state_01",
-  "mission_blocked_state_02",
-  "mission_blocked_state_03",
-  "mission_body",
-  "mission_body_two",
-  "mission_header",
-  "mission_id",
-  "mission_logic",
-  "mission_name",
-  "mission_unblocked_state",
-  "missions",
-  "mm1012",
-  "mm1012_obj00.find_a_way_into_the_underdunes",
-  "mm1020",
-  "mm1021",
-  "mm1021_obj00.mission_starter",
-  "mm1021_obj00a.salvage_scap_inside_hideout",
-  "mm1021_obj00b.collect_the_last_part",
-  "mm1021_obj01.speak_with_chum",
-  "mm1021_obj01b.exit_hideout",
-  "mm1021_obj02.scarecrows",
-  "mm1021_obj03b.enter_the_camp",
-  "mm1021_obj03c.enter_fuel_bunker",
-  "mm1021_obj03d.ignite_fuel_can",
-  "mm1021_obj04.scrap",
-  "mm1021_obj06.find_griffa",
-  "mm1021_obj07.install_nitro",
-  "mm1021_obj08.try_nitro",
-  "mm1021_obj10.return_to_hideout",
-  "mm1032_obj08.speak_to_chum",
-  "mm1032_obj09.exit_stronghold",
-  "mm1032_obj10.sniper_rifle",
-  "mm1032_obj11.reduce_threat",
-  "mm1040_obj00.cs_010",
-  "mm1040_obj01.arrival_at_silo",
-  "mm1040_obj02.catapults",
-  "mm1040_obj03.enter_silo",
-  "mm1040_obj05.silo_fight",
-  "mm2012.garage_entrance_block",
-  "mm2012_obj02.baggage_claim_01",
-  "mm2012_obj03.baggage_claim_02",
-  "mm2012_obj04.lower_the_bridge",
-  "mm2012_obj05.baggage_claim_03",
-  "mm2012_obj06.terminals_01",
-  "mm2012_obj07.atrium_01",
-  "mm2012_obj08.find_a_way_up_to_the_store",
-  "mm2012_obj10.buzzard_attack",
-  "mm2012_obj11.boarding_03",
-  "mm2012_obj12.pick_up_the_lightbulbs",
-  "mm2012_obj12_02.return_to_the_magnum_opus",
-  "mm2012_obj13.shop_fight",
-  "mm2012_obj14.return_to_the_magnum_opus",
-  "mm2012_obj15.escape_the_airport_01",
-  "mm2012_obj16.escape_the_airport_02",
-  "mm2020",
-  "mm2020_logic",
-  "mm2040",
-  "mm2040.silo_exterior_01",
-  "mm2040.silo_interior_01",
-  "mm3010_obj01.cs010",
-  "mm3010_obj02.follow_tire_tracks",
-  "mm3010_obj03.ram_through_gate",
-  "mm3010_obj04.find_way_down",
-  "mm3010_obj05.descend_elevator_shaft",
-  "mm3010_obj06.basement",
-  "mm3010_obj06_b.defeat_buzzards",
-  "mm3010_obj07.first_dig_site",
-  "mm3010_obj08_09_10_11.dig_sites",
-  "mm3010_obj12.investigate_noise",
-  "mm3010_obj13.find_glory",
-  "mm3010_obj14.go_back_out",
-  "mm3010_obj15.buzzard_vehicle_arrive",
-  "mm3010_obj15_a.pick_up_glory",
-  "mm3010_obj16.commandeer_the_buzzard_vehicle",
-  "mm3010_obj17.exit_airport",
-  "mm3010_obj18.return_glory_to_her_mother",
-  "mm3020_obj03_[cinematic]",
-  "mm3020_obj04_[defeat_stank_gum]",
-  "mm3020_obj05_[cinematic]",
-  "mm3020_obj06_[return_to_deep_friahs]",
-  "mm3020_obj07_[cinematic]",
-  "mm3030_obj01_(cut_scene)",
-  "mm3030_obj02_(landmover)",
-  "mm3030_obj03_(suicide_run)",
-  "mm3030_obj04_(joust)",
-  "mm3030_obj05_(cut_scene)",
-  "mmax",
-  "mo_area",
-  "mode",
-  "model",
-  "model_0",
-  "model_base",
-  "model_damaged",
-  "model_filename",
-  "model_identifier",
-  "model_level_1",
-  "model_level_2",
-  "modelpreviewer_visible",
-  "models",
-  "modifier",
-  "modulation_target",
-  "modulator",
-  "module",
-  "molotovs",
-  "molotovs_atrium",
-  "molotovs_terminal_01",
-  "molotovs_terminal_02",
-  "moon_position_bearing",
-  "moon_position_bearing_enabled",
-  "moon_position_height",
-  "moon_position_height_enabled",
-  "motion_blur_algorithm",
-  "motion_blur_factor",
-  "motion_blur_time_fraction_end",
-  "motion_blur_time_fraction_start",
-  "motion_controller",
-  "motion_type",
-  "motors_enabled_on_start",
-  "move_to_player_on_active",
-  "moved_from_dead_barrens_gate",
-  "movement_cast_ahead",
-  "movement_identifier",
-  "mpm_texture",
-  "mpmweight",
-  "multiplier",
-  "multiplier_ambient",
-  "multiplier_diffuse",
-  "multiplier_specular",
-  "multiply_with_distance_to_listener",
-  "music_global_stingers",
-  "music_sfx",
-  "muzzle_effect",
-  "name",
-  "name_id",
-  "named_point_a",
-  "named_point_a_disable",
-  "named_point_a_enable",
-  "named_point_a_pause",
-  "named_point_b",
-  "named_point_b_pause",
-  "named_point_c",
-  "named_point_c_pause",
-  "named_point_d",
-  "named_point_d_pause",
-  "named_point_e",
-  "named_point_e_pause",
-  "named_point_f",
-  "named_point_f_pause",
-  "named_point_g",
-  "named_point_g_pause",
-  "named_point_h",
-  "named_point_h_pause",
-  "named_point_name",
-  "named_points",
-  "navmesh_collision",
-  "navmesh_enabled",
-  "navmesh_excluders",
-  "navmesh_walkable",
-  "nb_segments",
-  "near_cap",
-  "near_fraction",
-  "near_load_distance",
-  "near_resolution",
-  "near_size",
-  "near_update_time_in_ms",
-  "needs_refueling",
-  "nerf_event",
-  "neutral",
-  "never_backwards",
-  "never_exit",
-  "new_material",
-  "new_signature_vehicle",
-  "new_spawning",
-  "next_event",
-  "next_weather",
-  "nightlizard",
-  "no_automatic_unload",
-  "no_create_on_load",
-  "no_culling",
-  "no_loot",
-  "node",
-  "node_identifier",
-  "node_lock_hash",
-  "node_offset_bone",
-  "node_to",
-  "node_transform",
-  "node_transform1",
-  "node_transform2",
-  "noise",
-  "noise_amplitude",
-  "noise_chaos",
-  "noise_frequency",
-  "non_damage_collision_graph_start",
-  "non_damage_impact",
-  "non_damage_impact_undercarriage",
-  "non_damage_roll",
-  "non_damage_slide",
-  "nondamagetracker",
-  "normal_offset",
-  "normal_texture",
-  "normalize_distance",
-  "normalweight",
-  "not_available",
-  "not_enough_scrap",
-  "not_usable",
-  "not_usable_text_id",
-  "note",
-  "npc",
-  "npc_icon_hide_event",
-  "npc_on_enter_event",
-  "npc_on_leave_event",
-  "npc_vehicle",
-  "num_frames",
-  "number_of_vertices",
-  "ob1",
-  "ob2",
-  "obj01.mm2030_cs040",
-  "obj01_[cinematic]",
-  "obj01_[cinemtatic_-_enter_race]",
-  "obj01_[cs_hope__gutgash_conv01]",
-  "obj02.scrotus_fight_01",
-  "obj02_[find_the_garage]",
-  "obj02_[the_race]",
-  "obj03.walkways_01",
-  "obj03_[cinematic_-_survived_the_bomb]",
-  "obj03_[find_the_big_chief]",
-  "obj04_[find_water]",
-  "obj04_[fix_the_big_chief]",
-  "obj04_[take_out_dim_rim]",
-  "obj05_[cinematic_-_defeated_stank_gum]",
-  "obj05_[find_the_dog]",
-  "obj05_[go_to_deep_friars]",
-  "obj05_[recover_talon]",
-  "obj06_[cinematic]",
-  "obj06_[cs_meeting_chum]",
-  "obj06_[fight_with_the_fighter]",
-  "obj06_[speak_to_jeet]",
-  "obj07.scrotus_fight_02",
-  "obj07_[find_wire]",
-  "obj07_[install_talon]",
-  "obj08.mm2040_cs010_p1-4",
-  "obj08_[exit_with_mo]",
-  "obj08_[search_body_for_wire]",
-  "obj09_[explosive_harpoon_tutorial]",
-  "obj09_[keep_searching_for_wire]",
-  "obj10_[goto_dbp]",
-  "obj10_[return_wire_to_chum]",
-  "obj11_[cs_chum_fixes_dog]",
-  "obj12_[carry_dog_to_buggy]",
-  "obj13_[drive_to_marked_point]",
-  "obj13_[take_out_towers]",
-  "obj14_[follow_chum_to_lookout]",
-  "obj15_[cs_interceptor_dismantled]",
-  "obj15_[pull_down_jaw]",
-  "obj16_[follow_chum_back_to_buggy]",
-  "obj17_[drive_to_hideout]",
-  "obj18_[chums_hideout]",
-  "object1",
-  "object2",
-  "object_alias",
-  "object_collision",
-  "object_damage_controller",
-  "object_dmg_factor",
-  "object_impulse_factor",
-  "object_reference",
-  "objective_group_id",
-  "occluders",
-  "occlusion_direct_path",
-  "occlusion_reverb_mix",
-  "occlusion_type",
-  "offroadiness",
-  "offset",
-  "offset1",
-  "offset2",
-  "offset_bone",
-  "offset_in_local_space",
-  "offset_unit",
-  "offset_x",
-  "offset_y",
-  "ogc",
-  "oil_field",
-  "old_material",
-  "onAccumulatedDamaged",
-  "onActivate",
-  "onActivated",
-  "onArmed",
-  "onDamage25pcnt",
-  "onDamage50pcnt",
-  "onDamage75pcnt",
-  "onDamageTaken",
-  "onDeactivate",
-  "onDecorationPartHidden",
-  "onDecorationPartRestored",
-  "onDeploy",
-  "onDestroy",
-  "onDestroyDamagable",
-  "onDetonate",
-  "onDie",
-  "onEmpty",
-  "onExit_Repair",
-  "onExplode",
-  "onFilled",
-  "onFull",
-  "onHit",
-  "onHitByExplosion",
-  "onHitDamaged",
-  "onHitNotDamaged",
-  "onRestock",
-  "onRestore",
-  "onSniperHit",
-  "onStopped",
-  "on_alive_event",
-  "on_armed_event",
-  "on_broken_event",
-  "on_character_buff_added",
-  "on_character_destroyed",
-  "on_clean_up",
-  "on_collision_strength_fail",
-  "on_death",
-  "on_deform_event",
-  "on_delayed_done",
-  "on_depletion",
-  "on_despawn_event",
-  "on_destroy",
-  "on_destroy_event",
-  "on_detected",
-  "on_disabled_interaction",
-  "on_done_event",
-  "on_driver_enter_event",
-  "on_driver_entering_event",
-  "on_driver_exit_event",
-  "on_dropped_event",
-  "on_empty",
-  "on_enter",
-  "on_enter_event",
-  "on_entered_event",
-  "on_envelope_expired",
-  "on_event",
-  "on_exit",
-  "on_exit_event",
-  "on_exit_msg",
-  "on_exited_event",
-  "on_false",
-  "on_fired_event",
-  "on_ground_camera",
-  "on_health_decreased",
-  "on_health_increased",
-  "on_hide_event",
-  "on_hit",
-  "on_hit_by_enemy",
-  "on_hit_by_explosion_event",
-  "on_hit_by_player",
-  "on_hit_damaged",
-  "on_hit_not_damaged",
-  "on_land",
-  "on_load_event",
-  "on_loaded_event",
-  "on_mark_event",
-  "on_non_empty",
-  "on_picked_up_event",
-  "on_race_trophy_selected",
-  "on_reeled_in_event",
-  "on_reeled_out_event",
-  "on_removed",
-  "on_request_griffa_despawn",
-  "on_request_griffa_spawn",
-  "on_screen_damage_effect",
-  "on_show_event",
-  "on_spawn_event",
-  "on_spawn_system_reset",
-  "on_start_engine",
-  "on_stealth",
-  "on_stop",
-  "on_stop_event",
-  "on_threat_changed",
-  "on_time_false",
-  "on_time_true",
-  "on_track_message",
-  "on_tree_fail",
-  "on_tree_success",
-  "on_triggered",
-  "on_true",
-  "on_unload_event",
-  "on_visible",
-  "on_wanderer_full",
-  "once",
-  "only_accept_damage_from",
-  "only_if_currently_lower",
-  "only_once",
-  "only_smooth_y",
-  "opacity",
-  "opacity_multiplier",
-  "open_map",
-  "optional_faction",
-  "order_index",
-  "organicmechanic",
-  "orientation_type",
-  "other_impact_effect",
-  "out_of_items",
-  "outdoor",
-  "outer_cone",
-  "outer_radius",
-  "outline",
-  "outline_type",
-  "outside_event",
-  "outside_set_time",
-  "outside_time_to_set",
-  "override_armor",
-  "override_center_of_mass",
-  "override_collide_chance",
-  "override_disable_event",
-  "override_enable_event",
-  "override_gravity",
-  "override_layer",
-  "override_mass",
-  "override_max_impulse",
-  "override_shadow_settings",
-  "p1",
-  "p10",
-  "p11",
-  "p12",
-  "p13",
-  "p14",
-  "p2",
-  "p3",
-  "p4",
-  "p5",
-  "p6",
-  "p7",
-  "p8",
-  "p9",
-  "paint_terrain_materials",
-  "panic_trigger_distance",
-  "parameter0_name",
-  "parameter1_name",
-  "parameter2_name",
-  "parameter3_name",
-  "parameter4_name",
-  "parameter5_name",
-  "parent_alias",
-  "parent_bone",
-  "parent_link",
-  "parking_sequence",
-  "part",
-  "part000",
-  "part001",
-  "part002",
-  "part003",
-  "part004",
-  "part005",
-  "part006",
-  "part007",
-  "part008",
-  "part009",
-  "part010",
-  "part011",
-  "part012",
-  "part013",
-  "part014",
-  "part015",
-  "part016",
-  "part017",
-  "part018",
-  "part019",
-  "part020",
-  "part021",
-  "part022",
-  "part023",
-  "part024",
-  "part025",
-  "part026",
-  "part027",
-  "part028",
-  "part029",
-  "part030",
-  "part031",
-  "part032",
-  "part033",
-  "part034",
-  "part035",
-  "part036",
-  "part_id",
-  "part_model",
-  "part_name",
-  "part_pfx",
-  "part_type",
-  "particle_ambient_ground",
-  "particle_ambient_ground_multiplier",
-  "particle_ambient_sky",
-  "particle_ambient_sky_multiplier",
-  "particle_diffuse",
-  "particle_diffuse_multiplier",
-  "particle_diffuse_wind",
-  "particle_influence",
-  "particle_light_ambient_ground",
-  "particle_light_ambient_ground_enabled",
-  "particle_light_ambient_ground_multiplier",
-  "particle_light_ambient_ground_multiplier_enabled",
-  "particle_light_ambient_sky",
-  "particle_light_ambient_sky_enabled",
-  "particle_light_ambient_sky_multiplier",
-  "particle_light_ambient_sky_multiplier_enabled",
-  "particle_light_apply_mode",
-  "particle_light_diffuse",
-  "particle_light_diffuse_enabled",
-  "particle_light_diffuse_multiplier",
-  "particle_light_diffuse_multiplier_enabled",
-  "particle_light_diffuse_wind",
-  "particle_light_diffuse_wind_enabled",
-  "particle_modulation",
-  "particle_modulation_delay",
-  "pass_text",
-  "passthrough_radius",
-  "patrol_leader",
-  "pattern_bursts",
-  "pattern_cooldown",
-  "pattern_interval",
-  "pause",
-  "pause_event",
-  "pause_send_event",
-  "pause_weather",
-  "perception_mode",
-  "performance_shape_coords",
-  "pfx",
-  "pfx_filename",
-  "pg_exposure",
-  "physcial_impulse",
-  "physic_impulse",
-  "physics",
-  "physicsPartName",
-  "physics_aerodynamics_script",
-  "physics_drivetrain_script",
-  "physics_drivetrain_script_properties",
-  "physics_gameplay_script",
-  "physics_general",
-  "physics_solver",
-  "physics_steering_script",
-  "physics_tirefriction_script",
-  "picked_object",
-  "pickup_dog",
-  "pimp",
-  "pinkeye",
-  "pinkeye_convoy1",
-  "pinkeye_convoy2",
-  "pinkeye_convoy3",
-  "pinkeye_threat_level_3_or_less",
-  "pinkeye_threat_level_4_or_5",
-  "pipe",
-  "pipes",
-  "pitch_dead_zone",
-  "pitch_limit_max",
-  "pitch_limit_min",
-  "pitch_max",
-  "pitch_min",
-  "pitch_sensitivity",
-  "pitch_speed",
-  "pitch_speed_side",
-  "pivot1",
-  "pivot2",
-  "placeholder",
-  "placeholder_ghost",
-  "plane_max",
-  "plane_min",
-  "platform",
-  "platforms",
-  "plattform_object",
-  "play_event",
-  "play_on_enabled",
-  "play_on_enter",
-  "play_on_load",
-  "playback_mode",
-  "player",
-  "player.bashes.barrel",
-  "player.seeked.shelter",
-  "playerBoostTriggered",
-  "playerVehicleHealth",
-  "player_abort_spline_behaviour",
-  "player_event",
-  "player_hit_effect_name",
-  "player_in_vehicle",
-  "player_on_enter_event",
-  "player_on_leave_event",
-  "player_raycast",
-  "player_shutoff_distance",
-  "player_trigger",
-  "point",
-  "point1_gui_id",
-  "point1_object",
-  "point2_gui_id",
-  "point2_object",
-  "point3_gui_id",
-  "point3_object",
-  "point4_gui_id",
-  "point4_object",
-  "point5_gui_id",
-  "point5_object",
-  "point6_gui_id",
-  "point6_object",
-  "point_a",
-  "point_at_end_of_ladder",
-  "point_b",
-  "point_c",
-  "point_d",
-  "point_e",
-  "point_f",
-  "point_light",
-  "point_to_run_to",
-  "polygon_points",
-  "pos_crow_dazzle_chair",
-  "pos_crow_dazzle_check",
-  "pos_crow_dazzle_race_platform",
-  "pose",
-  "positioned",
-  "post_delay",
-  "post_effects",
-  "pre_delay",
-  "pre_draw",
-  "pre_explode_time",
-  "prediction_grid_enabled",
-  "prepare_attack_event",
-  "prepare_resources_on_enabled",
-  "preset",
-  "preset_name",
-  "prev_event",
-  "previous_weather",
-  "prio",
-  "priority",
-  "probability",
-  "profile",
-  "project_id",
-  "project_to_terrain_far_resolution",
-  "project_to_terrain_far_size",
-  "project_to_terrain_far_update_time",
-  "project_to_terrain_mid_resolution",
-  "project_to_terrain_mid_size",
-  "project_to_terrain_mid_update_time",
-  "project_to_terrain_near_resolution",
-  "project_to_terrain_near_size",
-  "project_to_terrain_near_update_time",
-  "projected_texture",
-  "projected_texture_enabled",
-  "projected_texture_u_scale",
-  "projected_texture_v_scale",
-  "propagate_rotation",
-  "propagate_through_constraints",
-  "properties_texture",
-  "property_name",
-  "property_value",
-  "props",
-  "props_(removed_on_mission_complete)",
-  "proxy_state",
-  "push_in_length",
-  "push_in_start_height",
-  "push_up_hack_algorithm",
-  "push_up_hack_time_fraction_end",
-  "push_up_hack_time_fraction_start",
-  "push_up_height",
-  "push_up_inner_radius",
-  "push_up_outer_radius",
-  "queueable",
-  "race_fighter_blue",
-  "race_id",
-  "race_id_opus",
-  "race_teleports",
-  "radial_blur_factor",
-  "radial_blur_offset",
-  "radial_blur_pos_x",
-  "radial_blur_pos_y",
-  "radius",
-  "ragdoll",
-  "ragdoll_controlled_offset_activation_speed",
-  "ragdoll_controlled_offset_deactivation_speed",
-  "ragdoll_controlled_offset_vertical",
-  "ram_target_max_angle",
-  "rammerhead",
-  "rammingDamageScale",
-  "rammingPhysBoost",
-  "random_animation_offset_max",
-  "random_animation_offset_min",
-  "random_animation_speed_max",
-  "random_animation_speed_min",
-  "random_event",
-  "random_max",
-  "random_min",
-  "random_mode",
-  "random_probability",
-  "randomize_unique_indices",
-  "range",
-  "range_barking",
-  "range_based_spawn",
-  "range_based_spawn_spawn_range",
-  "range_crazy_howling",
-  "range_for_enter",
-  "range_howling",
-  "ranged_icon_show_event",
-  "rat_object",
-  "ray_hits_holey",
-  "ray_hits_seethrough",
-  "ray_thickness",
-  "raycast_angle",
-  "raycast_distance",
-  "raycaster",
-  "reaction_axis",
-  "reaction_delay",
-  "reaction_distance",
-  "realtime_refresh",
-  "rear_obstacle_count",
-  "reason_string_id",
-  "receive_events",
-  "receive_matrix_event",
-  "reconnect_constraints",
-  "redneckexpress",
-  "reel_acceleration",
-  "reel_in_event",
-  "reel_in_speed_scaling",
-  "reel_out_event",
-  "reel_out_speed_scaling",
-  "reel_speed",
-  "reel_stop_event",
-  "reelin_effect",
-  "reenable_collision_event",
-  "reenable_distance",
-  "reference_name",
-  "reflect_in_water",
-  "reflection_cube_map_index",
-  "reflection_scale",
-  "reflection_shadow_masking",
-  "reflections",
-  "reflectionsDelay",
-  "refueled_event",
-  "region_name",
-  "register_as_vehicle_activated_weapon",
-  "reinforce_when_below",
-  "reinforcement_spawning_completed",
-  "reinforcement_spawning_started",
-  "reinforcements",
-  "reject",
-  "relative_alias",
-  "relative_object",
-  "relay_event",
-  "relay_start_event",
-  "relay_stop_event",
-  "release_on_disabled",
-  "relic_id",
-  "reload_event",
-  "reload_physics_event",
-  "reload_time_base",
-  "reloadtime",
-  "remove_dot",
-  "remove_equipment",
-  "remove_on_unload",
-  "render_is_indoor",
-  "render_is_indoor_enabled",
-  "render_skybox_enabled",
-  "render_skybox_enabled_enabled",
-  "render_terrain_enabled",
-  "render_terrain_enabled_enabled",
-  "repairSpeed",
-  "replace_icon_alias",
-  "replenish_on_event",
-  "reposition_on_cooldown",
-  "request_item_event",
-  "requirement_id",
-  "reset",
-  "resetDialogue",
-  "reset_camera",
-  "reset_event",
-  "resetable",
-  "resolution",
-  "resource_EMPTY",
-  "resource_NOT_empty",
-  "resource_delta_consume",
-  "resource_look_ahead_frames",
-  "resource_look_before_end_frames",
-  "resource_object",
-  "resource_start_amount",
-  "resources",
-  "respawn_pos_00",
-  "respawn_pos_01",
-  "respawn_pos_02",
-  "respawn_pos_03",
-  "restLength",
-  "restart_event",
-  "restart_when_done",
-  "resting_dog",
-  "restitution",
-  "restock_act",
-  "restore_distance_without_movement",
-  "restore_health",
-  "restore_saved_event",
-  "retrigger_count",
-  "reuse_collision_group",
-  "reuse_collision_group_terrain",
-  "reveal_location_event",
-  "reverb",
-  "reverbDelay",
-  "reverbX.disable_event",
-  "reverbX.enable_event",
-  "reverbX_wet_level",
-  "reverb_instance_id",
-  "reverb_path_gain",
-  "reverse",
-  "revert_height_offset",
-  "revving_chainsaw_effect_1",
-  "revving_chainsaw_effect_2",
-  "reward_id",
-  "reward_number_0",
-  "reward_number_1",
-  "reward_number_2",
-  "rewind_event",
-  "rh_bloom_white_level",
-  "rh_white_level",
-  "right_slope",
-  "righthandikpos_x",
-  "righthandikpos_y",
-  "righthandikpos_z",
-  "righthandikrot_p",
-  "righthandikrot_r",
-  "righthandikrot_y",
-  "rigid_object",
-  "road_name",
-  "road_reservation_range",
-  "road_size_padding",
-  "road_type",
-  "roadboy",
-  "roaddog",
-  "roadgraph_enable",
-  "roadkill_warchief",
-  "roads",
-  "rocks",
-  "roll_effect_spawner",
-  "roll_speed",
-  "roof_time",
-  "room",
-  "roomHF",
-  "roomLF",
-  "roomRolloffFactor",
-  "room_10x0",
-  "room_15x15",
-  "room_20x20",
-  "room_disable",
-  "room_enable",
-  "room_type_off_event",
-  "room_type_on_event",
-  "rope",
-  "rope_length",
-  "rotate_instantly",
-  "rotate_towards_middle",
-  "rotate_towards_steering_wheel",
-  "rotation_acceleration",
-  "rotation_algorithm",
-  "rotation_axis",
-  "rotation_drag",
-  "rotation_time_fraction_end",
-  "rotation_time_fraction_start",
-  "roughness",
-  "rpm_drop",
-  "rpm_enter_infinite_gear_threshold",
-  "rpm_exit_infinite_gear_threshold",
-  "rpm_kickup",
-  "rumble",
-  "runner",
-  "s000",
-  "s001",
-  "s002",
-  "s003",
-  "s004",
-  "s005",
-  "sand_amount",
-  "sand_color_weight",
-  "sandskrappa",
-  "sandstorm_transform",
-  "save",
-  "save_loaded_state",
-  "save_position",
-  "scale",
-  "scale_speed_to_player",
-  "scan_radius",
-  "scans_per_frame",
-  "scarecrow_position",
-  "scavangers",
-  "scavenge_items",
-  "scene",
-  "scout",
-  "scout_distance_max",
-  "scout_distance_min",
-  "scout_radius",
-  "scouting_id",
-  "scrap",
-  "scrap_amount",
-  "scrap_depots",
-  "scrap_increase",
-  "scrap_resource",
-  "scrap_resource_ref",
-  "scrap_source_id",
-  "script",
-  "scriptFile",
-  "scriptGameObject",
-  "scriptfile",
-  "scripts",
-  "scrotus_warchief",
-  "search_parents",
-  "seaweed",
-  "second_cluster",
-  "second_gear_rpm_smoothing",
-  "second_light_bearing",
-  "second_light_color",
-  "second_light_falloff",
-  "second_light_height",
-  "second_light_multiplier_ambient",
-  "second_light_multiplier_diffuse",
-  "second_light_multiplier_specular",
-  "second_light_offset",
-  "secondary_bloom_dirt_amount",
-  "secondary_bloom_dirt_amount_wind",
-  "secondary_bloom_lighten",
-  "secondary_faction",
-  "segments",
-  "segments_override",
-  "semi_door",
-  "sendDisableMapIcon",
-  "sendEnableMapIcon",
-  "sendShowMapIcon",
-  "send_creation_msg",
-  "send_end_event",
-  "send_event",
-  "send_event_level_1",
-  "send_event_level_10",
-  "send_event_level_2",
-  "send_event_level_3",
-  "send_event_level_4",
-  "send_event_level_5",
-  "send_event_level_6",
-  "send_event_level_7",
-  "send_event_level_8",
-  "send_event_level_9",
-  "send_event_turn_off",
-  "send_event_unload_location",
-  "send_on_despawned",
-  "send_on_spawned",
-  "send_to_sound_module",
-  "send_wind_occlusion",
-  "sendmatrix",
-  "sensor_event",
-  "sensor_event_before_explosion",
-  "sensor_event_before_explosion_radius",
-  "sensor_event_on_explosion",
-  "sensor_event_on_explosion_radius",
-  "sensor_event_on_impact",
-  "sensor_event_on_impact_radius",
-  "sensor_event_radius",
-  "sensor_event_time_before_explosion",
-  "sequence",
-  "sequence_end_event",
-  "sequence_length",
-  "sequence_start_event",
-  "setMusic",
-  "set_convoy",
-  "set_deathrun_id_event",
-  "set_event",
-  "set_example_simple",
-  "set_exterior_lod_event",
-  "set_from_start",
-  "set_initial_state_on_execute",
-  "set_interior_lod_event",
-  "set_landmover_convoy",
-  "set_position",
-  "set_speed_event",
-  "set_speed_inherit",
-  "set_speed_on_enable",
-  "set_speed_parameter",
-  "set_state_false",
-  "set_state_true",
-  "set_time_event",
-  "set_unwield_bone_face",
-  "set_unwield_bone_hand",
-  "set_unwield_bone_none",
-  "setup",
-  "setup_location",
-  "setup_on_creation",
-  "shadow_bias0",
-  "shadow_bias1",
-  "shadow_bias2",
-  "shadow_bias_0",
-  "shadow_bias_1",
-  "shadow_bias_2",
-  "shadow_cascade_count",
-  "shadow_cascade_count_enabled",
-  "shadow_clip_distance",
-  "shadow_cull_size_far",
-  "shadow_cull_size_medium",
-  "shadow_cull_size_near",
-  "shadow_depth",
-  "shadow_depth_bias",
-  "shadow_depth_bias_enabled",
-  "shadow_depth_enabled",
-  "shadow_focus_alias",
-  "shadow_focus_alias_enabled",
-  "shadow_focus_max_distance",
-  "shadow_focus_offset0",
-  "shadow_focus_offset1",
-  "shadow_focus_offset2",
-  "shadow_focus_offset_0",
-  "shadow_focus_offset_1",
-  "shadow_focus_offset_2",
-  "shadow_focus_offset_far",
-  "shadow_focus_offset_medium",
-  "shadow_focus_offset_near",
-  "shadow_focus_seek_speed",
-  "shadow_radius0",
-  "shadow_radius1",
-  "shadow_radius2",
-  "shadow_radius_0",
-  "shadow_radius_0_cullsize",
-  "shadow_radius_0_cullsize_multiplier_curr_gen",
-  "shadow_radius_0_enabled",
-  "shadow_radius_0_multiplier_curr_gen",
-  "shadow_radius_1",
-  "shadow_radius_1_cullsize",
-  "shadow_radius_1_cullsize_multiplier_curr_gen",
-  "shadow_radius_1_enabled",
-  "shadow_radius_1_multiplier_curr_gen",
-  "shadow_radius_2",
-  "shadow_radius_2_cullsize",
-  "shadow_radius_2_cullsize_multiplier_curr_gen",
-  "shadow_radius_2_enabled",
-  "shadow_radius_2_multiplier_curr_gen",
-  "shadow_radius_far",
-  "shadow_radius_medium",
-  "shadow_radius_near",
-  "shadow_spotlight_maxcount",
-  "shadow_spotlight_maxcount_enabled",
-  "shadow_spotlight_nextgen_maxcount",
-  "shadow_spotlight_nextgen_maxcount_enabled",
-  "shadow_transparency",
-  "shadow_type",
-  "shadows_apply_mode",
-  "shanty",
-  "shape_trigger",
-  "shape_trigger_link",
-  "share_reverb_instance",
-  "shared",
-  "shared_logic",
-  "shatter_damage",
-  "shattering_stamina_base",
-  "shattering_stamina_level_1",
-  "shattering_stamina_level_2",
-  "shield_level",
-  "shiv_quantity",
-  "shortcuts",
-  "shortest_way",
-  "shotgun_ammo_quantity",
-  "should_show",
-  "show_common_upgrades",
-  "show_controller_event",
-  "show_debug_ranges",
-  "show_debugging_info",
-  "show_event",
-  "show_gps_event",
-  "show_on_distance",
-  "show_on_event",
-  "show_on_hud",
-  "show_on_infobox",
-  "show_on_overlay",
-  "show_out_of_fuel",
-  "show_refill_generator",
-  "show_when_aiming",
-  "showonevent",
-  "shutoff_object",
-  "side",
-  "sideRamDamageScale",
-  "side_area",
-  "side_compensate_factor",
-  "side_missions",
-  "sidemission_data",
-  "sideram_clamp_mass",
-  "sides",
-  "simple",
-  "singlewield_modifier",
-  "siren_enabled",
-  "size",
-  "size_x",
-  "size_y",
-  "size_z",
-  "skeleton",
-  "skeletons",
-  "skeltons",
-  "skid_effect_spawner",
-  "skin",
-  "skip_pathfinding",
-  "skybox",
-  "skybox_a_black_point",
-  "skybox_a_black_point_enabled",
-  "skybox_a_contrast",
-  "skybox_a_contrast_enabled",
-  "skybox_a_cube_map_index",
-  "skybox_a_cube_map_index_enabled",
-  "skybox_a_reflection_cube_map_index",
-  "skybox_a_reflection_cube_map_index_enabled",
-  "skybox_a_white_point",
-  "skybox_a_white_point_enabled",
-  "skybox_angle",
-  "skybox_apply_mode",
-  "skybox_b_black_point",
-  "skybox_b_black_point_enabled",
-  "skybox_b_contrast",
-  "skybox_b_contrast_enabled",
-  "skybox_b_cube_map_index",
-  "skybox_b_cube_map_index_enabled",
-  "skybox_b_reflection_cube_map_index",
-  "skybox_b_reflection_cube_map_index_enabled",
-  "skybox_b_white_point",
-  "skybox_b_white_point_enabled",
-  "skybox_bearing",
-  "skybox_bearing_enabled",
-  "skybox_bearing_offset",
-  "skybox_bearing_offset_enabled",
-  "skybox_black_point",
-  "skybox_center_offset",
-  "skybox_contrast",
-  "skybox_cube_map_index",
-  "skybox_eye_reflection_bearing",
-  "skybox_eye_reflection_bearing_enabled",
-  "skybox_eye_uses_cubemap",
-  "skybox_eye_uses_cubemap_enabled",
-  "skybox_fade",
-  "skybox_fade_enabled",
-  "skybox_fade_length",
-  "skybox_fade_length_enabled",
-  "skybox_reflection_scale",
-  "skybox_reflection_scale_enabled",
-  "skybox_reflection_shadow_masking",
-  "skybox_reflection_shadow_masking_enabled",
-  "skybox_white_point",
-  "slave_object",
-  "sleep_max_when_finished",
-  "sleep_min_when_finished",
-  "slide_acceleration",
-  "slide_deceleration",
-  "slide_velocity",
-  "slope_locked",
-  "slow_time_start_event",
-  "slow_time_stop_event",
-  "sludge",
-  "sm1030",
-  "sm3030",
-  "small_hud_message",
-  "small_stockpile_cost",
-  "smod_events_file",
-  "smoothing_enable",
-  "snap_position_to_navmesh",
-  "snap_to_road_distance",
-  "snap_to_road_ramp_distance",
-  "sniper",
-  "sniper_ammo_quantity",
-  "softness",
-  "solid_carve",
-  "sound",
-  "sound.main",
-  "sound_barking_interval",
-  "sound_controller_preset",
-  "sound_crazy_howling_interval",
-  "sound_creation_context",
-  "sound_empty_id",
-  "sound_fire_id",
-  "sound_growling_interval",
-  "sound_howling_interval",
-  "sound_id",
-  "sound_modulation_link",
-  "sound_module_name",
-  "sound_point_emitter_00_name",
-  "sound_point_emitter_00_tag",
-  "sound_point_emitter_01_tag",
-  "sound_point_emitter_02_tag",
-  "sound_point_emitter_03_tag",
-  "sound_preset_i_d",
-  "sound_preset_name",
-  "sound_set_fire",
-  "sound_sniffing_interval",
-  "sound_system_vocal_identifier",
-  "sound_union_min_impulse",
-  "sound_variable",
-  "soundbank",
-  "source_bone_name",
-  "source_heat",
-  "space",
-  "spaw_roadside",
-  "spawn.conditional",
-  "spawn.initial",
-  "spawn.reinforcements",
-  "spawn_and_load_truck",
-  "spawn_area_distance",
-  "spawn_area_radius_local_xz",
-  "spawn_area_radius_x",
-  "spawn_area_radius_z",
-  "spawn_cooldown_max",
-  "spawn_cooldown_min",
-  "spawn_delay",
-  "spawn_delay_curve_enabled",
-  "spawn_delay_high_multiplier",
-  "spawn_delay_high_time_max",
-  "spawn_delay_high_time_min",
-  "spawn_delay_low_multiplier",
-  "spawn_delay_low_time_max",
-  "spawn_delay_low_time_min",
-  "spawn_delay_max",
-  "spawn_delay_timer",
-  "spawn_delay_transition_time",
-  "spawn_dispense_item",
-  "spawn_distance",
-  "spawn_entities",
-  "spawn_entity",
-  "spawn_event",
-  "spawn_everything",
-  "spawn_id",
-  "spawn_initial",
-  "spawn_initial_velocity_spread",
-  "spawn_initial_wind_gain",
-  "spawn_lizard_chance",
-  "spawn_logic",
-  "spawn_max_initial_velocity",
-  "spawn_min_initial_velocity",
-  "spawn_object",
-  "spawn_object_collection",
-  "spawn_on_player",
-  "spawn_pickup",
-  "spawn_placement_strategy",
-  "spawn_points",
-  "spawn_priority",
-  "spawn_probability",
-  "spawn_rats_chance",
-  "spawn_rotation_speed_max",
-  "spawn_start_height_max",
-  "spawn_start_height_min",
-  "spawn_team",
-  "spawn_type",
-  "spawnable_transform",
-  "spawned",
-  "spawned_objects_ownership",
-  "spawning",
-  "spawning_enabled_from_start",
-  "spawnobjectcollection",
-  "spawns",
-  "spectators",
-  "speed",
-  "speed_at_45_turn",
-  "speed_at_90_turn",
-  "speed_is_under_event",
-  "speed_limit",
-  "speed_max",
-  "speed_min",
-  "speed_modifier",
-  "speed_threshold",
-  "speed_translation_xz",
-  "speed_translation_y",
-  "speed_translation_y_scale",
-  "speed_translation_y_scale_end",
-  "speed_translation_y_scale_start",
-  "spike_event",
-  "spike_increase_value",
-  "spiker",
-  "spin_spray_effect_spawner",
-  "spin_spray_reverse_effect_spawner",
-  "spline",
-  "spline_backwards",
-  "spline_end",
-  "spline_points",
-  "spline_spawn_trg",
-  "spline_start",
-  "splutterCycles",
-  "spoken_to_by_player",
-  "spotters",
-  "spread_angle",
-  "ssao_ambient_light_influence",
-  "ssao_ambient_light_influence_enabled",
-  "ssao_apply_mode",
-  "ssao_bias_factor_far",
-  "ssao_bias_factor_far_enabled",
-  "ssao_bias_factor_near",
-  "ssao_bias_factor_near_enabled",
-  "ssao_blur_amount",
-  "ssao_blur_amount_enabled",
-  "ssao_camera_light_influence",
-  "ssao_camera_light_influence_enabled",
-  "ssao_diffuse_light_influence",
-  "ssao_diffuse_light_influence_bias",
-  "ssao_diffuse_light_influence_enabled",
-  "ssao_dynamic_light_influence",
-  "ssao_dynamic_light_influence_bias",
-  "ssao_dynamic_light_influence_enabled",
-  "ssao_edge_sharpness",
-  "ssao_edge_sharpness_enabled",
-  "ssao_occlusion_falloff",
-  "ssao_occlusion_falloff_enabled",
-  "ssao_power_far",
-  "ssao_power_far_enabled",
-  "ssao_power_near",
-  "ssao_power_near_enabled",
-  "ssao_radius_far",
-  "ssao_radius_far_enabled",
-  "ssao_radius_near",
-  "ssao_radius_near_enabled",
-  "ssao_range",
-  "ssao_range_enabled",
-  "sss_multiplier",
-  "stability",
-  "stamina",
-  "stankgum_dude_killed",
-  "start",
-  "start.prompt",
-  "startBackCamera",
-  "startFrontCamera",
-  "startGraphCheck",
-  "start_as_active",
-  "start_as_disabled",
-  "start_azimuth",
-  "start_checking_for_speed",
-  "start_count",
-  "start_elevation",
-  "start_enabled",
-  "start_event",
-  "start_exhaust_blue_boost_lvl0_0",
-  "start_exhaust_blue_boost_lvl0_1",
-  "start_exhaust_blue_boost_lvl0_2",
-  "start_exhaust_blue_boost_lvl0_3",
-  "start_exhaust_blue_boost_lvl1_0",
-  "start_exhaust_blue_boost_lvl1_1",
-  "start_exhaust_blue_boost_lvl1_2",
-  "start_exhaust_blue_boost_lvl1_3",
-  "start_exhaust_blue_boost_lvl2_0",
-  "start_exhaust_blue_boost_lvl2_1",
-  "start_exhaust_blue_boost_lvl2_2",
-  "start_exhaust_blue_boost_lvl2_3",
-  "start_exhaust_boost_lvl0_0",
-  "start_exhaust_boost_lvl0_1",
-  "start_exhaust_boost_lvl0_2",
-  "start_exhaust_boost_lvl0_3",
-  "start_exhaust_boost_lvl1_0",
-  "start_exhaust_boost_lvl1_1",
-  "start_exhaust_boost_lvl1_2",
-  "start_exhaust_boost_lvl1_3",
-  "start_exhaust_boost_lvl2_0",
-  "start_exhaust_boost_lvl2_1",
-  "start_exhaust_boost_lvl2_2",
-  "start_exhaust_boost_lvl2_3",
-  "start_exhaust_damage",
-  "start_exhaust_damage_2",
-  "start_exhaust_damage_3",
-  "start_exhaust_damage_4",
-  "start_in_broken_state",
-  "start_mild_storm",
-  "start_pitch",
-  "start_send_event",
-  "start_storm",
-  "start_time",
-  "start_weather",
-  "start_yaw",
-  "started",
-  "starts_as_on",
-  "startup",
-  "state",
-  "state_aim",
-  "state_alerted",
-  "state_auto",
-  "state_combat",
-  "state_container",
-  "state_container_aim_state",
-  "state_container_data_highlight_targetting",
-  "state_container_data_slowmo",
-  "state_container_data_target_info",
-  "state_container_data_weapon",
-  "state_container_hooked_no_driver_state",
-  "state_container_hooked_state",
-  "state_explode",
-  "state_hooked",
-  "state_hooked_no_driver",
-  "state_idle",
-  "state_inactive",
-  "state_layer",
-  "state_machine",
-  "state_name",
-  "state_parry",
-  "state_pre_shoot",
-  "state_quickshoot",
-  "state_relaxed",
-  "state_reload",
-  "state_rollback",
-  "state_shoot",
-  "static_objects_only",
-  "static_pathfinding",
-  "static_pose",
-  "status_type",
-  "step_event",
-  "step_time_event",
-  "stinkwheel",
-  "stop",
-  "stopExitCameras",
-  "stop_alarm_interaction_event",
-  "stop_all_sounds_event",
-  "stop_evaluating",
-  "stop_event",
-  "stop_exhaust_boost",
-  "stop_exhaust_damage",
-  "stop_key_frame",
-  "stop_mild_storm",
-  "stop_on_exit",
-  "stop_send_event",
-  "stop_storm",
-  "store_in_logbook",
-  "storm.enter",
-  "storm_allowed_color",
-  "storm_group",
-  "storm_id",
-  "storm_unlock",
-  "stride",
-  "stronghold",
-  "stronghold_level",
-  "stronhold_level",
-  "structure",
-  "structures",
-  "style",
-  "sub_part1",
-  "sub_part2",
-  "subject_alias",
-  "subject_tag",
-  "subjectalias",
-  "subjectname",
-  "sulphurstorm.disable",
-  "sulphurstorm.enable",
-  "sun_apply_mode",
-  "sun_bounce_light_falloff",
-  "sun_bounce_light_intensity",
-  "sun_bounce_light_intensity_enabled",
-  "sun_bounce_light_occlusion_height",
-  "sun_bounce_light_secondary_intensity",
-  "sun_bounce_light_secondary_intensity_enabled",
-  "sun_diffuse",
-  "sun_diffuse_enabled",
-  "sun_diffuse_multiplier",
-  "sun_diffuse_multiplier_enabled",
-  "sun_diffuse_wind",
-  "sun_diffuse_wind_enabled",
-  "sun_halo_intensity",
-  "sun_halo_size",
-  "sun_influence_diffuse",
-  "sun_influence_multiplier",
-  "sun_lensflare_intensity",
-  "sun_position_bearing",
-  "sun_position_bearing_enabled",
-  "sun_position_height",
-  "sun_position_height_enabled",
-  "sun_specular",
-  "sun_specular_enabled",
-  "sun_specular_multiplier",
-  "sun_specular_multiplier_enabled",
-  "sun_texture_multiplier",
-  "surpress_mm1039_blocked_interaction_and_icon",
-  "suspension_not_pre_installed",
-  "suspension_pre_installed",
-  "sweep_sphere_offset",
-  "sweep_sphere_offset_2",
-  "sweep_sphere_radius",
-  "sweep_sphere_radius_2",
-  "swerving_damage_threshold_pct",
-  "tags",
-  "talk",
-  "target",
-  "target_alias",
-  "target_bone_name",
-  "target_bright_point",
-  "target_game_object",
-  "target_id",
-  "target_indicator",
-  "target_indicator_blend_end",
-  "target_indicator_blend_start",
-  "target_info",
-  "target_list_name",
-  "target_name",
-  "target_object",
-  "target_offset",
-  "target_radius",
-  "target_scan_distance",
-  "target_time",
-  "target_value",
-  "teleporting_object_alias",
-  "teleportmsg",
-  "teleportonevent",
-  "tender",
-  "tensileStrength",
-  "terrain",
-  "terrain_color_weight",
-  "terrain_detail_scale",
-  "test_disable",
-  "test_visibility",
-  "text",
-  "text_0",
-  "text_id",
-  "text_id0",
-  "text_id1",
-  "text_id2",
-  "texture_tiling",
-  "the_jack_attribute_check",
-  "the_jack_attribute_jeets_check",
-  "the_jack_attributes_jeets_false",
-  "the_jack_attributes_jeets_true",
-  "third_cluster",
-  "third_gear_rpm_smoothing",
-  "threat",
-  "threat_level_decreased_in_territory",
-  "threshold",
-  "throttle_override",
-  "thunder_cap_quantity",
-  "thunderstick_sweep_sphere_offset",
-  "thunderstick_trail_effect",
-  "tile_worldspace",
-  "tile_x",
-  "tile_y",
-  "tilt",
-  "tilt_acceleration",
-  "tilt_turn",
-  "tilt_turn_offset0",
-  "tilt_turn_offset1",
-  "tilt_velocity",
-  "time",
-  "time_activate_to_detonate",
-  "time_before_impact",
-  "time_before_target_switch",
-  "time_for_target_switch_interpolation",
-  "time_max",
-  "time_of_day",
-  "time_off",
-  "time_off_fade",
-  "time_on",
-  "time_on_fade",
-  "time_range_begin",
-  "time_range_end",
-  "time_that_max_has_to_be_away",
-  "time_to_add",
-  "time_to_blend_out_radial_blur",
-  "timelapse_multiplier",
-  "timelapse_to_next_weather",
-  "timer",
-  "timer_event",
-  "timer_reached",
-  "tireHealthComponent",
-  "tire_blowout_effect_spawner",
-  "tire_friction_scale",
-  "tire_rolling_resistance_coeff",
-  "tire_rolling_resistance_speed_coeff",
-  "tire_stiffness_scale",
-  "tires_not_pre_installed",
-  "tires_pre_installed",
-  "title_id",
-  "to_position_offset",
-  "toggle_show_current_time",
-  "tone_mapping_pg_exposure",
-  "tone_mapping_rh_bloom_white_level",
-  "tone_mapping_rh_white_level",
-  "tone_mapping_technique",
-  "tone_mapping_u2_linear_angle",
-  "tone_mapping_u2_linear_strength",
-  "tone_mapping_u2_shoulder_strength",
-  "tone_mapping_u2_toe_denominator",
-  "tone_mapping_u2_toe_numerator",
-  "tone_mapping_u2_toe_strength",
-  "tone_mapping_u2_white_level",
-  "tool_tip_off_event",
-  "tool_tip_on_event",
-  "tooltip_off",
-  "tooltip_on",
-  "top_dog",
-  "topdog",
-  "total_enemies",
-  "track",
-  "track_event_name",
-  "track_id",
-  "track_message",
-  "track_top",
-  "tracked_object_type",
-  "trail_effect",
-  "transition_far",
-  "transition_groups",
-  "transition_near",
-  "transition_on",
-  "transition_time",
-  "transition_variable_name",
-  "translation",
-  "translation_algorithm",
-  "translation_time_fraction_end",
-  "translation_time_fraction_start",
-  "transmission_not_pre_installed",
-  "transmission_pre_installed",
-  "trap",
-  "trap_triggered",
-  "traps",
-  "traversal",
-  "traversals",
-  "traverse_type",
-  "tree_type_name",
-  "trigger",
-  "trigger.prompt.event",
-  "triggerOnHealthPct",
-  "trigger_delay",
-  "trigger_distance",
-  "trigger_distance_shape",
-  "trigger_event",
-  "trigger_intent_distance",
-  "trigger_msg",
-  "trigger_primary_explosion",
-  "trigger_quality",
-  "trigger_secondary_explosion",
-  "trigger_shape",
-  "trimmed",
-  "true_event",
-  "tunnel",
-  "turbulence",
-  "turn_off",
-  "tutorial_category_id",
-  "tutorial_controller_setup_id",
-  "tutorial_extra_text_id",
-  "tutorials",
-  "twist_max",
-  "twist_min",
-  "type",
-  "type_of_second_target",
-  "type_of_target",
-  "u2_linear_angle",
-  "u2_linear_strength",
-  "u2_shoulder_strength",
-  "u2_toe_denominator",
-  "u2_toe_numerator",
-  "u2_toe_strength",
-  "u2_white_level",
-  "un_wield_bone",
-  "unaware_behavior",
-  "unbuff",
-  "underbelly_loading",
-  "underbelly_small_loading",
-  "underbodyDamageScale",
-  "underbodySpeedThreshold",
-  "underground",
-  "unique",
-  "unknown_protection",
-  "unlimited_ammo",
-  "unload",
-  "unload_event",
-  "unload_on_disabled",
-  "unlock",
-  "unlock_archangels",
-  "unlock_challenge_event",
-  "unlock_for_player_event",
-  "unpause_event",
-  "up_event",
-  "update_group",
-  "update_if_not_visible",
-  "update_joint_rotation",
-  "update_matrix_on_postinit",
-  "upgrade_color",
-  "upgrades_available_msg_text_id",
-  "upgrades_xls_file",
-  "urgency",
-  "usable_by_type_key",
-  "usage",
-  "use_animation_events",
-  "use_animation_modulation",
-  "use_car_combat_map",
-  "use_cutscene_assets",
-  "use_dynamic_content_generation",
-  "use_far_lod",
-  "use_highres_event_location",
-  "use_initial_offset_distance_in_prediction",
-  "use_local_damage_offset_from_part",
-  "use_material_override",
-  "use_push_up",
-  "use_random_multiplier",
-  "use_related_entries",
-  "use_round_nonuniform_spline",
-  "use_scale_only",
-  "use_scope_fresnel_effect",
-  "use_sound",
-  "use_special_balloon_hack",
-  "use_time_based_seek_speed",
-  "use_vehicle_fade",
-  "use_world_from_offset",
-  "use_world_to_offset",
-  "user_alias",
-  "user_id",
-  "user_type",
-  "useredge_character_layer",
-  "v001",
-  "v001_boombug",
-  "v002",
-  "v6_0",
-  "v6_1",
-  "v6_2",
-  "v6_3",
-  "v6_4",
-  "v6_5",
-  "v8_0",
-  "v8_1",
-  "v8_2",
-  "v8_3",
-  "v8_4",
-  "v8_5",
-  "v8_ref",
-  "valid",
-  "validation_reference",
-  "valuable_vehicles",
-  "value",
-  "value_float",
-  "vantagePointCompleted",
-  "vantage_point",
-  "variable_1_name",
-  "variable_1_value",
-  "variable_2_name",
-  "variable_2_value",
-  "variable_3_name",
-  "variable_3_value",
-  "variable_4_name",
-  "variable_4_value",
-  "variable_5_name",
-  "variable_5_value",
-  "variable_name",
-  "variable_on",
-  "variable_speed",
-  "variable_timeline",
-  "variable_update_event",
-  "variation",
-  "vehicle",
-  "vehicle_check_radius",
-  "vehicle_dmg_factor",
-  "vehicle_friendly_faction",
-  "vehicle_grace_period",
-  "vehicle_impulse_factor",
-  "vehicle_impulse_limit",
-  "vehicle_kill_immediately",
-  "vehicle_pardon_on_leave",
-  "vehicle_sets",
-  "vehicle_type",
-  "vehicles",
-  "vehicles_and_characters",
-  "vehicles_to_spawn",
-  "velocity",
-  "vengine",
-  "vengines",
-  "version",
-  "version_02",
-  "vertical_offset",
-  "vertical_split",
-  "vfx",
-  "viscosity",
-  "visible",
-  "visible_player_upgrades_event_proxies",
-  "visual_effects_apply_mode",
-  "visual_effects_bloom_contrast",
-  "visual_effects_bloom_contrast_enabled",
-  "visual_effects_bloom_lighten",
-  "visual_effects_bloom_lighten_enabled",
-  "visual_effects_bloom_saturation",
-  "visual_effects_bloom_saturation_enabled",
-  "visual_effects_bloom_threshold",
-  "visual_effects_bloom_threshold_enabled",
-  "visual_effects_blur",
-  "visual_effects_blur_enabled",
-  "visual_effects_color_tint",
-  "visual_effects_color_tint_enabled",
-  "visual_effects_dof_chromatic_aberration",
-  "visual_effects_dof_distance_end",
-  "visual_effects_dof_distance_end_enabled",
-  "visual_effects_dof_distance_start",
-  "visual_effects_dof_distance_start_enabled",
-  "visual_effects_dof_far_transition",
-  "visual_effects_dof_far_transition_enabled",
-  "visual_effects_dof_height_falloff",
-  "visual_effects_dof_height_falloff_enabled",
-  "visual_effects_dof_max_far",
-  "visual_effects_dof_max_far_enabled",
-  "visual_effects_dof_max_near",
-  "visual_effects_dof_max_near_enabled",
-  "visual_effects_dof_near_transition",
-  "visual_effects_dof_near_transition_enabled",
-  "visual_effects_heat_haze",
-  "visual_effects_heat_haze_distance",
-  "visual_effects_heat_haze_distance_enabled",
-  "visual_effects_heat_haze_enabled",
-  "visual_effects_heat_haze_height_falloff",
-  "visual_effects_heat_haze_height_falloff_enabled",
-  "visual_effects_heat_haze_wind_multiplier",
-  "visual_effects_heat_haze_wind_multiplier_enabled",
-  "visual_effects_motion_blur_factor",
-  "visual_effects_motion_blur_factor_enabled",
-  "visual_effects_radial_blur_factor",
-  "visual_effects_radial_blur_factor_enabled",
-  "visual_effects_radial_blur_offset",
-  "visual_effects_radial_blur_offset_enabled",
-  "visual_effects_radial_blur_pos_x",
-  "visual_effects_radial_blur_pos_y",
-  "visual_effects_secondary_bloom_dirt_amount",
-  "visual_effects_secondary_bloom_dirt_amount_enabled",
-  "visual_effects_secondary_bloom_dirt_amount_wind",
-  "visual_effects_secondary_bloom_dirt_amount_wind_enabled",
-  "visual_effects_secondary_bloom_lighten",
-  "visual_effects_secondary_bloom_lighten_enabled",
-  "visual_type",
-  "volume_fog_far",
-  "volume_fog_near",
-  "volume_intensity",
-  "volumetric",
-  "vpart",
-  "wait_for_fuel_in_car",
-  "walkways",
-  "walls",
-  "wanderer",
-  "warboy",
-  "warbuckler",
-  "warchief",
-  "warchief_camps",
-  "wardog",
-  "warning_intent",
-  "warp_to_road",
-  "warpup",
-  "wasteland_civileans_01",
-  "wasteland_special",
-  "wasteland_trader",
-  "water_amount_procentage_wanted",
-  "water_resource",
-  "watersources",
-  "wave_completed",
-  "wave_index",
-  "wave_started",
-  "weakspot",
-  "weapon",
-  "weapon_accuracy",
-  "weapon_item",
-  "weapons",
-  "weather",
-  "weather_id",
-  "weight",
-  "what_avoids",
-  "wheelHealthComponent",
-  "wheel_burning_effect_spawner",
-  "wheel_slot",
-  "whitebox_track",
-  "width",
-  "win64_resolution",
-  "wind_amplitude",
-  "wind_amplitude_enabled",
-  "wind_apply_mode",
-  "wind_autospin_factor",
-  "wind_bearing",
-  "wind_bearing_enabled",
-  "wind_damping",
-  "wind_factor",
-  "wind_fog_modulation",
-  "wind_fog_smoothing_rate",
-  "wind_maximum_amplitude",
-  "wind_maximum_amplitude_physics_multiplier",
-  "wind_modulator",
-  "wind_modulator_enabled",
-  "wind_noise_frequency",
-  "wind_on_prev_gen",
-  "wind_particle_modulation",
-  "wind_particle_modulation_delay",
-  "wind_percent",
-  "wind_sound",
-  "wind_sound_enabled",
-  "wind_sound_modulation_link",
-  "wind_sound_modulation_link_enabled",
-  "wind_turbulence",
-  "windows",
-  "wire_camp",
-  "wire_disabled_event",
-  "world",
-  "world_offset_bone",
-  "world_y",
-  "xls_file",
-  "yaw_dead_zone",
-  "yaw_limit",
-  "yaw_sensitivity",
-  "yaw_speed",
-  "zeroHealthHandler",
-  "zero_health_handler",
-  // --- hashed_tag entries from allhashes-no_objectid.hashc (145 entries) ---
-  "buggy",
-  "buzzard_blade_lizard",
-  "buzzard_boarder_patrol",
-  "buzzard_dragonfly",
-  "buzzard_dragonfly_armed",
-  "buzzard_dropkicker",
-  "buzzard_fire_raider",
-  "buzzard_ghost",
-  "buzzard_intro_leader",
-  "buzzard_medium_alt",
-  "buzzard_night_buckler",
-  "buzzard_night_lizard",
-  "buzzard_sand_skrappa",
-  "buzzard_sand_skrappa_armed",
-  "buzzard_spiker",
-  "buzzard_top_spike",
-  "camp_faction_influences",
-  "car_lift",
-  "cockalocka",
-  "convoy_data",
-  "convoy_leader",
-  "convoy_leader_driver",
-  "convoy_leader_small",
-  "convoy_pinkeye",
-  "convoy_truck",
-  "death_run_mo_park",
-  "death_run_player_race_start",
-  "deepfriah_faction",
-  "door_disabled",
-  "enc_placement_no_snap",
-  "exclude_weakspot_on_specified_snipe",
-  "explosive_barrel",
-  "flametank",
-  "flee_emitters_starting_near_flee",
-  "flee_emitters_visibly_fled",
-  "fueler",
-  "gaspagrope",
-  "gastown_faction",
-  "gastown_heavy",
-  "gastown_heavy2",
-  "gastown_light",
-  "gastown_light2",
-  "gastown_medium",
-  "gastown_medium2",
-  "gutgash_01_obstacles",
-  "gutgash_faction",
-  "gutnoose",
-  "hauler",
-  "highvaluevehicle_01",
-  "highvaluevehicle_02",
-  "highvaluevehicle_03",
-  "highvaluevehicle_04",
-  "highvaluevehicle_05",
-  "highvaluevehicle_06",
-  "hood_ornament_dialogue",
-  "hood_ornament_rigid_object",
-  "interceptor",
-  "introduce_me",
-  "jeet_faction",
-  "kingpin",
-  "landmover",
-  "lazy_chaser",
-  "loot_logic",
-  "pignsticker",
-  "pinkeye_faction",
-  "player_scrap",
-  "rimjobbie",
-  "roadkill_boom_bug",
-  "roadkill_boom_bug_db",
-  "roadkill_buckler",
-  "roadkill_crusher",
-  "roadkill_crusher_armored",
-  "roadkill_crusher_armored_heavy",
-  "roadkill_crusher_db",
-  "roadkill_dog",
-  "roadkill_feral_blaster",
-  "roadkill_fire_raider",
-  "roadkill_fire_raider_db",
-  "roadkill_killjumper",
-  "roadkill_metal_grinder",
-  "roadkill_metal_grinder_db",
-  "roadkill_pounder",
-  "roadkill_pup",
-  "roadkill_rammerhead",
-  "roadkill_rammerhead_db",
-  "roadkill_road_skrappa",
-  "roadkill_roadboy",
-  "roadkill_shanks",
-  "roadkill_skrappa",
-  "roadkill_sniper",
-  "roadkill_spotter",
-  "roadkill_spotter_armored",
-  "roadkill_spotter_armored_heavy",
-  "roadkill_spotter_db",
-  "roadkill_top_dog",
-  "roadkill_topdog",
-  "roadkill_wrench_dog",
-  "rockstar_atv",
-  "scrapulance",
-  "scrotus_bladeboy",
-  "scrotus_boarder_patrol",
-  "scrotus_boarder_patrol_db",
-  "scrotus_boomer",
-  "scrotus_buckler",
-  "scrotus_busterboy",
-  "scrotus_feral",
-  "scrotus_fire_raider",
-  "scrotus_fire_raider_db",
-  "scrotus_insignia",
-  "scrotus_jabberboy",
-  "scrotus_jumper",
-  "scrotus_mashpup",
-  "scrotus_metal_grinder",
-  "scrotus_metal_grinder_db",
-  "scrotus_rammerhead",
-  "scrotus_rammerhead_db",
-  "scrotus_ranger",
-  "scrotus_sniper",
-  "scrotus_spotter",
-  "scrotus_spotter_armored",
-  "scrotus_spotter_armored_heavy",
-  "scrotus_spotter_db",
-  "scrotus_top_dog",
-  "scrotus_topdog",
-  "scrotus_topdog1",
-  "scrotus_topdog2",
-  "scrotus_topdog3",
-  "scrotus_topdog4",
-  "scrotus_topdog5",
-  "scrotus_topdog6",
-  "scrotus_warboy",
-  "scrotus_warbuckler",
-  "scrotus_warcrier",
-  "scrotus_wardog",
-  "scrotus_warpup",
-  "shadow_exclude_parent",
-  "sm3030_truck",
-  "stankgum_warboy",
-  "stankgum_wardog",
-  "stankgum_warpup",
-  "stumpgrinder",
-  "targetting",
-  "thunderpoon_round",
-  "trajectory_warning",
-  "v8_carrier",
-];
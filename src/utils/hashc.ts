@@ -0,0 +1,32 @@
+/**
+ * Reader for .hashc hash dictionaries, which hold the strings the engine's
+ * name hashes are made from.
+ *
+ * Only ADF containers are read: the names are their string-hash table and
+ * string data. Hashes are recomputed with hashString, so only the strings
+ * are kept, and entries that don't decode as text are skipped.
+ *
+ * The layout of the game's own pc_key.hashc is not known here, so that file
+ * is not read yet; a .hashc in any layout but ADF is rejected. Its strings
+ * ship as a plain list instead (public/dictionaries/pc_key-strings.txt).
+ */
+
+import { AdfReader } from '../parser/adf-reader';
+
+const ADF_MAGIC = [0x41444620, 0x20464441];   // "ADF " in either byte order
+
+function isName(s: string): boolean {
+  return s.length > 0 && !/[\uFFFD\u0000-\u001F\u007F]/.test(s);
+}
+
+/** Names of a .hashc file, deduplicated, in file order */
+export function parseHashc(buffer: ArrayBuffer): string[] {
+  const magic = buffer.byteLength >= 4 ? new DataView(buffer).getUint32(0, true) : 0;
+  if (!ADF_MAGIC.includes(magic)) {
+    throw new Error('Unsupported .hashc layout: only ADF containers are read. Import the strings as a .txt list, one per line');
+  }
+  const adf = new AdfReader(buffer);
+  adf.parse();
+  const names = [...adf.stringHashes.map(sh => sh.value), ...adf.strings];
+  return [...new Set(names.filter(isName))];
+}
@@ -0,0 +1,239 @@
+/**
+ * Node schemas learned from existing graphs.
+ *
+ * Which pins and parameters a node class takes isn't stored anywhere but in
+ * the graphs that use it, so a schema records what the nodes of each class
+ * carry: function hash, root dataset name, pin names per category and the
+ * top-level parameters with a sample value and the range of values seen.
+ * Schemas learned from single files merge into a corpus-wide catalog (see
+ * schema-catalog.ts); new nodes are built from them.
+ */
+
+import type { GSrcFile, GSGraph, GSNode, GSDataSet, GSData } from '../types/graphscript';
+import { hashString, resolveHash } from './hash';
+import { getVariableValueType } from '../parser/gsrc-parser';
+import type { GlobalDataAllocator } from './data-allocator';
+import { decodeValue } from './value-codec';
+import { swapValueBytes } from './endian';
+
+const HASH_INPUT_PINS = hashString('input_pins');
+const HASH_OUTPUT_PINS = hashString('output_pins');
+const HASH_VARIABLE_PINS = hashString('variable_pins');
+const PIN_CATEGORIES = [HASH_INPUT_PINS, HASH_OUTPUT_PINS, HASH_VARIABLE_PINS];
+
+export interface ParameterSchema {
+  name: number;
+  type: number;
+  reference: boolean;
+  occurrences: number;  // Nodes of the class that have this parameter
+  sample: Uint8Array;   // First value seen, little-endian (unused for references)
+  min?: number;         // Range of the numeric values seen (not for references)
+  max?: number;
+}
+
+export interface NodeClassSchema {
+  classHash: number;
+  occurrences: number;
+  functionHashes: Record<number, number>;   // functionHash → times seen
+  rootNames: Record<number, number>;        // root dataset name → times seen
+  inputPins: number[];                      // Pin names, in first-seen order
+  outputPins: number[];
+  variablePins: number[];
+  variablePinTypes: Record<number, string[]>;   // Variable pin → value types of the variables bound to it
+  parameters: ParameterSchema[];
+}
+
+export type NodeSchemas = Map<number, NodeClassSchema>;
+
+function addUnique(list: number[], values: number[]): void {
+  for (const v of values) if (!list.includes(v)) list.push(v);
+}
+
+function addUniqueType(types: Record<number, string[]>, pin: number, type: string): void {
+  const list = types[pin] ?? (types[pin] = []);
+  if (!list.includes(type)) list.push(type);
+}
+
+function addCounts(into: Record<number, number>, from: Record<number, number>): void {
+  for (const [k, n] of Object.entries(from)) into[Number(k)] = (into[Number(k)] ?? 0) + n;
+}
+
+function pinNames(ds: GSDataSet, category: number): number[] {
+  return ds.dataSets.find(c => c.name === category)?.dataSets.map(p => p.name) ?? [];
+}
+
+function mostCommon(counts: Record<number, number>): number | undefined {
+  let best: number | undefined;
+  for (const [k, n] of Object.entries(counts)) if (best === undefined || n > counts[best]) best = Number(k);
+  return best;
+}
+
+function emptySchema(classHash: number): NodeClassSchema {
+  return { classHash, occurrences: 0, functionHashes: {}, rootNames: {}, inputPins: [], outputPins: [], variablePins: [], variablePinTypes: {}, parameters: [] };
+}
+
+/** Widen a parameter's range by `v` */
+function extendRange(p: ParameterSchema, v: number): void {
+  if (!Number.isFinite(v)) return;
+  p.min = p.min === undefined ? v : Math.min(p.min, v);
+  p.max = p.max === undefined ? v : Math.max(p.max, v);
+}
+
+/** Add what the nodes and variable bindings of a file carry to `schemas` (a new map when omitted) */
+export function learnNodeSchemas(file: GSrcFile, schemas: NodeSchemas = new Map()): NodeSchemas {
+  const le = file.littleEndian;
+  for (const node of file.graph.nodes) {
+    let s = schemas.get(node.classHash);
+    if (!s) {
+      s = emptySchema(node.classHash);
+      schemas.set(node.classHash, s);
+    }
+    s.occurrences++;
+    s.functionHashes[node.functionHash] = (s.functionHashes[node.functionHash] ?? 0) + 1;
+    s.rootNames[node.dataSet.name] = (s.rootNames[node.dataSet.name] ?? 0) + 1;
+    addUnique(s.inputPins, pinNames(node.dataSet, HASH_INPUT_PINS));
+    addUnique(s.outputPins, pinNames(node.dataSet, HASH_OUTPUT_PINS));
+    addUnique(s.variablePins, pinNames(node.dataSet, HASH_VARIABLE_PINS));
+    for (const d of node.dataSet.data) {
+      let p = s.parameters.find(x => x.name === d.name);
+      if (!p) {
+        p = { name: d.name, type: d.type, reference: d.reference, occurrences: 0, sample: le ? d.value.slice() : swapValueBytes(d) };
+        s.parameters.push(p);
+      }
+      p.occurrences++;
+      if (d.reference) continue;
+      const v = decodeValue(d._resolvedType ?? resolveHash(d.type), d.value, le);
+      if (typeof v === 'number') extendRange(p, v);
+      else if (typeof v === 'boolean') extendRange(p, v ? 1 : 0);
+    }
+  }
+  for (const c of file.connections) {
+    if (c.connectionType !== 'variable') continue;
+    const source = file.graph.nodes[c.sourceNodeIndex];
+    const target = schemas.get(file.graph.nodes[c.targetNodeIndex].classHash)!;
+    const cls = source._resolvedClass ?? resolveHash(source.classHash);
+    if (!/^(Variable|ExternalVariable|GlobalVariable)/.test(cls)) continue;
+    addUniqueType(target.variablePinTypes, c.targetInputPinHash, getVariableValueType(cls));
+  }
+  return schemas;
+}
+
+/** Merge the schemas of `from` into `into` (and return it); `from` is left untouched */
+export function mergeNodeSchemas(into: NodeSchemas, from: NodeSchemas): NodeSchemas {
+  for (const src of from.values()) {
+    let s = into.get(src.classHash);
+    if (!s) {
+      s = emptySchema(src.classHash);
+      into.set(src.classHash, s);
+    }
+    s.occurrences += src.occurrences;
+    addCounts(s.functionHashes, src.functionHashes);
+    addCounts(s.rootNames, src.rootNames);
+    addUnique(s.inputPins, src.inputPins);
+    addUnique(s.outputPins, src.outputPins);
+    addUnique(s.variablePins, src.variablePins);
+    for (const [pin, types] of Object.entries(src.variablePinTypes)) {
+      for (const t of types) addUniqueType(s.variablePinTypes, Number(pin), t);
+    }
+    for (const sp of src.parameters) {
+      const p = s.parameters.find(x => x.name === sp.name);
+      if (!p) {
+        s.parameters.push({ ...sp, sample: sp.sample.slice() });
+        continue;
+      }
+      p.occurrences += sp.occurrences;
+      if (sp.min !== undefined) extendRange(p, sp.min);
+      if (sp.max !== undefined) extendRange(p, sp.max);
+    }
+  }
+  return into;
+}
+
+/** Multi-line summary of a schema for tooltips */
+export function describeNodeSchema(s: NodeClassSchema): string {
+  const names = (pins: number[]) => pins.length > 0 ? pins.map(resolveHash).join(', ') : '-';
+  const typed = (pin: number) => s.variablePinTypes[pin] ? `${resolveHash(pin)} (${s.variablePinTypes[pin].join('|')})` : resolveHash(pin);
+  const fn = mostCommon(s.functionHashes);
+  const lines = [
+    `Seen ${s.occurrences}×${fn !== undefined && fn !== s.classHash ? `, function ${resolveHash(fn)}` : ''}`,
+    `in: ${names(s.inputPins)}`,
+    `out: ${names(s.outputPins)}`,
+    `var: ${s.variablePins.length > 0 ? s.variablePins.map(typed).join(', ') : '-'}`,
+  ];
+  for (const p of s.parameters) {
+    let line = `${resolveHash(p.name)}: ${resolveHash(p.type)}${p.reference ? ' (ref)' : ''}`;
+    if (p.min !== undefined && p.max !== undefined) line += p.min === p.max ? ` = ${p.min}` : ` ${p.min} … ${p.max}`;
+    if (p.occurrences < s.occurrences) line += ` [${p.occurrences}/${s.occurrences}]`;
+    lines.push(line);
+  }
+  return lines.join('\n');
+}
+
+/** Root dataset name used by most nodes of a graph (0 for an empty graph) */
+export function defaultRootName(graph: GSGraph): number {
+  const counts: Record<number, number> = {};
+  for (const n of graph.nodes) counts[n.dataSet.name] = (counts[n.dataSet.name] ?? 0) + 1;
+  return mostCommon(counts) ?? 0;
+}
+
+function pinCategory(name: number, pins: number[]): GSDataSet {
+  return { name, data: [], dataSets: pins.map(pin => ({ name: pin, data: [], dataSets: [], _resolvedName: resolveHash(pin) })), _resolvedName: resolveHash(name) };
+}
+
+function param(name: number, type: number, reference: boolean, value: Uint8Array): GSData {
+  return { name, type, value, count: value.length, reference, _resolvedName: resolveHash(name), _resolvedType: resolveHash(type) };
+}
+
+/** A learned parameter with its sample value in the file's byte order */
+function sampleParam(p: ParameterSchema, le: boolean): GSData {
+  const d = param(p.name, p.type, p.reference, p.sample.slice());
+  return le ? d : { ...d, value: swapValueBytes(d) };
+}
+
+/**
+ * Build a new GSNode of a class: pins and parameters from its schema when
+ * one was learned, an empty pin skeleton otherwise. Reference fields get
+ * fresh zeroed slots in the global data blob (`blob`), sized by type where
+ * known, so the new node never aliases another node's data.
+ */
+export function createNode(classHash: number, schema: NodeClassSchema | undefined, rootName: number, blob: GlobalDataAllocator, le: boolean): GSNode {
+  const className = resolveHash(classHash);
+  const isVariable = /^(Variable|ExternalVariable|GlobalVariable)/.test(className);
+
+  // A reference field holds the offset of its own value slot
+  const slot = (fieldName: number, type: string): Uint8Array => {
+    const name = resolveHash(fieldName);
+    const slotType = isVariable && name === 'Name' ? 'uint32' : isVariable && name === 'Value' ? getVariableValueType(className) : type;
+    const value = new Uint8Array(4);
+    new DataView(value.buffer).setUint32(0, blob.allocValue(slotType), le);
+    return value;
+  };
+
+  let data: GSData[];
+  if (schema) {
+    data = schema.parameters.map(p => param(p.name, p.type, p.reference,
+      p.reference && p.sample.length === 4 ? slot(p.name, resolveHash(p.type)) : sampleParam(p, le).value));
+  } else if (isVariable) {
+    // Variable nodes point Name and Value into the blob
+    const nameHash = hashString('Name');
+    const valueHash = hashString('Value');
+    data = [
+      param(nameHash, hashString('uint32'), true, slot(nameHash, 'uint32')),
+      param(valueHash, hashString(getVariableValueType(className)), true, slot(valueHash, '')),
+    ];
+  } else {
+    data = [];
+  }
+
+  const pins = [schema?.inputPins ?? [], schema?.outputPins ?? [], schema?.variablePins ?? []];
+  const dataSets = PIN_CATEGORIES.map((category, i) => pinCategory(category, pins[i]));
+  const functionHash = schema ? mostCommon(schema.functionHashes) ?? 0 : classHash;
+  const root = schema ? mostCommon(schema.rootNames) ?? rootName : rootName;
+
+  return {
+    classHash,
+    functionHash,
+    dataSet: { name: root, data, dataSets, _resolvedName: resolveHash(root) },
+    _resolvedClass: className,
+  };
+}
@@ -0,0 +1,149 @@
+/**
+ * Schema catalog: node schemas learned from a corpus of .gsrc files, as JSON.
+ *
+ * Built by `gsrc catalog` and loaded by the editor, which uses it for the
+ * node palette defaults and tooltips and for validation. Hashes appear as
+ * their number (authoritative) next to the resolved name, as in GSRC-JSON.
+ * Sample values are little-endian hex whatever the byte order of the files.
+ *
+ *   {
+ *     "format": "gsrc-schema-catalog", "version": 1, "files": 12,
+ *     "classes": [CatalogClass...]
+ *   }
+ */
+
+import { resolveHash } from './hash';
+import type { NodeSchemas, NodeClassSchema, ParameterSchema } from './node-schema';
+
+export const SCHEMA_CATALOG_FORMAT = 'gsrc-schema-catalog';
+export const SCHEMA_CATALOG_VERSION = 1;
+
+export interface SchemaCatalogDocument {
+  format: typeof SCHEMA_CATALOG_FORMAT;
+  version: number;
+  files: number;              // Number of files the catalog was learned from
+  classes: CatalogClass[];
+}
+
+export interface CatalogHash {
+  name: string;
+  hash: number;
+}
+
+export interface CatalogClass {
+  class: string;
+  classHash: number;
+  occurrences: number;
+  functions: (CatalogHash & { count: number })[];   // Most common first
+  roots: (CatalogHash & { count: number })[];       // Root dataset names, most common first
+  inputPins: CatalogHash[];
+  outputPins: CatalogHash[];
+  variablePins: (CatalogHash & { types?: string[] })[];   // Value types of the variables bound to the pin
+  parameters: CatalogParameter[];
+}
+
+export interface CatalogParameter {
+  name: string;
+  nameHash: number;
+  type: string;
+  typeHash: number;
+  reference: boolean;
+  occurrences: number;
+  sample: string;             // Hex bytes, little-endian
+  min?: number;
+  max?: number;
+}
+
+function named(hash: number): CatalogHash {
+  return { name: resolveHash(hash), hash };
+}
+
+function countsToJson(counts: Record<number, number>): (CatalogHash & { count: number })[] {
+  return Object.entries(counts)
+    .map(([k, count]) => ({ ...named(Number(k)), count }))
+    .sort((a, b) => b.count - a.count || a.hash - b.hash);
+}
+
+function countsFromJson(list: (CatalogHash & { count: number })[]): Record<number, number> {
+  const out: Record<number, number> = {};
+  for (const e of list) out[e.hash] = e.count;
+  return out;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: string, path: string): Uint8Array {
+  if (hex.length % 2 !== 0 || /[^0-9a-f]/i.test(hex)) throw new Error(`${path}: invalid hex bytes`);
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  return bytes;
+}
+
+// ---- Export ----
+
+function parameterToJson(p: ParameterSchema): CatalogParameter {
+  const out: CatalogParameter = {
+    name: resolveHash(p.name), nameHash: p.name, type: resolveHash(p.type), typeHash: p.type,
+    reference: p.reference, occurrences: p.occurrences, sample: toHex(p.sample),
+  };
+  if (p.min !== undefined) out.min = p.min;
+  if (p.max !== undefined) out.max = p.max;
+  return out;
+}
+
+export function schemasToCatalog(schemas: NodeSchemas, files: number): SchemaCatalogDocument {
+  const classes = [...schemas.values()].map((s): CatalogClass => ({
+    class: resolveHash(s.classHash),
+    classHash: s.classHash,
+    occurrences: s.occurrences,
+    functions: countsToJson(s.functionHashes),
+    roots: countsToJson(s.rootNames),
+    inputPins: s.inputPins.map(named),
+    outputPins: s.outputPins.map(named),
+    variablePins: s.variablePins.map(pin => s.variablePinTypes[pin] ? { ...named(pin), types: s.variablePinTypes[pin] } : named(pin)),
+    parameters: s.parameters.map(parameterToJson),
+  }));
+  classes.sort((a, b) => a.class.localeCompare(b.class) || a.classHash - b.classHash);
+  return { format: SCHEMA_CATALOG_FORMAT, version: SCHEMA_CATALOG_VERSION, files, classes };
+}
+
+export function stringifySchemaCatalog(schemas: NodeSchemas, files: number): string {
+  return `${JSON.stringify(schemasToCatalog(schemas, files), null, 2)}\n`;
+}
+
+// ---- Import ----
+
+function classFromJson(c: CatalogClass, i: number): NodeClassSchema {
+  const path = `classes[${i}]`;
+  if (typeof c?.classHash !== 'number' || !Array.isArray(c.parameters)) throw new Error(`${path}: not a catalog class`);
+  return {
+    classHash: c.classHash >>> 0,
+    occurrences: c.occurrences,
+    functionHashes: countsFromJson(c.functions ?? []),
+    rootNames: countsFromJson(c.roots ?? []),
+    inputPins: (c.inputPins ?? []).map(p => p.hash),
+    outputPins: (c.outputPins ?? []).map(p => p.hash),
+    variablePins: (c.variablePins ?? []).map(p => p.hash),
+    variablePinTypes: Object.fromEntries((c.variablePins ?? []).filter(p => p.types).map(p => [p.hash, [...p.types!]])),
+    parameters: c.parameters.map((p, j): ParameterSchema => ({
+      name: p.nameHash, type: p.typeHash, reference: p.reference, occurrences: p.occurrences,
+      sample: fromHex(p.sample ?? '', `${path}.parameters[${j}].sample`), min: p.min, max: p.max,
+    })),
+  };
+}
+
+/** Parse catalog JSON text back into schemas */
+export function parseSchemaCatalog(text: string): { schemas: NodeSchemas; files: number } {
+  const doc = JSON.parse(text) as SchemaCatalogDocument;
+  if (doc?.format !== SCHEMA_CATALOG_FORMAT) throw new Error('Not a schema catalog');
+  if (doc.version !== SCHEMA_CATALOG_VERSION) throw new Error(`Unsupported schema catalog version ${doc.version}`);
+  if (!Array.isArray(doc.classes)) throw new Error('Not a schema catalog: no class list');
+  const schemas: NodeSchemas = new Map();
+  doc.classes.forEach((c, i) => {
+    const s = classFromJson(c, i);
+    schemas.set(s.classHash, s);
+  });
+  return { schemas, files: doc.files };
+}
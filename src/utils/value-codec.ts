@@ -0,0 +1,141 @@
+/**
+ * Typed encode/decode of raw GSData value bytes.
+ *
+ * Values are stored in the file's byte order; the type names are the
+ * resolved GSData type hashes (float, int, uint32, ...). 64-bit integers are
+ * carried as decimal strings so they survive JSON and plain JS numbers.
+ */
+
+import { lookupHash, type HashNamespace } from './hash';
+
+export type TypedValue = number | boolean | string | number[];
+
+/** Byte size of each fixed-size value type */
+export const VALUE_TYPE_SIZES: Record<string, number> = {
+  float: 4,
+  int: 4,
+  uint32: 4,
+  enum: 4,
+  bool: 1,
+  int64: 8,
+  uint64: 8,
+  vector: 16,
+};
+
+/** Shortest decimal that reads back as the same float32 */
+export function formatFloat32(v: number): string {
+  for (let p = 1; p <= 9; p++) {
+    const s = String(Number(v.toPrecision(p)));
+    if (Math.fround(Number(s)) === v) return s;
+  }
+  return String(v);
+}
+
+const utf8Decoder = new TextDecoder('utf-8', { fatal: true });
+const utf8Encoder = new TextEncoder();
+
+/** Decode value bytes of the given type, or undefined if the bytes don't hold exactly one such value */
+export function decodeValue(type: string, bytes: Uint8Array, le: boolean): TypedValue | undefined {
+  const size = VALUE_TYPE_SIZES[type];
+  if (size !== undefined && bytes.length !== size) return undefined;
+  const dv = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  switch (type) {
+    case 'float': return dv.getFloat32(0, le);
+    case 'int':
+    case 'enum': return dv.getInt32(0, le);
+    case 'uint32': return dv.getUint32(0, le);
+    case 'bool': return bytes[0] === 0 ? false : bytes[0] === 1 ? true : undefined;
+    case 'int64': return dv.getBigInt64(0, le).toString();
+    case 'uint64': return dv.getBigUint64(0, le).toString();
+    case 'vector': return [0, 4, 8, 12].map(o => dv.getFloat32(o, le));
+    case 'string':
+    case 'string_ptr':
+      try { return utf8Decoder.decode(bytes); } catch { return undefined; }
+  }
+  return undefined;
+}
+
+/** Encode a typed value back to bytes. Throws if the value doesn't fit the type. */
+export function encodeValue(type: string, value: TypedValue, le: boolean): Uint8Array {
+  if (type === 'string' || type === 'string_ptr') {
+    if (typeof value !== 'string') throw new Error(`Expected a string for ${type}`);
+    return utf8Encoder.encode(value);
+  }
+  const size = VALUE_TYPE_SIZES[type];
+  if (size === undefined) throw new Error(`Unknown value type: ${type}`);
+  const bytes = new Uint8Array(size);
+  const dv = new DataView(bytes.buffer);
+  const num = (v: TypedValue): number => {
+    if (typeof v !== 'number') throw new Error(`Expected a number for ${type}`);
+    return v;
+  };
+  switch (type) {
+    case 'float': dv.setFloat32(0, num(value), le); break;
+    case 'int':
+    case 'enum': dv.setInt32(0, num(value), le); break;
+    case 'uint32': dv.setUint32(0, num(value) >>> 0, le); break;
+    case 'bool':
+      if (typeof value !== 'boolean') throw new Error('Expected true or false for bool');
+      bytes[0] = value ? 1 : 0;
+      break;
+    case 'int64': dv.setBigInt64(0, BigInt(String(value)), le); break;
+    case 'uint64': dv.setBigUint64(0, BigInt(String(value)), le); break;
+    case 'vector':
+      if (!Array.isArray(value) || value.length !== 4) throw new Error('Expected four components for vector');
+      value.forEach((c, i) => dv.setFloat32(i * 4, num(c), le));
+      break;
+  }
+  return bytes;
+}
+
+/** JSON keeps finite numbers only, and writes -0 as 0 */
+function jsonSafe(value: TypedValue): boolean {
+  const ok = (n: number) => Number.isFinite(n) && !Object.is(n, -0);
+  if (typeof value === 'number') return ok(value);
+  if (Array.isArray(value)) return value.every(ok);
+  return true;
+}
+
+/**
+ * Typed form of the bytes, only if it survives JSON and encodes back to the
+ * same bytes. NaN/infinite floats, -0 and invalid UTF-8 return undefined.
+ */
+export function decodeValueExact(type: string, bytes: Uint8Array, le: boolean): TypedValue | undefined {
+  const value = decodeValue(type, bytes, le);
+  if (value === undefined || !jsonSafe(value)) return undefined;
+  try {
+    const again = encodeValue(type, value, le);
+    return again.length === bytes.length && again.every((b, i) => b === bytes[i]) ? value : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Name a hash value shows in text. A name only the global dictionary has
+ * (see lookupHash) may be a chance match, so it is marked: `≈name`.
+ */
+export function formatHashValue(hash: number, namespace: HashNamespace | null): string {
+  const { name, guess } = lookupHash('value', hash, namespace);
+  return guess ? `≈${name}` : name;
+}
+
+/** Short display string for value bytes, as shown on nodes and searched */
+export function formatValue(type: string, bytes: Uint8Array, le: boolean, namespace: HashNamespace | null = null): string {
+  if (bytes.length === 0) return '(empty)';
+  const dv = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  try {
+    if (type === 'float' && bytes.length >= 4) return dv.getFloat32(0, le).toFixed(4);
+    if (type === 'int' && bytes.length >= 4) return dv.getInt32(0, le).toString();
+    if (type === 'uint32' && bytes.length >= 4) { const v = dv.getUint32(0, le); const r = formatHashValue(v, namespace); return r.startsWith('0x') ? v.toString() : `${v} (${r})`; }
+    if (type === 'string_hash' && bytes.length >= 4) return formatHashValue(dv.getUint32(0, le), namespace);
+    if (type === 'bool' && bytes.length >= 1) return bytes[0] ? 'true' : 'false';
+    if (type === 'int64' && bytes.length >= 8) return dv.getBigInt64(0, le).toString();
+    if (type === 'uint64' && bytes.length >= 8) return dv.getBigUint64(0, le).toString();
+    if (type === 'vector' && bytes.length >= 16) return `(${dv.getFloat32(0, le).toFixed(2)}, ${dv.getFloat32(4, le).toFixed(2)}, ${dv.getFloat32(8, le).toFixed(2)}, ${dv.getFloat32(12, le).toFixed(2)})`;
+    if (type === 'enum' && bytes.length >= 4) return dv.getInt32(0, le).toString();
+    if ((type === 'string' || type === 'string_ptr') && bytes.length > 0) return new TextDecoder().decode(bytes);
+  } catch {}
+  const hex = Array.from(bytes.subarray(0, Math.min(16, bytes.length))).map(b => b.toString(16).padStart(2, '0')).join(' ');
+  return bytes.length > 16 ? `${hex}...` : hex;
+}